@@ -15,4 +15,14 @@ module.exports = {
       { allowConstantExport: true },
     ],
   },
+  overrides: [
+    {
+      // The Socket.IO/AI server entry point is CommonJS run by Node
+      files: ['server/**/*.js'],
+      env: { browser: false, node: true },
+      rules: {
+        '@typescript-eslint/no-var-requires': 'off',
+      },
+    },
+  ],
 }
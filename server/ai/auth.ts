@@ -0,0 +1,85 @@
+import type { Request, Response, NextFunction } from 'express';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { errorMessage } from './rows';
+
+const SUPABASE_URL = process.env.SUPABASE_URL || '';
+const SUPABASE_ANON_KEY = process.env.SUPABASE_ANON_KEY || '';
+
+// A request that passed requireUser: the caller and a client acting as them
+export interface AuthedRequest extends Request {
+  user: { id: string; email?: string };
+  supabase: SupabaseClient;
+}
+
+export type AuthedHandler = (req: AuthedRequest, res: Response) => Promise<unknown>;
+
+// Handler for routes mounted behind requireUser; async errors go to the router's error handler
+export const authedHandler = (handler: AuthedHandler) => (req: Request, res: Response, next: NextFunction) => {
+  handler(req as AuthedRequest, res).catch(next);
+};
+
+// Supabase client that acts as the caller, so row level security still applies
+const createUserClient = (accessToken: string) => createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+  global: { headers: { Authorization: `Bearer ${accessToken}` } },
+  auth: { persistSession: false, autoRefreshToken: false }
+});
+
+// The background jobs have no end user, so they use the service role and bypass row level security
+export const createServiceClient = () => createClient(SUPABASE_URL, process.env.SUPABASE_SERVICE_ROLE_KEY || '', {
+  auth: { persistSession: false, autoRefreshToken: false }
+});
+
+// Verify the Supabase access token sent as a bearer token
+export const requireUser = async (req: Request, res: Response, next: NextFunction) => {
+  const header = req.headers.authorization || '';
+  const token = header.startsWith('Bearer ') ? header.slice(7) : '';
+
+  if (!token) {
+    return res.status(401).json({ success: false, error: 'Missing access token' });
+  }
+
+  if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
+    console.error('SUPABASE_URL and SUPABASE_ANON_KEY must be set for the AI endpoints');
+    return res.status(500).json({ success: false, error: 'Server authentication is not configured' });
+  }
+
+  try {
+    const supabase = createUserClient(token);
+    const { data, error } = await supabase.auth.getUser(token);
+
+    if (error || !data.user) {
+      return res.status(401).json({ success: false, error: 'Invalid or expired access token' });
+    }
+
+    Object.assign(req, { user: { id: data.user.id, email: data.user.email }, supabase });
+    next();
+  } catch (error) {
+    console.error('Token verification failed:', errorMessage(error));
+    res.status(401).json({ success: false, error: 'Invalid or expired access token' });
+  }
+};
+
+export const isClassTeacher = async (supabase: SupabaseClient, userId: string, classId: string) => {
+  const { data, error } = await supabase
+    .from('classes')
+    .select('teacher_id')
+    .eq('id', classId)
+    .single();
+
+  return !error && data?.teacher_id === userId;
+};
+
+export const isClassMember = async (supabase: SupabaseClient, userId: string, classId: string) => {
+  if (await isClassTeacher(supabase, userId, classId)) {
+    return true;
+  }
+
+  const { data, error } = await supabase
+    .from('class_members')
+    .select('id')
+    .eq('class_id', classId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  return !error && !!data;
+};
@@ -0,0 +1,570 @@
+import { generateWithProviders, getFallbackChain, ProviderAttempt } from './providers';
+import {
+  RubricCriterion,
+  CriterionScore,
+  calculateRubricPercentage,
+  clampCriterionScore,
+  formatRubricForPrompt
+} from '../../shared/rubric';
+import {
+  AssignmentQuestion,
+  QuestionResponses,
+  QuestionScore,
+  clampQuestionScore,
+  formatQuestionsForPrompt,
+  formatResponsesAsText,
+  gradeObjectiveQuestion,
+  isObjectiveQuestion,
+  segmentAnswersByQuestion,
+  totalQuestionMarks
+} from '../../shared/questions';
+import {
+  GeneratedQuestion,
+  GENERATED_DOCUMENT_SCHEMA,
+  renderGeneratedDocument,
+  scaleGeneratedMarks,
+  validateGeneratedDocument
+} from '../../shared/generatedDocument';
+import {
+  MaterialChunk,
+  MaterialText,
+  chunkMaterials,
+  formatChunksForPrompt,
+  selectChunksWithinBudget
+} from '../../shared/materialChunks';
+
+// Error raised when the AI grader returns output that cannot be turned into a valid grade
+export class GradingError extends Error {
+  code: 'INVALID_RESPONSE' | 'INVALID_SCORE';
+  rawResponse?: string;
+  attempts?: ProviderAttempt[];
+
+  constructor(message: string, code: 'INVALID_RESPONSE' | 'INVALID_SCORE', rawResponse?: string, attempts?: ProviderAttempt[]) {
+    super(message);
+    this.name = 'GradingError';
+    this.code = code;
+    this.rawResponse = rawResponse;
+    this.attempts = attempts;
+  }
+}
+
+export interface GradeSubmissionResult {
+  success: boolean;
+  grade: number;
+  feedback: string;
+  strengths: string;
+  improvements: string;
+  criterion_scores: CriterionScore[];
+  question_scores: QuestionScore[];
+  raw_score: number;
+  raw_score_max: number;
+  final_marks: number;
+  max_marks: number;
+  percentage: number;
+  was_clamped: boolean;
+  review: string;
+  graded_at: string;
+  grading_mode: string;
+  provider: string;
+  model: string;
+  attempts: ProviderAttempt[];
+  message: string;
+}
+
+// Strip markdown code fences the models like to wrap JSON in
+const cleanJsonResponse = (response: string) => {
+  let cleanedResult = response.trim();
+  if (cleanedResult.startsWith('```json')) {
+    cleanedResult = cleanedResult.slice(7);
+  } else if (cleanedResult.startsWith('```')) {
+    cleanedResult = cleanedResult.slice(3);
+  }
+  if (cleanedResult.endsWith('```')) {
+    cleanedResult = cleanedResult.slice(0, -3);
+  }
+  return cleanedResult.trim();
+};
+
+// Raised when generated documents still fail schema validation after every repair attempt
+export class GenerationError extends Error {
+  rawResponse?: string;
+  validationErrors: string[];
+
+  constructor(message: string, validationErrors: string[], rawResponse?: string) {
+    super(message);
+    this.name = 'GenerationError';
+    this.validationErrors = validationErrors;
+    this.rawResponse = rawResponse;
+  }
+}
+
+// Resolve the excerpt label a question cites to its material and page
+const attachCitation = (question: GeneratedQuestion, chunks: MaterialChunk[]): GeneratedQuestion => {
+  const chunk = chunks.find(item => item.label === question.source);
+  return chunk
+    ? { ...question, citation: { material_id: chunk.material_id, material_title: chunk.material_title, page: chunk.page } }
+    : question;
+};
+
+// One first try plus repair retries that show the model its previous output and what was wrong with it
+const MAX_GENERATION_ATTEMPTS = 3;
+
+// How much class material text goes into one generation prompt
+const MATERIAL_CONTEXT_CHARS = Number(process.env.AI_MATERIAL_CONTEXT_CHARS) || 24000;
+
+// AI document generation through the provider fallback chain, returned as a validated structured document.
+// With class materials, the questions are grounded in excerpts of them and cite the excerpt they came from.
+export const generateDocument = async (prompt: string, maxMarks = 100, daysUntilDue = 7, materials: MaterialText[] = []) => {
+  const chunks = selectChunksWithinBudget(chunkMaterials(materials), MATERIAL_CONTEXT_CHARS);
+  const sourceLabels = chunks.map(chunk => chunk.label);
+
+  const materialSection = chunks.length > 0 ? `
+
+Base every question on the class material excerpts below and do not ask about anything they don't cover.
+Each question must also have a "source" field holding the label of the excerpt it is based on, e.g. "${chunks[0].label}".
+
+Class material excerpts:
+${formatChunksForPrompt(chunks)}` : '';
+
+  const basePrompt = `Generate an educational assignment based on the following requirements:
+
+Topic/Subject: ${prompt}
+Maximum Marks: ${maxMarks}
+Days Until Due: ${daysUntilDue}
+
+The assignment must include clear instructions for students, specific questions with marks that add up to exactly ${maxMarks}, grading criteria and expected learning outcomes.${materialSection}
+
+Respond with ONLY a JSON object in this exact shape, with no text before or after it:
+${GENERATED_DOCUMENT_SCHEMA}`;
+
+  let currentPrompt = basePrompt;
+  let lastText = '';
+  let lastErrors: string[] = [];
+
+  for (let attempt = 1; attempt <= MAX_GENERATION_ATTEMPTS; attempt++) {
+    const result = await generateWithProviders(currentPrompt);
+    lastText = result.text;
+
+    let parsed: unknown = null;
+    try {
+      parsed = JSON.parse(cleanJsonResponse(result.text));
+    } catch {
+      lastErrors = ['the response is not valid JSON'];
+    }
+
+    if (parsed !== null) {
+      const validation = validateGeneratedDocument(parsed, maxMarks, sourceLabels);
+      lastErrors = validation.errors;
+
+      if (validation.errors.length === 0) {
+        // Marks that don't add up are rescaled here rather than spending another model call
+        const scaled = validation.marksMismatch ? scaleGeneratedMarks(validation.document, maxMarks) : validation.document;
+        const document = { ...scaled, questions: scaled.questions.map(question => attachCitation(question, chunks)) };
+        console.log(`Generated document via ${result.provider} on attempt ${attempt}${validation.marksMismatch ? ' (marks rescaled)' : ''}`);
+
+        return {
+          success: true,
+          document,
+          generated_content: renderGeneratedDocument(document),
+          marks_rescaled: validation.marksMismatch,
+          material_excerpts_used: chunks.length,
+          generation_attempts: attempt,
+          max_marks: maxMarks,
+          days_until_due: daysUntilDue,
+          provider: result.provider,
+          message: 'Assignment generated successfully'
+        };
+      }
+    }
+
+    console.warn(`Generated document failed validation on attempt ${attempt}:`, lastErrors.join('; '));
+    currentPrompt = `${basePrompt}
+
+Your previous response was rejected because: ${lastErrors.join('; ')}.
+Previous response:
+${lastText.slice(0, 4000)}
+
+Return the corrected JSON object only.`;
+  }
+
+  throw new GenerationError(
+    `Generated assignment did not match the expected structure after ${MAX_GENERATION_ATTEMPTS} attempts: ${lastErrors.join('; ')}`,
+    lastErrors,
+    lastText
+  );
+};
+
+// Model answers for an assignment
+export const generateAnswers = async (assignmentContent: string, maxMarks = 100) => {
+  const prompt = `Based on the following assignment, generate comprehensive model answers:
+
+Assignment Content:
+${assignmentContent}
+
+Maximum Marks: ${maxMarks}
+
+Please provide:
+1. Complete model answers for all questions/tasks
+2. Key points that should be covered
+3. Marking scheme breakdown
+4. Alternative acceptable answers where applicable
+
+Format the response clearly with proper headings and structure.`;
+
+  const result = await generateWithProviders(prompt);
+  console.log(`Generated answers via ${result.provider}, length:`, result.text.length);
+
+  return {
+    success: true,
+    generated_answers: result.text,
+    max_marks: maxMarks,
+    provider: result.provider,
+    message: 'Model answers generated successfully'
+  };
+};
+
+// The grader's JSON reply; models name the fields inconsistently, so everything is optional
+interface GradingResponse {
+  grade?: number | string;
+  marks?: number | string;
+  final_marks?: number | string;
+  score?: number | string;
+  feedback?: string;
+  review?: string;
+  comments?: string;
+  strengths?: string;
+  improvements?: string;
+  areas_for_improvement?: string;
+  questions?: { question_id?: string; number?: number | string; score?: number | string; feedback?: string }[];
+  criteria?: { criterion_id?: string; name?: string; score?: number | string; level?: string; feedback?: string }[];
+}
+
+export interface GradeSubmissionInput {
+  gradingMode: string;
+  ocrText: string | null;
+  assignmentContent: unknown;
+  maxMarks: number;
+  gradingCriteria?: string;
+  customInstructions?: string;
+  rubric?: RubricCriterion[];
+  questions?: AssignmentQuestion[];
+  responses?: QuestionResponses | null;
+  chain?: string[];
+}
+
+// Grade an online-form submission whose questions are all objective, without calling a provider
+const gradeObjectiveOnly = (questions: AssignmentQuestion[], responses: QuestionResponses, maxMarks: number, gradingMode: string): GradeSubmissionResult => {
+  const questionScores = questions.map(question => gradeObjectiveQuestion(question, responses[question.id]));
+  const rawScore = questionScores.reduce((sum, score) => sum + score.score, 0);
+  const rawScoreMax = totalQuestionMarks(questions);
+  const finalMarks = rawScoreMax > 0 ? Math.round((rawScore / rawScoreMax) * maxMarks) : 0;
+  const correct = questionScores.filter(score => score.score === score.max_marks).length;
+  const feedback = `${correct} of ${questions.length} questions answered correctly (${rawScore}/${rawScoreMax} marks).`;
+
+  return {
+    success: true,
+    grade: finalMarks,
+    feedback,
+    strengths: '',
+    improvements: '',
+    criterion_scores: [],
+    question_scores: questionScores,
+    raw_score: rawScore,
+    raw_score_max: rawScoreMax,
+    final_marks: finalMarks,
+    max_marks: maxMarks,
+    percentage: Math.round((finalMarks / maxMarks) * 100),
+    was_clamped: false,
+    review: feedback,
+    graded_at: new Date().toISOString(),
+    grading_mode: gradingMode,
+    provider: 'auto',
+    model: 'deterministic',
+    attempts: [],
+    message: 'Submission graded successfully'
+  };
+};
+
+// Submission grading scaled to the assignment's max marks
+export const gradeSubmission = async ({
+  gradingMode,
+  ocrText,
+  assignmentContent,
+  maxMarks,
+  gradingCriteria,
+  customInstructions,
+  rubric,
+  questions: allQuestions,
+  responses,
+  chain
+}: GradeSubmissionInput): Promise<GradeSubmissionResult> => {
+  if (!Number.isFinite(maxMarks) || maxMarks <= 0) {
+    throw new GradingError(`Invalid maximum marks: ${maxMarks}`, 'INVALID_SCORE');
+  }
+
+  // Online-form answers to objective questions are marked deterministically; only essays go to the AI
+  const isOnlineForm = !!responses && !!allQuestions && allQuestions.length > 0;
+  const objectiveScores = isOnlineForm
+    ? allQuestions.filter(isObjectiveQuestion).map(question => gradeObjectiveQuestion(question, responses[question.id]))
+    : [];
+  const questions = isOnlineForm ? allQuestions.filter(question => !isObjectiveQuestion(question)) : allQuestions || [];
+
+  if (isOnlineForm && questions.length === 0) {
+    return gradeObjectiveOnly(allQuestions, responses, maxMarks, gradingMode);
+  }
+
+  const submissionText = isOnlineForm ? formatResponsesAsText(questions, responses) : ocrText;
+  const hasRubric = !!rubric && rubric.length > 0 && objectiveScores.length === 0;
+  const hasQuestions = questions.length > 0 && totalQuestionMarks(questions) > 0;
+  const answers = hasQuestions && submissionText ? segmentAnswersByQuestion(submissionText, questions) : null;
+
+  let prompt = `Please grade the following student submission based on the provided criteria:
+
+`;
+
+  if (assignmentContent) {
+    prompt += `Assignment Content:\n${typeof assignmentContent === 'string' ? assignmentContent : JSON.stringify(assignmentContent)}\n\n`;
+  }
+
+  if (submissionText) {
+    prompt += `Student Submission (${isOnlineForm ? 'typed answers' : 'OCR Text'}):\n${submissionText}\n\n`;
+  }
+
+  if (gradingCriteria) {
+    prompt += `Grading Criteria:\n${gradingCriteria}\n\n`;
+  }
+
+  if (customInstructions) {
+    prompt += `Additional Instructions:\n${customInstructions}\n\n`;
+  }
+
+  if (hasQuestions) {
+    prompt += `Questions (with key answers and the student's answer to each):\n${formatQuestionsForPrompt(questions, answers)}\n\n`;
+    prompt += `Grade each question separately against its key answer, giving a score between 0 and that question's marks.${answers ? ' The student answers were split from the submission by question number; if one looks misplaced, check the full submission text.' : ''}
+
+`;
+  }
+
+  if (hasRubric) {
+    prompt += `Rubric:\n${formatRubricForPrompt(rubric)}\n\n`;
+    prompt += `Score each rubric criterion separately. For every criterion choose the level that best matches the submission and give a score between 0 and that criterion's max_points.
+
+`;
+  }
+
+  prompt += `Please provide:
+1. A numerical grade between 0 and ${maxMarks} (the assignment is marked out of ${maxMarks})
+2. Detailed feedback explaining the grade
+3. Areas for improvement
+4. Strengths in the submission
+
+Format your response as JSON with the following structure:
+{
+  "grade": <numerical_grade_out_of_${maxMarks}>,
+  "feedback": "<detailed_feedback>",
+  "strengths": "<identified_strengths>",
+  "improvements": "<areas_for_improvement>"${hasQuestions ? `,
+  "questions": [
+    { "question_id": "<question_id>", "score": <marks_awarded>, "feedback": "<question_feedback>" }
+  ]` : ''}${hasRubric ? `,
+  "criteria": [
+    { "criterion_id": "<rubric_criterion_id>", "score": <points>, "level": "<level_label>", "feedback": "<criterion_feedback>" }
+  ]` : ''}
+}`;
+
+  const generation = await generateWithProviders(prompt, chain);
+  const gradingResult = generation.text;
+
+  let parsedResult: GradingResponse;
+  try {
+    parsedResult = JSON.parse(cleanJsonResponse(gradingResult));
+  } catch {
+    throw new GradingError('The AI grader returned a response that is not valid JSON', 'INVALID_RESPONSE', gradingResult, generation.attempts);
+  }
+
+  if (!parsedResult || typeof parsedResult !== 'object') {
+    throw new GradingError('The AI grader returned an unexpected response format', 'INVALID_RESPONSE', gradingResult, generation.attempts);
+  }
+
+  const feedback = parsedResult.feedback || parsedResult.review || parsedResult.comments || 'No feedback provided';
+
+  // Map per-question scores back onto the questions, matching by id or number
+  let questionScores: QuestionScore[] = [];
+  const scoredQuestions = parsedResult.questions;
+  if (hasQuestions && Array.isArray(scoredQuestions)) {
+    questionScores = questions.map((question): QuestionScore => {
+      const scored = scoredQuestions.find(q => q.question_id === question.id || Number(q.number) === question.number);
+      return {
+        question_id: question.id,
+        number: question.number,
+        score: clampQuestionScore(Number(scored?.score ?? 0), question.marks),
+        max_marks: question.marks,
+        feedback: scored?.feedback || '',
+        answer_text: answers?.[question.id] || undefined
+      };
+    });
+  }
+
+  // Mixed assignments need a score for every essay so it can be added to the objective marks
+  if (objectiveScores.length > 0) {
+    if (questionScores.length === 0) {
+      throw new GradingError('The AI grader did not score each essay question', 'INVALID_RESPONSE', gradingResult, generation.attempts);
+    }
+    questionScores = [...objectiveScores, ...questionScores].sort((a, b) => a.number - b.number);
+  }
+
+  // Map per-criterion scores back onto the rubric and derive the raw score from them
+  let criterionScores: CriterionScore[] = [];
+  let rawScore: number;
+  let rawScoreMax: number;
+  const scoredCriteria = parsedResult.criteria;
+  if (hasRubric && Array.isArray(scoredCriteria)) {
+    criterionScores = rubric.map(criterion => {
+      const scored = scoredCriteria.find(c => c.criterion_id === criterion.id || c.name === criterion.name);
+      return {
+        criterion_id: criterion.id,
+        score: clampCriterionScore(Number(scored?.score ?? 0), criterion.max_points),
+        max_points: criterion.max_points,
+        level: scored?.level || undefined,
+        feedback: scored?.feedback || ''
+      };
+    });
+    rawScore = calculateRubricPercentage(rubric, criterionScores);
+    rawScoreMax = 100;
+  } else if (questionScores.length > 0) {
+    rawScore = questionScores.reduce((sum, score) => sum + score.score, 0);
+    rawScoreMax = totalQuestionMarks(isOnlineForm ? allQuestions : questions);
+  } else {
+    // Extract grade from different possible field names
+    const grade = parsedResult.grade ?? parsedResult.marks ?? parsedResult.final_marks ?? parsedResult.score;
+    rawScore = typeof grade === 'string' ? parseFloat(grade) : Number(grade);
+    rawScoreMax = maxMarks;
+  }
+
+  if (!Number.isFinite(rawScore)) {
+    throw new GradingError('The AI grader did not return a numeric grade', 'INVALID_SCORE', gradingResult, generation.attempts);
+  }
+
+  // Scale onto the assignment's marks and clamp into range
+  const scaledScore = (rawScore / rawScoreMax) * maxMarks;
+  const finalMarks = Math.round(Math.min(Math.max(scaledScore, 0), maxMarks));
+  const wasClamped = scaledScore < 0 || scaledScore > maxMarks;
+
+  if (wasClamped) {
+    console.warn(`AI grade ${rawScore}/${rawScoreMax} was outside 0-${maxMarks} and has been clamped to ${finalMarks}`);
+  }
+
+  return {
+    success: true,
+    grade: finalMarks,
+    feedback: feedback,
+    strengths: parsedResult.strengths || '',
+    improvements: parsedResult.improvements || parsedResult.areas_for_improvement || '',
+    criterion_scores: criterionScores,
+    question_scores: questionScores,
+    raw_score: rawScore,
+    raw_score_max: rawScoreMax,
+    final_marks: finalMarks,
+    max_marks: maxMarks,
+    percentage: Math.round((finalMarks / maxMarks) * 100),
+    was_clamped: wasClamped,
+    review: feedback,
+    graded_at: new Date().toISOString(),
+    grading_mode: gradingMode,
+    provider: generation.provider,
+    model: generation.model,
+    attempts: generation.attempts,
+    message: 'Submission graded successfully'
+  };
+};
+
+export type SampleMode = 'repeat' | 'dual_provider';
+
+export interface SamplingOptions {
+  samples: number;
+  mode: SampleMode;
+  thresholdPct: number;
+}
+
+export interface GradingSample {
+  final_marks: number;
+  provider?: string;
+  model?: string;
+  error?: string;
+}
+
+export interface SampledGradeResult extends GradeSubmissionResult {
+  samples: GradingSample[];
+  spread: number;
+  needs_review: boolean;
+}
+
+// Read an assignment's sampling settings, defaulting to a single sample
+export const samplingOptionsFor = (assignment: { grading_samples?: number | null; grading_sample_mode?: string | null; spread_threshold_pct?: number | null }): SamplingOptions => ({
+  samples: assignment.grading_samples || 1,
+  mode: assignment.grading_sample_mode === 'dual_provider' ? 'dual_provider' : 'repeat',
+  thresholdPct: assignment.spread_threshold_pct ?? 10
+});
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+// Grade the same submission several times (or once per provider) and flag it when the samples disagree
+export const gradeSubmissionWithSampling = async (
+  input: GradeSubmissionInput,
+  { samples, mode, thresholdPct }: SamplingOptions
+): Promise<SampledGradeResult> => {
+  let chains: (string[] | undefined)[];
+  if (mode === 'dual_provider') {
+    const [first, second] = getFallbackChain();
+    if (second) {
+      chains = [[first], [second]];
+    } else {
+      console.warn('Dual-provider sampling needs two providers; repeating the only configured one instead');
+      chains = [undefined, undefined];
+    }
+  } else {
+    chains = Array.from({ length: Math.max(1, Math.floor(samples) || 1) }, () => undefined);
+  }
+
+  const settled = await Promise.allSettled(chains.map(chain => gradeSubmission({ ...input, chain })));
+  const succeeded = settled
+    .filter((outcome): outcome is PromiseFulfilledResult<GradeSubmissionResult> => outcome.status === 'fulfilled')
+    .map(outcome => outcome.value);
+
+  if (succeeded.length === 0) {
+    throw (settled[0] as PromiseRejectedResult).reason;
+  }
+
+  const gradingSamples: GradingSample[] = settled.map(outcome => outcome.status === 'fulfilled'
+    ? { final_marks: outcome.value.final_marks, provider: outcome.value.provider, model: outcome.value.model }
+    : { final_marks: 0, error: outcome.reason?.message || 'Grading failed' });
+
+  // Report the median grade, using the sample closest to it for feedback and criterion scores
+  const marks = succeeded.map(result => result.final_marks);
+  const medianMarks = median(marks);
+  const representative = succeeded.reduce((best, result) =>
+    Math.abs(result.final_marks - medianMarks) < Math.abs(best.final_marks - medianMarks) ? result : best
+  );
+  const finalMarks = Math.round(medianMarks);
+  const spread = Math.max(...marks) - Math.min(...marks);
+  const spreadPct = (spread / input.maxMarks) * 100;
+  const hasFailedSample = succeeded.length < settled.length;
+
+  if (settled.length > 1) {
+    console.log(`Sampled grading: marks ${marks.join(', ')}, spread ${spread} (${spreadPct.toFixed(1)}%)`);
+  }
+
+  return {
+    ...representative,
+    grade: finalMarks,
+    final_marks: finalMarks,
+    percentage: Math.round((finalMarks / input.maxMarks) * 100),
+    samples: gradingSamples,
+    spread,
+    needs_review: settled.length > 1 && (spreadPct > thresholdPct || hasFailedSample)
+  };
+};
@@ -0,0 +1,82 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createServiceClient } from './auth';
+import { errorMessage, firstRow } from './rows';
+
+// Notify students whose released grades became visible because the assignment's release time passed
+const notifyDueReleases = async (supabase: SupabaseClient) => {
+  const { data: due, error } = await supabase
+    .from('submissions')
+    .select(`
+      id,
+      student_id,
+      grade,
+      assignments!inner (
+        title,
+        max_marks,
+        grades_release_at
+      )
+    `)
+    .eq('release_status', 'released')
+    .is('release_notified_at', null)
+    // No release time means visible as soon as the teacher releases it
+    .or(`grades_release_at.is.null,grades_release_at.lte.${new Date().toISOString()}`, { referencedTable: 'assignments' });
+
+  if (error) {
+    console.error('Failed to load scheduled grade releases:', error.message);
+    return;
+  }
+
+  if (!due || due.length === 0) return;
+
+  const notifications = due.map(submission => {
+    const assignment = firstRow(submission.assignments);
+    return {
+      user_id: submission.student_id,
+      title: 'Grade Released',
+      message: `Your grade for "${assignment?.title}" is now available. Score: ${submission.grade}/${assignment?.max_marks}`,
+      type: 'grade',
+      related_id: submission.id
+    };
+  });
+
+  const { error: insertError } = await supabase.from('notifications').insert(notifications);
+  if (insertError) {
+    console.error('Failed to send grade release notifications:', insertError.message);
+    return;
+  }
+
+  await supabase
+    .from('submissions')
+    .update({ release_notified_at: new Date().toISOString() })
+    .in('id', due.map(submission => submission.id));
+
+  console.log(`Sent ${due.length} scheduled grade release notification(s)`);
+};
+
+// Periodically send notifications for scheduled grade releases; returns a function that stops it
+export const startGradeReleaseScheduler = (intervalMs = Number(process.env.GRADE_RELEASE_INTERVAL_MS) || 60000) => {
+  if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    console.warn('SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are not set; scheduled grade release notifications are disabled');
+    return () => undefined;
+  }
+
+  const supabase = createServiceClient();
+  let isBusy = false;
+
+  const tick = async () => {
+    if (isBusy) return;
+    isBusy = true;
+    try {
+      await notifyDueReleases(supabase);
+    } catch (error) {
+      console.error('Grade release scheduler error:', errorMessage(error));
+    } finally {
+      isBusy = false;
+    }
+  };
+
+  const timer = setInterval(tick, intervalMs);
+  tick();
+
+  return () => clearInterval(timer);
+};
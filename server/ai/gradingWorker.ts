@@ -0,0 +1,307 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createServiceClient } from './auth';
+import { gradeSubmissionWithSampling, samplingOptionsFor, GradingError } from './generation';
+import { extractText } from './ocr';
+import { ProviderAttempt, ProvidersExhaustedError } from './providers';
+import { errorMessage, firstRow } from './rows';
+import { combinePagedTexts } from '../../shared/materialChunks';
+import { offsetOcrPages, averageConfidence, OcrPage } from '../../shared/ocrConfidence';
+
+export type GradingJobStatus = 'queued' | 'running' | 'done' | 'failed';
+
+// One entry per job attempt, stored in grading_jobs.attempt_log
+export interface GradingJobAttempt {
+  attempt: number;
+  started_at: string;
+  latency_ms: number;
+  provider?: string;
+  model?: string;
+  error?: string;
+  provider_attempts: ProviderAttempt[];
+}
+
+interface GradingJob {
+  id: string;
+  submission_id: string;
+  status: GradingJobStatus;
+  attempts: number;
+  max_attempts: number;
+  attempt_log: GradingJobAttempt[];
+  queued_at: string;
+}
+
+interface StoredFile {
+  url: string;
+  file_name: string;
+  file_type?: string;
+}
+
+interface OcrSubmission {
+  id: string;
+  file_url: string;
+  file_name: string;
+  files: StoredFile[] | null;
+}
+
+interface GradingWorkerOptions {
+  intervalMs?: number;
+  retryBaseMs?: number;
+  staleAfter?: string;
+}
+
+const FILE_TYPES_BY_EXTENSION: Record<string, string> = {
+  pdf: 'application/pdf',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp'
+};
+
+// Download and OCR one stored file
+const ocrFile = async (url: string, fileName: string, storedType?: string) => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Could not download submission file: ${response.status}`);
+  }
+
+  const extension = String(fileName || '').split('.').pop()?.toLowerCase() || '';
+  const fileType = FILE_TYPES_BY_EXTENSION[extension] || (storedType?.includes('*') ? '' : storedType) || response.headers.get('content-type') || '';
+  const result = await extractText(Buffer.from(await response.arrayBuffer()), fileType, fileName);
+  return { text: result.extracted_text, pages: result.pages };
+};
+
+// OCR the stored files when the submission was saved without text; several files are joined with continuous page markers
+const ocrSubmissionFile = async (supabase: SupabaseClient, submission: OcrSubmission) => {
+  const files: StoredFile[] = submission.files?.length
+    ? submission.files
+    : [{ url: submission.file_url, file_name: submission.file_name }];
+
+  const results: { text: string; pages: OcrPage[] }[] = [];
+  for (const file of files) {
+    results.push(await ocrFile(file.url, file.file_name, file.file_type));
+  }
+  const combined = combinePagedTexts(results.map(result => result.text));
+  const pages = results.flatMap((result, index) => offsetOcrPages(result.pages, combined.ranges[index].first_page));
+
+  const { error } = await supabase
+    .from('submissions')
+    .update({
+      ocr_text: combined.text,
+      ocr_raw_text: combined.text,
+      ocr_pages: pages,
+      ocr_confidence: averageConfidence(pages),
+      ocr_processed_at: new Date().toISOString(),
+      ...(submission.files?.length && { files: submission.files.map((file, index) => ({ ...file, ...combined.ranges[index] })) })
+    })
+    .eq('id', submission.id);
+
+  if (error) {
+    throw new Error(`Could not save the OCR text: ${error.message}`);
+  }
+
+  return combined.text;
+};
+
+// Grade one claimed job; returns the log entry for this attempt
+const runJob = async (supabase: SupabaseClient, job: GradingJob): Promise<GradingJobAttempt> => {
+  const startedAt = Date.now();
+  const entry: GradingJobAttempt = {
+    attempt: job.attempts,
+    started_at: new Date(startedAt).toISOString(),
+    latency_ms: 0,
+    provider_attempts: []
+  };
+
+  try {
+    const { data: submission, error } = await supabase
+      .from('submissions')
+      .select(`
+        id,
+        student_id,
+        file_url,
+        file_name,
+        files,
+        ocr_text,
+        responses,
+        graded_at,
+        graded_by,
+        assignments (
+          id,
+          title,
+          content,
+          max_marks,
+          due_date,
+          ai_prompt,
+          rubric,
+          questions,
+          grading_samples,
+          grading_sample_mode,
+          spread_threshold_pct,
+          assignment_answer_keys (
+            questions
+          )
+        )
+      `)
+      .eq('id', job.submission_id)
+      .single();
+
+    const assignment = firstRow(submission?.assignments);
+    if (error || !submission || !assignment) {
+      throw new Error('Submission not found');
+    }
+
+    // A teacher graded it by hand after this job was queued; keep their grade
+    if (submission.graded_at && submission.graded_by !== 'system' && new Date(submission.graded_at) > new Date(job.queued_at)) {
+      return entry;
+    }
+
+    await supabase.from('submissions').update({ grading_status: 'processing' }).eq('id', submission.id);
+
+    // Online-form submissions have typed answers and no file to OCR
+    const ocrText = submission.responses ? submission.ocr_text : submission.ocr_text || await ocrSubmissionFile(supabase, submission);
+
+    const result = await gradeSubmissionWithSampling({
+      gradingMode: "Compare OCR'd content with Generated document",
+      ocrText,
+      assignmentContent: {
+        content: assignment.content,
+        max_marks: assignment.max_marks,
+        due_date: assignment.due_date,
+        prompt_used: assignment.ai_prompt || 'Standard assignment'
+      },
+      maxMarks: assignment.max_marks,
+      rubric: assignment.rubric || undefined,
+      // The assignment's own questions have their answers stripped; the worker reads the keys with the service role
+      questions: firstRow(assignment.assignment_answer_keys)?.questions || assignment.questions || undefined,
+      responses: submission.responses
+    }, samplingOptionsFor(assignment));
+
+    entry.provider = result.provider;
+    entry.model = result.model;
+    entry.provider_attempts = result.attempts;
+
+    const { error: updateError } = await supabase
+      .from('submissions')
+      .update({
+        grade: result.final_marks,
+        feedback: result.review,
+        criterion_scores: result.criterion_scores.length > 0 ? result.criterion_scores : null,
+        question_scores: result.question_scores.length > 0 ? result.question_scores : null,
+        raw_score: result.raw_score,
+        raw_score_max: result.raw_score_max,
+        grading_samples: result.samples.length > 1 ? result.samples : null,
+        grade_spread: result.samples.length > 1 ? result.spread : null,
+        needs_review: result.needs_review,
+        grading_status: 'completed',
+        // AI grades stay hidden until the teacher releases them
+        release_status: 'draft',
+        released_at: null,
+        release_notified_at: null,
+        graded_at: result.graded_at,
+        graded_by: 'system'
+      })
+      .eq('id', submission.id);
+
+    if (updateError) {
+      throw new Error(`Could not save the grade: ${updateError.message}`);
+    }
+  } catch (error) {
+    entry.error = errorMessage(error) || 'Unknown grading error';
+    if (error instanceof ProvidersExhaustedError || error instanceof GradingError) {
+      entry.provider_attempts = error.attempts || [];
+      const last = entry.provider_attempts[entry.provider_attempts.length - 1];
+      entry.provider = last?.provider;
+      entry.model = last?.model;
+    }
+  } finally {
+    entry.latency_ms = Date.now() - startedAt;
+  }
+
+  return entry;
+};
+
+// Record the attempt and either finish, retry with backoff, or give up
+const finishJob = async (supabase: SupabaseClient, job: GradingJob, entry: GradingJobAttempt, retryBaseMs: number) => {
+  const attemptLog = [...(job.attempt_log || []), entry];
+
+  if (!entry.error) {
+    await supabase
+      .from('grading_jobs')
+      .update({ status: 'done', attempt_log: attemptLog, last_error: null, locked_at: null, completed_at: new Date().toISOString() })
+      .eq('id', job.id);
+    return;
+  }
+
+  console.warn(`Grading job ${job.id} attempt ${job.attempts}/${job.max_attempts} failed:`, entry.error);
+
+  if (job.attempts < job.max_attempts) {
+    const delay = retryBaseMs * Math.pow(2, job.attempts - 1);
+    await supabase
+      .from('grading_jobs')
+      .update({
+        status: 'queued',
+        attempt_log: attemptLog,
+        last_error: entry.error,
+        locked_at: null,
+        next_run_at: new Date(Date.now() + delay).toISOString()
+      })
+      .eq('id', job.id);
+    return;
+  }
+
+  await supabase
+    .from('grading_jobs')
+    .update({ status: 'failed', attempt_log: attemptLog, last_error: entry.error, locked_at: null, completed_at: new Date().toISOString() })
+    .eq('id', job.id);
+
+  await supabase.from('submissions').update({ grading_status: 'failed' }).eq('id', job.submission_id);
+};
+
+// Poll grading_jobs and process due jobs one at a time; returns a function that stops the worker
+export const startGradingWorker = ({
+  intervalMs = Number(process.env.GRADING_WORKER_INTERVAL_MS) || 5000,
+  retryBaseMs = Number(process.env.GRADING_RETRY_BASE_MS) || 30000,
+  staleAfter = '10 minutes'
+}: GradingWorkerOptions = {}) => {
+  if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    console.warn('SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are not set; the grading worker is disabled');
+    return () => undefined;
+  }
+
+  const supabase = createServiceClient();
+  let isBusy = false;
+
+  const tick = async () => {
+    if (isBusy) return;
+    isBusy = true;
+
+    try {
+      // Drain every due job before waiting for the next tick
+      for (;;) {
+        const { data, error } = await supabase.rpc('claim_grading_job', { stale_after: staleAfter });
+        if (error) {
+          console.error('Failed to claim grading job:', error.message);
+          break;
+        }
+
+        const job = (data as GradingJob[] | null)?.[0];
+        if (!job) break;
+
+        console.log(`Running grading job ${job.id} for submission ${job.submission_id} (attempt ${job.attempts})`);
+        const entry = await runJob(supabase, job);
+        await finishJob(supabase, job, entry, retryBaseMs);
+      }
+    } catch (error) {
+      console.error('Grading worker error:', errorMessage(error));
+    } finally {
+      isBusy = false;
+    }
+  };
+
+  const timer = setInterval(tick, intervalMs);
+  tick();
+  console.log(`📝 Grading worker polling every ${intervalMs}ms`);
+
+  return () => clearInterval(timer);
+};
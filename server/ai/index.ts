@@ -0,0 +1,5 @@
+export { createAiRouter } from './routes';
+export { startGradingWorker } from './gradingWorker';
+export { startGradeReleaseScheduler } from './gradeRelease';
+export { startTicketReminderScheduler } from './ticketReminders';
+export { createQuizRouter, startQuizSweeper } from './quizzes';
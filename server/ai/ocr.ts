@@ -0,0 +1,83 @@
+import { ocrPageFromResult, averageConfidence, OcrPage } from '../../shared/ocrConfidence';
+
+const SUPPORTED_IMAGE_TYPES = ['image/jpeg', 'image/jpg', 'image/png', 'image/gif', 'image/webp'];
+const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
+
+export class OcrError extends Error {
+  status: number;
+
+  constructor(message: string, status = 422) {
+    super(message);
+    this.name = 'OcrError';
+    this.status = status;
+  }
+}
+
+// Text layer of each PDF page, with the same page markers the browser OCR produces
+const extractTextFromPDF = async (buffer: Buffer) => {
+  const pdfjsLib = await import('pdfjs-dist/legacy/build/pdf.mjs');
+  const pdf = await pdfjsLib.getDocument({ data: new Uint8Array(buffer) }).promise;
+
+  let allExtractedText = '';
+  for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
+    const page = await pdf.getPage(pageNum);
+    const content = await page.getTextContent();
+    const text = content.items
+      .map(item => ('str' in item ? item.str : ''))
+      .join(' ')
+      .trim();
+
+    if (text) {
+      allExtractedText += `\n--- Page ${pageNum} ---\n${text}\n`;
+    }
+  }
+
+  // A text layer is exact, so there are no word confidences to report
+  return { text: allExtractedText.trim(), pages: [] as OcrPage[] };
+};
+
+// Images uploaded from the browser are already cleaned up; rotateAuto still levels stored files OCR'd by the grading worker
+const extractTextFromImage = async (buffer: Buffer) => {
+  const Tesseract = await import('tesseract.js');
+  const worker = await Tesseract.default.createWorker('eng');
+  try {
+    const { data } = await worker.recognize(buffer, { rotateAuto: true }, { text: true, blocks: true });
+    return { text: data.text.trim(), pages: [ocrPageFromResult(data, 1)] };
+  } finally {
+    await worker.terminate();
+  }
+};
+
+// Extract text from an uploaded image or PDF
+export const extractText = async (buffer: Buffer, fileType: string, fileName: string) => {
+  if (buffer.length > MAX_FILE_SIZE) {
+    throw new OcrError('File size too large. Please use files smaller than 10MB.', 413);
+  }
+
+  let result: { text: string; pages: OcrPage[] };
+  if (fileType === 'application/pdf') {
+    result = await extractTextFromPDF(buffer);
+  } else if (SUPPORTED_IMAGE_TYPES.includes(fileType)) {
+    result = await extractTextFromImage(buffer);
+  } else {
+    throw new OcrError(`Unsupported file type: ${fileType}. Please use JPEG, PNG, GIF, WebP images or PDF documents.`, 415);
+  }
+
+  // Scanned PDFs have no text layer; the client falls back to rendering and OCRing them locally
+  if (!result.text) {
+    throw new OcrError('No text was extracted from the file. Please ensure the document contains readable text.');
+  }
+
+  return {
+    success: true,
+    extracted_text: result.text,
+    message: 'Text extracted successfully on the server',
+    file_info: {
+      name: fileName,
+      type: fileType,
+      size: buffer.length
+    },
+    confidence: averageConfidence(result.pages) ?? undefined,
+    pages: result.pages
+  };
+};
@@ -0,0 +1,296 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { errorMessage } from './rows';
+
+// A text-generation backend the grading/generation pipeline can call
+export interface AIProvider {
+  name: string;
+  model: string;
+  generate: (prompt: string, signal?: AbortSignal) => Promise<string>;
+  healthCheck: () => Promise<boolean>;
+}
+
+export interface ProviderOptions {
+  timeoutMs: number;
+  retries: number;
+  backoffMs: number;
+}
+
+export interface ProviderAttempt {
+  provider: string;
+  model: string;
+  attempt: number;
+  latency_ms: number;
+  error?: string;
+}
+
+export interface ProviderGenerateResult {
+  text: string;
+  provider: string;
+  model: string;
+  attempts: ProviderAttempt[];
+}
+
+// Raised when every provider in the chain has failed; keeps the per-attempt log for callers that record it
+export class ProvidersExhaustedError extends Error {
+  attempts: ProviderAttempt[];
+
+  constructor(message: string, attempts: ProviderAttempt[]) {
+    super(message);
+    this.name = 'ProvidersExhaustedError';
+    this.attempts = attempts;
+  }
+}
+
+const DEFAULT_OPTIONS: ProviderOptions = {
+  timeoutMs: 60000,
+  retries: 1,
+  backoffMs: 1000
+};
+
+// Gemini via the official SDK
+export const createGeminiProvider = (apiKey: string, model = 'gemini-2.5-flash'): AIProvider => {
+  const genAI = new GoogleGenerativeAI(apiKey);
+  const geminiModel = genAI.getGenerativeModel({ model });
+
+  return {
+    name: 'gemini',
+    model,
+    generate: async (prompt, signal) => {
+      const result = await geminiModel.generateContent(prompt, { signal });
+      return result.response.text();
+    },
+    healthCheck: async () => {
+      if (!apiKey) return false;
+      try {
+        await geminiModel.countTokens('ping');
+        return true;
+      } catch {
+        return false;
+      }
+    }
+  };
+};
+
+// Any endpoint speaking the OpenAI chat completions protocol (Groq, Ollama, llama.cpp server, ...)
+export const createOpenAICompatibleProvider = (config: {
+  name: string;
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  temperature?: number;
+  maxTokens?: number;
+}): AIProvider => {
+  const baseUrl = config.baseUrl.replace(/\/+$/, '');
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (config.apiKey) {
+    headers['Authorization'] = `Bearer ${config.apiKey}`;
+  }
+
+  return {
+    name: config.name,
+    model: config.model,
+    generate: async (prompt, signal) => {
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers,
+        signal,
+        body: JSON.stringify({
+          model: config.model,
+          messages: [
+            {
+              role: 'user',
+              content: prompt
+            }
+          ],
+          temperature: config.temperature ?? 0.7,
+          max_tokens: config.maxTokens ?? 4096,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(`${config.name} API error: ${response.status} - ${errorData.error?.message || response.statusText}`);
+      }
+
+      const data = await response.json();
+      return data.choices?.[0]?.message?.content || '';
+    },
+    healthCheck: async () => {
+      try {
+        const response = await fetch(`${baseUrl}/models`, { headers });
+        return response.ok;
+      } catch {
+        return false;
+      }
+    }
+  };
+};
+
+// Deterministic provider for tests and demos; replies come from the handler or a fixed string
+export const createMockProvider = (
+  reply: string | ((prompt: string) => string | Promise<string>),
+  name = 'mock'
+): AIProvider => ({
+  name,
+  model: 'mock',
+  generate: async (prompt) => typeof reply === 'function' ? reply(prompt) : reply,
+  healthCheck: async () => true
+});
+
+// =====================================================
+// PROVIDER REGISTRY
+// =====================================================
+
+const providers = new Map<string, { provider: AIProvider; options: ProviderOptions }>();
+let fallbackChain: string[] = [];
+
+export const registerProvider = (provider: AIProvider, options: Partial<ProviderOptions> = {}) => {
+  providers.set(provider.name, {
+    provider,
+    options: { ...DEFAULT_OPTIONS, ...options }
+  });
+
+  if (!fallbackChain.includes(provider.name)) {
+    fallbackChain.push(provider.name);
+  }
+};
+
+export const unregisterProvider = (name: string) => {
+  providers.delete(name);
+  fallbackChain = fallbackChain.filter(n => n !== name);
+};
+
+export const getProvider = (name: string) => providers.get(name)?.provider;
+
+export const getRegisteredProviders = () => Array.from(providers.values()).map(p => p.provider);
+
+// Set the order in which providers are tried; unknown names are ignored
+export const setFallbackChain = (names: string[]) => {
+  fallbackChain = names.filter(name => providers.has(name));
+};
+
+export const getFallbackChain = () => [...fallbackChain];
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const generateWithTimeout = async (provider: AIProvider, prompt: string, timeoutMs: number) => {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new Error(`${provider.name} timed out after ${timeoutMs}ms`));
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([provider.generate(prompt, controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+// Walk the fallback chain, retrying each provider with exponential backoff before moving on
+export const generateWithProviders = async (prompt: string, chain: string[] = fallbackChain): Promise<ProviderGenerateResult> => {
+  const attempts: ProviderAttempt[] = [];
+
+  if (chain.length === 0) {
+    throw new ProvidersExhaustedError('No AI providers are configured', attempts);
+  }
+
+  for (const name of chain) {
+    const entry = providers.get(name);
+    if (!entry) continue;
+
+    const { provider, options } = entry;
+
+    for (let attempt = 1; attempt <= options.retries + 1; attempt++) {
+      const startedAt = Date.now();
+      try {
+        console.log(`Attempting ${provider.name} (${provider.model}), attempt ${attempt}...`);
+        const text = await generateWithTimeout(provider, prompt, options.timeoutMs);
+
+        attempts.push({ provider: provider.name, model: provider.model, attempt, latency_ms: Date.now() - startedAt });
+        console.log(`${provider.name} succeeded`);
+        return { text, provider: provider.name, model: provider.model, attempts };
+      } catch (error) {
+        attempts.push({
+          provider: provider.name,
+          model: provider.model,
+          attempt,
+          latency_ms: Date.now() - startedAt,
+          error: errorMessage(error)
+        });
+        console.warn(`${provider.name} failed:`, errorMessage(error));
+
+        if (attempt <= options.retries) {
+          await sleep(options.backoffMs * Math.pow(2, attempt - 1));
+        }
+      }
+    }
+  }
+
+  const summary = attempts
+    .filter(a => a.error)
+    .map(a => `${a.provider}#${a.attempt}: ${a.error}`)
+    .join(', ');
+  throw new ProvidersExhaustedError(`All AI providers failed. ${summary}`, attempts);
+};
+
+export const checkProvidersHealth = async () => {
+  const results = await Promise.all(
+    getRegisteredProviders().map(async provider => ({
+      name: provider.name,
+      model: provider.model,
+      healthy: await provider.healthCheck().catch(() => false)
+    }))
+  );
+
+  return results;
+};
+
+// A non-negative integer from the environment, or the fallback when it is unset or not one
+const parseRetries = (value: string | undefined, fallback: number) => {
+  if (value === undefined || value.trim() === '') return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    console.warn(`Ignoring invalid AI_RETRIES "${value}"; using ${fallback}`);
+    return fallback;
+  }
+  return parsed;
+};
+
+// Register the providers configured through environment variables
+export const registerDefaultProviders = () => {
+  const timeoutMs = Number(process.env.AI_TIMEOUT_MS) || DEFAULT_OPTIONS.timeoutMs;
+  const retries = parseRetries(process.env.AI_RETRIES, DEFAULT_OPTIONS.retries);
+
+  if (process.env.GEMINI_API_KEY) {
+    registerProvider(createGeminiProvider(process.env.GEMINI_API_KEY), { timeoutMs, retries });
+  }
+
+  if (process.env.GROQ_API_KEY) {
+    registerProvider(createOpenAICompatibleProvider({
+      name: 'groq',
+      baseUrl: 'https://api.groq.com/openai/v1',
+      model: 'moonshotai/kimi-k2-instruct-0905',
+      apiKey: process.env.GROQ_API_KEY
+    }), { timeoutMs, retries });
+  }
+
+  // Local OpenAI-compatible server, e.g. Ollama (http://localhost:11434/v1) or llama.cpp (http://localhost:8080/v1)
+  if (process.env.LOCAL_LLM_URL) {
+    registerProvider(createOpenAICompatibleProvider({
+      name: 'local',
+      baseUrl: process.env.LOCAL_LLM_URL,
+      model: process.env.LOCAL_LLM_MODEL || 'llama3.1',
+      apiKey: process.env.LOCAL_LLM_API_KEY
+    }), { timeoutMs: Math.max(timeoutMs, 120000), retries });
+  }
+
+  // Optional explicit ordering, e.g. AI_PROVIDER_CHAIN=local,gemini,groq
+  if (process.env.AI_PROVIDER_CHAIN) {
+    setFallbackChain(process.env.AI_PROVIDER_CHAIN.split(',').map(name => name.trim()).filter(Boolean));
+  }
+};
@@ -0,0 +1,278 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { requireUser, authedHandler, isClassMember, createServiceClient } from './auth';
+import { firstRow, errorMessage } from './rows';
+import {
+  AssignmentQuestion,
+  QuestionResponses,
+  formatResponsesAsText,
+  gradeObjectiveQuestion,
+  isObjectiveQuestion,
+  stripAnswerKeys,
+  totalQuestionMarks
+} from '../../shared/questions';
+
+// Answers saved this long after the timer ends still count, to absorb network latency
+const SUBMIT_GRACE_MS = 30000;
+
+interface QuizAttempt {
+  id: string;
+  assignment_id: string;
+  student_id: string;
+  attempt_number: number;
+  started_at: string;
+  expires_at: string;
+  submitted_at: string | null;
+  responses: QuestionResponses;
+}
+
+interface QuizAssignment {
+  id: string;
+  class_id: string;
+  kind: string;
+  questions: AssignmentQuestion[] | null;
+  opens_at: string | null;
+  due_date: string | null;
+  duration_minutes: number | null;
+  max_attempts: number;
+  assignment_answer_keys: { questions: AssignmentQuestion[] } | { questions: AssignmentQuestion[] }[] | null;
+}
+
+// Loaded with the service role: the answer keys are only readable by the class's teachers
+const QUIZ_COLUMNS = 'id, class_id, kind, questions, opens_at, due_date, duration_minutes, max_attempts, assignment_answer_keys (questions)';
+
+// Score the objective questions now; essay questions are left to the grading worker
+const scoreResponses = (questions: AssignmentQuestion[], responses: QuestionResponses) => {
+  const objective = questions.filter(isObjectiveQuestion);
+  return {
+    score: objective.reduce((sum, question) => sum + gradeObjectiveQuestion(question, responses[question.id]).score, 0),
+    max_score: totalQuestionMarks(objective)
+  };
+};
+
+// Close an attempt and copy its answers onto the student's submission, which queues it for grading
+const finalizeAttempt = async (
+  supabase: SupabaseClient,
+  attempt: QuizAttempt,
+  assignment: QuizAssignment,
+  responses: QuestionResponses,
+  autoSubmitted: boolean
+) => {
+  const questions = firstRow(assignment.assignment_answer_keys)?.questions || assignment.questions || [];
+  const { score, max_score } = scoreResponses(questions, responses);
+  const submittedAt = new Date().toISOString();
+
+  const { data: closed, error } = await supabase
+    .from('quiz_attempts')
+    .update({ responses, submitted_at: submittedAt, auto_submitted: autoSubmitted, score, max_score })
+    .eq('id', attempt.id)
+    .is('submitted_at', null)
+    .select()
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to submit quiz attempt: ${error.message}`);
+  // Another request (or the sweeper) already closed it
+  if (!closed) return null;
+
+  const { error: submissionError } = await supabase
+    .from('submissions')
+    .upsert({
+      assignment_id: attempt.assignment_id,
+      student_id: attempt.student_id,
+      file_url: null,
+      file_name: null,
+      responses,
+      ocr_text: formatResponsesAsText(questions, responses),
+      submitted_at: submittedAt
+    }, { onConflict: 'assignment_id,student_id' });
+
+  if (submissionError) throw new Error(`Failed to save quiz submission: ${submissionError.message}`);
+
+  return closed;
+};
+
+const loadQuiz = async (supabase: SupabaseClient, assignmentId: string) => {
+  const { data, error } = await supabase
+    .from('assignments')
+    .select(QUIZ_COLUMNS)
+    .eq('id', assignmentId)
+    .single();
+
+  return error || !data || data.kind !== 'quiz' ? null : data as QuizAssignment;
+};
+
+export const createQuizRouter = () => {
+  const router = Router();
+  router.use(requireUser);
+
+  // Attempts are written with the service role so students cannot forge start times or scores
+  router.use((_req: Request, res: Response, next: NextFunction) => {
+    if (!process.env.SUPABASE_SERVICE_ROLE_KEY) {
+      return res.status(503).json({ success: false, error: 'Quizzes are not configured on this server' });
+    }
+    next();
+  });
+
+  // Start a new attempt, or resume the one still in progress; either way the response carries the questions to answer
+  router.post('/:assignmentId/attempts', authedHandler(async (req, res) => {
+    const service = createServiceClient();
+    const assignment = await loadQuiz(service, req.params.assignmentId);
+
+    if (!assignment) {
+      return res.status(404).json({ success: false, error: 'Quiz not found' });
+    }
+
+    if (!await isClassMember(req.supabase, req.user.id, assignment.class_id)) {
+      return res.status(403).json({ success: false, error: 'You are not a member of this class' });
+    }
+
+    // The questions go out with the attempt, without their answers; quizzes keep none on the assignment row
+    const questions = stripAnswerKeys(firstRow(assignment.assignment_answer_keys)?.questions || []);
+    const now = new Date();
+    if (assignment.opens_at && new Date(assignment.opens_at) > now) {
+      return res.status(403).json({ success: false, error: `This quiz opens ${new Date(assignment.opens_at).toLocaleString()}` });
+    }
+
+    const { data: attempts, error } = await service
+      .from('quiz_attempts')
+      .select('*')
+      .eq('assignment_id', assignment.id)
+      .eq('student_id', req.user.id)
+      .order('attempt_number', { ascending: true });
+
+    if (error) throw new Error(`Failed to load quiz attempts: ${error.message}`);
+
+    const inProgress = (attempts as QuizAttempt[]).find(attempt => !attempt.submitted_at);
+    if (inProgress) {
+      if (new Date(inProgress.expires_at).getTime() + SUBMIT_GRACE_MS > now.getTime()) {
+        return res.json({ success: true, attempt: inProgress, attempts_used: attempts.length, questions });
+      }
+      await finalizeAttempt(service, inProgress, assignment, inProgress.responses || {}, true);
+    }
+
+    if (assignment.due_date && new Date(assignment.due_date) <= now) {
+      return res.status(403).json({ success: false, error: 'This quiz has closed' });
+    }
+
+    if (attempts.length >= assignment.max_attempts) {
+      return res.status(403).json({ success: false, error: `You have used all ${assignment.max_attempts} attempt(s) for this quiz` });
+    }
+
+    // The attempt ends when its time runs out or the quiz closes, whichever comes first
+    const durationEnd = now.getTime() + (assignment.duration_minutes || 0) * 60000;
+    const closesAt = assignment.due_date ? new Date(assignment.due_date).getTime() : Infinity;
+    const expiresAt = new Date(assignment.duration_minutes ? Math.min(durationEnd, closesAt) : closesAt);
+
+    if (!Number.isFinite(expiresAt.getTime())) {
+      return res.status(400).json({ success: false, error: 'This quiz has no duration or closing time' });
+    }
+
+    const { data: attempt, error: insertError } = await service
+      .from('quiz_attempts')
+      .insert({
+        assignment_id: assignment.id,
+        student_id: req.user.id,
+        attempt_number: attempts.length + 1,
+        started_at: now.toISOString(),
+        expires_at: expiresAt.toISOString(),
+        responses: {}
+      })
+      .select()
+      .single();
+
+    if (insertError) {
+      // Unique (assignment, student, attempt_number) stops two tabs starting the same attempt
+      return res.status(409).json({ success: false, error: 'An attempt was started elsewhere; reload to resume it' });
+    }
+
+    res.json({ success: true, attempt, attempts_used: attempts.length + 1, questions });
+  }));
+
+  // Submit an attempt; answers sent after the grace period are ignored in favour of the last autosave
+  router.post('/attempts/:attemptId/submit', authedHandler(async (req, res) => {
+    const service = createServiceClient();
+    const { responses, auto_submitted = false } = req.body || {};
+
+    const { data: attempt, error } = await service
+      .from('quiz_attempts')
+      .select('*')
+      .eq('id', req.params.attemptId)
+      .eq('student_id', req.user.id)
+      .single();
+
+    if (error || !attempt) {
+      return res.status(404).json({ success: false, error: 'Quiz attempt not found' });
+    }
+
+    if (attempt.submitted_at) {
+      return res.json({ success: true, attempt });
+    }
+
+    const assignment = await loadQuiz(service, attempt.assignment_id);
+    if (!assignment) {
+      return res.status(404).json({ success: false, error: 'Quiz not found' });
+    }
+
+    const isLate = Date.now() > new Date(attempt.expires_at).getTime() + SUBMIT_GRACE_MS;
+    const finalResponses = !isLate && responses && typeof responses === 'object' ? responses : attempt.responses || {};
+    const closed = await finalizeAttempt(service, attempt, assignment, finalResponses, !!auto_submitted || isLate);
+
+    res.json({ success: true, attempt: closed || attempt });
+  }));
+
+  router.use((error: unknown, _req: Request, res: Response, next: NextFunction) => {
+    if (res.headersSent) return next(error);
+    console.error('Quiz endpoint error:', error);
+    res.status(500).json({ success: false, error: errorMessage(error) || 'Internal server error' });
+  });
+
+  return router;
+};
+
+// Auto-submit attempts whose time ran out while the student was away; returns a function that stops it
+export const startQuizSweeper = (intervalMs = Number(process.env.QUIZ_SWEEP_INTERVAL_MS) || 60000) => {
+  if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    console.warn('SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are not set; expired quiz attempts will not be auto-submitted');
+    return () => undefined;
+  }
+
+  const supabase = createServiceClient();
+  let isBusy = false;
+
+  const tick = async () => {
+    if (isBusy) return;
+    isBusy = true;
+    try {
+      const { data: expired, error } = await supabase
+        .from('quiz_attempts')
+        .select('*')
+        .is('submitted_at', null)
+        .lt('expires_at', new Date(Date.now() - SUBMIT_GRACE_MS).toISOString());
+
+      if (error) {
+        console.error('Failed to load expired quiz attempts:', error.message);
+        return;
+      }
+
+      for (const attempt of (expired || []) as QuizAttempt[]) {
+        const assignment = await loadQuiz(supabase, attempt.assignment_id);
+        if (assignment) {
+          await finalizeAttempt(supabase, attempt, assignment, attempt.responses || {}, true);
+        }
+      }
+
+      if (expired && expired.length > 0) {
+        console.log(`Auto-submitted ${expired.length} expired quiz attempt(s)`);
+      }
+    } catch (error) {
+      console.error('Quiz sweeper error:', errorMessage(error));
+    } finally {
+      isBusy = false;
+    }
+  };
+
+  const timer = setInterval(tick, intervalMs);
+  tick();
+
+  return () => clearInterval(timer);
+};
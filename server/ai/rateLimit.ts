@@ -0,0 +1,42 @@
+import type { Request, Response, NextFunction } from 'express';
+import type { AuthedRequest } from './auth';
+
+interface RateLimitOptions {
+  windowMs: number;
+  max: number;
+}
+
+// Sliding-window rate limiter keyed by the authenticated user id
+export const createRateLimiter = ({ windowMs, max }: RateLimitOptions) => {
+  const hits = new Map<string, number[]>();
+
+  // Drop users with no recent requests so the map does not grow forever
+  const cleanup = setInterval(() => {
+    const cutoff = Date.now() - windowMs;
+    for (const [key, timestamps] of hits.entries()) {
+      if (timestamps.every(t => t <= cutoff)) {
+        hits.delete(key);
+      }
+    }
+  }, windowMs);
+  cleanup.unref();
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const key = (req as Partial<AuthedRequest>).user?.id || req.ip || 'anonymous';
+    const now = Date.now();
+    const recent = (hits.get(key) || []).filter(t => t > now - windowMs);
+
+    if (recent.length >= max) {
+      const retryAfter = Math.ceil((recent[0] + windowMs - now) / 1000);
+      res.setHeader('Retry-After', String(retryAfter));
+      return res.status(429).json({
+        success: false,
+        error: `Rate limit exceeded. Try again in ${retryAfter} seconds.`
+      });
+    }
+
+    recent.push(now);
+    hits.set(key, recent);
+    next();
+  };
+};
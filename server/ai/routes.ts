@@ -0,0 +1,330 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { requireUser, authedHandler, isClassTeacher, isClassMember } from './auth';
+import { firstRow, errorMessage } from './rows';
+import { createRateLimiter } from './rateLimit';
+import { registerDefaultProviders, checkProvidersHealth, getFallbackChain, ProvidersExhaustedError } from './providers';
+import { generateDocument, generateAnswers, gradeSubmissionWithSampling, samplingOptionsFor, GradingError, GenerationError } from './generation';
+import { extractText, OcrError } from './ocr';
+import { MaterialText } from '../../shared/materialChunks';
+import { buildRegradeInstructions, RegradeFlag, RegradeOpinion } from '../../shared/regrade';
+import type { RubricCriterion } from '../../shared/rubric';
+import type { AssignmentQuestion, QuestionResponses } from '../../shared/questions';
+
+// Assignment columns grading needs, selected alongside a submission
+const GRADING_ASSIGNMENT_FIELDS = `
+  id,
+  class_id,
+  content,
+  max_marks,
+  due_date,
+  ai_prompt,
+  rubric,
+  questions,
+  grading_samples,
+  grading_sample_mode,
+  spread_threshold_pct,
+  assignment_answer_keys (
+    questions
+  )
+`;
+
+interface GradingAssignment {
+  id: string;
+  class_id: string;
+  content: unknown;
+  max_marks: number;
+  due_date: string | null;
+  ai_prompt: string | null;
+  rubric: RubricCriterion[] | null;
+  questions: AssignmentQuestion[] | null;
+  grading_samples: number | null;
+  grading_sample_mode: string | null;
+  spread_threshold_pct: number | null;
+  assignment_answer_keys: { questions: AssignmentQuestion[] } | { questions: AssignmentQuestion[] }[] | null;
+}
+
+interface GradingSubmission {
+  id: string;
+  ocr_text: string | null;
+  responses: QuestionResponses | null;
+}
+
+// Material text sent by the client for grounded generation
+interface MaterialInput {
+  material_id?: unknown;
+  text?: unknown;
+}
+
+// Grade a stored submission against its assignment with the assignment's sampling settings
+const gradeStoredSubmission = (
+  submission: GradingSubmission,
+  assignment: GradingAssignment,
+  { gradingMode, gradingCriteria, customInstructions }: { gradingMode?: string; gradingCriteria?: string; customInstructions?: string }
+) => gradeSubmissionWithSampling({
+  gradingMode: gradingMode || "Compare OCR'd content with Generated document",
+  ocrText: submission.ocr_text,
+  assignmentContent: {
+    content: assignment.content,
+    max_marks: assignment.max_marks,
+    due_date: assignment.due_date,
+    prompt_used: assignment.ai_prompt || 'Standard assignment'
+  },
+  maxMarks: assignment.max_marks,
+  gradingCriteria: gradingCriteria || undefined,
+  customInstructions: customInstructions || undefined,
+  rubric: assignment.rubric || undefined,
+  questions: firstRow(assignment.assignment_answer_keys)?.questions || assignment.questions || undefined,
+  responses: submission.responses
+}, samplingOptionsFor(assignment));
+
+export const createAiRouter = () => {
+  registerDefaultProviders();
+
+  const router = Router();
+  const rateLimit = createRateLimiter({
+    windowMs: Number(process.env.AI_RATE_LIMIT_WINDOW_MS) || 60000,
+    max: Number(process.env.AI_RATE_LIMIT_MAX) || 20
+  });
+
+  // Provider status (no secrets, no auth required)
+  router.get('/health', (_req: Request, res: Response, next: NextFunction) => {
+    checkProvidersHealth()
+      .then(providers => res.json({
+        status: providers.some(p => p.healthy) ? 'healthy' : 'unhealthy',
+        fallback_chain: getFallbackChain(),
+        providers
+      }))
+      .catch(next);
+  });
+
+  router.use(requireUser, rateLimit);
+
+  // Generate an assignment document, optionally grounded in extracted class material text; only the class teacher may do this
+  router.post('/generate-document', authedHandler(async (req, res) => {
+    const { class_id, prompt, max_marks = 100, days_until_due = 7, materials = [] } = req.body || {};
+
+    if (!class_id || !prompt) {
+      return res.status(400).json({ success: false, error: 'class_id and prompt are required' });
+    }
+
+    if (!await isClassTeacher(req.supabase, req.user.id, class_id)) {
+      return res.status(403).json({ success: false, error: 'Only the class teacher can generate assignments' });
+    }
+
+    if (!Array.isArray(materials)) {
+      return res.status(400).json({ success: false, error: 'materials must be an array' });
+    }
+
+    // Materials must belong to this class; titles come from the stored rows so citations can't be spoofed
+    let materialTexts: MaterialText[] = [];
+    if (materials.length > 0) {
+      const ids = (materials as MaterialInput[]).map(material => String(material?.material_id || ''));
+      const { data: rows, error } = await req.supabase
+        .from('class_materials')
+        .select('id, title')
+        .eq('class_id', class_id)
+        .in('id', ids);
+
+      if (error) throw error;
+
+      const titles = new Map((rows || []).map(row => [row.id, row.title as string]));
+      if (ids.some(id => !titles.has(id))) {
+        return res.status(400).json({ success: false, error: 'Every material must belong to this class' });
+      }
+
+      materialTexts = (materials as MaterialInput[]).map(material => ({
+        material_id: String(material.material_id),
+        title: titles.get(String(material.material_id)) || 'Material',
+        text: String(material.text || '')
+      }));
+    }
+
+    res.json(await generateDocument(String(prompt), Number(max_marks), Number(days_until_due), materialTexts));
+  }));
+
+  // Generate model answers for an existing assignment
+  router.post('/generate-answers', authedHandler(async (req, res) => {
+    const { assignment_id } = req.body || {};
+
+    if (!assignment_id) {
+      return res.status(400).json({ success: false, error: 'assignment_id is required' });
+    }
+
+    const { data: assignment, error } = await req.supabase
+      .from('assignments')
+      .select('id, class_id, content, max_marks')
+      .eq('id', assignment_id)
+      .single();
+
+    if (error || !assignment) {
+      return res.status(404).json({ success: false, error: 'Assignment not found' });
+    }
+
+    if (!await isClassTeacher(req.supabase, req.user.id, assignment.class_id)) {
+      return res.status(403).json({ success: false, error: 'Only the class teacher can generate answer keys' });
+    }
+
+    res.json(await generateAnswers(assignment.content, assignment.max_marks));
+  }));
+
+  // Grade a stored submission; only the class teacher may do this, since the result is an unreleased grade
+  router.post('/grade-submission', authedHandler(async (req, res) => {
+    const { submission_id, grading_mode, grading_criteria, custom_instructions } = req.body || {};
+
+    if (!submission_id) {
+      return res.status(400).json({ success: false, error: 'submission_id is required' });
+    }
+
+    const { data: submission, error } = await req.supabase
+      .from('submissions')
+      .select(`
+        id,
+        ocr_text,
+        responses,
+        assignments (${GRADING_ASSIGNMENT_FIELDS})
+      `)
+      .eq('id', submission_id)
+      .single();
+
+    const assignment = firstRow(submission?.assignments);
+
+    if (error || !submission || !assignment) {
+      return res.status(404).json({ success: false, error: 'Submission not found' });
+    }
+
+    if (!await isClassTeacher(req.supabase, req.user.id, assignment.class_id)) {
+      return res.status(403).json({ success: false, error: 'Only the class teacher can grade this submission' });
+    }
+
+    res.json(await gradeStoredSubmission(submission, assignment, {
+      gradingMode: grading_mode,
+      gradingCriteria: grading_criteria,
+      customInstructions: custom_instructions
+    }));
+  }));
+
+  // Second opinion on a regrade ticket: grade the submission again with the student's argument as context.
+  // The result is stored on the ticket for the teacher to accept or reject; the submission's grade is left alone
+  router.post('/regrade-ticket', authedHandler(async (req, res) => {
+    const { ticket_id, grading_mode } = req.body || {};
+
+    if (!ticket_id) {
+      return res.status(400).json({ success: false, error: 'ticket_id is required' });
+    }
+
+    const { data: ticket, error } = await req.supabase
+      .from('tickets')
+      .select(`
+        id,
+        status,
+        reason,
+        flagged_items,
+        submissions (
+          id,
+          ocr_text,
+          responses,
+          assignments (${GRADING_ASSIGNMENT_FIELDS})
+        )
+      `)
+      .eq('id', ticket_id)
+      .single();
+
+    const submission = firstRow(ticket?.submissions);
+    const assignment = firstRow(submission?.assignments);
+
+    if (error || !ticket || !submission || !assignment) {
+      return res.status(404).json({ success: false, error: 'Ticket not found' });
+    }
+
+    if (!await isClassTeacher(req.supabase, req.user.id, assignment.class_id)) {
+      return res.status(403).json({ success: false, error: 'Only the class teacher can re-evaluate a regrade request' });
+    }
+
+    if (ticket.status !== 'open' && ticket.status !== 'in_progress') {
+      return res.status(409).json({ success: false, error: `This ticket is ${ticket.status} and can no longer be re-evaluated` });
+    }
+
+    const result = await gradeStoredSubmission(submission, assignment, {
+      gradingMode: grading_mode,
+      customInstructions: buildRegradeInstructions(ticket.reason || '', (ticket.flagged_items || []) as RegradeFlag[])
+    });
+
+    const opinion: RegradeOpinion = {
+      grade: result.final_marks,
+      max_marks: result.max_marks,
+      feedback: result.review || result.feedback,
+      criterion_scores: result.criterion_scores,
+      question_scores: result.question_scores,
+      raw_score: result.raw_score,
+      raw_score_max: result.raw_score_max,
+      provider: result.provider,
+      spread: result.spread,
+      needs_review: result.needs_review,
+      generated_at: new Date().toISOString()
+    };
+
+    // Asking for a second opinion puts an open ticket under review
+    const { error: saveError } = await req.supabase
+      .from('tickets')
+      .update({
+        ai_reevaluation: opinion,
+        ai_reevaluated_at: opinion.generated_at,
+        ...(ticket.status === 'open' && { status: 'in_progress' })
+      })
+      .eq('id', ticket.id);
+
+    if (saveError) {
+      console.error('Failed to store regrade opinion:', saveError);
+      return res.status(500).json({ success: false, error: 'The re-evaluation finished but could not be saved on the ticket' });
+    }
+
+    res.json({ success: true, opinion });
+  }));
+
+  // OCR an uploaded file for an assignment the caller belongs to
+  router.post('/extract-text', authedHandler(async (req, res) => {
+    const { assignment_id, file_name, file_type, file_data } = req.body || {};
+
+    if (!assignment_id || !file_type || !file_data) {
+      return res.status(400).json({ success: false, error: 'assignment_id, file_type and file_data are required' });
+    }
+
+    const { data: assignment, error } = await req.supabase
+      .from('assignments')
+      .select('id, class_id')
+      .eq('id', assignment_id)
+      .single();
+
+    if (error || !assignment) {
+      return res.status(404).json({ success: false, error: 'Assignment not found' });
+    }
+
+    if (!await isClassMember(req.supabase, req.user.id, assignment.class_id)) {
+      return res.status(403).json({ success: false, error: 'You are not a member of this class' });
+    }
+
+    res.json(await extractText(Buffer.from(String(file_data), 'base64'), String(file_type), String(file_name || 'upload')));
+  }));
+
+  // Map domain errors onto HTTP responses
+  router.use((error: unknown, _req: Request, res: Response, next: NextFunction) => {
+    if (res.headersSent) return next(error);
+
+    if (error instanceof GradingError) {
+      return res.status(422).json({ success: false, error: error.message, code: error.code, raw_response: error.rawResponse });
+    }
+
+    if (error instanceof GenerationError) {
+      return res.status(422).json({ success: false, error: error.message, validation_errors: error.validationErrors, raw_response: error.rawResponse });
+    }
+
+    if (error instanceof OcrError) {
+      return res.status(error.status).json({ success: false, error: error.message });
+    }
+
+    console.error('AI endpoint error:', error);
+    res.status(error instanceof ProvidersExhaustedError ? 502 : 500).json({ success: false, error: errorMessage(error) || 'Internal server error' });
+  });
+
+  return router;
+};
@@ -0,0 +1,9 @@
+// Helpers for working with Supabase rows and thrown values in the AI server
+
+// A to-one embed comes back as an object, or as a one-element array when PostgREST can't tell the relationship's direction
+export const firstRow = <T>(value: T | T[] | null | undefined): T | undefined =>
+  Array.isArray(value) ? value[0] : value ?? undefined;
+
+// Message of anything thrown, which need not be an Error
+export const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
@@ -0,0 +1,108 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createServiceClient } from './auth';
+import { errorMessage, firstRow } from './rows';
+import { describeTicketDue, isTicketOverdue, needsTicketReminder, TicketPriority } from '../../shared/ticketSla';
+
+// Remind the handling teacher about stale tickets; overdue tickets assigned to someone else also go to the assignment's teacher
+const remindStaleTickets = async (supabase: SupabaseClient) => {
+  const { data: tickets, error } = await supabase
+    .from('tickets')
+    .select(`
+      id,
+      title,
+      status,
+      priority,
+      created_at,
+      due_at,
+      first_response_at,
+      last_reminded_at,
+      reminder_count,
+      assigned_to,
+      submissions!inner (
+        assignments!inner (
+          title,
+          teacher_id
+        )
+      )
+    `)
+    .in('status', ['open', 'in_progress']);
+
+  if (error) {
+    console.error('Failed to load tickets for reminders:', error.message);
+    return;
+  }
+
+  const now = new Date();
+  const stale = (tickets || [])
+    .map(ticket => ({ ...ticket, priority: ticket.priority as TicketPriority }))
+    .filter(ticket => needsTicketReminder(ticket, now));
+  if (stale.length === 0) return;
+
+  let sent = 0;
+  for (const ticket of stale) {
+    const assignment = firstRow(firstRow(ticket.submissions)?.assignments);
+    if (!assignment) continue;
+    const handler = ticket.assigned_to || assignment.teacher_id;
+    const overdue = isTicketOverdue(ticket, now);
+    const due = describeTicketDue(ticket, now);
+
+    const notifications = [{
+      user_id: handler,
+      title: overdue ? 'Ticket Overdue' : 'Ticket Needs a Response',
+      message: `"${ticket.title}" on ${assignment.title} is ${ticket.first_response_at ? 'still open' : 'unanswered'} (${due})`,
+      type: 'ticket',
+      related_id: ticket.id
+    }];
+    if (overdue && handler !== assignment.teacher_id) {
+      notifications.push({
+        user_id: assignment.teacher_id,
+        title: 'Ticket Escalated',
+        message: `"${ticket.title}" on ${assignment.title} is ${due} with its assigned teacher`,
+        type: 'ticket',
+        related_id: ticket.id
+      });
+    }
+
+    const { error: insertError } = await supabase.from('notifications').insert(notifications);
+    if (insertError) {
+      console.error(`Failed to send reminder for ticket ${ticket.id}:`, insertError.message);
+      continue;
+    }
+
+    await supabase
+      .from('tickets')
+      .update({ last_reminded_at: now.toISOString(), reminder_count: (ticket.reminder_count || 0) + 1 })
+      .eq('id', ticket.id);
+    sent++;
+  }
+
+  console.log(`Sent reminders for ${sent} stale ticket(s)`);
+};
+
+// Periodically remind teachers about stale and overdue tickets; returns a function that stops it
+export const startTicketReminderScheduler = (intervalMs = Number(process.env.TICKET_REMINDER_INTERVAL_MS) || 15 * 60000) => {
+  if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    console.warn('SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are not set; ticket reminders are disabled');
+    return () => undefined;
+  }
+
+  const supabase = createServiceClient();
+  let isBusy = false;
+
+  const tick = async () => {
+    if (isBusy) return;
+    isBusy = true;
+    try {
+      await remindStaleTickets(supabase);
+    } catch (error) {
+      console.error('Ticket reminder scheduler error:', errorMessage(error));
+    } finally {
+      isBusy = false;
+    }
+  };
+
+  const timer = setInterval(tick, intervalMs);
+  tick();
+
+  return () => clearInterval(timer);
+};
@@ -2,6 +2,7 @@ const express = require('express');
 const http = require('http');
 const socketIo = require('socket.io');
 const cors = require('cors');
+const { createAiRouter, startGradingWorker, startGradeReleaseScheduler, startTicketReminderScheduler, createQuizRouter, startQuizSweeper } = require('./ai');
 
 const app = express();
 const server = http.createServer(app);
@@ -17,7 +18,12 @@ const io = socketIo(server, {
 
 // Middleware
 app.use(cors());
-app.use(express.json());
+app.use(express.json({ limit: '15mb' })); // Large enough for base64 file uploads to /api/ai/extract-text
+
+// AI generation, grading and OCR endpoints (provider keys stay on the server)
+app.use('/api/ai', createAiRouter());
+// Timed quiz attempts (started, scored and auto-submitted on the server)
+app.use('/api/quizzes', createQuizRouter());
 
 // Store active rooms and participants
 const rooms = new Map();
@@ -329,9 +335,22 @@ server.listen(PORT, () => {
   console.log(`🔗 Health check available at http://localhost:${PORT}/health`);
 });
 
+// Background AI grading of queued submissions
+const stopGradingWorker = startGradingWorker();
+// Notifications for grades whose scheduled release time has passed
+const stopGradeReleaseScheduler = startGradeReleaseScheduler();
+// Reminders for stale and overdue tickets
+const stopTicketReminderScheduler = startTicketReminderScheduler();
+// Auto-submit quiz attempts whose time ran out
+const stopQuizSweeper = startQuizSweeper();
+
 // Graceful shutdown
 process.on('SIGTERM', () => {
   console.log('SIGTERM received, shutting down gracefully');
+  stopGradingWorker();
+  stopGradeReleaseScheduler();
+  stopTicketReminderScheduler();
+  stopQuizSweeper();
   server.close(() => {
     console.log('Server closed');
     process.exit(0);
@@ -340,6 +359,10 @@ process.on('SIGTERM', () => {
 
 process.on('SIGINT', () => {
   console.log('SIGINT received, shutting down gracefully');
+  stopGradingWorker();
+  stopGradeReleaseScheduler();
+  stopTicketReminderScheduler();
+  stopQuizSweeper();
   server.close(() => {
     console.log('Server closed');
     process.exit(0);
@@ -0,0 +1,138 @@
+// Schema, validation and rendering for AI-generated assignment documents, shared by the client and the AI server
+
+export interface GeneratedQuestion {
+  number: number;
+  prompt: string;
+  marks: number;
+  answer_key?: string;
+  // Excerpt label cited by the model (e.g. "S3") when generating from class materials
+  source?: string;
+  citation?: { material_id: string; material_title: string; page: number };
+}
+
+export interface GeneratedCriterion {
+  name: string;
+  description: string;
+}
+
+export interface GeneratedDocument {
+  title: string;
+  instructions: string;
+  questions: GeneratedQuestion[];
+  grading_criteria: GeneratedCriterion[];
+  learning_outcomes: string[];
+}
+
+export interface GeneratedDocumentValidation {
+  document: GeneratedDocument;
+  // Problems a retry has to fix (missing sections, unusable questions)
+  errors: string[];
+  // Problems that can be fixed without asking the model again
+  marksMismatch: boolean;
+}
+
+// Described to the model verbatim so the shape in the prompt and in validation cannot drift apart
+export const GENERATED_DOCUMENT_SCHEMA = `{
+  "title": string,
+  "instructions": string (instructions for students, markdown allowed),
+  "questions": [{ "number": integer starting at 1, "prompt": string, "marks": number, "answer_key": string (brief model answer) }],
+  "grading_criteria": [{ "name": string, "description": string }],
+  "learning_outcomes": [string]
+}`;
+
+const asText = (value: unknown) => typeof value === 'string' ? value.trim() : '';
+
+// An element of a parsed array; the model may leave out any field
+type RawEntry = Partial<Record<string, unknown>> | null;
+
+export const totalGeneratedMarks = (document: GeneratedDocument) =>
+  document.questions.reduce((sum, question) => sum + (Number.isFinite(question.marks) ? question.marks : 0), 0);
+
+// Coerce parsed model output into the schema and list what is wrong with it; with sourceLabels every
+// question must cite one of the material excerpts it was given
+export const validateGeneratedDocument = (value: unknown, maxMarks: number, sourceLabels: string[] = []): GeneratedDocumentValidation => {
+  const raw = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  const errors: string[] = [];
+
+  const questions = (Array.isArray(raw.questions) ? raw.questions : [])
+    .map((question: RawEntry, index: number): GeneratedQuestion => ({
+      number: index + 1,
+      prompt: asText(question?.prompt ?? question?.question ?? question?.text),
+      marks: Number(question?.marks),
+      answer_key: asText(question?.answer_key ?? question?.answer) || undefined,
+      source: asText(question?.source).replace(/^\[|\]$/g, '').toUpperCase() || undefined
+    }));
+
+  const document: GeneratedDocument = {
+    title: asText(raw.title),
+    instructions: asText(raw.instructions),
+    questions,
+    grading_criteria: (Array.isArray(raw.grading_criteria) ? raw.grading_criteria : [])
+      .map((criterion: string | RawEntry) => typeof criterion === 'string'
+        ? { name: criterion.trim(), description: '' }
+        : { name: asText(criterion?.name ?? criterion?.criterion), description: asText(criterion?.description) })
+      .filter(criterion => criterion.name),
+    learning_outcomes: (Array.isArray(raw.learning_outcomes) ? raw.learning_outcomes : [])
+      .map(asText)
+      .filter(Boolean)
+  };
+
+  if (!document.title) errors.push('title is missing');
+  if (!document.instructions) errors.push('instructions are missing');
+  if (questions.length === 0) errors.push('questions must be a non-empty array');
+  questions.forEach(question => {
+    if (!question.prompt) errors.push(`question ${question.number} has no prompt`);
+    if (!Number.isFinite(question.marks) || question.marks <= 0) errors.push(`question ${question.number} needs positive numeric marks`);
+    if (sourceLabels.length > 0 && !sourceLabels.includes(question.source || '')) {
+      errors.push(`question ${question.number} must cite the excerpt it is based on as "source" (one of ${sourceLabels.slice(0, 5).join(', ')}${sourceLabels.length > 5 ? ', ...' : ''})`);
+    }
+  });
+  if (document.grading_criteria.length === 0) errors.push('grading_criteria must be a non-empty array');
+  if (document.learning_outcomes.length === 0) errors.push('learning_outcomes must be a non-empty array');
+
+  return {
+    document,
+    errors,
+    marksMismatch: errors.length === 0 && Math.abs(totalGeneratedMarks(document) - maxMarks) > 0.001
+  };
+};
+
+// Scale question marks so they add up to maxMarks, keeping whole numbers and giving any remainder to the last question
+export const scaleGeneratedMarks = (document: GeneratedDocument, maxMarks: number): GeneratedDocument => {
+  const total = totalGeneratedMarks(document);
+  if (total <= 0 || document.questions.length === 0) return document;
+
+  const scaled = document.questions.map(question => Math.max(1, Math.round(question.marks * maxMarks / total)));
+  const last = scaled.length - 1;
+  scaled[last] = Math.max(1, maxMarks - scaled.slice(0, last).reduce((sum, marks) => sum + marks, 0));
+
+  return {
+    ...document,
+    questions: document.questions.map((question, i) => ({ ...question, marks: scaled[i] }))
+  };
+};
+
+// Markdown stored as assignment.content; "1. ... (5 marks)" keeps it splittable by splitContentIntoQuestions
+export const renderGeneratedDocument = (document: GeneratedDocument) => {
+  const sections = [
+    `# ${document.title}`,
+    `## Instructions\n\n${document.instructions}`,
+    `## Questions\n\n${document.questions
+      .map(question => `${question.number}. ${question.prompt} (${question.marks} marks)${question.citation
+        ? ` *[Source: ${question.citation.material_title}, p. ${question.citation.page}]*`
+        : ''}`)
+      .join('\n\n')}`
+  ];
+
+  if (document.grading_criteria.length > 0) {
+    sections.push(`## Grading Criteria\n\n${document.grading_criteria
+      .map(criterion => `- **${criterion.name}**${criterion.description ? `: ${criterion.description}` : ''}`)
+      .join('\n')}`);
+  }
+
+  if (document.learning_outcomes.length > 0) {
+    sections.push(`## Learning Outcomes\n\n${document.learning_outcomes.map(outcome => `- ${outcome}`).join('\n')}`);
+  }
+
+  return sections.join('\n\n');
+};
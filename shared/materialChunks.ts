@@ -0,0 +1,109 @@
+// Page splitting and chunking of class material text for grounded generation, and page-numbered joining of
+// multi-file submission text; shared by the client and the AI server
+export interface MaterialText {
+  material_id: string;
+  title: string;
+  // Extracted text with "--- Page N ---" markers, as produced by the PDF OCR path
+  text: string;
+}
+
+export interface MaterialChunk {
+  // Short label the model cites, e.g. "S3"
+  label: string;
+  material_id: string;
+  material_title: string;
+  page: number;
+  text: string;
+}
+
+export interface MaterialCitation {
+  material_id: string;
+  material_title: string;
+  page: number;
+}
+
+const PAGE_MARKER = /^-{3}\s*Page\s+(\d+)\s*-{3}$/gim;
+
+// Split extracted text on its page markers; text without markers is treated as a single page
+export const splitTextIntoPages = (text: string) => {
+  const markers = [...text.matchAll(PAGE_MARKER)];
+  if (markers.length === 0) {
+    return text.trim() ? [{ page: 1, text: text.trim() }] : [];
+  }
+
+  return markers
+    .map((marker, i) => ({
+      page: Number(marker[1]),
+      text: text.slice((marker.index ?? 0) + marker[0].length, markers[i + 1]?.index).trim()
+    }))
+    .filter(page => page.text);
+};
+
+// Join the OCR text of several files into one text with continuous "--- Page N ---" markers. Each file
+// takes as many pages as its highest marker (at least one), so a page viewer can map pages back to files.
+export const combinePagedTexts = (texts: string[]) => {
+  const parts: string[] = [];
+  const ranges: { first_page: number; page_count: number }[] = [];
+  let offset = 0;
+
+  for (const text of texts) {
+    const pages = splitTextIntoPages(text);
+    const pageCount = Math.max(1, ...pages.map(page => page.page));
+    pages.forEach(page => parts.push(`--- Page ${offset + page.page} ---\n${page.text}`));
+    ranges.push({ first_page: offset + 1, page_count: pageCount });
+    offset += pageCount;
+  }
+
+  return { text: parts.join('\n\n'), ranges };
+};
+
+// Cut each page into paragraph-aligned chunks of roughly chunkChars, so every chunk maps to one page
+export const chunkMaterials = (materials: MaterialText[], chunkChars = 1500): MaterialChunk[] => {
+  const chunks: MaterialChunk[] = [];
+
+  for (const material of materials) {
+    for (const page of splitTextIntoPages(material.text)) {
+      let current = '';
+      const flush = () => {
+        if (!current.trim()) return;
+        chunks.push({
+          label: `S${chunks.length + 1}`,
+          material_id: material.material_id,
+          material_title: material.title,
+          page: page.page,
+          text: current.trim()
+        });
+        current = '';
+      };
+
+      for (const paragraph of page.text.split(/\n\s*\n/)) {
+        if (current && current.length + paragraph.length > chunkChars) flush();
+        // A single oversized paragraph is hard-split so no chunk runs far past the limit
+        for (let start = 0; start < paragraph.length; start += chunkChars) {
+          current += `${current ? '\n\n' : ''}${paragraph.slice(start, start + chunkChars)}`;
+          if (current.length >= chunkChars) flush();
+        }
+      }
+      flush();
+    }
+  }
+
+  return chunks;
+};
+
+// Keep chunks spread evenly across all materials when they don't fit in the prompt budget
+export const selectChunksWithinBudget = (chunks: MaterialChunk[], budgetChars: number) => {
+  const total = chunks.reduce((sum, chunk) => sum + chunk.text.length, 0);
+  if (total <= budgetChars) return chunks;
+
+  const averageLength = total / chunks.length;
+  const keep = Math.max(1, Math.floor(budgetChars / averageLength));
+  const step = chunks.length / keep;
+  return Array.from({ length: keep }, (_, i) => chunks[Math.floor(i * step)]);
+};
+
+export const formatChunksForPrompt = (chunks: MaterialChunk[]) => {
+  return chunks.map(chunk => `[${chunk.label}] "${chunk.material_title}", page ${chunk.page}:\n${chunk.text}`).join('\n\n');
+};
+
+export const formatCitation = (citation: MaterialCitation) => `${citation.material_title}, p. ${citation.page}`;
@@ -0,0 +1,95 @@
+// Word-level OCR confidence, shared by the browser OCR, the server OCR and the correction views
+
+// Words below this Tesseract confidence (0-100) are highlighted for checking
+export const LOW_CONFIDENCE_THRESHOLD = 70;
+
+export interface OcrWord {
+  text: string;
+  confidence: number;
+  bbox: { x0: number; y0: number; x1: number; y1: number };
+}
+
+export interface OcrPage {
+  // Page number in the submission's "--- Page N ---" numbering
+  page: number;
+  confidence: number;
+  words: OcrWord[];
+}
+
+// The parts of a Tesseract result this module reads; blocks are only returned when requested as output
+interface TesseractPageLike {
+  confidence: number;
+  blocks?: {
+    paragraphs: {
+      lines: {
+        words: { text: string; confidence: number; bbox: OcrWord['bbox'] }[];
+      }[];
+    }[];
+  }[] | null;
+}
+
+// Flatten Tesseract's block tree into the page's words in reading order
+export const ocrPageFromResult = (result: TesseractPageLike, page = 1): OcrPage => {
+  const words: OcrWord[] = [];
+  for (const block of result.blocks || []) {
+    for (const paragraph of block.paragraphs) {
+      for (const line of paragraph.lines) {
+        for (const word of line.words) {
+          if (word.text.trim()) {
+            words.push({
+              text: word.text,
+              confidence: Math.round(word.confidence * 10) / 10,
+              bbox: word.bbox
+            });
+          }
+        }
+      }
+    }
+  }
+  return { page, confidence: Math.round(result.confidence * 10) / 10, words };
+};
+
+// Renumber pages when files are joined into one submission
+export const offsetOcrPages = (pages: OcrPage[], firstPage: number) =>
+  pages.map(page => ({ ...page, page: page.page + firstPage - 1 }));
+
+// Average word confidence across pages, or null when nothing was OCR'd (e.g. PDFs read from their text layer)
+export const averageConfidence = (pages: OcrPage[]) => {
+  const words = pages.flatMap(page => page.words);
+  if (words.length === 0) return null;
+  return Math.round(words.reduce((sum, word) => sum + word.confidence, 0) / words.length * 10) / 10;
+};
+
+export const countLowConfidenceWords = (pages: OcrPage[], threshold = LOW_CONFIDENCE_THRESHOLD) =>
+  pages.reduce((count, page) => count + page.words.filter(word => word.confidence < threshold).length, 0);
+
+// Character ranges of low-confidence words in the page-marked text. Words are matched in order within their page,
+// so words the reader has already corrected simply stop matching and drop out of the highlight
+export const findLowConfidenceRanges = (text: string, pages: OcrPage[], threshold = LOW_CONFIDENCE_THRESHOLD) => {
+  const markers = [...text.matchAll(/--- Page (\d+) ---\n?/g)];
+  const sections = markers.length > 0
+    ? markers.map((marker, index) => ({
+      page: Number(marker[1]),
+      start: (marker.index ?? 0) + marker[0].length,
+      end: index + 1 < markers.length ? markers[index + 1].index ?? text.length : text.length
+    }))
+    : [{ page: 1, start: 0, end: text.length }];
+
+  // [start, end) pairs, the same shape as similarity passages so HighlightedText can show them
+  const ranges: [number, number][] = [];
+  for (const page of pages) {
+    const section = sections.find(item => item.page === page.page);
+    if (!section) continue;
+
+    let cursor = section.start;
+    for (const word of page.words) {
+      const index = text.indexOf(word.text, cursor);
+      if (index === -1 || index + word.text.length > section.end) continue;
+      if (word.confidence < threshold) {
+        ranges.push([index, index + word.text.length]);
+      }
+      cursor = index + word.text.length;
+    }
+  }
+  return ranges.sort((x, y) => x[0] - y[0]);
+};
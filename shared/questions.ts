@@ -0,0 +1,322 @@
+// Question types, answer segmentation and objective grading helpers shared by the client and the AI server
+export type QuestionType = 'essay' | 'mcq' | 'multi_select' | 'true_false' | 'numeric' | 'short_exact';
+
+export interface AssignmentQuestion {
+  id: string;
+  number: number;
+  type?: QuestionType;
+  prompt: string;
+  marks: number;
+  answer_key?: string;
+  // mcq and multi_select
+  options?: string[];
+  correct_options?: number[];
+  // true_false ('true' or 'false') and short_exact (accepted answers separated by |)
+  correct_answer?: string;
+  case_sensitive?: boolean;
+  // numeric
+  numeric_answer?: number;
+  tolerance?: number;
+  // Class material page the question was generated from
+  citation?: { material_id: string; material_title: string; page: number };
+}
+
+// Option indexes for mcq/multi_select, text for everything else
+export type QuestionResponse = string | number[];
+export type QuestionResponses = Record<string, QuestionResponse>;
+
+export interface QuestionScore {
+  question_id: string;
+  number: number;
+  score: number;
+  max_marks: number;
+  feedback?: string;
+  answer_text?: string;
+}
+
+interface NumberedSection {
+  number: number;
+  start: number;
+  bodyStart: number;
+}
+
+// Lines such as "1.", "2)", "Q3:", "Question 4" or "## Question 5" start a new question
+const QUESTION_MARKER = /^[ \t>#*_]*(?:(?:Q(?:uestion|ues)?)\.?\s*(\d{1,3})\b[.):-]?|(\d{1,3})[.):](?!\d))[ \t*_]*/gim;
+
+const MARKS_PATTERN = /[([]\s*(\d+(?:\.\d+)?)\s*(?:marks?|pts?|points?)?\s*[)\]]/i;
+
+// Create a blank question with the given number
+export const createQuestion = (number: number, marks = 0): AssignmentQuestion => ({
+  id: `question_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+  number,
+  type: 'essay',
+  prompt: '',
+  marks,
+  answer_key: ''
+});
+
+// Build assignment questions from prompts that already carry their marks and key answers (e.g. a generated document)
+export const questionsFromPrompts = (items: Pick<AssignmentQuestion, 'number' | 'prompt' | 'marks' | 'answer_key' | 'citation'>[]): AssignmentQuestion[] =>
+  items.map(item => ({
+    ...createQuestion(item.number, item.marks),
+    prompt: item.prompt,
+    answer_key: item.answer_key || '',
+    ...(item.citation && { citation: item.citation })
+  }));
+
+export const totalQuestionMarks = (questions: AssignmentQuestion[]) =>
+  questions.reduce((sum, question) => sum + Math.max(question.marks || 0, 0), 0);
+
+const findNumberedSections = (text: string): NumberedSection[] => {
+  const sections: NumberedSection[] = [];
+  for (const match of text.matchAll(QUESTION_MARKER)) {
+    sections.push({
+      number: Number(match[1] ?? match[2]),
+      start: match.index ?? 0,
+      bodyStart: (match.index ?? 0) + match[0].length
+    });
+  }
+  return sections;
+};
+
+// Walk the markers in order so numbered lists inside an answer don't steal later questions
+const segmentByNumbers = (text: string, numbers: number[]) => {
+  const sections = findNumberedSections(text);
+  const matched: (NumberedSection | null)[] = [];
+  let cursor = 0;
+
+  for (const number of numbers) {
+    const index = sections.findIndex((section, i) => i >= cursor && section.number === number);
+    matched.push(index === -1 ? null : sections[index]);
+    if (index !== -1) cursor = index + 1;
+  }
+
+  return matched.map((section, i) => {
+    if (!section) return null;
+    const next = matched.slice(i + 1).find(Boolean);
+    return text.slice(section.bodyStart, next ? next.start : undefined).trim();
+  });
+};
+
+// Split assignment content into numbered questions, reading "(5 marks)" style annotations
+// and sharing any unannotated marks evenly
+export const splitContentIntoQuestions = (content: string, maxMarks: number): AssignmentQuestion[] => {
+  const numbers = [...new Set(findNumberedSections(content).map(section => section.number))].sort((a, b) => a - b);
+  const consecutive = numbers.filter((number, i) => number === i + 1);
+  if (consecutive.length === 0) return [];
+
+  const prompts = segmentByNumbers(content, consecutive);
+  const questions = consecutive.map((number, i) => {
+    const prompt = prompts[i] || '';
+    const marks = prompt.match(MARKS_PATTERN);
+    return { ...createQuestion(number, marks ? Number(marks[1]) : 0), prompt };
+  });
+
+  const unmarked = questions.filter(question => question.marks === 0);
+  const remaining = Math.max(maxMarks - totalQuestionMarks(questions), 0);
+  if (unmarked.length > 0 && remaining > 0) {
+    const share = Math.floor(remaining / unmarked.length);
+    unmarked.forEach((question, i) => {
+      question.marks = i === unmarked.length - 1 ? remaining - share * (unmarked.length - 1) : share;
+    });
+  }
+
+  return questions;
+};
+
+// Fill in each question's key answer from a generated answer key that uses the same numbering
+export const attachAnswerKeys = (questions: AssignmentQuestion[], answerKey: string): AssignmentQuestion[] => {
+  const keys = segmentByNumbers(answerKey, questions.map(question => question.number));
+  return questions.map((question, i) => keys[i] ? { ...question, answer_key: keys[i] } : question);
+};
+
+// Map each question id to the student's answer; null when the text carries no question numbers at all
+export const segmentAnswersByQuestion = (text: string, questions: AssignmentQuestion[]): Record<string, string> | null => {
+  const answers = segmentByNumbers(text, questions.map(question => question.number));
+  if (answers.every(answer => answer === null)) return null;
+
+  return Object.fromEntries(questions.map((question, i) => [question.id, answers[i] || '']));
+};
+
+// Clamp a question score into the 0..marks range
+export const clampQuestionScore = (score: number, marks: number) => {
+  if (!Number.isFinite(score)) return 0;
+  return Math.min(Math.max(score, 0), marks);
+};
+
+// Render questions, keys and segmented answers as plain text for inclusion in AI prompts
+export const formatQuestionsForPrompt = (questions: AssignmentQuestion[], answers: Record<string, string> | null) => {
+  return questions.map(question => `- question_id: ${question.id}
+  number: ${question.number}
+  marks: ${question.marks}
+  question: ${question.prompt || 'See assignment content'}
+  key_answer: ${question.answer_key || 'None provided; use your own judgement'}
+  student_answer: ${answers ? answers[question.id] || '(no answer found for this question)' : '(see the full submission text)'}`).join('\n');
+};
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  essay: 'Essay (AI graded)',
+  mcq: 'Multiple choice',
+  multi_select: 'Multi-select',
+  true_false: 'True / False',
+  numeric: 'Numeric',
+  short_exact: 'Short answer (exact)'
+};
+
+// Objective questions are graded deterministically, without an AI call
+export const isObjectiveQuestion = (question: AssignmentQuestion) => !!question.type && question.type !== 'essay';
+
+export const hasObjectiveQuestions = (questions?: AssignmentQuestion[] | null) => !!questions && questions.some(isObjectiveQuestion);
+
+const normalizeText = (text: string, caseSensitive?: boolean) => {
+  const collapsed = text.trim().replace(/\s+/g, ' ');
+  return caseSensitive ? collapsed : collapsed.toLowerCase();
+};
+
+const toOptionIndexes = (response?: QuestionResponse) => Array.isArray(response) ? response : [];
+
+const toText = (response?: QuestionResponse) => typeof response === 'string' ? response : '';
+
+// Describe what is missing from a question before it can be saved, or null when it is complete
+export const validateQuestion = (question: AssignmentQuestion): string | null => {
+  if (question.marks <= 0) return `Question ${question.number} needs marks above zero`;
+
+  switch (question.type) {
+    case 'mcq':
+    case 'multi_select':
+      if ((question.options || []).filter(option => option.trim()).length < 2) return `Question ${question.number} needs at least two options`;
+      if ((question.correct_options || []).length === 0) return `Question ${question.number} needs a correct option`;
+      return null;
+    case 'numeric':
+      return Number.isFinite(question.numeric_answer) ? null : `Question ${question.number} needs a correct value`;
+    case 'short_exact':
+      return question.correct_answer?.trim() ? null : `Question ${question.number} needs at least one accepted answer`;
+    default:
+      return null;
+  }
+};
+
+// Human-readable form of a student's response
+export const describeResponse = (question: AssignmentQuestion, response?: QuestionResponse) => {
+  if (question.type === 'mcq' || question.type === 'multi_select') {
+    return toOptionIndexes(response).map(index => question.options?.[index] ?? `Option ${index + 1}`).join(', ');
+  }
+  return toText(response);
+};
+
+// Human-readable form of the correct answer
+export const describeAnswerKey = (question: AssignmentQuestion) => {
+  switch (question.type) {
+    case 'mcq':
+    case 'multi_select':
+      return (question.correct_options || []).map(index => question.options?.[index] ?? `Option ${index + 1}`).join(', ');
+    case 'true_false':
+      return question.correct_answer === 'true' ? 'True' : 'False';
+    case 'numeric':
+      return `${question.numeric_answer ?? ''}${question.tolerance ? ` (± ${question.tolerance})` : ''}`;
+    case 'short_exact':
+      return (question.correct_answer || '').split('|').map(answer => answer.trim()).filter(Boolean).join(' or ');
+    default:
+      return question.answer_key || '';
+  }
+};
+
+// The questions as a student may see them, without answers; matches public.strip_question_keys()
+export const stripAnswerKeys = (questions: AssignmentQuestion[]): AssignmentQuestion[] =>
+  questions.map(question => {
+    const stripped = { ...question };
+    delete stripped.answer_key;
+    delete stripped.correct_options;
+    delete stripped.correct_answer;
+    delete stripped.numeric_answer;
+    return stripped;
+  });
+
+// Score an objective question; multi-select earns partial credit for each correct option minus each wrong one
+export const gradeObjectiveQuestion = (question: AssignmentQuestion, response?: QuestionResponse): QuestionScore => {
+  let ratio = 0;
+
+  switch (question.type) {
+    case 'mcq': {
+      const chosen = toOptionIndexes(response);
+      ratio = chosen.length === 1 && (question.correct_options || []).includes(chosen[0]) ? 1 : 0;
+      break;
+    }
+    case 'multi_select': {
+      const correct = question.correct_options || [];
+      const chosen = [...new Set(toOptionIndexes(response))];
+      const right = chosen.filter(index => correct.includes(index)).length;
+      const wrong = chosen.length - right;
+      ratio = correct.length > 0 ? Math.max(right - wrong, 0) / correct.length : 0;
+      break;
+    }
+    case 'true_false':
+      ratio = normalizeText(toText(response)) === question.correct_answer ? 1 : 0;
+      break;
+    case 'numeric': {
+      const value = parseFloat(toText(response));
+      const expected = Number(question.numeric_answer);
+      ratio = Number.isFinite(value) && Number.isFinite(expected) && Math.abs(value - expected) <= Math.abs(question.tolerance || 0) ? 1 : 0;
+      break;
+    }
+    case 'short_exact': {
+      const answer = normalizeText(toText(response), question.case_sensitive);
+      const accepted = (question.correct_answer || '').split('|').map(text => normalizeText(text, question.case_sensitive)).filter(Boolean);
+      ratio = answer !== '' && accepted.includes(answer) ? 1 : 0;
+      break;
+    }
+  }
+
+  const score = Math.round(ratio * question.marks * 100) / 100;
+  const answered = describeResponse(question, response) !== '';
+
+  return {
+    question_id: question.id,
+    number: question.number,
+    score,
+    max_marks: question.marks,
+    feedback: !answered
+      ? `Not answered. Correct answer: ${describeAnswerKey(question)}`
+      : ratio === 1 ? 'Correct' : `${ratio > 0 ? 'Partially correct' : 'Incorrect'}. Correct answer: ${describeAnswerKey(question)}`,
+    answer_text: describeResponse(question, response)
+  };
+};
+
+// Render online-form responses as numbered text so they can be stored and segmented like OCR text
+export const formatResponsesAsText = (questions: AssignmentQuestion[], responses: QuestionResponses) => {
+  return questions
+    .map(question => `${question.number}. ${describeResponse(question, responses[question.id]) || '(no answer)'}`)
+    .join('\n\n');
+};
+
+// Small deterministic PRNG so a student sees the same order every time they reload an attempt
+const seededRandom = (seed: string) => {
+  let state = 0;
+  for (let i = 0; i < seed.length; i++) {
+    state = (Math.imul(31, state) + seed.charCodeAt(i)) | 0;
+  }
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Fisher-Yates shuffle driven by a string seed
+export const seededShuffle = <T>(items: T[], seed: string): T[] => {
+  const random = seededRandom(seed);
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
+
+// Display order of option indexes for each choice question; responses keep the original indexes
+export const shuffleOptionOrders = (questions: AssignmentQuestion[], seed: string): Record<string, number[]> => {
+  return Object.fromEntries(questions
+    .filter(question => question.type === 'mcq' || question.type === 'multi_select')
+    .map(question => [question.id, seededShuffle((question.options || []).map((_, index) => index), `${seed}:${question.id}`)]));
+};
@@ -0,0 +1,145 @@
+// Regrade tickets: status rules, the student's flagged items, the AI re-evaluation prompt and score comparison.
+// Shared by the client and the AI server
+
+export type TicketStatus = 'open' | 'in_progress' | 'resolved' | 'closed';
+
+export const TICKET_STATUS_LABELS: Record<TicketStatus, string> = {
+  open: 'Open',
+  in_progress: 'Under review',
+  resolved: 'Resolved',
+  closed: 'Closed'
+};
+
+// Allowed status changes; the tickets trigger enforces the same table and who may make each change
+export const TICKET_TRANSITIONS: Record<TicketStatus, TicketStatus[]> = {
+  open: ['in_progress', 'resolved', 'closed'],
+  in_progress: ['resolved', 'closed'],
+  // The student can reopen a resolved ticket if they still disagree
+  resolved: ['open', 'closed'],
+  closed: []
+};
+
+export const canTransitionTicket = (from: TicketStatus, to: TicketStatus) => TICKET_TRANSITIONS[from].includes(to);
+
+// A question or rubric criterion the student wants looked at again
+export interface RegradeFlag {
+  kind: 'question' | 'criterion';
+  // question_id or criterion_id
+  id: string;
+  label: string;
+  // The score when the ticket was raised
+  score?: number | null;
+  max_points: number;
+  note?: string;
+}
+
+export type RegradeResolution = 'grade_changed' | 'grade_upheld';
+
+interface CriterionScoreLike {
+  criterion_id: string;
+  score: number;
+  max_points: number;
+  level?: string;
+  feedback?: string;
+}
+
+interface QuestionScoreLike {
+  question_id: string;
+  number: number;
+  score: number;
+  max_marks: number;
+  feedback?: string;
+}
+
+// The AI's second opinion, stored on the ticket until the teacher accepts or rejects it
+export interface RegradeOpinion {
+  grade: number;
+  max_marks: number;
+  feedback: string;
+  criterion_scores: CriterionScoreLike[];
+  question_scores: QuestionScoreLike[];
+  raw_score?: number;
+  raw_score_max?: number;
+  provider?: string;
+  spread?: number;
+  needs_review?: boolean;
+  generated_at: string;
+}
+
+// Extra grading instructions carrying the student's case. The grader is told to judge the work, not the request
+export const buildRegradeInstructions = (reason: string, flags: RegradeFlag[]) => {
+  const lines = [
+    'This is an independent re-evaluation requested by the student after their work was graded.',
+    'Grade the work strictly against the assignment, rubric and answer key. Do not raise or lower marks because a regrade was requested;',
+    'change a score only where the work itself supports it, and say why in the feedback for that item.',
+    '',
+    `Student's argument: ${reason.trim() || '(none given)'}`
+  ];
+
+  if (flags.length > 0) {
+    lines.push('', 'Items the student flagged for review:');
+    flags.forEach(flag => {
+      const current = flag.score !== null && flag.score !== undefined ? ` (currently ${flag.score}/${flag.max_points})` : '';
+      lines.push(`- ${flag.kind === 'question' ? 'Question' : 'Criterion'} ${flag.label}${current}${flag.note?.trim() ? `: ${flag.note.trim()}` : ''}`);
+    });
+    lines.push('Give specific feedback on each flagged item.');
+  }
+
+  return lines.join('\n');
+};
+
+export interface RegradeComparisonRow {
+  kind: 'question' | 'criterion';
+  id: string;
+  label: string;
+  before: number | null;
+  after: number | null;
+  max: number;
+  flagged: boolean;
+  feedback?: string;
+}
+
+// Line up the current and re-evaluated scores item by item, flagged items first
+export const compareRegradeScores = (
+  current: { criterion_scores?: CriterionScoreLike[] | null; question_scores?: QuestionScoreLike[] | null },
+  opinion: RegradeOpinion,
+  flags: RegradeFlag[],
+  criterionNames: Record<string, string> = {}
+): RegradeComparisonRow[] => {
+  const isFlagged = (kind: RegradeFlag['kind'], id: string) => flags.some(flag => flag.kind === kind && flag.id === id);
+  const rows: RegradeComparisonRow[] = [];
+
+  const questionIds = [...new Set([...(current.question_scores || []), ...opinion.question_scores].map(score => score.question_id))];
+  questionIds.forEach(id => {
+    const before = current.question_scores?.find(score => score.question_id === id);
+    const after = opinion.question_scores.find(score => score.question_id === id);
+    rows.push({
+      kind: 'question',
+      id,
+      label: `Q${after?.number ?? before?.number ?? '?'}`,
+      before: before?.score ?? null,
+      after: after?.score ?? null,
+      max: after?.max_marks ?? before?.max_marks ?? 0,
+      flagged: isFlagged('question', id),
+      feedback: after?.feedback
+    });
+  });
+
+  const criterionIds = [...new Set([...(current.criterion_scores || []), ...opinion.criterion_scores].map(score => score.criterion_id))];
+  criterionIds.forEach(id => {
+    const before = current.criterion_scores?.find(score => score.criterion_id === id);
+    const after = opinion.criterion_scores.find(score => score.criterion_id === id);
+    rows.push({
+      kind: 'criterion',
+      id,
+      label: criterionNames[id] || id,
+      before: before?.score ?? null,
+      after: after?.score ?? null,
+      max: after?.max_points ?? before?.max_points ?? 0,
+      flagged: isFlagged('criterion', id),
+      feedback: after?.feedback
+    });
+  });
+
+  return rows.sort((a, b) => Number(b.flagged) - Number(a.flagged));
+};
@@ -0,0 +1,84 @@
+// Rubric types and scoring helpers shared by the client and the AI server
+export interface RubricLevel {
+  label: string;
+  points: number;
+  description: string;
+}
+
+export interface RubricCriterion {
+  id: string;
+  name: string;
+  description?: string;
+  weight: number;
+  max_points: number;
+  levels: RubricLevel[];
+}
+
+export interface CriterionScore {
+  criterion_id: string;
+  score: number;
+  max_points: number;
+  level?: string;
+  feedback?: string;
+}
+
+// Create a blank criterion with the default four-level scale
+export const createRubricCriterion = (): RubricCriterion => ({
+  id: `criterion_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+  name: '',
+  description: '',
+  weight: 1,
+  max_points: 4,
+  levels: [
+    { label: 'Excellent', points: 4, description: '' },
+    { label: 'Good', points: 3, description: '' },
+    { label: 'Satisfactory', points: 2, description: '' },
+    { label: 'Needs Improvement', points: 1, description: '' }
+  ]
+});
+
+// Criteria with the default level scale for a list of named criteria (e.g. from a generated document)
+export const criteriaFromNames = (items: { name: string; description?: string }[]): RubricCriterion[] =>
+  items.map(item => ({ ...createRubricCriterion(), name: item.name, description: item.description || '' }));
+
+// Clamp a criterion score into the 0..max_points range
+export const clampCriterionScore = (score: number, maxPoints: number) => {
+  if (!Number.isFinite(score)) return 0;
+  return Math.min(Math.max(score, 0), maxPoints);
+};
+
+// Weighted percentage (0-100) across all rubric criteria
+export const calculateRubricPercentage = (rubric: RubricCriterion[], scores: CriterionScore[]) => {
+  const totalWeight = rubric.reduce((sum, criterion) => sum + Math.max(criterion.weight, 0), 0);
+
+  if (totalWeight === 0) {
+    return 0;
+  }
+
+  const weightedSum = rubric.reduce((sum, criterion) => {
+    const score = scores.find(s => s.criterion_id === criterion.id);
+    if (!score || criterion.max_points <= 0) return sum;
+
+    const ratio = clampCriterionScore(score.score, criterion.max_points) / criterion.max_points;
+    return sum + ratio * Math.max(criterion.weight, 0);
+  }, 0);
+
+  return Math.round((weightedSum / totalWeight) * 10000) / 100;
+};
+
+// Render the rubric as plain text for inclusion in AI prompts
+export const formatRubricForPrompt = (rubric: RubricCriterion[]) => {
+  return rubric.map(criterion => {
+    const levels = criterion.levels
+      .map(level => `    - ${level.label} (${level.points} pts): ${level.description || 'No descriptor'}`)
+      .join('\n');
+
+    return `- id: ${criterion.id}
+  name: ${criterion.name}
+  description: ${criterion.description || 'None'}
+  weight: ${criterion.weight}
+  max_points: ${criterion.max_points}
+  levels:
+${levels}`;
+  }).join('\n');
+};
@@ -0,0 +1,100 @@
+// Ticket service levels: priorities, due-by targets, staleness for reminders and response-time metrics.
+// Shared by the client and the AI server's reminder scheduler
+
+export type TicketPriority = 'low' | 'normal' | 'high' | 'urgent';
+
+export const TICKET_PRIORITIES: TicketPriority[] = ['urgent', 'high', 'normal', 'low'];
+
+export const TICKET_PRIORITY_LABELS: Record<TicketPriority, string> = {
+  urgent: 'Urgent',
+  high: 'High',
+  normal: 'Normal',
+  low: 'Low'
+};
+
+// Hours from a ticket being opened to its due-by target; the tickets trigger uses the same table
+export const TICKET_SLA_HOURS: Record<TicketPriority, number> = {
+  urgent: 24,
+  high: 48,
+  normal: 72,
+  low: 168
+};
+
+// Reminders repeat at most this often for a ticket that stays stale
+export const TICKET_REMINDER_INTERVAL_HOURS = 24;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface TicketSlaFields {
+  status: string;
+  priority: TicketPriority;
+  created_at: string;
+  due_at?: string | null;
+  first_response_at?: string | null;
+  resolved_at?: string | null;
+  last_reminded_at?: string | null;
+}
+
+const isActive = (ticket: TicketSlaFields) => ticket.status === 'open' || ticket.status === 'in_progress';
+
+export const ticketDueAt = (ticket: TicketSlaFields) =>
+  new Date(ticket.due_at || new Date(ticket.created_at).getTime() + TICKET_SLA_HOURS[ticket.priority] * HOUR_MS);
+
+export const isTicketOverdue = (ticket: TicketSlaFields, now = new Date()) => isActive(ticket) && ticketDueAt(ticket) < now;
+
+// Stale: past due, or unanswered with less than half of its time left
+export const isTicketStale = (ticket: TicketSlaFields, now = new Date()) => {
+  if (!isActive(ticket)) return false;
+  if (isTicketOverdue(ticket, now)) return true;
+  const halfway = ticketDueAt(ticket).getTime() - (TICKET_SLA_HOURS[ticket.priority] * HOUR_MS) / 2;
+  return !ticket.first_response_at && now.getTime() >= halfway;
+};
+
+export const needsTicketReminder = (ticket: TicketSlaFields, now = new Date()) =>
+  isTicketStale(ticket, now)
+  && (!ticket.last_reminded_at || now.getTime() - new Date(ticket.last_reminded_at).getTime() >= TICKET_REMINDER_INTERVAL_HOURS * HOUR_MS);
+
+// "3h left", "2d overdue"
+export const describeTicketDue = (ticket: TicketSlaFields, now = new Date()) => {
+  const diff = ticketDueAt(ticket).getTime() - now.getTime();
+  const hours = Math.abs(diff) / HOUR_MS;
+  const amount = hours >= 48 ? `${Math.round(hours / 24)}d` : `${Math.max(1, Math.round(hours))}h`;
+  return diff >= 0 ? `${amount} left` : `${amount} overdue`;
+};
+
+export const formatDuration = (hours: number | null) => {
+  if (hours === null) return '–';
+  if (hours < 1) return `${Math.round(hours * 60)}m`;
+  return hours >= 48 ? `${(hours / 24).toFixed(1)}d` : `${hours.toFixed(1)}h`;
+};
+
+const median = (values: number[]) => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const hoursBetween = (from: string, to: string) => (new Date(to).getTime() - new Date(from).getTime()) / HOUR_MS;
+
+export interface TicketMetrics {
+  total: number;
+  active: number;
+  overdue: number;
+  unassigned: number;
+  medianFirstResponseHours: number | null;
+  medianResolveHours: number | null;
+}
+
+export const computeTicketMetrics = (tickets: (TicketSlaFields & { assigned_to?: string | null })[], now = new Date()): TicketMetrics => ({
+  total: tickets.length,
+  active: tickets.filter(isActive).length,
+  overdue: tickets.filter(ticket => isTicketOverdue(ticket, now)).length,
+  unassigned: tickets.filter(ticket => isActive(ticket) && !ticket.assigned_to).length,
+  medianFirstResponseHours: median(tickets
+    .filter(ticket => ticket.first_response_at)
+    .map(ticket => hoursBetween(ticket.created_at, ticket.first_response_at as string))),
+  medianResolveHours: median(tickets
+    .filter(ticket => ticket.resolved_at)
+    .map(ticket => hoursBetween(ticket.created_at, ticket.resolved_at as string)))
+});
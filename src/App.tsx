@@ -17,6 +17,7 @@ const Calendar = React.lazy(() => import("./pages/Calendar"));
 const People = React.lazy(() => import("./pages/People"));
 const AssignmentDetail = React.lazy(() => import("./pages/AssignmentDetail"));
 const CreateAssignment = React.lazy(() => import("./pages/CreateAssignment"));
+const QuestionBank = React.lazy(() => import("./pages/QuestionBank"));
 const SubmitAssignment = React.lazy(() => import("./pages/SubmitAssignment"));
 const ReviewSubmission = React.lazy(() => import("./pages/ReviewSubmission"));
 const Login = React.lazy(() => import("./pages/Login"));
@@ -124,6 +125,18 @@ function App() {
                       </ProtectedRoute>
                     }
                   />
+                  <Route
+                    path="classes/:classId/question-bank"
+                    element={
+                      <ProtectedRoute
+                        requireAuth={true}
+                        requireTeacher={true}
+                        requireClassExists={true}
+                      >
+                        <QuestionBank />
+                      </ProtectedRoute>
+                    }
+                  />
                   <Route
                     path="classes/:classId/assignments/:assignmentId/submit"
                     element={
@@ -1,6 +1,6 @@
 import React, { useState } from 'react';
 import { AlertCircleIcon, SendIcon, XIcon } from 'lucide-react';
-import { createTicket, createNotification } from '../utils/supabase';
+import { createTicket, RubricCriterion, AssignmentQuestion, CriterionScore, QuestionScore, RegradeFlag } from '../utils/supabase';
 import { useAuth } from '../context/AuthContext';
 import { toast } from 'react-toastify';
 
@@ -12,6 +12,11 @@ interface CreateTicketProps {
   onTicketCreated: () => void;
   onCancel: () => void;
   className: string;
+  // The parts of the grade the student can flag for a regrade
+  rubric?: RubricCriterion[];
+  questions?: AssignmentQuestion[];
+  criterionScores?: CriterionScore[] | null;
+  questionScores?: QuestionScore[] | null;
 }
 
 const CreateTicket: React.FC<CreateTicketProps> = ({
@@ -21,14 +26,49 @@ const CreateTicket: React.FC<CreateTicketProps> = ({
   maxMarks,
   onTicketCreated,
   onCancel,
-  className
+  className,
+  rubric = [],
+  questions = [],
+  criterionScores,
+  questionScores
 }) => {
   const { user } = useAuth();
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
+  const [flags, setFlags] = useState<RegradeFlag[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  // Everything the student could flag, with the score they were given for it
+  const flaggable: RegradeFlag[] = [
+    ...questions.map(question => ({
+      kind: 'question' as const,
+      id: question.id,
+      label: `Q${question.number}`,
+      score: questionScores?.find(score => score.question_id === question.id)?.score ?? null,
+      max_points: question.marks
+    })),
+    ...rubric.map(criterion => ({
+      kind: 'criterion' as const,
+      id: criterion.id,
+      label: criterion.name,
+      score: criterionScores?.find(score => score.criterion_id === criterion.id)?.score ?? null,
+      max_points: criterion.max_points
+    }))
+  ];
+
+  const isFlagged = (item: RegradeFlag) => flags.some(flag => flag.kind === item.kind && flag.id === item.id);
+
+  const toggleFlag = (item: RegradeFlag) => {
+    setFlags(prev => isFlagged(item)
+      ? prev.filter(flag => !(flag.kind === item.kind && flag.id === item.id))
+      : [...prev, { ...item, note: '' }]);
+  };
+
+  const setFlagNote = (item: RegradeFlag, note: string) => {
+    setFlags(prev => prev.map(flag => flag.kind === item.kind && flag.id === item.id ? { ...flag, note } : flag));
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -42,6 +82,11 @@ const CreateTicket: React.FC<CreateTicketProps> = ({
       return;
     }
 
+    if (flaggable.length > 0 && flags.length === 0) {
+      setError('Please choose the questions or criteria you want regraded');
+      return;
+    }
+
     setIsSubmitting(true);
     setError(null);
 
@@ -51,7 +96,8 @@ const CreateTicket: React.FC<CreateTicketProps> = ({
         student_id: user.id,
         title: title.trim(),
         reason: description.trim(),
-        class_name: className
+        class_name: className,
+        flagged_items: flags.map(flag => ({ ...flag, note: flag.note?.trim() || undefined }))
       });
 
       if (ticketError) {
@@ -125,6 +171,46 @@ const CreateTicket: React.FC<CreateTicketProps> = ({
               </p>
             </div>
 
+            {flaggable.length > 0 && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  What should be regraded?
+                </label>
+                <div className="border border-gray-200 rounded-md divide-y divide-gray-200 max-h-60 overflow-y-auto">
+                  {flaggable.map(item => (
+                    <div key={`${item.kind}-${item.id}`} className="px-3 py-2">
+                      <label className="flex items-center justify-between text-sm">
+                        <span className="flex items-center">
+                          <input
+                            type="checkbox"
+                            className="mr-2"
+                            checked={isFlagged(item)}
+                            onChange={() => toggleFlag(item)}
+                            disabled={isSubmitting}
+                          />
+                          {item.kind === 'question' ? item.label : `Criterion: ${item.label}`}
+                        </span>
+                        <span className="text-gray-500">
+                          {item.score !== null && item.score !== undefined ? `${item.score}/${item.max_points}` : `–/${item.max_points}`}
+                        </span>
+                      </label>
+                      {isFlagged(item) && (
+                        <input
+                          type="text"
+                          value={flags.find(flag => flag.kind === item.kind && flag.id === item.id)?.note || ''}
+                          onChange={(e) => setFlagNote(item, e.target.value)}
+                          placeholder="Why should this be reconsidered? (optional)"
+                          className="mt-2 w-full px-2 py-1 text-sm border border-gray-300 rounded-md"
+                          disabled={isSubmitting}
+                          maxLength={300}
+                        />
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
                 Detailed Description
@@ -162,7 +248,7 @@ const CreateTicket: React.FC<CreateTicketProps> = ({
               <button
                 type="submit"
                 className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
-                disabled={isSubmitting || !title.trim() || !description.trim()}
+                disabled={isSubmitting || !title.trim() || !description.trim() || (flaggable.length > 0 && flags.length === 0)}
               >
                 {isSubmitting ? (
                   <>
@@ -0,0 +1,194 @@
+import React from 'react';
+import { PlusIcon, TrashIcon, ScaleIcon, BookOpenIcon } from 'lucide-react';
+import { GeneratedDocument, GeneratedQuestion, GeneratedCriterion, totalGeneratedMarks, scaleGeneratedMarks } from '../../shared/generatedDocument';
+import { formatCitation } from '../../shared/materialChunks';
+
+interface GeneratedDocumentEditorProps {
+  document: GeneratedDocument;
+  maxMarks: number;
+  onChange: (document: GeneratedDocument) => void;
+  onUseCriteriaAsRubric?: () => void;
+  disabled?: boolean;
+}
+
+const inputClass = 'w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const GeneratedDocumentEditor: React.FC<GeneratedDocumentEditorProps> = ({ document, maxMarks, onChange, onUseCriteriaAsRubric, disabled = false }) => {
+  const update = (updates: Partial<GeneratedDocument>) => onChange({ ...document, ...updates });
+
+  // Keep question numbers sequential after adding or removing
+  const setQuestions = (questions: GeneratedQuestion[]) => {
+    update({ questions: questions.map((question, index) => ({ ...question, number: index + 1 })) });
+  };
+
+  const updateQuestion = (index: number, updates: Partial<GeneratedQuestion>) => {
+    setQuestions(document.questions.map((question, i) => i === index ? { ...question, ...updates } : question));
+  };
+
+  const updateCriterion = (index: number, updates: Partial<GeneratedCriterion>) => {
+    update({ grading_criteria: document.grading_criteria.map((criterion, i) => i === index ? { ...criterion, ...updates } : criterion) });
+  };
+
+  const totalMarks = totalGeneratedMarks(document);
+  const marksMatch = Math.abs(totalMarks - maxMarks) < 0.001;
+
+  return (
+    <div className="space-y-6">
+      <section>
+        <h3 className="text-sm font-semibold text-gray-700 mb-1">Title</h3>
+        <input type="text" className={inputClass} value={document.title} onChange={e => update({ title: e.target.value })} disabled={disabled} />
+      </section>
+
+      <section>
+        <h3 className="text-sm font-semibold text-gray-700 mb-1">Instructions</h3>
+        <textarea rows={4} className={inputClass} value={document.instructions} onChange={e => update({ instructions: e.target.value })} disabled={disabled} />
+      </section>
+
+      <section>
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-sm font-semibold text-gray-700">Questions</h3>
+          <div className="flex items-center gap-3">
+            <span className={`text-sm ${marksMatch ? 'text-gray-500' : 'text-orange-600 font-medium'}`}>
+              Total marks: {totalMarks} / {maxMarks}
+            </span>
+            {!marksMatch && (
+              <button
+                type="button"
+                onClick={() => onChange(scaleGeneratedMarks(document, maxMarks))}
+                className="flex items-center px-2 py-1 text-xs bg-orange-100 text-orange-800 rounded-md hover:bg-orange-200"
+                disabled={disabled}
+              >
+                <ScaleIcon className="h-3 w-3 mr-1" />
+                Scale to {maxMarks}
+              </button>
+            )}
+          </div>
+        </div>
+        <div className="space-y-3">
+          {document.questions.map((question, index) => (
+            <div key={index} className="border border-gray-200 rounded-md p-3">
+              <div className="flex items-center justify-between mb-2">
+                <div className="flex items-center gap-3 min-w-0">
+                  <span className="text-sm font-medium text-gray-800">Question {question.number}</span>
+                  {question.citation && (
+                    <span className="flex items-center text-xs text-gray-500 truncate" title="Class material this question is based on">
+                      <BookOpenIcon className="h-3 w-3 mr-1 shrink-0" />
+                      {formatCitation(question.citation)}
+                    </span>
+                  )}
+                </div>
+                <div className="flex items-center gap-3">
+                  <label className="flex items-center text-xs text-gray-600">
+                    Marks
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.5"
+                      className="ml-2 w-20 px-2 py-1 text-sm border border-gray-300 rounded-md"
+                      value={question.marks}
+                      onChange={e => updateQuestion(index, { marks: Number(e.target.value) })}
+                      disabled={disabled}
+                    />
+                  </label>
+                  <button
+                    type="button"
+                    onClick={() => setQuestions(document.questions.filter((_, i) => i !== index))}
+                    className="text-red-600 hover:text-red-800"
+                    disabled={disabled || document.questions.length <= 1}
+                  >
+                    <TrashIcon className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                <textarea rows={3} className={inputClass} value={question.prompt} onChange={e => updateQuestion(index, { prompt: e.target.value })} placeholder="Question" disabled={disabled} />
+                <textarea rows={3} className={inputClass} value={question.answer_key || ''} onChange={e => updateQuestion(index, { answer_key: e.target.value })} placeholder="Key answer" disabled={disabled} />
+              </div>
+            </div>
+          ))}
+        </div>
+        <button
+          type="button"
+          onClick={() => setQuestions([...document.questions, { number: document.questions.length + 1, prompt: '', marks: 0 }])}
+          className="flex items-center mt-2 text-sm text-blue-600 hover:text-blue-800"
+          disabled={disabled}
+        >
+          <PlusIcon className="h-4 w-4 mr-1" />
+          Add Question
+        </button>
+      </section>
+
+      <section>
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-sm font-semibold text-gray-700">Grading Criteria</h3>
+          {onUseCriteriaAsRubric && document.grading_criteria.length > 0 && (
+            <button type="button" onClick={onUseCriteriaAsRubric} className="text-xs text-blue-600 hover:text-blue-800" disabled={disabled}>
+              Use as Rubric
+            </button>
+          )}
+        </div>
+        <div className="space-y-2">
+          {document.grading_criteria.map((criterion, index) => (
+            <div key={index} className="flex items-start gap-2">
+              <input type="text" className={`${inputClass} md:w-1/3`} value={criterion.name} onChange={e => updateCriterion(index, { name: e.target.value })} placeholder="Criterion" disabled={disabled} />
+              <input type="text" className={inputClass} value={criterion.description} onChange={e => updateCriterion(index, { description: e.target.value })} placeholder="Description" disabled={disabled} />
+              <button
+                type="button"
+                onClick={() => update({ grading_criteria: document.grading_criteria.filter((_, i) => i !== index) })}
+                className="mt-2 text-red-600 hover:text-red-800"
+                disabled={disabled}
+              >
+                <TrashIcon className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+        <button
+          type="button"
+          onClick={() => update({ grading_criteria: [...document.grading_criteria, { name: '', description: '' }] })}
+          className="flex items-center mt-2 text-sm text-blue-600 hover:text-blue-800"
+          disabled={disabled}
+        >
+          <PlusIcon className="h-4 w-4 mr-1" />
+          Add Criterion
+        </button>
+      </section>
+
+      <section>
+        <h3 className="text-sm font-semibold text-gray-700 mb-2">Learning Outcomes</h3>
+        <div className="space-y-2">
+          {document.learning_outcomes.map((outcome, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <input
+                type="text"
+                className={inputClass}
+                value={outcome}
+                onChange={e => update({ learning_outcomes: document.learning_outcomes.map((item, i) => i === index ? e.target.value : item) })}
+                disabled={disabled}
+              />
+              <button
+                type="button"
+                onClick={() => update({ learning_outcomes: document.learning_outcomes.filter((_, i) => i !== index) })}
+                className="text-red-600 hover:text-red-800"
+                disabled={disabled}
+              >
+                <TrashIcon className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+        <button
+          type="button"
+          onClick={() => update({ learning_outcomes: [...document.learning_outcomes, ''] })}
+          className="flex items-center mt-2 text-sm text-blue-600 hover:text-blue-800"
+          disabled={disabled}
+        >
+          <PlusIcon className="h-4 w-4 mr-1" />
+          Add Outcome
+        </button>
+      </section>
+    </div>
+  );
+};
+
+export default GeneratedDocumentEditor;
@@ -0,0 +1,67 @@
+import React, { useEffect, useState } from 'react';
+import { FileTextIcon } from 'lucide-react';
+import { ClassMaterial, getClassMaterials } from '../utils/supabase';
+
+interface MaterialSourcePickerProps {
+  classId: string;
+  selected: ClassMaterial[];
+  onChange: (materials: ClassMaterial[]) => void;
+  disabled?: boolean;
+}
+
+// Text-bearing formats that extractMaterialText can read
+const isUsableSource = (material: ClassMaterial) =>
+  material.file_type === 'application/pdf' || material.file_type?.startsWith('image/') || material.file_type?.startsWith('text/');
+
+const MaterialSourcePicker: React.FC<MaterialSourcePickerProps> = ({ classId, selected, onChange, disabled = false }) => {
+  const [materials, setMaterials] = useState<ClassMaterial[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchMaterials = async () => {
+      setIsLoading(true);
+      const { data, error } = await getClassMaterials(classId);
+      if (error) {
+        console.error('Error loading class materials:', error);
+      }
+      setMaterials((data || []).filter(isUsableSource));
+      setIsLoading(false);
+    };
+
+    fetchMaterials();
+  }, [classId]);
+
+  const toggle = (material: ClassMaterial) => {
+    onChange(selected.some(item => item.id === material.id)
+      ? selected.filter(item => item.id !== material.id)
+      : [...selected, material]);
+  };
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Loading class materials...</p>;
+  }
+
+  if (materials.length === 0) {
+    return <p className="text-sm text-gray-500">No PDF, image or text materials have been uploaded to this class yet.</p>;
+  }
+
+  return (
+    <div className="max-h-48 overflow-y-auto border border-gray-200 rounded-md bg-white divide-y divide-gray-100">
+      {materials.map(material => (
+        <label key={material.id} className="flex items-center gap-2 p-2 text-sm hover:bg-gray-50">
+          <input
+            type="checkbox"
+            checked={selected.some(item => item.id === material.id)}
+            onChange={() => toggle(material)}
+            disabled={disabled}
+          />
+          <FileTextIcon className="h-4 w-4 text-gray-400 shrink-0" />
+          <span className="truncate text-gray-800">{material.title}</span>
+          <span className="text-xs text-gray-500 shrink-0">{material.file_name}</span>
+        </label>
+      ))}
+    </div>
+  );
+};
+
+export default MaterialSourcePicker;
@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import { AlertTriangleIcon, EditIcon, EyeIcon, RotateCcwIcon } from 'lucide-react';
+import HighlightedText from './grades/HighlightedText';
+import { OcrPage, findLowConfidenceRanges, averageConfidence, LOW_CONFIDENCE_THRESHOLD } from '../../shared/ocrConfidence';
+
+interface OcrTextReviewProps {
+  text: string;
+  // The scanner's output, restored by "Undo corrections"
+  rawText: string;
+  pages: OcrPage[];
+  onChange: (text: string) => void;
+  disabled?: boolean;
+}
+
+// Extracted text with the words the scanner was unsure of highlighted, and an editor to fix them
+const OcrTextReview: React.FC<OcrTextReviewProps> = ({ text, rawText, pages, onChange, disabled = false }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const ranges = findLowConfidenceRanges(text, pages);
+  const confidence = averageConfidence(pages);
+  const isCorrected = text !== rawText;
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+        <div className="text-sm">
+          {ranges.length > 0 ? (
+            <span className="flex items-center text-orange-700">
+              <AlertTriangleIcon className="h-4 w-4 mr-1" />
+              {ranges.length} word{ranges.length !== 1 ? 's' : ''} below {LOW_CONFIDENCE_THRESHOLD}% confidence {ranges.length !== 1 ? 'are' : 'is'} highlighted. Check them against your pages.
+            </span>
+          ) : (
+            <span className="text-gray-600">
+              {confidence !== null ? `No uncertain words left (average confidence ${confidence}%).` : 'Text read directly from the document.'}
+            </span>
+          )}
+          {isCorrected && <span className="block text-xs text-blue-700 mt-1">Corrected by hand; the original scan is kept too.</span>}
+        </div>
+        <div className="flex gap-2">
+          {isCorrected && (
+            <button type="button" onClick={() => onChange(rawText)} disabled={disabled} className="flex items-center px-2 py-1 text-xs border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50">
+              <RotateCcwIcon className="h-3 w-3 mr-1" />
+              Undo corrections
+            </button>
+          )}
+          <button type="button" onClick={() => setIsEditing(!isEditing)} disabled={disabled} className="flex items-center px-2 py-1 text-xs border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50">
+            {isEditing ? <EyeIcon className="h-3 w-3 mr-1" /> : <EditIcon className="h-3 w-3 mr-1" />}
+            {isEditing ? 'Show highlights' : 'Correct text'}
+          </button>
+        </div>
+      </div>
+
+      {isEditing ? (
+        <textarea
+          className="w-full h-64 p-3 text-sm font-mono border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          value={text}
+          onChange={e => onChange(e.target.value)}
+          disabled={disabled}
+        />
+      ) : (
+        <div className="bg-gray-50 border border-gray-200 rounded-md p-4 max-h-64 overflow-y-auto">
+          <HighlightedText text={text} ranges={ranges} markClassName="bg-orange-200" />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OcrTextReview;
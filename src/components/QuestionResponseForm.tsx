@@ -0,0 +1,129 @@
+import React from 'react';
+import { AssignmentQuestion, QuestionResponse, QuestionResponses } from '../utils/supabase';
+
+interface QuestionResponseFormProps {
+  questions: AssignmentQuestion[];
+  responses: QuestionResponses;
+  onChange: (responses: QuestionResponses) => void;
+  disabled?: boolean;
+  // Display order of option indexes per question (shuffled quizzes); responses still store the original indexes
+  optionOrders?: Record<string, number[]>;
+}
+
+const QuestionResponseForm: React.FC<QuestionResponseFormProps> = ({ questions, responses, onChange, disabled = false, optionOrders = {} }) => {
+  const setResponse = (question: AssignmentQuestion, response: QuestionResponse) => {
+    onChange({ ...responses, [question.id]: response });
+  };
+
+  const selectedOptions = (question: AssignmentQuestion) => {
+    const response = responses[question.id];
+    return Array.isArray(response) ? response : [];
+  };
+
+  const textResponse = (question: AssignmentQuestion) => {
+    const response = responses[question.id];
+    return typeof response === 'string' ? response : '';
+  };
+
+  const toggleOption = (question: AssignmentQuestion, index: number) => {
+    const selected = selectedOptions(question);
+    setResponse(question, selected.includes(index)
+      ? selected.filter(option => option !== index)
+      : [...selected, index].sort((a, b) => a - b));
+  };
+
+  const renderInput = (question: AssignmentQuestion) => {
+    switch (question.type) {
+      case 'mcq':
+      case 'multi_select':
+        return (
+          <div className="space-y-2">
+            {(optionOrders[question.id] || (question.options || []).map((_, index) => index)).map(index => (
+              <label key={index} className="flex items-center text-sm text-gray-800">
+                <input
+                  type={question.type === 'mcq' ? 'radio' : 'checkbox'}
+                  name={`response_${question.id}`}
+                  className="mr-2"
+                  checked={selectedOptions(question).includes(index)}
+                  onChange={() => question.type === 'mcq' ? setResponse(question, [index]) : toggleOption(question, index)}
+                  disabled={disabled}
+                />
+                {question.options?.[index]}
+              </label>
+            ))}
+            {question.type === 'multi_select' && (
+              <p className="text-xs text-gray-500">Select all that apply.</p>
+            )}
+          </div>
+        );
+      case 'true_false':
+        return (
+          <div className="flex gap-6">
+            {['true', 'false'].map(value => (
+              <label key={value} className="flex items-center text-sm text-gray-800">
+                <input
+                  type="radio"
+                  name={`response_${question.id}`}
+                  className="mr-2"
+                  checked={textResponse(question) === value}
+                  onChange={() => setResponse(question, value)}
+                  disabled={disabled}
+                />
+                {value === 'true' ? 'True' : 'False'}
+              </label>
+            ))}
+          </div>
+        );
+      case 'numeric':
+        return (
+          <input
+            type="number"
+            step="any"
+            value={textResponse(question)}
+            onChange={e => setResponse(question, e.target.value)}
+            className="w-48 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            disabled={disabled}
+          />
+        );
+      case 'short_exact':
+        return (
+          <input
+            type="text"
+            value={textResponse(question)}
+            onChange={e => setResponse(question, e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            disabled={disabled}
+          />
+        );
+      default:
+        return (
+          <textarea
+            value={textResponse(question)}
+            onChange={e => setResponse(question, e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            rows={6}
+            placeholder="Type your answer..."
+            disabled={disabled}
+          />
+        );
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {questions.map((question, position) => (
+        <div key={question.id} className="border border-gray-200 rounded-lg p-4 bg-white">
+          <div className="flex items-start justify-between gap-4 mb-3">
+            <p className="font-medium text-gray-900 whitespace-pre-wrap">
+              {position + 1}. {question.prompt}
+            </p>
+            <span className="text-sm text-gray-500 shrink-0">{question.marks} marks</span>
+          </div>
+          {renderInput(question)}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default QuestionResponseForm;
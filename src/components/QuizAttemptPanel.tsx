@@ -0,0 +1,315 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { ClockIcon, LoaderIcon, CheckCircleIcon, PlayIcon } from 'lucide-react';
+import { toast } from 'react-toastify';
+import { Assignment, AssignmentQuestion, QuizAttempt, QuestionResponses, getQuizAttempts, saveQuizAttemptResponses } from '../utils/supabase';
+import { startQuizAttempt, submitQuizAttempt } from '../utils/api';
+import { seededShuffle, shuffleOptionOrders, describeResponse, isObjectiveQuestion } from '../../shared/questions';
+import QuestionResponseForm from './QuestionResponseForm';
+import LoadingSpinner from './LoadingSpinner';
+
+interface QuizAttemptPanelProps {
+  assignment: Assignment;
+  studentId: string;
+}
+
+const AUTOSAVE_DELAY_MS = 1500;
+
+const formatRemaining = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const mmss = `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
+};
+
+const QuizAttemptPanel: React.FC<QuizAttemptPanelProps> = ({ assignment, studentId }) => {
+  const [attempts, setAttempts] = useState<QuizAttempt[]>([]);
+  const [activeAttempt, setActiveAttempt] = useState<QuizAttempt | null>(null);
+  // Sent by the server with the attempt, without their answers
+  const [questions, setQuestions] = useState<AssignmentQuestion[]>([]);
+  const [responses, setResponses] = useState<QuestionResponses>({});
+  const [remainingMs, setRemainingMs] = useState(0);
+  const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'failed'>('idle');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isStarting, setIsStarting] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [lastResult, setLastResult] = useState<QuizAttempt | null>(null);
+
+  // The timer and autosave read the latest answers without restarting on every keystroke
+  const responsesRef = useRef<QuestionResponses>({});
+  const submittingRef = useRef(false);
+
+  const maxAttempts = assignment.max_attempts || 1;
+  const hasEssays = questions.some(question => !isObjectiveQuestion(question));
+
+  const loadAttempts = useCallback(async () => {
+    const { data, error } = await getQuizAttempts(assignment.id, studentId);
+    if (error) {
+      toast.error('Failed to load your quiz attempts');
+      return [];
+    }
+    setAttempts(data);
+    return data;
+  }, [assignment.id, studentId]);
+
+  const openAttempt = (attempt: QuizAttempt, attemptQuestions: AssignmentQuestion[]) => {
+    setActiveAttempt(attempt);
+    setQuestions(attemptQuestions);
+    setResponses(attempt.responses || {});
+    responsesRef.current = attempt.responses || {};
+    setRemainingMs(new Date(attempt.expires_at).getTime() - Date.now());
+    setSaveStatus('idle');
+  };
+
+  const handleSubmit = useCallback(async (autoSubmitted = false) => {
+    if (!activeAttempt || submittingRef.current) return;
+
+    submittingRef.current = true;
+    setIsSubmitting(true);
+
+    try {
+      const { attempt } = await submitQuizAttempt(activeAttempt.id, responsesRef.current, autoSubmitted);
+      setActiveAttempt(null);
+      setLastResult(attempt);
+      await loadAttempts();
+      toast.success(autoSubmitted ? 'Time is up. Your quiz was submitted automatically.' : 'Quiz submitted!');
+    } catch (err) {
+      console.error('Error submitting quiz:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to submit quiz');
+    } finally {
+      submittingRef.current = false;
+      setIsSubmitting(false);
+    }
+  }, [activeAttempt, loadAttempts]);
+
+  // Resume an attempt left open in another tab or before a reload. One whose time ran out is opened without
+  // questions so the countdown submits it straight away, rather than asking the server and starting a new one
+  useEffect(() => {
+    const init = async () => {
+      setIsLoading(true);
+      const data = await loadAttempts();
+      const inProgress = data.find(attempt => !attempt.submitted_at);
+      if (inProgress && new Date(inProgress.expires_at).getTime() > Date.now()) {
+        try {
+          const { attempt, questions: attemptQuestions } = await startQuizAttempt(assignment.id);
+          openAttempt(attempt, attemptQuestions);
+        } catch (err) {
+          console.error('Error resuming quiz:', err);
+          toast.error(err instanceof Error ? err.message : 'Failed to resume your quiz attempt');
+        }
+      } else if (inProgress) {
+        openAttempt(inProgress, []);
+      }
+      setIsLoading(false);
+    };
+
+    init();
+  }, [assignment.id, loadAttempts]);
+
+  // Countdown; submit automatically when time runs out
+  useEffect(() => {
+    if (!activeAttempt) return;
+
+    const tick = () => {
+      const remaining = new Date(activeAttempt.expires_at).getTime() - Date.now();
+      setRemainingMs(remaining);
+      if (remaining <= 0) {
+        // Fire once; if this request fails the server sweeper still submits the attempt
+        clearInterval(timer);
+        handleSubmit(true);
+      }
+    };
+
+    const timer = setInterval(tick, 1000);
+    tick();
+    return () => clearInterval(timer);
+  }, [activeAttempt, handleSubmit]);
+
+  // Debounced autosave of answers to the open attempt
+  useEffect(() => {
+    if (!activeAttempt || saveStatus !== 'saving') return;
+
+    const timer = setTimeout(async () => {
+      const { error } = await saveQuizAttemptResponses(activeAttempt.id, responsesRef.current);
+      setSaveStatus(error ? 'failed' : 'saved');
+    }, AUTOSAVE_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [responses, activeAttempt, saveStatus]);
+
+  const handleResponsesChange = (updated: QuestionResponses) => {
+    setResponses(updated);
+    responsesRef.current = updated;
+    setSaveStatus('saving');
+  };
+
+  const handleStart = async () => {
+    setIsStarting(true);
+    try {
+      const { attempt, questions: attemptQuestions } = await startQuizAttempt(assignment.id);
+      openAttempt(attempt, attemptQuestions);
+      setLastResult(null);
+      await loadAttempts();
+    } catch (err) {
+      console.error('Error starting quiz:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to start quiz');
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const confirmSubmit = () => {
+    const unanswered = questions.filter(question => !describeResponse(question, responses[question.id]).trim());
+    if (unanswered.length > 0 && !window.confirm(`You have ${unanswered.length} unanswered question(s). Submit anyway?`)) {
+      return;
+    }
+    handleSubmit(false);
+  };
+
+  // Each attempt gets its own stable order, so a reload shows the same layout
+  const orderedQuestions = useMemo(() => {
+    if (!activeAttempt || !assignment.shuffle_questions) return questions;
+    return seededShuffle(questions, activeAttempt.id);
+  }, [activeAttempt, assignment.shuffle_questions, questions]);
+
+  const optionOrders = useMemo(() => {
+    if (!activeAttempt || !assignment.shuffle_options) return {};
+    return shuffleOptionOrders(questions, activeAttempt.id);
+  }, [activeAttempt, assignment.shuffle_options, questions]);
+
+  if (isLoading) {
+    return <div className="p-4"><LoadingSpinner /></div>;
+  }
+
+  const now = Date.now();
+  const opensAt = assignment.opens_at ? new Date(assignment.opens_at) : null;
+  const notOpenYet = !!opensAt && opensAt.getTime() > now;
+  const isClosed = !!assignment.due_date && new Date(assignment.due_date).getTime() <= now;
+  const attemptsLeft = Math.max(maxAttempts - attempts.length, 0);
+  const isRunningLow = remainingMs < 60000;
+
+  if (activeAttempt) {
+    return (
+      <div className="space-y-4">
+        <div className={`sticky top-0 z-10 flex items-center justify-between rounded-md border p-3 ${isRunningLow ? 'bg-red-50 border-red-200' : 'bg-white border-gray-200'}`}>
+          <div className={`flex items-center font-mono text-lg ${isRunningLow ? 'text-red-700' : 'text-gray-900'}`}>
+            <ClockIcon className="h-5 w-5 mr-2" />
+            {formatRemaining(remainingMs)}
+          </div>
+          <div className="text-sm text-gray-500">
+            Attempt {activeAttempt.attempt_number} of {maxAttempts} ·{' '}
+            {saveStatus === 'saving' ? 'Saving...' : saveStatus === 'saved' ? 'All answers saved' : saveStatus === 'failed' ? 'Autosave failed; your answers are still sent on submit' : 'Answers save automatically'}
+          </div>
+        </div>
+
+        <QuestionResponseForm
+          questions={orderedQuestions}
+          responses={responses}
+          onChange={handleResponsesChange}
+          disabled={isSubmitting}
+          optionOrders={optionOrders}
+        />
+
+        <div className="flex justify-end">
+          <button
+            type="button"
+            onClick={confirmSubmit}
+            disabled={isSubmitting}
+            className="bg-blue-600 text-white px-6 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50 flex items-center"
+          >
+            {isSubmitting && <LoaderIcon className="h-5 w-5 mr-2 animate-spin" />}
+            {isSubmitting ? 'Submitting...' : 'Submit Quiz'}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+        <div>
+          <p className="text-gray-500">Opens</p>
+          <p className="font-medium">{assignment.opens_at ? new Date(assignment.opens_at).toLocaleString() : 'Now'}</p>
+        </div>
+        <div>
+          <p className="text-gray-500">Closes</p>
+          <p className="font-medium">{new Date(assignment.due_date).toLocaleString()}</p>
+        </div>
+        <div>
+          <p className="text-gray-500">Time limit</p>
+          <p className="font-medium">{assignment.duration_minutes ? `${assignment.duration_minutes} minutes` : 'Until the quiz closes'}</p>
+        </div>
+        <div>
+          <p className="text-gray-500">Attempts</p>
+          <p className="font-medium">{attempts.length} of {maxAttempts} used</p>
+        </div>
+      </div>
+
+      {lastResult && lastResult.score !== null && (
+        <div className="bg-green-50 border border-green-200 rounded-md p-4 flex items-start">
+          <CheckCircleIcon className="h-5 w-5 mr-2 text-green-600 shrink-0" />
+          <div className="text-sm text-green-800">
+            <p className="font-medium">
+              Score: {lastResult.score} / {lastResult.max_score}
+              {lastResult.auto_submitted && ' (submitted automatically)'}
+            </p>
+            {hasEssays && (
+              <p>Written answers are graded separately; your final grade appears once your teacher releases it.</p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {attempts.length > 0 && (
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500">
+              <th className="py-1 pr-4 font-medium">Attempt</th>
+              <th className="py-1 pr-4 font-medium">Submitted</th>
+              <th className="py-1 font-medium">Score</th>
+            </tr>
+          </thead>
+          <tbody>
+            {attempts.map(attempt => (
+              <tr key={attempt.id} className="border-t border-gray-100">
+                <td className="py-1 pr-4">{attempt.attempt_number}</td>
+                <td className="py-1 pr-4">
+                  {attempt.submitted_at ? new Date(attempt.submitted_at).toLocaleString() : 'In progress'}
+                  {attempt.auto_submitted && <span className="ml-2 text-xs text-gray-500">auto</span>}
+                </td>
+                <td className="py-1">{attempt.score !== null ? `${attempt.score} / ${attempt.max_score}` : '—'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {notOpenYet ? (
+        <p className="text-sm text-gray-600">This quiz opens {opensAt?.toLocaleString()}.</p>
+      ) : isClosed ? (
+        <p className="text-sm text-gray-600">This quiz has closed.</p>
+      ) : attemptsLeft === 0 ? (
+        <p className="text-sm text-gray-600">You have used all your attempts. Your latest attempt is the one that counts.</p>
+      ) : (
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-gray-600">
+            The timer starts as soon as you begin and keeps running if you leave the page.
+          </p>
+          <button
+            type="button"
+            onClick={handleStart}
+            disabled={isStarting}
+            className="bg-blue-600 text-white px-6 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50 flex items-center"
+          >
+            {isStarting ? <LoaderIcon className="h-5 w-5 mr-2 animate-spin" /> : <PlayIcon className="h-5 w-5 mr-2" />}
+            {attempts.length > 0 ? 'Start New Attempt' : 'Start Quiz'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuizAttemptPanel;
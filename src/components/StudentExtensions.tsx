@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { LoaderIcon, TrashIcon } from 'lucide-react';
+import { toast } from 'react-toastify';
+import { Assignment, AssignmentExtension, saveAssignmentExtension, deleteAssignmentExtension } from '../utils/supabase';
+import { useAuth } from '../context/AuthContext';
+
+interface StudentExtensionsProps {
+  studentId: string;
+  studentName: string;
+  assignments: Assignment[];
+  extensions: AssignmentExtension[];
+  onChange: () => void;
+}
+
+// datetime-local inputs want local time without seconds or a zone
+const toLocalInput = (iso: string) => {
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+// Grant, move or remove one student's due date extensions for the class's assignments
+const StudentExtensions: React.FC<StudentExtensionsProps> = ({ studentId, studentName, assignments, extensions, onChange }) => {
+  const { user } = useAuth();
+
+  // The form starts from the current extension, or the assignment's own due date when there is none
+  const formDefaults = (id: string) => {
+    const existing = extensions.find(extension => extension.assignment_id === id);
+    const assignment = assignments.find(item => item.id === id);
+    const due = existing?.due_date || assignment?.due_date;
+    return { dueDate: due ? toLocalInput(due) : '', reason: existing?.reason || '' };
+  };
+
+  const [assignmentId, setAssignmentId] = useState(assignments[0]?.id || '');
+  const [dueDate, setDueDate] = useState(() => formDefaults(assignmentId).dueDate);
+  const [reason, setReason] = useState(() => formDefaults(assignmentId).reason);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const selectAssignment = (id: string) => {
+    const defaults = formDefaults(id);
+    setAssignmentId(id);
+    setDueDate(defaults.dueDate);
+    setReason(defaults.reason);
+  };
+
+  const handleSave = async () => {
+    if (!user || !assignmentId || !dueDate) return;
+
+    setIsSaving(true);
+    const { error } = await saveAssignmentExtension({
+      assignment_id: assignmentId,
+      student_id: studentId,
+      due_date: new Date(dueDate).toISOString(),
+      reason: reason.trim(),
+      granted_by: user.id
+    });
+    setIsSaving(false);
+
+    if (error) {
+      toast.error(error.message || 'Failed to save extension');
+      return;
+    }
+    toast.success(`Extension saved for ${studentName}`);
+    onChange();
+  };
+
+  const handleDelete = async (extension: AssignmentExtension) => {
+    const { error } = await deleteAssignmentExtension(extension.id);
+    if (error) {
+      toast.error(error.message || 'Failed to remove extension');
+      return;
+    }
+    toast.success('Extension removed');
+    onChange();
+  };
+
+  if (assignments.length === 0) {
+    return <p className="text-sm text-gray-500">This class has no assignments to extend.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {extensions.length > 0 && (
+        <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md bg-white">
+          {extensions.map(extension => {
+            const assignment = assignments.find(item => item.id === extension.assignment_id);
+            return (
+              <li key={extension.id} className="flex items-center justify-between px-3 py-2 text-sm">
+                <div>
+                  <span className="font-medium text-gray-900">{assignment?.title || 'Assignment'}</span>
+                  <span className="text-gray-500">
+                    {' '}due {new Date(extension.due_date).toLocaleString()}
+                    {assignment && ` (was ${new Date(assignment.due_date).toLocaleString()})`}
+                  </span>
+                  {extension.reason && <p className="text-xs text-gray-500">{extension.reason}</p>}
+                </div>
+                <button type="button" onClick={() => handleDelete(extension)} className="text-red-600 hover:text-red-900" title="Remove extension">
+                  <TrashIcon className="h-4 w-4" />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Assignment</label>
+          <select className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded-md" value={assignmentId} onChange={e => selectAssignment(e.target.value)} disabled={isSaving}>
+            {assignments.map(assignment => <option key={assignment.id} value={assignment.id}>{assignment.title}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">New due date</label>
+          <input type="datetime-local" className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded-md" value={dueDate} onChange={e => setDueDate(e.target.value)} disabled={isSaving} />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Reason (shown to the student)</label>
+          <input type="text" className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded-md" value={reason} onChange={e => setReason(e.target.value)} disabled={isSaving} />
+        </div>
+        <button type="button" onClick={handleSave} disabled={isSaving || !dueDate} className="flex items-center justify-center px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50">
+          {isSaving && <LoaderIcon className="h-4 w-4 mr-1 animate-spin" />}
+          {extensions.some(extension => extension.assignment_id === assignmentId) ? 'Update Extension' : 'Grant Extension'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default StudentExtensions;
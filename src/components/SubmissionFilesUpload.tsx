@@ -0,0 +1,223 @@
+import React, { useRef, useState } from 'react';
+import { FileUpIcon, LoaderIcon, CheckCircleIcon, XCircleIcon, FileIcon, ImageIcon, TrashIcon, ArrowUpIcon, ArrowDownIcon } from 'lucide-react';
+import { uploadSubmission, validateSubmissionFile, UploadResult } from '../utils/storage';
+import { extractText } from '../utils/api';
+import type { OcrPage } from '../../shared/ocrConfidence';
+
+export interface ProcessedSubmissionFile {
+  upload: UploadResult;
+  text: string;
+  // Word confidences per page of this file, numbered from 1
+  pages: OcrPage[];
+}
+
+interface SubmissionFilesUploadProps {
+  // Called once every file is uploaded and read, with the results in the student's order
+  onComplete: (files: ProcessedSubmissionFile[]) => void;
+  assignmentId: string;
+  disabled?: boolean;
+  maxFiles?: number;
+  className?: string;
+}
+
+interface SelectedFile {
+  // Stable key while the list is reordered
+  key: string;
+  file: File;
+  status: 'pending' | 'uploading' | 'reading' | 'completed' | 'error';
+  result?: ProcessedSubmissionFile;
+  error?: string;
+}
+
+const formatFileSize = (bytes: number) => bytes < 1024 * 1024 ? `${Math.round(bytes / 1024)} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const SubmissionFilesUpload: React.FC<SubmissionFilesUploadProps> = ({
+  onComplete,
+  assignmentId,
+  disabled = false,
+  maxFiles = 20,
+  className = ''
+}) => {
+  const [files, setFiles] = useState<SelectedFile[]>([]);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const chosen = Array.from(event.target.files || []);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+    if (!chosen.length) return;
+
+    const validationErrors: string[] = [];
+    const valid = chosen.filter(file => {
+      const validation = validateSubmissionFile(file);
+      if (!validation.valid) validationErrors.push(`${file.name}: ${validation.error}`);
+      return validation.valid;
+    });
+
+    if (files.length + valid.length > maxFiles) {
+      validationErrors.push(`You can submit up to ${maxFiles} files`);
+    }
+
+    // New picks are added after the files already chosen, so pages can be photographed in batches
+    setFiles(current => [
+      ...current,
+      ...valid.slice(0, Math.max(0, maxFiles - current.length)).map(file => ({
+        key: `${file.name}-${file.lastModified}-${Math.random().toString(36).slice(2, 8)}`,
+        file,
+        status: 'pending' as const
+      }))
+    ]);
+    setErrors(validationErrors);
+  };
+
+  const moveFile = (index: number, offset: number) => {
+    setFiles(current => {
+      const next = [...current];
+      const [moved] = next.splice(index, 1);
+      next.splice(index + offset, 0, moved);
+      return next;
+    });
+  };
+
+  const updateFile = (key: string, updates: Partial<SelectedFile>) => {
+    setFiles(current => current.map(item => item.key === key ? { ...item, ...updates } : item));
+  };
+
+  // Upload and OCR each file in order; files done in an earlier try are not processed again
+  const handleProcess = async () => {
+    setIsProcessing(true);
+    setErrors([]);
+    const results: ProcessedSubmissionFile[] = [];
+
+    for (const item of files) {
+      if (item.result) {
+        results.push(item.result);
+        continue;
+      }
+
+      try {
+        updateFile(item.key, { status: 'uploading', error: undefined });
+        const upload = await uploadSubmission(item.file, assignmentId);
+
+        updateFile(item.key, { status: 'reading' });
+        const extraction = await extractText(item.file, assignmentId);
+
+        const result = { upload, text: extraction.extracted_text || '', pages: extraction.pages || [] };
+        updateFile(item.key, { status: 'completed', result });
+        results.push(result);
+      } catch (err) {
+        updateFile(item.key, { status: 'error', error: err instanceof Error ? err.message : 'Failed to process file' });
+      }
+    }
+
+    setIsProcessing(false);
+    if (results.length === files.length) {
+      onComplete(results);
+    } else {
+      setErrors(['Some files could not be processed. Remove them or try again.']);
+    }
+  };
+
+  const isLocked = disabled || isProcessing;
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      <div className="flex items-center space-x-4">
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          accept=".pdf,.png,.jpg,.jpeg,.gif,.webp,.avif"
+          onChange={handleFileSelect}
+          disabled={isLocked}
+          className="hidden"
+          id="submission-files-input"
+        />
+        <label
+          htmlFor="submission-files-input"
+          className={`cursor-pointer bg-white px-4 py-2 border border-gray-300 rounded-md hover:bg-gray-50 flex items-center transition-colors ${isLocked ? 'opacity-50 cursor-not-allowed' : ''}`}
+        >
+          <FileUpIcon className="h-5 w-5 mr-2" />
+          {files.length > 0 ? 'Add More Files' : 'Choose Files'}
+        </label>
+
+        {files.length > 0 && (
+          <button
+            type="button"
+            onClick={handleProcess}
+            disabled={isLocked}
+            className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 flex items-center transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isProcessing ? (
+              <>
+                <LoaderIcon className="h-5 w-5 mr-2 animate-spin" />
+                Processing...
+              </>
+            ) : (
+              `Submit ${files.length} File${files.length > 1 ? 's' : ''}`
+            )}
+          </button>
+        )}
+      </div>
+
+      {files.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium text-gray-700">Pages, in submission order:</h4>
+          {files.map((item, index) => (
+            <div key={item.key} className="bg-gray-50 border border-gray-200 rounded-lg p-3">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center flex-1 min-w-0">
+                  <span className="text-xs font-semibold text-gray-500 w-6">{index + 1}.</span>
+                  {item.file.type === 'application/pdf'
+                    ? <FileIcon className="h-5 w-5 text-red-500 shrink-0" />
+                    : <ImageIcon className="h-5 w-5 text-blue-500 shrink-0" />}
+                  <div className="ml-3 flex-1 min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">{item.file.name}</p>
+                    <p className="text-xs text-gray-500">
+                      {formatFileSize(item.file.size)}
+                      {item.status === 'uploading' && ' • Uploading...'}
+                      {item.status === 'reading' && ' • Extracting text...'}
+                    </p>
+                  </div>
+                </div>
+
+                <div className="flex items-center space-x-2">
+                  {(item.status === 'uploading' || item.status === 'reading') && <LoaderIcon className="h-4 w-4 text-blue-600 animate-spin" />}
+                  {item.status === 'completed' && <CheckCircleIcon className="h-4 w-4 text-green-600" />}
+                  {item.status === 'error' && <XCircleIcon className="h-4 w-4 text-red-600" />}
+                  <button type="button" onClick={() => moveFile(index, -1)} disabled={isLocked || index === 0} className="text-gray-500 hover:text-gray-700 disabled:opacity-30" aria-label="Move up">
+                    <ArrowUpIcon className="h-4 w-4" />
+                  </button>
+                  <button type="button" onClick={() => moveFile(index, 1)} disabled={isLocked || index === files.length - 1} className="text-gray-500 hover:text-gray-700 disabled:opacity-30" aria-label="Move down">
+                    <ArrowDownIcon className="h-4 w-4" />
+                  </button>
+                  <button type="button" onClick={() => setFiles(current => current.filter(entry => entry.key !== item.key))} disabled={isLocked} className="text-red-600 hover:text-red-800 disabled:opacity-30" aria-label="Remove">
+                    <TrashIcon className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+              {item.error && <p className="text-xs text-red-600 mt-1">{item.error}</p>}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {errors.length > 0 && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+          <ul className="text-xs text-red-600 space-y-1">
+            {errors.map((error, index) => <li key={index}>• {error}</li>)}
+          </ul>
+        </div>
+      )}
+
+      <div className="text-xs text-gray-500">
+        <p>Accepted file types: PDF, PNG, JPG, JPEG, GIF, WebP, AVIF • Maximum size: 10MB per file • Up to {maxFiles} files</p>
+      </div>
+    </div>
+  );
+};
+
+export default SubmissionFilesUpload;
@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { ChevronLeftIcon, ChevronRightIcon, DownloadIcon } from 'lucide-react';
+import { SubmissionFile } from '../utils/supabase';
+import { splitTextIntoPages } from '../../shared/materialChunks';
+import { countSubmissionPages, isPdfFile, locateSubmissionPage } from '../utils/submissionPages';
+
+interface SubmissionPageViewerProps {
+  files: SubmissionFile[];
+  ocrText: string;
+}
+
+// Page-by-page view of a submission's files next to the text extracted from each page
+const SubmissionPageViewer: React.FC<SubmissionPageViewerProps> = ({ files, ocrText }) => {
+  const textPages = splitTextIntoPages(ocrText);
+  const pageCount = countSubmissionPages(files, ocrText);
+  const [page, setPage] = useState(1);
+
+  const { file, pageInFile } = locateSubmissionPage(files, page);
+  const pageText = textPages.find(item => item.page === page)?.text;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <button type="button" onClick={() => setPage(page - 1)} disabled={page <= 1} className="flex items-center px-2 py-1 text-sm border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-40">
+          <ChevronLeftIcon className="h-4 w-4" />
+          Previous
+        </button>
+        <div className="text-sm text-gray-700 text-center">
+          Page {page} of {pageCount}
+          <span className="block text-xs text-gray-500">
+            {file.file_name}{isPdfFile(file) && ` · page ${pageInFile}`}
+          </span>
+        </div>
+        <button type="button" onClick={() => setPage(page + 1)} disabled={page >= pageCount} className="flex items-center px-2 py-1 text-sm border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-40">
+          Next
+          <ChevronRightIcon className="h-4 w-4" />
+        </button>
+      </div>
+
+      {pageCount > 1 && (
+        <div className="flex flex-wrap gap-1 mb-3">
+          {Array.from({ length: pageCount }, (_, i) => i + 1).map(number => (
+            <button
+              key={number}
+              type="button"
+              onClick={() => setPage(number)}
+              className={`w-8 h-8 text-xs rounded-md border ${number === page ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'}`}
+            >
+              {number}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <div className="bg-gray-50 border border-gray-200 rounded-md overflow-hidden flex flex-col">
+          {isPdfFile(file) ? (
+            <iframe key={`${file.url}-${pageInFile}`} src={`${file.url}#page=${pageInFile}`} title={`${file.file_name} page ${pageInFile}`} className="w-full h-[32rem]" />
+          ) : (
+            <img src={file.url} alt={`${file.file_name}`} className="w-full max-h-[32rem] object-contain" />
+          )}
+          <a href={file.url} target="_blank" rel="noopener noreferrer" className="flex items-center justify-center text-xs text-blue-600 hover:text-blue-800 py-2 border-t border-gray-200">
+            <DownloadIcon className="h-3 w-3 mr-1" />
+            Open {file.file_name}
+          </a>
+        </div>
+        <div className="bg-white border border-gray-200 rounded-md p-4 max-h-[34rem] overflow-y-auto">
+          <h4 className="text-xs font-medium text-gray-500 mb-2">Extracted text for page {page}</h4>
+          <div className="whitespace-pre-wrap text-sm leading-relaxed text-gray-800">
+            {pageText || 'No text was extracted from this page.'}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SubmissionPageViewer;
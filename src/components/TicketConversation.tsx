@@ -0,0 +1,304 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CheckCheckIcon, CornerDownRightIcon, LoaderIcon, PaperclipIcon, SendIcon, XIcon } from 'lucide-react';
+import { toast } from 'react-toastify';
+import { useAuth } from '../context/AuthContext';
+import {
+  supabase,
+  getTicketMessages,
+  getTicketReads,
+  createTicketMessage,
+  markTicketRead,
+  createNotification,
+  TicketAttachment,
+  TicketMessage,
+  TicketRead,
+  TicketStatus
+} from '../utils/supabase';
+import { uploadTicketAttachment, validateSubmissionFile } from '../utils/storage';
+import { buildMessageThreads, mergeTicketMessage, seenBy } from '../utils/ticketMessages';
+
+interface TicketConversationProps {
+  ticket: {
+    id: string;
+    student_id: string;
+    title: string;
+    reason: string;
+    status: TicketStatus;
+    created_at: string;
+    student?: { id: string; name: string } | null;
+  };
+  // Who to notify when the student writes
+  teacherId?: string;
+}
+
+// The student and teacher's conversation on a ticket, kept live over a realtime channel
+const TicketConversation: React.FC<TicketConversationProps> = ({ ticket, teacherId }) => {
+  const { user } = useAuth();
+  const [messages, setMessages] = useState<TicketMessage[]>([]);
+  const [reads, setReads] = useState<TicketRead[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [body, setBody] = useState('');
+  const [files, setFiles] = useState<File[]>([]);
+  const [replyTo, setReplyTo] = useState<TicketMessage | null>(null);
+  const [isSending, setIsSending] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const isClosed = ticket.status === 'closed';
+
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchConversation = async () => {
+      setIsLoading(true);
+      const [messagesResult, readsResult] = await Promise.all([
+        getTicketMessages(ticket.id),
+        getTicketReads(ticket.id)
+      ]);
+      if (messagesResult.error || readsResult.error) {
+        console.error('Error loading ticket conversation:', messagesResult.error || readsResult.error);
+      }
+      setMessages(messagesResult.data);
+      setReads(readsResult.data);
+      setIsLoading(false);
+
+      const { data: ownRead } = await markTicketRead(ticket.id, user.id);
+      if (ownRead) {
+        setReads(prev => [...prev.filter(read => read.user_id !== user.id), ownRead]);
+      }
+    };
+
+    fetchConversation();
+
+    const subscription = supabase
+      .channel(`ticket-${ticket.id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'ticket_messages',
+          filter: `ticket_id=eq.${ticket.id}`
+        },
+        (payload) => {
+          const newMessage = payload.new as TicketMessage;
+          setMessages(prev => mergeTicketMessage(prev, newMessage));
+
+          // The conversation is on screen, so a message from the other side is read as it arrives
+          if (newMessage.sender_id !== user.id) {
+            markTicketRead(ticket.id, user.id);
+          }
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'ticket_reads',
+          filter: `ticket_id=eq.${ticket.id}`
+        },
+        (payload) => {
+          const read = payload.new as TicketRead;
+          if (!read?.user_id) return;
+          setReads(prev => [...prev.filter(item => item.user_id !== read.user_id), read]);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [ticket.id, user]);
+
+  // Realtime rows arrive without the sender join; the ticket and earlier messages usually know the name
+  const senderName = (message: TicketMessage) => {
+    if (message.sender?.name) return message.sender.name;
+    if (message.sender_id === user?.id) return user?.name || 'You';
+    const known = messages.find(item => item.sender_id === message.sender_id && item.sender?.name);
+    if (known?.sender?.name) return known.sender.name;
+    return message.sender_id === ticket.student_id ? ticket.student?.name || 'Student' : 'Teacher';
+  };
+
+  const handleFilesSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files || []);
+    const valid = selected.filter(file => {
+      const validation = validateSubmissionFile(file);
+      if (!validation.valid) toast.error(`${file.name}: ${validation.error}`);
+      return validation.valid;
+    });
+    setFiles(prev => [...prev, ...valid]);
+    e.target.value = '';
+  };
+
+  const handleSend = async () => {
+    if (!user || (!body.trim() && files.length === 0)) return;
+
+    setIsSending(true);
+    try {
+      const attachments: TicketAttachment[] = [];
+      for (const file of files) {
+        attachments.push(await uploadTicketAttachment(file, ticket.id));
+      }
+
+      const { data, error } = await createTicketMessage({
+        ticket_id: ticket.id,
+        sender_id: user.id,
+        body: body.trim(),
+        parent_id: replyTo?.id ?? null,
+        attachments
+      });
+      if (error || !data) throw error || new Error('Failed to send message');
+
+      setMessages(prev => mergeTicketMessage(prev, data));
+      setBody('');
+      setFiles([]);
+      setReplyTo(null);
+
+      const recipientId = user.id === ticket.student_id ? teacherId : ticket.student_id;
+      if (recipientId) {
+        await createNotification({
+          user_id: recipientId,
+          title: 'New Ticket Message',
+          message: `${user.name || 'Someone'} wrote on "${ticket.title}"`,
+          type: 'ticket',
+          related_id: ticket.id
+        });
+      }
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to send message');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const threads = buildMessageThreads(messages);
+  const lastOwnMessage = [...messages].reverse().find(message => message.sender_id === user?.id);
+
+  const renderMessage = (message: TicketMessage, isReply: boolean) => {
+    const isOwn = message.sender_id === user?.id;
+    const seen = message.id === lastOwnMessage?.id ? seenBy(message, reads) : [];
+
+    return (
+      <div key={message.id} className={isReply ? 'ml-6 mt-2 flex' : ''}>
+        {isReply && <CornerDownRightIcon className="h-4 w-4 mr-1 mt-2 text-gray-400 flex-shrink-0" />}
+        <div className={`flex-1 rounded-lg p-3 ${isOwn ? 'bg-blue-50 border border-blue-100' : 'bg-gray-50 border border-gray-200'}`}>
+          <div className="flex items-center justify-between text-xs text-gray-500 mb-1">
+            <span className="font-medium text-gray-700">{isOwn ? 'You' : senderName(message)}</span>
+            <span>{new Date(message.created_at).toLocaleString()}</span>
+          </div>
+          {message.body && <p className="text-sm text-gray-800 whitespace-pre-wrap">{message.body}</p>}
+          {message.attachments?.length > 0 && (
+            <div className="flex flex-wrap gap-2 mt-2">
+              {message.attachments.map(attachment => (
+                <a
+                  key={attachment.path}
+                  href={attachment.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-center px-2 py-1 text-xs bg-white border border-gray-300 rounded hover:bg-gray-50"
+                >
+                  <PaperclipIcon className="h-3 w-3 mr-1" />
+                  {attachment.fileName}
+                </a>
+              ))}
+            </div>
+          )}
+          <div className="flex items-center justify-between mt-1">
+            {!isReply && !isClosed ? (
+              <button type="button" onClick={() => setReplyTo(message)} className="text-xs text-blue-600 hover:text-blue-800">
+                Reply
+              </button>
+            ) : <span />}
+            {seen.length > 0 && (
+              <span className="flex items-center text-xs text-gray-500" title={seen.map(read => new Date(read.last_read_at).toLocaleString()).join(', ')}>
+                <CheckCheckIcon className="h-3.5 w-3.5 mr-1 text-blue-500" />
+                Seen
+              </span>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="mt-4 border-t border-gray-200 pt-4">
+      <h4 className="text-sm font-medium text-gray-700 mb-3">Conversation</h4>
+
+      {isLoading ? (
+        <div className="flex items-center text-sm text-gray-500">
+          <LoaderIcon className="h-4 w-4 mr-2 animate-spin" />
+          Loading messages...
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {threads.length === 0 && <p className="text-sm text-gray-500">No messages yet.</p>}
+          {threads.map(thread => (
+            <div key={thread.message.id}>
+              {renderMessage(thread.message, false)}
+              {thread.replies.map(reply => renderMessage(reply, true))}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {isClosed ? (
+        <p className="text-sm text-gray-500 mt-3">This ticket is closed.</p>
+      ) : (
+        <div className="mt-4">
+          {replyTo && (
+            <div className="flex items-center justify-between text-xs text-gray-600 bg-gray-100 rounded px-2 py-1 mb-2">
+              <span className="truncate">Replying to {replyTo.sender_id === user?.id ? 'yourself' : senderName(replyTo)}: {replyTo.body}</span>
+              <button type="button" onClick={() => setReplyTo(null)} className="ml-2 text-gray-500 hover:text-gray-700">
+                <XIcon className="h-3 w-3" />
+              </button>
+            </div>
+          )}
+          <textarea
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            placeholder="Write a message..."
+            className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500"
+            rows={3}
+            disabled={isSending}
+          />
+          {files.length > 0 && (
+            <div className="flex flex-wrap gap-2 mt-2">
+              {files.map((file, index) => (
+                <span key={`${file.name}-${index}`} className="flex items-center px-2 py-1 text-xs bg-gray-100 rounded">
+                  {file.name}
+                  <button type="button" onClick={() => setFiles(files.filter((_, i) => i !== index))} className="ml-1 text-gray-500 hover:text-gray-700">
+                    <XIcon className="h-3 w-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+          <div className="flex items-center justify-between mt-2">
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isSending}
+              className="flex items-center text-sm text-gray-600 hover:text-gray-800 disabled:opacity-50"
+            >
+              <PaperclipIcon className="h-4 w-4 mr-1" />
+              Attach
+            </button>
+            <input ref={fileInputRef} type="file" multiple accept=".pdf,image/*" className="hidden" onChange={handleFilesSelected} />
+            <button
+              type="button"
+              onClick={handleSend}
+              disabled={isSending || (!body.trim() && files.length === 0)}
+              className="flex items-center px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isSending ? <LoaderIcon className="h-4 w-4 mr-1 animate-spin" /> : <SendIcon className="h-4 w-4 mr-1" />}
+              Send
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TicketConversation;
@@ -0,0 +1,65 @@
+import React from 'react';
+import { BarChart3Icon } from 'lucide-react';
+import { computeTicketMetrics, formatDuration } from '../../shared/ticketSla';
+import type { TicketWithClass } from '../utils/supabase';
+
+interface TicketMetricsPanelProps {
+  // Tickets as loaded by getTeacherTickets
+  tickets: TicketWithClass[];
+}
+
+// Per-class ticket load and response times for the teacher's ticket queue
+const TicketMetricsPanel: React.FC<TicketMetricsPanelProps> = ({ tickets }) => {
+  const byClass = new Map<string, { name: string; tickets: TicketWithClass[] }>();
+  tickets.forEach(ticket => {
+    const classInfo = ticket.submissions?.assignments?.classes;
+    if (!classInfo) return;
+    const entry = byClass.get(classInfo.id) || { name: classInfo.name, tickets: [] as TicketWithClass[] };
+    entry.tickets.push(ticket);
+    byClass.set(classInfo.id, entry);
+  });
+
+  if (byClass.size === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4 mb-6">
+      <h2 className="flex items-center font-medium text-gray-900 mb-3">
+        <BarChart3Icon className="h-4 w-4 mr-2" />
+        Response times by class
+      </h2>
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-gray-500 uppercase border-b border-gray-200">
+              <th className="px-3 py-2">Class</th>
+              <th className="px-3 py-2">Active</th>
+              <th className="px-3 py-2">Overdue</th>
+              <th className="px-3 py-2">Unassigned</th>
+              <th className="px-3 py-2">Median first response</th>
+              <th className="px-3 py-2">Median time to resolve</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {[...byClass.entries()].map(([classId, entry]) => {
+              const metrics = computeTicketMetrics(entry.tickets);
+              return (
+                <tr key={classId}>
+                  <td className="px-3 py-2 font-medium text-gray-800">{entry.name}</td>
+                  <td className="px-3 py-2">{metrics.active} / {metrics.total}</td>
+                  <td className={`px-3 py-2 ${metrics.overdue > 0 ? 'text-red-600 font-medium' : ''}`}>{metrics.overdue}</td>
+                  <td className="px-3 py-2">{metrics.unassigned}</td>
+                  <td className="px-3 py-2">{formatDuration(metrics.medianFirstResponseHours)}</td>
+                  <td className="px-3 py-2">{formatDuration(metrics.medianResolveHours)}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default TicketMetricsPanel;
@@ -0,0 +1,34 @@
+import React from 'react';
+import { applyLatePenalty, formatLateness } from '../../utils/latePolicy';
+
+interface AdjustedMarksProps {
+  marks: number;
+  // Left out where the column header already shows the maximum
+  maxMarks?: number;
+  isLate?: boolean;
+  minutesLate?: number;
+  latePenaltyPct?: number;
+}
+
+// A mark with its late penalty spelled out: the raw mark struck through next to the adjusted one
+const AdjustedMarks: React.FC<AdjustedMarksProps> = ({ marks, maxMarks, isLate, minutesLate = 0, latePenaltyPct = 0 }) => {
+  const adjusted = applyLatePenalty(marks, latePenaltyPct);
+
+  return (
+    <span className="inline-flex flex-col">
+      <span className="font-medium">
+        {latePenaltyPct > 0 && (
+          <span className="line-through text-gray-400 mr-1" title="Raw mark">{marks}</span>
+        )}
+        {adjusted}{maxMarks !== undefined && ` / ${maxMarks}`}
+      </span>
+      {isLate && (
+        <span className="text-xs text-orange-600" title={`Submitted ${formatLateness(minutesLate)} after the due date`}>
+          Late {formatLateness(minutesLate)}{latePenaltyPct > 0 && ` · -${latePenaltyPct}%`}
+        </span>
+      )}
+    </span>
+  );
+};
+
+export default AdjustedMarks;
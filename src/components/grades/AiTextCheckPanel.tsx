@@ -0,0 +1,68 @@
+import React from 'react';
+import { BotIcon, RefreshCwIcon } from 'lucide-react';
+import { AiTextCheck } from '../../utils/supabase';
+
+interface AiTextCheckPanelProps {
+  check: AiTextCheck | null;
+  isChecking?: boolean;
+  onRecheck: () => void;
+}
+
+const LEVEL_STYLES: Record<AiTextCheck['level'], { label: string; className: string }> = {
+  low: { label: 'Low', className: 'bg-green-100 text-green-800' },
+  medium: { label: 'Medium', className: 'bg-yellow-100 text-yellow-800' },
+  high: { label: 'High', className: 'bg-orange-100 text-orange-800' },
+  insufficient: { label: 'Not enough text', className: 'bg-gray-100 text-gray-700' }
+};
+
+const AiTextCheckPanel: React.FC<AiTextCheckPanelProps> = ({ check, isChecking = false, onRecheck }) => {
+  const level = check ? LEVEL_STYLES[check.level] : null;
+
+  return (
+    <div className="border border-gray-200 rounded-md p-3">
+      <div className="flex items-center justify-between mb-2">
+        <span className="flex items-center text-sm font-medium text-gray-700">
+          <BotIcon className="h-4 w-4 mr-1" />
+          AI-Generated Text Likelihood
+        </span>
+        <div className="flex items-center gap-2">
+          {check && level && (
+            <span className={`px-2 text-xs leading-5 font-semibold rounded-full ${level.className}`}>
+              {level.label}{check.score !== null && ` · ${check.score}/100`}
+            </span>
+          )}
+          <button type="button" onClick={onRecheck} disabled={isChecking} className="text-gray-500 hover:text-gray-700 disabled:opacity-50" title="Run the check again">
+            <RefreshCwIcon className={`h-4 w-4 ${isChecking ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+      </div>
+
+      {check ? (
+        <>
+          <p className="text-sm text-gray-700 mb-2">{check.explanation}</p>
+          {check.signals.length > 0 && (
+            <ul className="space-y-1 mb-2">
+              {check.signals.map(signal => (
+                <li key={signal.name} className="flex items-center gap-2 text-xs text-gray-600">
+                  <div className="w-16 h-1.5 bg-gray-200 rounded-full overflow-hidden shrink-0">
+                    <div className={`h-full ${signal.strength >= 0.5 ? 'bg-orange-500' : 'bg-gray-400'}`} style={{ width: `${Math.round(signal.strength * 100)}%` }} />
+                  </div>
+                  <span className="font-medium text-gray-700">{signal.label}:</span>
+                  <span>{signal.detail}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      ) : (
+        <p className="text-sm text-gray-500">{isChecking ? 'Checking...' : 'Not checked yet.'}</p>
+      )}
+
+      <p className="text-xs text-gray-500">
+        Advisory only. These local heuristics are often wrong and never change the grade.
+      </p>
+    </div>
+  );
+};
+
+export default AiTextCheckPanel;
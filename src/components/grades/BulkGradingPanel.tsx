@@ -0,0 +1,172 @@
+import React, { useState } from 'react';
+import { LoaderIcon, SparklesIcon } from 'lucide-react';
+import { toast } from 'react-toastify';
+import { gradeSubmissionsBatch, BatchGradeOutcome } from '../../utils/api';
+import { updateSubmission, GradeDraft } from '../../utils/supabase';
+
+interface BulkGradingPanelProps {
+  ungradedIds: string[];
+  selectedIds: string[];
+  studentNames: Record<string, string>;
+  onDraftSaved: (submissionId: string, draft: GradeDraft) => void;
+}
+
+const CONCURRENCY = 3;
+
+const BulkGradingPanel: React.FC<BulkGradingPanelProps> = ({ ungradedIds, selectedIds, studentNames, onDraftSaved }) => {
+  const [gradingMode, setGradingMode] = useState<string>("Compare OCR'd content with Generated document");
+  const [gradingCriteria, setGradingCriteria] = useState<string>('');
+  const [customInstructions, setCustomInstructions] = useState<string>('');
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState({ completed: 0, total: 0 });
+  const [failures, setFailures] = useState<BatchGradeOutcome[]>([]);
+
+  const runBatch = async (submissionIds: string[]) => {
+    if (submissionIds.length === 0) return;
+
+    setIsRunning(true);
+    setFailures([]);
+    setProgress({ completed: 0, total: submissionIds.length });
+
+    // Results are stored as drafts; nothing reaches students until the teacher approves them
+    const saveOutcome = async (outcome: BatchGradeOutcome) => {
+      if (outcome.result) {
+        const draft: GradeDraft = {
+          grade: outcome.result.final_marks,
+          feedback: outcome.result.review,
+          criterion_scores: outcome.result.criterion_scores,
+          question_scores: outcome.result.question_scores?.length > 0 ? outcome.result.question_scores : undefined,
+          raw_score: outcome.result.raw_score,
+          raw_score_max: outcome.result.raw_score_max,
+          grading_mode: outcome.result.grading_mode,
+          provider: outcome.result.provider,
+          samples: outcome.result.samples?.length > 1 ? outcome.result.samples : undefined,
+          spread: outcome.result.samples?.length > 1 ? outcome.result.spread : undefined,
+          needs_review: outcome.result.needs_review,
+          generated_at: outcome.result.graded_at
+        };
+
+        const { error } = await updateSubmission(outcome.submissionId, { ai_draft: draft });
+        if (error) {
+          setFailures(prev => [...prev, { submissionId: outcome.submissionId, error: 'Failed to save draft' }]);
+        } else {
+          onDraftSaved(outcome.submissionId, draft);
+        }
+      } else {
+        setFailures(prev => [...prev, outcome]);
+      }
+      setProgress(prev => ({ ...prev, completed: prev.completed + 1 }));
+    };
+
+    const pendingSaves: Promise<void>[] = [];
+    try {
+      await gradeSubmissionsBatch(submissionIds, {
+        gradingMode,
+        gradingCriteria: gradingCriteria || undefined,
+        customInstructions: customInstructions || undefined
+      }, {
+        concurrency: CONCURRENCY,
+        onOutcome: outcome => pendingSaves.push(saveOutcome(outcome))
+      });
+      await Promise.all(pendingSaves);
+      toast.success('Bulk grading finished. Review the drafts below before releasing them.');
+    } catch (err) {
+      console.error('Bulk grading error:', err);
+      toast.error(err instanceof Error ? err.message : 'Bulk grading failed');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4 mb-6">
+      <h3 className="text-md font-semibold mb-3 flex items-center">
+        <SparklesIcon className="h-5 w-5 mr-2 text-purple-600" />
+        Bulk AI Grading
+      </h3>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Grading Mode</label>
+          <select
+            value={gradingMode}
+            onChange={(e) => setGradingMode(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500"
+            disabled={isRunning}
+          >
+            <option value="Compare OCR'd content with Generated document">Compare with Original</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Grading Criteria (Optional)</label>
+          <textarea
+            value={gradingCriteria}
+            onChange={(e) => setGradingCriteria(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500"
+            rows={2}
+            placeholder="E.g., Focus on mathematical accuracy"
+            disabled={isRunning}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Custom Instructions (Optional)</label>
+          <textarea
+            value={customInstructions}
+            onChange={(e) => setCustomInstructions(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500"
+            rows={2}
+            placeholder="E.g., Be lenient on formatting"
+            disabled={isRunning}
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          type="button"
+          onClick={() => runBatch(ungradedIds)}
+          disabled={isRunning || ungradedIds.length === 0}
+          className="px-4 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-700 disabled:bg-purple-300 disabled:cursor-not-allowed text-sm"
+        >
+          Grade All Ungraded ({ungradedIds.length})
+        </button>
+        <button
+          type="button"
+          onClick={() => runBatch(selectedIds)}
+          disabled={isRunning || selectedIds.length === 0}
+          className="px-4 py-2 border border-purple-600 text-purple-700 rounded-md hover:bg-purple-50 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+        >
+          Grade Selected ({selectedIds.length})
+        </button>
+        {isRunning && (
+          <span className="flex items-center text-sm text-gray-600">
+            <LoaderIcon className="h-4 w-4 mr-2 animate-spin" />
+            Grading {progress.completed}/{progress.total}...
+          </span>
+        )}
+      </div>
+
+      {progress.total > 0 && (
+        <div className="mt-3 w-full bg-gray-200 rounded-full h-2">
+          <div
+            className="bg-purple-600 h-2 rounded-full transition-all"
+            style={{ width: `${Math.round((progress.completed / progress.total) * 100)}%` }}
+          />
+        </div>
+      )}
+
+      {failures.length > 0 && (
+        <div className="mt-3 text-sm text-red-700">
+          <p className="font-medium">{failures.length} submission(s) could not be graded:</p>
+          <ul className="list-disc ml-5">
+            {failures.map(failure => (
+              <li key={failure.submissionId}>{studentNames[failure.submissionId] || 'Unknown Student'}: {failure.error}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BulkGradingPanel;
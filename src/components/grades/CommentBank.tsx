@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import { EditIcon, LoaderIcon, PlusIcon, TrashIcon } from 'lucide-react';
+import { toast } from 'react-toastify';
+import { FeedbackComment, createFeedbackComment, updateFeedbackComment, deleteFeedbackComment } from '../../utils/supabase';
+import { CommentBankFilter, COMMENT_SOURCE_LABELS, distinctTags, filterFeedbackComments, normalizeShortcut, parseTags } from '../../utils/commentBank';
+import { useAuth } from '../../context/AuthContext';
+
+interface CommentBankProps {
+  classId: string;
+  comments: FeedbackComment[];
+  onCommentsChange: (comments: FeedbackComment[]) => void;
+  onInsert: (comment: FeedbackComment) => void;
+  disabled?: boolean;
+}
+
+const emptyForm = { text: '', tags: '', shortcut: '', shared: true };
+
+// Postgres unique_violation: the teacher already has a comment on that shortcut
+const describeSaveError = (error: { code?: string; message?: string }) =>
+  error.code === '23505' ? 'You already use that shortcut for another comment' : error.message || 'Failed to save comment';
+
+// Searchable, tagged feedback comments to insert into a grade's feedback, most used first
+const CommentBank: React.FC<CommentBankProps> = ({ classId, comments, onCommentsChange, onInsert, disabled = false }) => {
+  const { user } = useAuth();
+  const [filter, setFilter] = useState<CommentBankFilter>({ scope: 'all' });
+  const [form, setForm] = useState(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const visible = filterFeedbackComments(comments, filter);
+  const tags = distinctTags(comments);
+
+  const startEdit = (comment: FeedbackComment) => {
+    setEditingId(comment.id);
+    setForm({ text: comment.text, tags: comment.tags.join(', '), shortcut: comment.shortcut || '', shared: !!comment.class_id });
+    setShowForm(true);
+  };
+
+  const closeForm = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+    setShowForm(false);
+  };
+
+  const handleSave = async () => {
+    if (!user || !form.text.trim()) return;
+
+    const fields = {
+      text: form.text.trim(),
+      tags: parseTags(form.tags),
+      shortcut: normalizeShortcut(form.shortcut) || null,
+      class_id: form.shared ? classId : null
+    };
+
+    setIsSaving(true);
+    const { data, error } = editingId
+      ? await updateFeedbackComment(editingId, fields)
+      : await createFeedbackComment({ ...fields, teacher_id: user.id });
+    setIsSaving(false);
+
+    if (error || !data) {
+      toast.error(describeSaveError(error || {}));
+      return;
+    }
+    onCommentsChange(editingId
+      ? comments.map(comment => comment.id === data.id ? data : comment)
+      : [data, ...comments]);
+    closeForm();
+  };
+
+  const handleDelete = async (comment: FeedbackComment) => {
+    if (!window.confirm('Remove this comment from the bank? Feedback that already uses it is not changed.')) return;
+
+    const { error } = await deleteFeedbackComment(comment.id);
+    if (error) {
+      toast.error('Failed to delete comment');
+      return;
+    }
+    onCommentsChange(comments.filter(item => item.id !== comment.id));
+  };
+
+  const inputClass = 'w-full px-2 py-1 text-sm border border-gray-300 rounded-md';
+
+  return (
+    <div className="border border-gray-200 rounded-md p-3 bg-gray-50">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-medium text-gray-700">Comment bank</h3>
+        <button type="button" onClick={() => (showForm ? closeForm() : setShowForm(true))} className="flex items-center text-xs text-blue-600 hover:text-blue-800">
+          <PlusIcon className="h-3 w-3 mr-1" />
+          {showForm ? 'Close' : 'New comment'}
+        </button>
+      </div>
+      <p className="text-xs text-gray-500 mb-2">Click Insert, or type /shortcut followed by a space in the feedback.</p>
+
+      {showForm && (
+        <div className="space-y-2 mb-3 p-2 bg-white border border-gray-200 rounded-md">
+          <textarea className={inputClass} rows={3} placeholder="Comment text" value={form.text} onChange={e => setForm({ ...form, text: e.target.value })} />
+          <div className="grid grid-cols-2 gap-2">
+            <input className={inputClass} placeholder="Tags, comma separated" value={form.tags} onChange={e => setForm({ ...form, tags: e.target.value })} />
+            <input className={inputClass} placeholder="Shortcut, e.g. evid" value={form.shortcut} onChange={e => setForm({ ...form, shortcut: e.target.value })} />
+          </div>
+          <div className="flex items-center justify-between">
+            <label className="flex items-center text-xs text-gray-600">
+              <input type="checkbox" className="mr-1" checked={form.shared} onChange={e => setForm({ ...form, shared: e.target.checked })} />
+              Share with this class (otherwise personal)
+            </label>
+            <button type="button" onClick={handleSave} disabled={isSaving || !form.text.trim()} className="flex items-center px-2 py-1 text-xs bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50">
+              {isSaving && <LoaderIcon className="h-3 w-3 mr-1 animate-spin" />}
+              {editingId ? 'Save changes' : 'Add to bank'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-3 gap-2 mb-2">
+        <input className={`${inputClass} col-span-3 sm:col-span-1`} placeholder="Search" value={filter.search || ''} onChange={e => setFilter({ ...filter, search: e.target.value })} />
+        <select className={inputClass} value={filter.tag || ''} onChange={e => setFilter({ ...filter, tag: e.target.value || undefined })}>
+          <option value="">All tags</option>
+          {tags.map(tag => <option key={tag} value={tag}>{tag}</option>)}
+        </select>
+        <select className={inputClass} value={filter.scope} onChange={e => setFilter({ ...filter, scope: e.target.value as CommentBankFilter['scope'] })}>
+          <option value="all">Class and personal</option>
+          <option value="class">Class only</option>
+          <option value="personal">Personal only</option>
+        </select>
+      </div>
+
+      {visible.length === 0 ? (
+        <p className="text-sm text-gray-500 py-2">{comments.length === 0 ? 'No saved comments yet.' : 'No comments match.'}</p>
+      ) : (
+        <ul className="max-h-64 overflow-y-auto divide-y divide-gray-200 bg-white border border-gray-200 rounded-md">
+          {visible.map(comment => (
+            <li key={comment.id} className="px-2 py-2 text-sm">
+              <p className="text-gray-800 whitespace-pre-wrap">{comment.text}</p>
+              <div className="flex flex-wrap items-center justify-between gap-2 mt-1">
+                <div className="flex flex-wrap items-center gap-1 text-xs">
+                  {comment.shortcut && <span className="px-1.5 py-0.5 rounded bg-blue-100 text-blue-800 font-mono">/{comment.shortcut}</span>}
+                  {comment.tags.map(tag => <span key={tag} className="px-1.5 py-0.5 rounded bg-gray-100 text-gray-700">{tag}</span>)}
+                  <span className="text-gray-500" title={COMMENT_SOURCE_LABELS[comment.source]}>
+                    Used {comment.usage_count}×{!comment.class_id && ' · personal'}
+                  </span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <button type="button" onClick={() => onInsert(comment)} disabled={disabled} className="px-2 py-0.5 text-xs border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50">
+                    Insert
+                  </button>
+                  <button type="button" onClick={() => startEdit(comment)} className="text-gray-500 hover:text-gray-800" title="Edit comment">
+                    <EditIcon className="h-3.5 w-3.5" />
+                  </button>
+                  <button type="button" onClick={() => handleDelete(comment)} className="text-red-600 hover:text-red-900" title="Delete comment">
+                    <TrashIcon className="h-3.5 w-3.5" />
+                  </button>
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default CommentBank;
@@ -0,0 +1,83 @@
+import React, { useEffect, useState } from 'react';
+import { ChevronDownIcon, ChevronUpIcon, MessageSquareIcon } from 'lucide-react';
+import { FeedbackComment, FeedbackCommentUse, getAssignmentCommentUses, getFeedbackComments } from '../../utils/supabase';
+import { summarizeCommentUsage } from '../../utils/commentBank';
+import { useAuth } from '../../context/AuthContext';
+
+interface CommentUsageStatsProps {
+  assignmentId: string;
+  classId: string;
+  submissionCount: number;
+}
+
+// Which bank comments were applied most across an assignment's graded submissions
+const CommentUsageStats: React.FC<CommentUsageStatsProps> = ({ assignmentId, classId, submissionCount }) => {
+  const { user } = useAuth();
+  const [uses, setUses] = useState<FeedbackCommentUse[]>([]);
+  const [comments, setComments] = useState<FeedbackComment[]>([]);
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  useEffect(() => {
+    const fetchUsage = async () => {
+      if (!user) return;
+      const [usesResult, commentsResult] = await Promise.all([
+        getAssignmentCommentUses(assignmentId),
+        getFeedbackComments(classId, user.id)
+      ]);
+      if (usesResult.error || commentsResult.error) {
+        console.error('Error loading comment usage:', usesResult.error || commentsResult.error);
+      }
+      setUses(usesResult.data);
+      setComments(commentsResult.data);
+    };
+
+    fetchUsage();
+  }, [assignmentId, classId, user]);
+
+  if (uses.length === 0) {
+    return null;
+  }
+
+  const usage = summarizeCommentUsage(uses, comments);
+  const shown = isExpanded ? usage : usage.slice(0, 5);
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4 mb-4">
+      <h3 className="flex items-center font-medium text-gray-900 mb-1">
+        <MessageSquareIcon className="h-4 w-4 mr-2" />
+        Most used feedback comments
+      </h3>
+      <p className="text-xs text-gray-500 mb-3">
+        {usage.length} bank comment{usage.length !== 1 ? 's' : ''} applied {uses.length} time{uses.length !== 1 ? 's' : ''} across {submissionCount} submission{submissionCount !== 1 ? 's' : ''}.
+      </p>
+
+      <ul className="space-y-2">
+        {shown.map(({ comment, commentId, count }) => (
+          <li key={commentId} className="text-sm">
+            <div className="flex items-start justify-between gap-4">
+              <span className="text-gray-800">
+                {comment?.text || <span className="italic text-gray-500">Another teacher's personal comment</span>}
+                {comment?.shortcut && <span className="ml-2 text-xs font-mono text-blue-700">/{comment.shortcut}</span>}
+              </span>
+              <span className="text-gray-600 whitespace-nowrap">{count}×</span>
+            </div>
+            {submissionCount > 0 && (
+              <div className="h-1.5 bg-gray-100 rounded mt-1">
+                <div className="h-1.5 bg-blue-500 rounded" style={{ width: `${Math.min(100, (count / submissionCount) * 100)}%` }} />
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {usage.length > 5 && (
+        <button type="button" onClick={() => setIsExpanded(!isExpanded)} className="flex items-center mt-3 text-sm text-blue-600 hover:text-blue-800">
+          {isExpanded ? <ChevronUpIcon className="h-4 w-4 mr-1" /> : <ChevronDownIcon className="h-4 w-4 mr-1" />}
+          {isExpanded ? 'Show fewer' : `Show all ${usage.length}`}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default CommentUsageStats;
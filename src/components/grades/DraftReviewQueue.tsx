@@ -0,0 +1,222 @@
+import React, { useState } from 'react';
+import { CheckIcon, XIcon, ChevronDownIcon, ChevronUpIcon, AlertTriangleIcon } from 'lucide-react';
+import ReactMarkdown from 'react-markdown';
+import { toast } from 'react-toastify';
+import { updateSubmission, releaseGrades, GradeDraft } from '../../utils/supabase';
+
+interface DraftSubmission {
+  id: string;
+  student_id: string;
+  ai_draft: GradeDraft;
+  users?: { name?: string; email?: string };
+}
+
+interface DraftReviewQueueProps {
+  submissions: DraftSubmission[];
+  assignment: { title: string; max_marks: number; grades_release_at?: string | null };
+  onResolved: (submissionId: string, updates: { grade?: number; feedback?: string; release_status?: 'released'; needs_review?: boolean; ai_draft: null }) => void;
+}
+
+const DraftReviewQueue: React.FC<DraftReviewQueueProps> = ({ submissions, assignment, onResolved }) => {
+  const [edits, setEdits] = useState<Record<string, { grade: number; feedback: string }>>({});
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [busyIds, setBusyIds] = useState<string[]>([]);
+  const maxMarks = assignment.max_marks;
+
+  const getEdit = (sub: DraftSubmission) => edits[sub.id] || { grade: sub.ai_draft.grade, feedback: sub.ai_draft.feedback };
+
+  const setEdit = (sub: DraftSubmission, updates: Partial<{ grade: number; feedback: string }>) => {
+    setEdits(prev => ({ ...prev, [sub.id]: { ...getEdit(sub), ...updates } }));
+  };
+
+  const withBusy = async <T,>(submissionId: string, action: () => Promise<T>) => {
+    setBusyIds(prev => [...prev, submissionId]);
+    try {
+      return await action();
+    } finally {
+      setBusyIds(prev => prev.filter(id => id !== submissionId));
+    }
+  };
+
+  // Publish the (possibly edited) draft as the grade and release it to the student; returns whether both succeeded.
+  // Approve All passes notify = false and reports the failures together
+  const approve = (sub: DraftSubmission, notify = true) => withBusy(sub.id, async () => {
+    const { grade, feedback } = getEdit(sub);
+    if (grade < 0 || grade > maxMarks) {
+      if (notify) toast.error(`Grade must be between 0 and ${maxMarks}`);
+      return false;
+    }
+
+    const { error } = await updateSubmission(sub.id, {
+      grade,
+      feedback,
+      criterion_scores: sub.ai_draft.criterion_scores.length > 0 ? sub.ai_draft.criterion_scores : undefined,
+      question_scores: sub.ai_draft.question_scores || null,
+      raw_score: sub.ai_draft.raw_score,
+      raw_score_max: sub.ai_draft.raw_score_max,
+      grading_samples: sub.ai_draft.samples || null,
+      grade_spread: sub.ai_draft.spread ?? null,
+      // The teacher has looked at it, so any sample disagreement is resolved
+      needs_review: false,
+      ai_draft: null,
+      graded_at: new Date().toISOString(),
+      graded_by: 'manual'
+    });
+
+    if (error) {
+      console.error('Error approving draft grade:', error);
+      if (notify) toast.error('Failed to approve grade');
+      return false;
+    }
+
+    const { error: releaseError } = await releaseGrades(assignment, [{ id: sub.id, student_id: sub.student_id, grade }]);
+    if (releaseError) {
+      console.error('Error releasing approved grade:', releaseError);
+      if (notify) toast.error('Grade saved but could not be released');
+    }
+
+    onResolved(sub.id, releaseError
+      ? { grade, feedback, needs_review: false, ai_draft: null }
+      : { grade, feedback, release_status: 'released', needs_review: false, ai_draft: null });
+    return !releaseError;
+  });
+
+  // Discard the draft without touching any existing grade
+  const reject = (sub: DraftSubmission) => withBusy(sub.id, async () => {
+    const { error } = await updateSubmission(sub.id, { ai_draft: null });
+
+    if (error) {
+      console.error('Error rejecting draft grade:', error);
+      toast.error('Failed to reject draft');
+      return;
+    }
+
+    onResolved(sub.id, { ai_draft: null });
+  });
+
+  const approveAll = async () => {
+    const failed: string[] = [];
+    for (const sub of submissions) {
+      if (!await approve(sub, false)) {
+        failed.push(sub.users?.name || 'Unknown Student');
+      }
+    }
+
+    if (failed.length === 0) {
+      toast.success('All draft grades approved');
+    } else {
+      toast.error(`Could not approve or release ${failed.length} of ${submissions.length} draft grades: ${failed.join(', ')}`);
+    }
+  };
+
+  if (submissions.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-6">
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <h3 className="text-md font-semibold text-yellow-900">Draft Grades Awaiting Review ({submissions.length})</h3>
+          <p className="text-xs text-yellow-800">
+            Students are not notified until you approve a grade
+            {assignment.grades_release_at && new Date(assignment.grades_release_at) > new Date()
+              && ` (approved grades become visible ${new Date(assignment.grades_release_at).toLocaleString()})`}.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={approveAll}
+          disabled={busyIds.length > 0}
+          className="px-3 py-1.5 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:bg-green-300 text-sm"
+        >
+          Approve All
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        {submissions.map(sub => {
+          const edit = getEdit(sub);
+          const isBusy = busyIds.includes(sub.id);
+          const isExpanded = expandedId === sub.id;
+
+          return (
+            <div key={sub.id} className="bg-white border border-yellow-200 rounded-md p-3">
+              <div className="flex items-center justify-between gap-3 flex-wrap">
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-900">{sub.users?.name || 'Unknown Student'}</p>
+                  <p className="text-xs text-gray-500">
+                    Drafted {new Date(sub.ai_draft.generated_at).toLocaleString()}
+                    {sub.ai_draft.provider && ` via ${sub.ai_draft.provider}`}
+                    {sub.ai_draft.samples && ` · samples ${sub.ai_draft.samples.filter(sample => !sample.error).map(sample => sample.final_marks).join(', ')}`}
+                  </p>
+                  {sub.ai_draft.needs_review && (
+                    <span className="mt-1 px-2 py-0.5 inline-flex items-center text-xs font-semibold rounded-full bg-orange-100 text-orange-800">
+                      <AlertTriangleIcon className="h-3 w-3 mr-1" />
+                      Needs human review (spread {sub.ai_draft.spread ?? 0})
+                    </span>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="number"
+                    min={0}
+                    max={maxMarks}
+                    value={edit.grade}
+                    onChange={(e) => setEdit(sub, { grade: Number(e.target.value) })}
+                    className="w-20 px-2 py-1 border border-gray-300 rounded-md text-sm"
+                    disabled={isBusy}
+                  />
+                  <span className="text-sm text-gray-500">/ {maxMarks}</span>
+                  <button
+                    type="button"
+                    onClick={() => setExpandedId(isExpanded ? null : sub.id)}
+                    className="p-1 text-gray-500 hover:text-gray-700"
+                    title="Edit feedback"
+                  >
+                    {isExpanded ? <ChevronUpIcon className="h-4 w-4" /> : <ChevronDownIcon className="h-4 w-4" />}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => approve(sub)}
+                    disabled={isBusy}
+                    className="p-1.5 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:bg-green-300"
+                    title="Approve"
+                  >
+                    <CheckIcon className="h-4 w-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => reject(sub)}
+                    disabled={isBusy}
+                    className="p-1.5 bg-red-600 text-white rounded-md hover:bg-red-700 disabled:bg-red-300"
+                    title="Reject"
+                  >
+                    <XIcon className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+
+              {isExpanded && (
+                <div className="mt-3 grid grid-cols-1 md:grid-cols-2 gap-3">
+                  <textarea
+                    value={edit.feedback}
+                    onChange={(e) => setEdit(sub, { feedback: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                    rows={8}
+                    disabled={isBusy}
+                  />
+                  <div className="prose prose-sm max-w-none border border-gray-100 rounded-md p-3 max-h-52 overflow-y-auto">
+                    <ReactMarkdown>{edit.feedback}</ReactMarkdown>
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default DraftReviewQueue;
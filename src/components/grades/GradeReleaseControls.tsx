@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { EyeIcon, CalendarClockIcon } from 'lucide-react';
+import { toast } from 'react-toastify';
+import { releaseGrades, updateAssignmentGradeRelease } from '../../utils/supabase';
+
+interface ReleasableSubmission {
+  id: string;
+  student_id: string;
+  grade?: number | null;
+  release_status?: 'draft' | 'released';
+}
+
+interface GradeReleaseControlsProps {
+  assignment: { id: string; title: string; max_marks: number; grades_release_at?: string | null };
+  submissions: ReleasableSubmission[];
+  onReleaseAtChange: (gradesReleaseAt: string | null) => void;
+  onReleased: (submissionIds: string[]) => void;
+}
+
+// datetime-local inputs work in local time without a zone suffix
+const toLocalInputValue = (iso?: string | null) => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const GradeReleaseControls: React.FC<GradeReleaseControlsProps> = ({ assignment, submissions, onReleaseAtChange, onReleased }) => {
+  const [releaseAt, setReleaseAt] = useState<string>(toLocalInputValue(assignment.grades_release_at));
+  const [isSaving, setIsSaving] = useState(false);
+  const [isReleasing, setIsReleasing] = useState(false);
+
+  const gradedDrafts = submissions.filter(sub => sub.grade !== null && sub.grade !== undefined && sub.release_status !== 'released');
+  const releasedCount = submissions.filter(sub => sub.release_status === 'released').length;
+  const releaseTime = assignment.grades_release_at ? new Date(assignment.grades_release_at) : null;
+  const isScheduled = !!releaseTime && releaseTime > new Date();
+
+  const saveReleaseAt = async (value: string) => {
+    setIsSaving(true);
+    const gradesReleaseAt = value ? new Date(value).toISOString() : null;
+    const { error } = await updateAssignmentGradeRelease(assignment.id, gradesReleaseAt);
+
+    if (error) {
+      console.error('Error saving grade release time:', error);
+      toast.error('Failed to save release time');
+    } else {
+      setReleaseAt(value);
+      onReleaseAtChange(gradesReleaseAt);
+      toast.success(gradesReleaseAt ? 'Grade release scheduled' : 'Grade release schedule cleared');
+    }
+    setIsSaving(false);
+  };
+
+  const releaseAll = async () => {
+    setIsReleasing(true);
+    const { error } = await releaseGrades(assignment, gradedDrafts);
+
+    if (error) {
+      console.error('Error releasing grades:', error);
+      toast.error('Failed to release grades');
+    } else {
+      onReleased(gradedDrafts.map(sub => sub.id));
+      toast.success(isScheduled
+        ? `${gradedDrafts.length} grade(s) will be visible ${releaseTime?.toLocaleString()}`
+        : `${gradedDrafts.length} grade(s) released to students`);
+    }
+    setIsReleasing(false);
+  };
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4 mb-6">
+      <h3 className="text-md font-semibold mb-3 flex items-center">
+        <EyeIcon className="h-5 w-5 mr-2 text-blue-600" />
+        Grade Release
+      </h3>
+
+      <div className="flex flex-wrap items-end gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Release grades at (optional)</label>
+          <div className="flex items-center gap-2">
+            <input
+              type="datetime-local"
+              value={releaseAt}
+              onChange={(e) => setReleaseAt(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500 text-sm"
+              disabled={isSaving}
+            />
+            <button
+              type="button"
+              onClick={() => saveReleaseAt(releaseAt)}
+              disabled={isSaving || releaseAt === toLocalInputValue(assignment.grades_release_at)}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            >
+              Save
+            </button>
+            {assignment.grades_release_at && (
+              <button
+                type="button"
+                onClick={() => saveReleaseAt('')}
+                disabled={isSaving}
+                className="px-3 py-2 text-sm text-red-600 hover:text-red-800 disabled:opacity-50"
+              >
+                Clear
+              </button>
+            )}
+          </div>
+        </div>
+
+        <button
+          type="button"
+          onClick={releaseAll}
+          disabled={isReleasing || gradedDrafts.length === 0}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-blue-300 disabled:cursor-not-allowed text-sm"
+        >
+          {isReleasing ? 'Releasing...' : `Release All Graded (${gradedDrafts.length})`}
+        </button>
+      </div>
+
+      <p className="mt-3 text-sm text-gray-600 flex items-center">
+        <CalendarClockIcon className="h-4 w-4 mr-1" />
+        {releasedCount} released, {gradedDrafts.length} graded but hidden.
+        {isScheduled && ` Released grades become visible ${releaseTime?.toLocaleString()}.`}
+      </p>
+    </div>
+  );
+};
+
+export default GradeReleaseControls;
@@ -1,6 +1,8 @@
 import React, { useState, useMemo } from 'react';
 import { DownloadIcon, EditIcon, CheckIcon, XIcon } from 'lucide-react';
 import { updateGrade } from '../../utils/api';
+import { applyLatePenalty } from '../../utils/latePolicy';
+import AdjustedMarks from './AdjustedMarks';
 
 interface Grade {
   id: string;
@@ -13,6 +15,9 @@ interface Grade {
   submitted: boolean;
   submittedAt?: string;
   gradedAt?: string;
+  isLate?: boolean;
+  minutesLate?: number;
+  latePenaltyPct?: number;
 }
 
 interface GradesSpreadsheetProps {
@@ -79,12 +84,12 @@ const GradesSpreadsheet: React.FC<GradesSpreadsheetProps> = ({
       
       Object.values(student.assignments).forEach(grade => {
         if (grade.marks !== null) {
-          totalMarks += grade.marks;
+          totalMarks += applyLatePenalty(grade.marks, grade.latePenaltyPct || 0);
         }
         totalMaxMarks += grade.maxMarks;
       });
 
-      student.totalMarks = totalMarks;
+      student.totalMarks = Math.round(totalMarks * 100) / 100;
       student.totalMaxMarks = totalMaxMarks;
       student.percentage = totalMaxMarks > 0 ? Math.round((totalMarks / totalMaxMarks) * 100) : 0;
     });
@@ -128,7 +133,7 @@ const GradesSpreadsheet: React.FC<GradesSpreadsheetProps> = ({
         `"${student.studentName}"`,
         ...assignments.map(assignment => {
           const grade = student.assignments[assignment.id];
-          return grade?.marks !== null ? grade.marks : '';
+          return grade && grade.marks !== null ? applyLatePenalty(grade.marks, grade.latePenaltyPct || 0) : '';
         }),
         student.totalMarks,
         `${student.percentage}%`
@@ -243,7 +248,9 @@ const GradesSpreadsheet: React.FC<GradesSpreadsheetProps> = ({
                             onClick={() => handleEdit(grade)}
                           >
                             {grade.marks !== null ? (
-                              <span className="font-medium">{grade.marks}</span>
+                              <AdjustedMarks marks={grade.marks} isLate={grade.isLate} minutesLate={grade.minutesLate} latePenaltyPct={grade.latePenaltyPct} />
+                            ) : grade.isLate ? (
+                              <span className="text-xs text-orange-600">Late</span>
                             ) : (
                               <span className="text-gray-400">—</span>
                             )}
@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { updateGrade } from '../../utils/api';
 import { CheckIcon, XIcon } from 'lucide-react';
+import AdjustedMarks from './AdjustedMarks';
 
 interface Grade {
   id: string;
@@ -11,6 +12,9 @@ interface Grade {
   submitted: boolean;
   submittedAt?: string;
   gradedAt?: string;
+  isLate?: boolean;
+  minutesLate?: number;
+  latePenaltyPct?: number;
 }
 
 interface GradesTableProps {
@@ -120,9 +124,13 @@ const GradesTable: React.FC<GradesTableProps> = ({
                   ) : (
                     <div>
                       {grade.marks !== null ? (
-                        <span className="font-medium">
-                          {grade.marks} / {grade.maxMarks}
-                        </span>
+                        <AdjustedMarks
+                          marks={grade.marks}
+                          maxMarks={grade.maxMarks}
+                          isLate={grade.isLate}
+                          minutesLate={grade.minutesLate}
+                          latePenaltyPct={grade.latePenaltyPct}
+                        />
                       ) : (
                         <span className="text-gray-500">—</span>
                       )}
@@ -139,6 +147,11 @@ const GradesTable: React.FC<GradesTableProps> = ({
                       Pending
                     </span>
                   )}
+                  {grade.isLate && (
+                    <span className="ml-1 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-orange-100 text-orange-800">
+                      Late
+                    </span>
+                  )}
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                   {grade.submittedAt ? new Date(grade.submittedAt).toLocaleDateString() : '—'}
@@ -0,0 +1,134 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { ClockIcon, LoaderIcon, CheckCircleIcon, XCircleIcon, RefreshCwIcon } from 'lucide-react';
+import { toast } from 'react-toastify';
+import { GradingJob, getGradingJob, requeueGradingJob } from '../../utils/supabase';
+
+interface GradingJobStatusProps {
+  submissionId: string;
+  showAttempts?: boolean;
+  canRequeue?: boolean;
+  onComplete?: () => void;
+}
+
+const POLL_INTERVAL_MS = 10000;
+
+const STATUS_STYLES: Record<GradingJob['status'], { label: string; className: string; icon: React.ReactNode }> = {
+  queued: { label: 'Queued for grading', className: 'bg-gray-100 text-gray-800', icon: <ClockIcon className="h-4 w-4 mr-1" /> },
+  running: { label: 'Grading in progress', className: 'bg-blue-100 text-blue-800', icon: <LoaderIcon className="h-4 w-4 mr-1 animate-spin" /> },
+  done: { label: 'Grading complete', className: 'bg-green-100 text-green-800', icon: <CheckCircleIcon className="h-4 w-4 mr-1" /> },
+  failed: { label: 'Automatic grading failed', className: 'bg-red-100 text-red-800', icon: <XCircleIcon className="h-4 w-4 mr-1" /> }
+};
+
+const GradingJobStatus: React.FC<GradingJobStatusProps> = ({ submissionId, showAttempts = false, canRequeue = false, onComplete }) => {
+  const [job, setJob] = useState<GradingJob | null>(null);
+  const [isRequeuing, setIsRequeuing] = useState(false);
+  const lastStatus = useRef<GradingJob['status'] | null>(null);
+
+  const loadJob = useCallback(async () => {
+    const { data, error } = await getGradingJob(submissionId);
+    if (error) {
+      console.error('Error fetching grading job:', error);
+      return;
+    }
+    // Let the page reload the grade once the worker finishes
+    if (lastStatus.current && lastStatus.current !== 'done' && data?.status === 'done') {
+      onComplete?.();
+    }
+    lastStatus.current = data?.status || null;
+    setJob(data);
+  }, [submissionId, onComplete]);
+
+  useEffect(() => {
+    loadJob();
+  }, [loadJob]);
+
+  // Keep polling while the worker still has the job
+  useEffect(() => {
+    if (!job || (job.status !== 'queued' && job.status !== 'running')) return;
+
+    const timer = setInterval(loadJob, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [job, loadJob]);
+
+  const handleRequeue = async () => {
+    setIsRequeuing(true);
+    const { data, error } = await requeueGradingJob(submissionId);
+    if (error) {
+      console.error('Error requeuing grading job:', error);
+      toast.error('Failed to requeue grading');
+    } else {
+      lastStatus.current = data?.status || null;
+      setJob(data);
+      toast.success('Submission queued for grading again');
+    }
+    setIsRequeuing(false);
+  };
+
+  if (!job) {
+    return null;
+  }
+
+  const style = STATUS_STYLES[job.status];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between flex-wrap gap-2">
+        <span className={`px-2 py-1 inline-flex items-center text-xs font-semibold rounded-full ${style.className}`}>
+          {style.icon}
+          {style.label}
+        </span>
+        <span className="text-xs text-gray-500">
+          Attempt {job.attempts} of {job.max_attempts}
+          {job.status === 'queued' && job.attempts > 0 && ` · next retry ${new Date(job.next_run_at).toLocaleTimeString()}`}
+        </span>
+      </div>
+
+      {job.status === 'failed' && (
+        <p className="text-sm text-red-700">
+          {showAttempts && job.last_error ? job.last_error : 'Your teacher will grade this submission manually.'}
+        </p>
+      )}
+
+      {showAttempts && job.attempt_log.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-xs">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="pr-4 py-1">#</th>
+                <th className="pr-4 py-1">Started</th>
+                <th className="pr-4 py-1">Provider</th>
+                <th className="pr-4 py-1">Latency</th>
+                <th className="py-1">Result</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {job.attempt_log.map(entry => (
+                <tr key={`${entry.attempt}-${entry.started_at}`}>
+                  <td className="pr-4 py-1">{entry.attempt}</td>
+                  <td className="pr-4 py-1">{new Date(entry.started_at).toLocaleString()}</td>
+                  <td className="pr-4 py-1">{entry.provider ? `${entry.provider}${entry.model ? ` (${entry.model})` : ''}` : '—'}</td>
+                  <td className="pr-4 py-1">{(entry.latency_ms / 1000).toFixed(1)}s</td>
+                  <td className={`py-1 ${entry.error ? 'text-red-600' : 'text-green-600'}`}>{entry.error || 'Success'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {canRequeue && (job.status === 'failed' || job.status === 'done') && (
+        <button
+          type="button"
+          onClick={handleRequeue}
+          disabled={isRequeuing}
+          className="inline-flex items-center px-3 py-1.5 border border-gray-300 text-xs font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+        >
+          <RefreshCwIcon className={`h-3 w-3 mr-1 ${isRequeuing ? 'animate-spin' : ''}`} />
+          {job.status === 'failed' ? 'Retry automatic grading' : 'Re-run automatic grading'}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default GradingJobStatus;
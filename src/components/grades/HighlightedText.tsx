@@ -0,0 +1,20 @@
+import React from 'react';
+import { TextRange, splitByRanges } from '../../utils/similarity';
+
+interface HighlightedTextProps {
+  text: string;
+  ranges: TextRange[];
+  className?: string;
+  markClassName?: string;
+}
+
+// Plain text with the given character ranges marked, e.g. passages shared with another submission
+const HighlightedText: React.FC<HighlightedTextProps> = ({ text, ranges, className = '', markClassName = 'bg-yellow-200' }) => (
+  <div className={`whitespace-pre-wrap text-sm leading-relaxed text-gray-800 ${className}`}>
+    {splitByRanges(text, ranges).map((segment, index) => segment.highlighted
+      ? <mark key={index} className={`${markClassName} rounded-sm`}>{segment.text}</mark>
+      : <React.Fragment key={index}>{segment.text}</React.Fragment>)}
+  </div>
+);
+
+export default HighlightedText;
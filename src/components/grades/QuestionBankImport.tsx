@@ -0,0 +1,168 @@
+import React, { useEffect, useState } from 'react';
+import { LoaderIcon, SaveIcon } from 'lucide-react';
+import { toast } from 'react-toastify';
+import { AssignmentQuestion, BankQuestion, QuestionDifficulty, addQuestionsToBank } from '../../utils/supabase';
+import { DIFFICULTY_LABELS } from '../../utils/questionBank';
+import { QUESTION_TYPE_LABELS } from '../../../shared/questions';
+
+interface QuestionBankImportProps {
+  questions: AssignmentQuestion[];
+  classId: string;
+  teacherId: string;
+  sourceAssignmentId?: string;
+  onSaved?: (saved: BankQuestion[]) => void;
+  onCancel?: () => void;
+}
+
+interface ImportRow {
+  include: boolean;
+  topic: string;
+  difficulty: QuestionDifficulty;
+  learning_outcome: string;
+}
+
+const blankRow = (): ImportRow => ({ include: true, topic: '', difficulty: 'medium', learning_outcome: '' });
+
+const QuestionBankImport: React.FC<QuestionBankImportProps> = ({ questions, classId, teacherId, sourceAssignmentId, onSaved, onCancel }) => {
+  const [rows, setRows] = useState<Record<string, ImportRow>>({});
+  const [defaults, setDefaults] = useState<ImportRow>(blankRow);
+  const [scope, setScope] = useState<'class' | 'personal'>('class');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setRows(Object.fromEntries(questions.map(question => [question.id, blankRow()])));
+  }, [questions]);
+
+  const getRow = (question: AssignmentQuestion) => rows[question.id] || blankRow();
+
+  const updateRow = (question: AssignmentQuestion, updates: Partial<ImportRow>) => {
+    setRows(current => ({ ...current, [question.id]: { ...getRow(question), ...updates } }));
+  };
+
+  const applyDefaultsToAll = () => {
+    setRows(current => Object.fromEntries(questions.map(question => [
+      question.id,
+      { ...(current[question.id] || blankRow()), topic: defaults.topic, difficulty: defaults.difficulty, learning_outcome: defaults.learning_outcome }
+    ])));
+  };
+
+  const selected = questions.filter(question => getRow(question).include);
+
+  const handleSave = async () => {
+    if (selected.length === 0) {
+      toast.error('Select at least one question to import');
+      return;
+    }
+
+    const untagged = selected.find(question => !getRow(question).topic.trim());
+    if (untagged) {
+      toast.error(`Question ${untagged.number} needs a topic`);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { data, error } = await addQuestionsToBank(selected.map(question => {
+        const row = getRow(question);
+        return {
+          teacher_id: teacherId,
+          class_id: scope === 'class' ? classId : null,
+          question,
+          topic: row.topic.trim(),
+          difficulty: row.difficulty,
+          learning_outcome: row.learning_outcome.trim(),
+          source_assignment_id: sourceAssignmentId || null
+        };
+      }));
+
+      if (error) throw error;
+
+      toast.success(`Added ${data.length} question(s) to the ${scope === 'class' ? 'class' : 'personal'} question bank`);
+      onSaved?.(data);
+    } catch (err) {
+      console.error('Error saving to question bank:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to save questions to the bank');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (questions.length === 0) {
+    return <p className="text-sm text-gray-500">No numbered questions were found to import.</p>;
+  }
+
+  const inputClass = 'w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-gray-50 border border-gray-200 rounded-md p-3">
+        <p className="text-xs font-medium text-gray-600 mb-2">Tag every question at once</p>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-2 items-end">
+          <input type="text" className={inputClass} placeholder="Topic" value={defaults.topic} onChange={e => setDefaults({ ...defaults, topic: e.target.value })} />
+          <select className={inputClass} value={defaults.difficulty} onChange={e => setDefaults({ ...defaults, difficulty: e.target.value as QuestionDifficulty })}>
+            {(Object.keys(DIFFICULTY_LABELS) as QuestionDifficulty[]).map(difficulty => (
+              <option key={difficulty} value={difficulty}>{DIFFICULTY_LABELS[difficulty]}</option>
+            ))}
+          </select>
+          <input type="text" className={inputClass} placeholder="Learning outcome" value={defaults.learning_outcome} onChange={e => setDefaults({ ...defaults, learning_outcome: e.target.value })} />
+          <button type="button" onClick={applyDefaultsToAll} className="px-3 py-1 text-sm bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300">
+            Apply to All
+          </button>
+        </div>
+      </div>
+
+      {questions.map(question => {
+        const row = getRow(question);
+        return (
+          <div key={question.id} className={`border rounded-md p-3 ${row.include ? 'border-gray-200' : 'border-gray-100 opacity-60'}`}>
+            <label className="flex items-start gap-2 mb-2">
+              <input type="checkbox" className="mt-1" checked={row.include} onChange={e => updateRow(question, { include: e.target.checked })} />
+              <span className="text-sm text-gray-800 whitespace-pre-wrap">
+                <span className="font-medium">Q{question.number}</span>
+                <span className="ml-2 text-xs text-gray-500">{QUESTION_TYPE_LABELS[question.type || 'essay']} · {question.marks} marks</span>
+                <br />
+                {question.prompt}
+              </span>
+            </label>
+            {row.include && (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                <input type="text" className={inputClass} placeholder="Topic" value={row.topic} onChange={e => updateRow(question, { topic: e.target.value })} />
+                <select className={inputClass} value={row.difficulty} onChange={e => updateRow(question, { difficulty: e.target.value as QuestionDifficulty })}>
+                  {(Object.keys(DIFFICULTY_LABELS) as QuestionDifficulty[]).map(difficulty => (
+                    <option key={difficulty} value={difficulty}>{DIFFICULTY_LABELS[difficulty]}</option>
+                  ))}
+                </select>
+                <input type="text" className={inputClass} placeholder="Learning outcome" value={row.learning_outcome} onChange={e => updateRow(question, { learning_outcome: e.target.value })} />
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      <div className="flex items-center justify-between flex-wrap gap-2">
+        <select className="px-3 py-2 text-sm border border-gray-300 rounded-md" value={scope} onChange={e => setScope(e.target.value as 'class' | 'personal')}>
+          <option value="class">Save to this class's bank</option>
+          <option value="personal">Save to my personal bank</option>
+        </select>
+        <div className="flex gap-2">
+          {onCancel && (
+            <button type="button" onClick={onCancel} className="px-4 py-2 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50">
+              Cancel
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={isSaving || selected.length === 0}
+            className="flex items-center px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isSaving ? <LoaderIcon className="h-4 w-4 mr-2 animate-spin" /> : <SaveIcon className="h-4 w-4 mr-2" />}
+            Save {selected.length} to Bank
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QuestionBankImport;
@@ -0,0 +1,150 @@
+import React, { useEffect, useState } from 'react';
+import { PlusIcon, ShuffleIcon } from 'lucide-react';
+import { toast } from 'react-toastify';
+import { BankQuestion, QuestionDifficulty, getQuestionBank } from '../../utils/supabase';
+import { DIFFICULTY_LABELS, QuestionBankFilter, filterBankQuestions, pickRandomBankQuestions, distinctValues } from '../../utils/questionBank';
+import { QUESTION_TYPE_LABELS } from '../../../shared/questions';
+import LoadingSpinner from '../LoadingSpinner';
+
+interface QuestionBankPickerProps {
+  classId: string;
+  teacherId: string;
+  onAdd: (questions: BankQuestion[]) => void;
+  disabled?: boolean;
+}
+
+const QuestionBankPicker: React.FC<QuestionBankPickerProps> = ({ classId, teacherId, onAdd, disabled = false }) => {
+  const [bank, setBank] = useState<BankQuestion[]>([]);
+  const [filter, setFilter] = useState<QuestionBankFilter>({ scope: 'all', difficulty: '' });
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [randomCount, setRandomCount] = useState(10);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchBank = async () => {
+      setIsLoading(true);
+      const { data, error } = await getQuestionBank(classId, teacherId);
+      if (error) {
+        console.error('Error loading question bank:', error);
+        toast.error('Failed to load the question bank');
+      }
+      setBank(data);
+      setIsLoading(false);
+    };
+
+    fetchBank();
+  }, [classId, teacherId]);
+
+  const matching = filterBankQuestions(bank, filter);
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(current => current.includes(id) ? current.filter(selected => selected !== id) : [...current, id]);
+  };
+
+  const addSelected = () => {
+    onAdd(bank.filter(item => selectedIds.includes(item.id)));
+    setSelectedIds([]);
+  };
+
+  const addRandom = () => {
+    const picked = pickRandomBankQuestions(bank, randomCount, filter);
+    if (picked.length === 0) {
+      toast.error('No questions match these filters');
+      return;
+    }
+    if (picked.length < randomCount) {
+      toast.info(`Only ${picked.length} question(s) match these filters`);
+    }
+    onAdd(picked);
+  };
+
+  if (isLoading) {
+    return <div className="p-4"><LoadingSpinner /></div>;
+  }
+
+  if (bank.length === 0) {
+    return <p className="text-sm text-gray-500">The question bank is empty. Save questions to it from an assignment or import generated questions.</p>;
+  }
+
+  const inputClass = 'w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-2">
+        <input type="text" list="bank-topics" className={inputClass} placeholder="Topic" value={filter.topic || ''} onChange={e => setFilter({ ...filter, topic: e.target.value })} />
+        <datalist id="bank-topics">
+          {distinctValues(bank, 'topic').map(topic => <option key={topic} value={topic} />)}
+        </datalist>
+        <select className={inputClass} value={filter.difficulty || ''} onChange={e => setFilter({ ...filter, difficulty: e.target.value as QuestionDifficulty | '' })}>
+          <option value="">Any difficulty</option>
+          {(Object.keys(DIFFICULTY_LABELS) as QuestionDifficulty[]).map(difficulty => (
+            <option key={difficulty} value={difficulty}>{DIFFICULTY_LABELS[difficulty]}</option>
+          ))}
+        </select>
+        <input type="text" list="bank-outcomes" className={inputClass} placeholder="Learning outcome" value={filter.learningOutcome || ''} onChange={e => setFilter({ ...filter, learningOutcome: e.target.value })} />
+        <datalist id="bank-outcomes">
+          {distinctValues(bank, 'learning_outcome').map(outcome => <option key={outcome} value={outcome} />)}
+        </datalist>
+        <input type="text" className={inputClass} placeholder="Search question text" value={filter.search || ''} onChange={e => setFilter({ ...filter, search: e.target.value })} />
+        <select className={inputClass} value={filter.scope || 'all'} onChange={e => setFilter({ ...filter, scope: e.target.value as QuestionBankFilter['scope'] })}>
+          <option value="all">Class and personal</option>
+          <option value="class">This class only</option>
+          <option value="personal">Personal only</option>
+        </select>
+      </div>
+
+      <div className="max-h-72 overflow-y-auto border border-gray-200 rounded-md divide-y divide-gray-100">
+        {matching.length === 0 ? (
+          <p className="p-3 text-sm text-gray-500">No questions match these filters.</p>
+        ) : matching.map(item => (
+          <label key={item.id} className="flex items-start gap-2 p-3 hover:bg-gray-50">
+            <input type="checkbox" className="mt-1" checked={selectedIds.includes(item.id)} onChange={() => toggleSelected(item.id)} disabled={disabled} />
+            <div className="min-w-0">
+              <p className="text-sm text-gray-800 line-clamp-2">{item.question.prompt || '(no prompt)'}</p>
+              <p className="text-xs text-gray-500">
+                {item.topic || 'Untagged'} · {DIFFICULTY_LABELS[item.difficulty]} · {QUESTION_TYPE_LABELS[item.question.type || 'essay']} · {item.question.marks} marks
+                {item.learning_outcome && ` · ${item.learning_outcome}`}
+                {!item.class_id && ' · personal'}
+              </p>
+            </div>
+          </label>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between flex-wrap gap-2">
+        <button
+          type="button"
+          onClick={addSelected}
+          disabled={disabled || selectedIds.length === 0}
+          className="flex items-center px-3 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          <PlusIcon className="h-4 w-4 mr-1" />
+          Add {selectedIds.length} Selected
+        </button>
+        <div className="flex items-center gap-2">
+          <input
+            type="number"
+            min={1}
+            max={100}
+            value={randomCount}
+            onChange={e => setRandomCount(Math.max(1, parseInt(e.target.value) || 1))}
+            className="w-20 px-2 py-2 text-sm border border-gray-300 rounded-md"
+            disabled={disabled}
+          />
+          <button
+            type="button"
+            onClick={addRandom}
+            disabled={disabled || matching.length === 0}
+            className="flex items-center px-3 py-2 text-sm bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 disabled:opacity-50"
+            title="Add random questions matching the filters above"
+          >
+            <ShuffleIcon className="h-4 w-4 mr-1" />
+            Add Random ({matching.length} match)
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QuestionBankPicker;
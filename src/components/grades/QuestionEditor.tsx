@@ -0,0 +1,296 @@
+import React from 'react';
+import { PlusIcon, TrashIcon, ListOrderedIcon } from 'lucide-react';
+import { AssignmentQuestion, QuestionType } from '../../utils/supabase';
+import { createQuestion, splitContentIntoQuestions, totalQuestionMarks, isObjectiveQuestion, QUESTION_TYPE_LABELS } from '../../../shared/questions';
+
+interface QuestionEditorProps {
+  questions: AssignmentQuestion[];
+  onChange: (questions: AssignmentQuestion[]) => void;
+  content: string;
+  maxMarks: number;
+  disabled?: boolean;
+}
+
+const QuestionEditor: React.FC<QuestionEditorProps> = ({ questions, onChange, content, maxMarks, disabled = false }) => {
+  const updateQuestion = (id: string, updates: Partial<AssignmentQuestion>) => {
+    onChange(questions.map(question => question.id === id ? { ...question, ...updates } : question));
+  };
+
+  // Reset the answer fields that belong to the previous type
+  const changeType = (question: AssignmentQuestion, type: QuestionType) => {
+    updateQuestion(question.id, {
+      type,
+      options: type === 'mcq' || type === 'multi_select' ? question.options || ['', ''] : undefined,
+      correct_options: type === 'mcq' || type === 'multi_select' ? [] : undefined,
+      correct_answer: type === 'true_false' ? 'true' : type === 'short_exact' ? '' : undefined,
+      numeric_answer: type === 'numeric' ? 0 : undefined,
+      tolerance: type === 'numeric' ? 0 : undefined
+    });
+  };
+
+  const updateOption = (question: AssignmentQuestion, index: number, value: string) => {
+    updateQuestion(question.id, { options: (question.options || []).map((option, i) => i === index ? value : option) });
+  };
+
+  const removeOption = (question: AssignmentQuestion, index: number) => {
+    updateQuestion(question.id, {
+      options: (question.options || []).filter((_, i) => i !== index),
+      correct_options: (question.correct_options || [])
+        .filter(option => option !== index)
+        .map(option => option > index ? option - 1 : option)
+    });
+  };
+
+  const toggleCorrectOption = (question: AssignmentQuestion, index: number) => {
+    const current = question.correct_options || [];
+    const correct = question.type === 'mcq'
+      ? [index]
+      : current.includes(index) ? current.filter(option => option !== index) : [...current, index].sort((a, b) => a - b);
+    updateQuestion(question.id, { correct_options: correct });
+  };
+
+  const renderAnswerFields = (question: AssignmentQuestion) => {
+    switch (question.type) {
+      case 'mcq':
+      case 'multi_select':
+        return (
+          <div className="space-y-2">
+            <label className="block text-xs font-medium text-gray-600">
+              Options ({question.type === 'mcq' ? 'select the correct one' : 'tick every correct option'})
+            </label>
+            {(question.options || []).map((option, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <input
+                  type={question.type === 'mcq' ? 'radio' : 'checkbox'}
+                  name={`correct_${question.id}`}
+                  checked={(question.correct_options || []).includes(index)}
+                  onChange={() => toggleCorrectOption(question, index)}
+                  disabled={disabled}
+                />
+                <input
+                  type="text"
+                  value={option}
+                  onChange={e => updateOption(question, index, e.target.value)}
+                  className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded-md"
+                  placeholder={`Option ${index + 1}`}
+                  disabled={disabled}
+                />
+                <button
+                  type="button"
+                  onClick={() => removeOption(question, index)}
+                  className="text-red-600 hover:text-red-800"
+                  disabled={disabled || (question.options || []).length <= 2}
+                >
+                  <TrashIcon className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => updateQuestion(question.id, { options: [...(question.options || []), ''] })}
+              className="flex items-center text-sm text-blue-600 hover:text-blue-800"
+              disabled={disabled}
+            >
+              <PlusIcon className="h-4 w-4 mr-1" />
+              Add Option
+            </button>
+          </div>
+        );
+      case 'true_false':
+        return (
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Correct Answer</label>
+            <select
+              value={question.correct_answer || 'true'}
+              onChange={e => updateQuestion(question.id, { correct_answer: e.target.value })}
+              className="px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              disabled={disabled}
+            >
+              <option value="true">True</option>
+              <option value="false">False</option>
+            </select>
+          </div>
+        );
+      case 'numeric':
+        return (
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Correct Value</label>
+              <input
+                type="number"
+                step="any"
+                value={question.numeric_answer ?? 0}
+                onChange={e => updateQuestion(question.id, { numeric_answer: Number(e.target.value) })}
+                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                disabled={disabled}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Tolerance (±)</label>
+              <input
+                type="number"
+                step="any"
+                min="0"
+                value={question.tolerance ?? 0}
+                onChange={e => updateQuestion(question.id, { tolerance: Math.abs(Number(e.target.value)) })}
+                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                disabled={disabled}
+              />
+            </div>
+          </div>
+        );
+      case 'short_exact':
+        return (
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Accepted Answers</label>
+            <input
+              type="text"
+              value={question.correct_answer || ''}
+              onChange={e => updateQuestion(question.id, { correct_answer: e.target.value })}
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="Separate alternatives with |, e.g. photosynthesis|photo-synthesis"
+              disabled={disabled}
+            />
+            <label className="flex items-center mt-2 text-xs text-gray-600">
+              <input
+                type="checkbox"
+                className="mr-2"
+                checked={!!question.case_sensitive}
+                onChange={e => updateQuestion(question.id, { case_sensitive: e.target.checked })}
+                disabled={disabled}
+              />
+              Case sensitive
+            </label>
+          </div>
+        );
+      default:
+        return (
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Key Answer</label>
+            <textarea
+              value={question.answer_key || ''}
+              onChange={e => updateQuestion(question.id, { answer_key: e.target.value })}
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              rows={3}
+              placeholder="Leave blank to fill from a generated answer key later"
+              disabled={disabled}
+            />
+          </div>
+        );
+    }
+  };
+
+  // Keep question numbers sequential after a removal
+  const removeQuestion = (id: string) => {
+    onChange(questions
+      .filter(question => question.id !== id)
+      .map((question, index) => ({ ...question, number: index + 1 })));
+  };
+
+  const detectFromContent = () => {
+    onChange(splitContentIntoQuestions(content, maxMarks));
+  };
+
+  const totalMarks = totalQuestionMarks(questions);
+
+  return (
+    <div className="space-y-4">
+      {questions.length === 0 && (
+        <p className="text-sm text-gray-500">
+          No questions yet. Split the assignment into numbered questions to grade each answer against its key.
+        </p>
+      )}
+
+      {questions.some(isObjectiveQuestion) && (
+        <p className="text-sm text-blue-700 bg-blue-50 border border-blue-200 rounded-md p-3">
+          Students answer this assignment in an online form instead of uploading a file. Objective questions are marked automatically; essay questions are graded by AI.
+        </p>
+      )}
+
+      {questions.map(question => (
+        <div key={question.id} className="border border-gray-200 rounded-lg p-4">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="font-medium text-gray-800">Question {question.number}</h3>
+            <div className="flex items-center gap-3">
+              <select
+                value={question.type || 'essay'}
+                onChange={e => changeType(question, e.target.value as QuestionType)}
+                className="px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                disabled={disabled}
+              >
+                {(Object.keys(QUESTION_TYPE_LABELS) as QuestionType[]).map(type => (
+                  <option key={type} value={type}>{QUESTION_TYPE_LABELS[type]}</option>
+                ))}
+              </select>
+              <label className="flex items-center text-xs font-medium text-gray-600">
+                Marks
+                <input
+                  type="number"
+                  min="0"
+                  step="0.5"
+                  value={question.marks}
+                  onChange={e => updateQuestion(question.id, { marks: Number(e.target.value) })}
+                  className="ml-2 w-20 px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  disabled={disabled}
+                />
+              </label>
+              <button
+                type="button"
+                onClick={() => removeQuestion(question.id)}
+                className="text-red-600 hover:text-red-800"
+                disabled={disabled}
+              >
+                <TrashIcon className="h-4 w-4" />
+              </button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Question</label>
+              <textarea
+                value={question.prompt}
+                onChange={e => updateQuestion(question.id, { prompt: e.target.value })}
+                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                rows={3}
+                disabled={disabled}
+              />
+            </div>
+            {renderAnswerFields(question)}
+          </div>
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between flex-wrap gap-2">
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => onChange([...questions, createQuestion(questions.length + 1)])}
+            className="flex items-center px-3 py-2 text-sm bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200"
+            disabled={disabled}
+          >
+            <PlusIcon className="h-4 w-4 mr-1" />
+            Add Question
+          </button>
+          <button
+            type="button"
+            onClick={detectFromContent}
+            className="flex items-center px-3 py-2 text-sm bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 disabled:opacity-50"
+            disabled={disabled || !content.trim()}
+            title="Replace these questions with the numbered questions found in the assignment content"
+          >
+            <ListOrderedIcon className="h-4 w-4 mr-1" />
+            Detect from Content
+          </button>
+        </div>
+        {questions.length > 0 && (
+          <span className={`text-sm ${totalMarks === maxMarks ? 'text-gray-500' : 'text-orange-600'}`}>
+            Total marks: {totalMarks} / {maxMarks}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default QuestionEditor;
@@ -0,0 +1,109 @@
+import React from 'react';
+import { AssignmentQuestion, QuestionScore } from '../../utils/supabase';
+import { clampQuestionScore, totalQuestionMarks, describeAnswerKey, isObjectiveQuestion, QUESTION_TYPE_LABELS } from '../../../shared/questions';
+
+interface QuestionScoresProps {
+  questions: AssignmentQuestion[];
+  scores: QuestionScore[];
+  onChange?: (scores: QuestionScore[]) => void;
+  disabled?: boolean;
+}
+
+const QuestionScores: React.FC<QuestionScoresProps> = ({ questions, scores, onChange, disabled = false }) => {
+  const isEditable = !!onChange && !disabled;
+
+  const getScore = (question: AssignmentQuestion): QuestionScore => {
+    return scores.find(s => s.question_id === question.id) || {
+      question_id: question.id,
+      number: question.number,
+      score: 0,
+      max_marks: question.marks,
+      feedback: ''
+    };
+  };
+
+  const updateScore = (question: AssignmentQuestion, updates: Partial<QuestionScore>) => {
+    if (!onChange) return;
+
+    const updated = { ...getScore(question), ...updates };
+    const others = scores.filter(s => s.question_id !== question.id);
+    onChange([...others, updated].sort((a, b) => a.number - b.number));
+  };
+
+  const total = questions.reduce((sum, question) => sum + getScore(question).score, 0);
+
+  return (
+    <div className="space-y-3">
+      {questions.map(question => {
+        const score = getScore(question);
+
+        return (
+          <div key={question.id} className="bg-gray-50 rounded-md p-4">
+            <div className="flex items-start justify-between mb-2 gap-4">
+              <div className="min-w-0">
+                <h4 className="font-medium text-gray-900">
+                  Question {question.number}
+                  {isObjectiveQuestion(question) && question.type && (
+                    <span className="ml-2 text-xs font-normal text-gray-500">{QUESTION_TYPE_LABELS[question.type]} · auto-marked</span>
+                  )}
+                </h4>
+                {question.prompt && (
+                  <p className="text-sm text-gray-500 whitespace-pre-wrap">{question.prompt}</p>
+                )}
+              </div>
+              <div className="flex items-center shrink-0">
+                {isEditable ? (
+                  <input
+                    type="number"
+                    min="0"
+                    max={question.marks}
+                    step="0.5"
+                    value={score.score}
+                    onChange={e => updateScore(question, {
+                      score: clampQuestionScore(Number(e.target.value), question.marks)
+                    })}
+                    className="w-20 px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500"
+                  />
+                ) : (
+                  <span className="text-lg font-medium">{score.score}</span>
+                )}
+                <span className="ml-1 text-gray-600">/ {question.marks}</span>
+              </div>
+            </div>
+
+            {(score.answer_text || describeAnswerKey(question)) && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-2 text-sm">
+                <div>
+                  <p className="text-xs font-medium text-gray-500 mb-1">Student answer</p>
+                  <p className="text-gray-700 whitespace-pre-wrap">{score.answer_text || 'Not found in the submission text'}</p>
+                </div>
+                <div>
+                  <p className="text-xs font-medium text-gray-500 mb-1">Key answer</p>
+                  <p className="text-gray-700 whitespace-pre-wrap">{describeAnswerKey(question) || 'No key answer'}</p>
+                </div>
+              </div>
+            )}
+
+            {isEditable ? (
+              <textarea
+                value={score.feedback || ''}
+                onChange={e => updateScore(question, { feedback: e.target.value })}
+                className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500"
+                rows={2}
+                placeholder="Feedback for this question..."
+              />
+            ) : score.feedback && (
+              <p className="text-sm text-gray-700">{score.feedback}</p>
+            )}
+          </div>
+        );
+      })}
+
+      <div className="text-right text-sm text-gray-700">
+        Question total: <span className="font-semibold">{total} / {totalQuestionMarks(questions)}</span>
+      </div>
+    </div>
+  );
+};
+
+export default QuestionScores;
@@ -0,0 +1,276 @@
+import React, { useState } from 'react';
+import { FlagIcon, LoaderIcon, SparklesIcon, XIcon } from 'lucide-react';
+import { toast } from 'react-toastify';
+import { requestRegradeOpinion, GradingError } from '../../utils/api';
+import { resolveRegradeTicket, createNotification, Ticket, RegradeOpinion, RubricCriterion, CriterionScore, QuestionScore } from '../../utils/supabase';
+import { compareRegradeScores } from '../../../shared/regrade';
+
+// A ticket as loaded by getTeacherTickets, with the submission's current scores
+export interface RegradeTicket extends Ticket {
+  student?: { id: string; name: string; email: string };
+  submissions?: {
+    id: string;
+    grade: number | null;
+    criterion_scores?: CriterionScore[] | null;
+    question_scores?: QuestionScore[] | null;
+    assignments?: { id: string; title: string; max_marks: number; rubric?: RubricCriterion[] | null };
+  };
+}
+
+// What an accepted regrade wrote to the submission
+export interface RegradedScores {
+  grade: number;
+  criterion_scores?: CriterionScore[] | null;
+  question_scores?: QuestionScore[] | null;
+}
+
+interface RegradeReviewProps {
+  ticket: RegradeTicket;
+  onResolved: (ticket: Ticket, regraded?: RegradedScores) => void;
+  onOpinion: (opinion: RegradeOpinion) => void;
+  onClose: () => void;
+}
+
+const formatDelta = (before: number | null, after: number | null) => {
+  if (before === null || after === null || before === after) return '';
+  return after > before ? `+${after - before}` : `${after - before}`;
+};
+
+// Teacher view of a regrade ticket: the student's flags, an AI second opinion beside the current scores, and the decision
+const RegradeReview: React.FC<RegradeReviewProps> = ({ ticket, onResolved, onOpinion, onClose }) => {
+  const submission = ticket.submissions;
+  const assignment = submission?.assignments;
+  const opinion = ticket.ai_reevaluation || null;
+  const currentGrade = submission?.grade ?? null;
+  const maxMarks = assignment?.max_marks ?? opinion?.max_marks ?? 0;
+
+  const [newGrade, setNewGrade] = useState<number>(opinion?.grade ?? currentGrade ?? 0);
+  const [useAiScores, setUseAiScores] = useState(true);
+  const [response, setResponse] = useState('');
+  const [isEvaluating, setIsEvaluating] = useState(false);
+  const [isResolving, setIsResolving] = useState(false);
+
+  const criterionNames = Object.fromEntries((assignment?.rubric || []).map(criterion => [criterion.id, criterion.name]));
+  const rows = opinion ? compareRegradeScores(submission || {}, opinion, ticket.flagged_items || [], criterionNames) : [];
+  const canDecide = ticket.status === 'open' || ticket.status === 'in_progress';
+
+  const handleEvaluate = async () => {
+    setIsEvaluating(true);
+    try {
+      const result = await requestRegradeOpinion(ticket.id);
+      onOpinion(result);
+      setNewGrade(result.grade);
+      toast.success(`AI re-evaluation: ${result.grade}/${result.max_marks}`);
+    } catch (err) {
+      toast.error(err instanceof GradingError
+        ? `The AI grader returned an unusable result (${err.code}). Try again.`
+        : err instanceof Error ? err.message : 'Failed to re-evaluate');
+    } finally {
+      setIsEvaluating(false);
+    }
+  };
+
+  const handleResolve = async (accept: boolean) => {
+    if (!response.trim()) {
+      toast.error('Please explain your decision to the student');
+      return;
+    }
+    if (accept && (newGrade < 0 || newGrade > maxMarks)) {
+      toast.error(`Grade must be between 0 and ${maxMarks}`);
+      return;
+    }
+
+    setIsResolving(true);
+    // The AI's per-item scores only go with the grade they add up to
+    const applyItems = accept && useAiScores && !!opinion && newGrade === opinion.grade;
+    const { data, error } = await resolveRegradeTicket(ticket.id, {
+      accept,
+      response: response.trim(),
+      grade: accept ? newGrade : undefined,
+      criterion_scores: applyItems ? opinion.criterion_scores : null,
+      question_scores: applyItems ? opinion.question_scores : null
+    });
+    setIsResolving(false);
+
+    if (error || !data) {
+      toast.error(error?.message || 'Failed to resolve the ticket');
+      return;
+    }
+
+    if (ticket.student?.id) {
+      await createNotification({
+        user_id: ticket.student.id,
+        title: accept ? 'Grade Changed' : 'Regrade Request Answered',
+        message: accept
+          ? `Your grade for "${assignment?.title}" was changed from ${currentGrade ?? '-'} to ${newGrade}/${maxMarks} after your regrade request`
+          : `Your teacher reviewed your regrade request for "${assignment?.title}" and kept the grade`,
+        type: 'ticket',
+        related_id: ticket.id
+      });
+    }
+
+    toast.success(accept ? 'Grade updated and ticket resolved' : 'Grade upheld and ticket resolved');
+    onResolved(data, accept
+      ? {
+          grade: newGrade,
+          ...(applyItems && { criterion_scores: opinion.criterion_scores, question_scores: opinion.question_scores })
+        }
+      : undefined);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-semibold">Review Regrade Request</h2>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              <XIcon className="h-5 w-5" />
+            </button>
+          </div>
+
+          <div className="mb-4 p-3 bg-gray-50 rounded-lg">
+            <h3 className="font-medium">{ticket.title}</h3>
+            <p className="text-sm text-gray-500">
+              {ticket.student?.name} · {assignment?.title} · current grade {currentGrade ?? '-'}/{maxMarks}
+            </p>
+            <p className="text-sm text-gray-700 mt-2 whitespace-pre-wrap">{ticket.reason}</p>
+            {ticket.flagged_items?.length > 0 && (
+              <ul className="mt-3 space-y-1">
+                {ticket.flagged_items.map(flag => (
+                  <li key={`${flag.kind}-${flag.id}`} className="flex items-start text-sm">
+                    <FlagIcon className="h-4 w-4 mr-2 mt-0.5 text-orange-500 flex-shrink-0" />
+                    <span>
+                      <span className="font-medium">{flag.kind === 'question' ? flag.label : `Criterion: ${flag.label}`}</span>
+                      {flag.score !== null && flag.score !== undefined && <span className="text-gray-500"> ({flag.score}/{flag.max_points})</span>}
+                      {flag.note && <span className="text-gray-700"> – {flag.note}</span>}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="font-medium">AI second opinion</h3>
+            {canDecide && (
+              <button
+                onClick={handleEvaluate}
+                disabled={isEvaluating || isResolving}
+                className="flex items-center px-3 py-1.5 text-sm bg-purple-600 text-white rounded-md hover:bg-purple-700 disabled:opacity-50"
+              >
+                {isEvaluating ? <LoaderIcon className="h-4 w-4 mr-1 animate-spin" /> : <SparklesIcon className="h-4 w-4 mr-1" />}
+                {opinion ? 'Re-run evaluation' : 'Re-evaluate with AI'}
+              </button>
+            )}
+          </div>
+
+          {!opinion ? (
+            <p className="text-sm text-gray-500 mb-4">
+              The AI grades the work again with the student's argument and flagged items as context. Nothing changes until you accept a new score.
+            </p>
+          ) : (
+            <div className="mb-4">
+              <table className="min-w-full text-sm border border-gray-200 rounded-md">
+                <thead className="bg-gray-50">
+                  <tr className="text-left text-xs text-gray-500 uppercase">
+                    <th className="px-3 py-2">Item</th>
+                    <th className="px-3 py-2">Current</th>
+                    <th className="px-3 py-2">AI</th>
+                    <th className="px-3 py-2">Change</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {rows.map(row => (
+                    <tr key={`${row.kind}-${row.id}`} className={row.flagged ? 'bg-orange-50' : ''}>
+                      <td className="px-3 py-2">
+                        <span className="flex items-center">
+                          {row.flagged && <FlagIcon className="h-3.5 w-3.5 mr-1 text-orange-500" />}
+                          {row.label}
+                        </span>
+                        {row.feedback && <span className="block text-xs text-gray-500 mt-1">{row.feedback}</span>}
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap">{row.before ?? '-'} / {row.max}</td>
+                      <td className="px-3 py-2 whitespace-nowrap">{row.after ?? '-'} / {row.max}</td>
+                      <td className="px-3 py-2 font-medium">{formatDelta(row.before, row.after)}</td>
+                    </tr>
+                  ))}
+                  <tr className="font-semibold bg-gray-50">
+                    <td className="px-3 py-2">Total</td>
+                    <td className="px-3 py-2">{currentGrade ?? '-'} / {maxMarks}</td>
+                    <td className="px-3 py-2">{opinion.grade} / {opinion.max_marks}</td>
+                    <td className="px-3 py-2">{formatDelta(currentGrade, opinion.grade)}</td>
+                  </tr>
+                </tbody>
+              </table>
+              {opinion.needs_review && (
+                <p className="text-xs text-orange-700 mt-2">The AI samples disagreed by {opinion.spread} marks; treat this opinion with care.</p>
+              )}
+              <details className="mt-2 text-sm">
+                <summary className="cursor-pointer text-gray-600">AI feedback</summary>
+                <p className="mt-2 whitespace-pre-wrap text-gray-700">{opinion.feedback}</p>
+              </details>
+              <p className="text-xs text-gray-500 mt-1">Generated {new Date(opinion.generated_at).toLocaleString()}{opinion.provider && ` by ${opinion.provider}`}</p>
+            </div>
+          )}
+
+          {canDecide ? (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">New grade (out of {maxMarks})</label>
+                  <input
+                    type="number"
+                    min="0"
+                    max={maxMarks}
+                    value={newGrade}
+                    onChange={(e) => setNewGrade(Number(e.target.value))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                    disabled={isResolving}
+                  />
+                </div>
+                {opinion && (opinion.criterion_scores.length > 0 || opinion.question_scores.length > 0) && (
+                  <label className="flex items-center text-sm text-gray-700 mt-6">
+                    <input type="checkbox" className="mr-2" checked={useAiScores} onChange={(e) => setUseAiScores(e.target.checked)} disabled={isResolving || newGrade !== opinion.grade} />
+                    Also apply the AI's per-item scores
+                  </label>
+                )}
+              </div>
+
+              <label className="block text-sm font-medium text-gray-700 mb-1">Response to the student</label>
+              <textarea
+                value={response}
+                onChange={(e) => setResponse(e.target.value)}
+                placeholder="Explain what you changed, or why the grade stands..."
+                className="w-full px-3 py-2 border border-gray-300 rounded-md mb-4"
+                rows={4}
+                disabled={isResolving}
+              />
+
+              <div className="flex space-x-3">
+                <button
+                  onClick={() => handleResolve(false)}
+                  disabled={isResolving || !response.trim()}
+                  className="flex-1 px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Uphold {currentGrade ?? '-'}/{maxMarks}
+                </button>
+                <button
+                  onClick={() => handleResolve(true)}
+                  disabled={isResolving || !response.trim() || newGrade === currentGrade}
+                  className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {isResolving ? 'Saving...' : `Change grade to ${newGrade}/${maxMarks}`}
+                </button>
+              </div>
+            </>
+          ) : (
+            <p className="text-sm text-gray-500">This ticket is {ticket.status.replace('_', ' ')}; reopening is up to the student.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RegradeReview;
@@ -0,0 +1,154 @@
+import React from 'react';
+import { PlusIcon, TrashIcon } from 'lucide-react';
+import { RubricCriterion, RubricLevel } from '../../utils/supabase';
+import { createRubricCriterion } from '../../../shared/rubric';
+
+interface RubricEditorProps {
+  rubric: RubricCriterion[];
+  onChange: (rubric: RubricCriterion[]) => void;
+  disabled?: boolean;
+}
+
+const RubricEditor: React.FC<RubricEditorProps> = ({ rubric, onChange, disabled = false }) => {
+  const updateCriterion = (id: string, updates: Partial<RubricCriterion>) => {
+    onChange(rubric.map(criterion => criterion.id === id ? { ...criterion, ...updates } : criterion));
+  };
+
+  const updateLevel = (criterion: RubricCriterion, index: number, updates: Partial<RubricLevel>) => {
+    const levels = criterion.levels.map((level, i) => i === index ? { ...level, ...updates } : level);
+    updateCriterion(criterion.id, { levels });
+  };
+
+  const removeCriterion = (id: string) => {
+    onChange(rubric.filter(criterion => criterion.id !== id));
+  };
+
+  const totalWeight = rubric.reduce((sum, criterion) => sum + (criterion.weight || 0), 0);
+
+  return (
+    <div className="space-y-4">
+      {rubric.length === 0 && (
+        <p className="text-sm text-gray-500">
+          No rubric criteria yet. Add criteria to have submissions scored per criterion.
+        </p>
+      )}
+
+      {rubric.map((criterion, index) => (
+        <div key={criterion.id} className="border border-gray-200 rounded-lg p-4">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="font-medium text-gray-800">Criterion {index + 1}</h3>
+            <button
+              type="button"
+              onClick={() => removeCriterion(criterion.id)}
+              className="text-red-600 hover:text-red-800"
+              disabled={disabled}
+            >
+              <TrashIcon className="h-4 w-4" />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3 mb-3">
+            <div className="md:col-span-2">
+              <label className="block text-xs font-medium text-gray-600 mb-1">Name</label>
+              <input
+                type="text"
+                value={criterion.name}
+                onChange={e => updateCriterion(criterion.id, { name: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="E.g., Conceptual understanding"
+                disabled={disabled}
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Weight</label>
+              <input
+                type="number"
+                min="0"
+                step="0.5"
+                value={criterion.weight}
+                onChange={e => updateCriterion(criterion.id, { weight: Number(e.target.value) })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                disabled={disabled}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Max Points</label>
+              <input
+                type="number"
+                min="1"
+                value={criterion.max_points}
+                onChange={e => updateCriterion(criterion.id, { max_points: Number(e.target.value) })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                disabled={disabled}
+              />
+            </div>
+          </div>
+
+          <div className="mb-3">
+            <label className="block text-xs font-medium text-gray-600 mb-1">Description</label>
+            <input
+              type="text"
+              value={criterion.description || ''}
+              onChange={e => updateCriterion(criterion.id, { description: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="What this criterion assesses"
+              disabled={disabled}
+            />
+          </div>
+
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Level Descriptors</label>
+            <div className="space-y-2">
+              {criterion.levels.map((level, levelIndex) => (
+                <div key={levelIndex} className="grid grid-cols-12 gap-2">
+                  <input
+                    type="text"
+                    value={level.label}
+                    onChange={e => updateLevel(criterion, levelIndex, { label: e.target.value })}
+                    className="col-span-3 px-2 py-1 text-sm border border-gray-300 rounded-md"
+                    disabled={disabled}
+                  />
+                  <input
+                    type="number"
+                    min="0"
+                    max={criterion.max_points}
+                    value={level.points}
+                    onChange={e => updateLevel(criterion, levelIndex, { points: Number(e.target.value) })}
+                    className="col-span-2 px-2 py-1 text-sm border border-gray-300 rounded-md"
+                    disabled={disabled}
+                  />
+                  <input
+                    type="text"
+                    value={level.description}
+                    onChange={e => updateLevel(criterion, levelIndex, { description: e.target.value })}
+                    className="col-span-7 px-2 py-1 text-sm border border-gray-300 rounded-md"
+                    placeholder="Descriptor for this level"
+                    disabled={disabled}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between">
+        <button
+          type="button"
+          onClick={() => onChange([...rubric, createRubricCriterion()])}
+          className="flex items-center px-3 py-2 text-sm bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200"
+          disabled={disabled}
+        >
+          <PlusIcon className="h-4 w-4 mr-1" />
+          Add Criterion
+        </button>
+        {rubric.length > 0 && (
+          <span className="text-sm text-gray-500">Total weight: {totalWeight}</span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RubricEditor;
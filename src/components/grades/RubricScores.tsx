@@ -0,0 +1,118 @@
+import React from 'react';
+import { RubricCriterion, CriterionScore } from '../../utils/supabase';
+import { calculateRubricPercentage, clampCriterionScore } from '../../../shared/rubric';
+
+interface RubricScoresProps {
+  rubric: RubricCriterion[];
+  scores: CriterionScore[];
+  onChange?: (scores: CriterionScore[]) => void;
+  disabled?: boolean;
+}
+
+const RubricScores: React.FC<RubricScoresProps> = ({ rubric, scores, onChange, disabled = false }) => {
+  const isEditable = !!onChange && !disabled;
+
+  const getScore = (criterion: RubricCriterion): CriterionScore => {
+    return scores.find(s => s.criterion_id === criterion.id) || {
+      criterion_id: criterion.id,
+      score: 0,
+      max_points: criterion.max_points,
+      feedback: ''
+    };
+  };
+
+  const updateScore = (criterion: RubricCriterion, updates: Partial<CriterionScore>) => {
+    if (!onChange) return;
+
+    const updated = { ...getScore(criterion), ...updates };
+    const others = scores.filter(s => s.criterion_id !== criterion.id);
+    onChange([...others, updated]);
+  };
+
+  const selectLevel = (criterion: RubricCriterion, label: string) => {
+    const level = criterion.levels.find(l => l.label === label);
+    updateScore(criterion, {
+      level: label || undefined,
+      score: level ? clampCriterionScore(level.points, criterion.max_points) : getScore(criterion).score
+    });
+  };
+
+  const percentage = calculateRubricPercentage(rubric, scores);
+
+  return (
+    <div className="space-y-3">
+      {rubric.map(criterion => {
+        const score = getScore(criterion);
+
+        return (
+          <div key={criterion.id} className="bg-gray-50 rounded-md p-4">
+            <div className="flex items-start justify-between mb-2">
+              <div>
+                <h4 className="font-medium text-gray-900">{criterion.name}</h4>
+                {criterion.description && (
+                  <p className="text-sm text-gray-500">{criterion.description}</p>
+                )}
+                <p className="text-xs text-gray-400 mt-1">Weight: {criterion.weight}</p>
+              </div>
+              <div className="flex items-center">
+                {isEditable ? (
+                  <input
+                    type="number"
+                    min="0"
+                    max={criterion.max_points}
+                    step="0.5"
+                    value={score.score}
+                    onChange={e => updateScore(criterion, {
+                      score: clampCriterionScore(Number(e.target.value), criterion.max_points)
+                    })}
+                    className="w-20 px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500"
+                  />
+                ) : (
+                  <span className="text-lg font-medium">{score.score}</span>
+                )}
+                <span className="ml-1 text-gray-600">/ {criterion.max_points}</span>
+              </div>
+            </div>
+
+            {criterion.levels.length > 0 && (
+              isEditable ? (
+                <select
+                  value={score.level || ''}
+                  onChange={e => selectLevel(criterion, e.target.value)}
+                  className="w-full mb-2 px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500"
+                >
+                  <option value="">Select level...</option>
+                  {criterion.levels.map(level => (
+                    <option key={level.label} value={level.label}>
+                      {level.label} ({level.points} pts){level.description ? ` - ${level.description}` : ''}
+                    </option>
+                  ))}
+                </select>
+              ) : score.level && (
+                <p className="text-sm text-gray-600 mb-2">Level: {score.level}</p>
+              )
+            )}
+
+            {isEditable ? (
+              <textarea
+                value={score.feedback || ''}
+                onChange={e => updateScore(criterion, { feedback: e.target.value })}
+                className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500"
+                rows={2}
+                placeholder="Feedback for this criterion..."
+              />
+            ) : score.feedback && (
+              <p className="text-sm text-gray-700">{score.feedback}</p>
+            )}
+          </div>
+        );
+      })}
+
+      <div className="text-right text-sm text-gray-700">
+        Weighted rubric score: <span className="font-semibold">{percentage}%</span>
+      </div>
+    </div>
+  );
+};
+
+export default RubricScores;
@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { CopyIcon, ChevronDownIcon, ChevronUpIcon, LoaderIcon } from 'lucide-react';
+import { findSimilarPairs, SimilarityPair, DEFAULT_SIMILARITY_THRESHOLD } from '../../utils/similarity';
+import HighlightedText from './HighlightedText';
+
+interface SimilaritySubmission {
+  id: string;
+  ocr_text?: string | null;
+  users?: { name?: string };
+}
+
+interface SimilarityPanelProps {
+  submissions: SimilaritySubmission[];
+  // Assignment text shared by every submission (question prompts), left out of the comparison
+  assignmentContent?: string;
+  reviewPath: (submissionId: string) => string;
+}
+
+const THRESHOLD_OPTIONS = [0.15, DEFAULT_SIMILARITY_THRESHOLD, 0.4, 0.6];
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+const SimilarityPanel: React.FC<SimilarityPanelProps> = ({ submissions, assignmentContent, reviewPath }) => {
+  const [threshold, setThreshold] = useState(DEFAULT_SIMILARITY_THRESHOLD);
+  const [pairs, setPairs] = useState<SimilarityPair[] | null>(null);
+  const [expandedKey, setExpandedKey] = useState<string | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+
+  const byId = Object.fromEntries(submissions.map(sub => [sub.id, sub]));
+  const withText = submissions.filter(sub => sub.ocr_text?.trim());
+
+  const runCheck = () => {
+    setIsChecking(true);
+    setExpandedKey(null);
+    // Let the spinner render before the comparison blocks the main thread
+    setTimeout(() => {
+      setPairs(findSimilarPairs(
+        withText.map(sub => ({ id: sub.id, text: sub.ocr_text || '' })),
+        { threshold, ignoreText: assignmentContent }
+      ));
+      setIsChecking(false);
+    }, 0);
+  };
+
+  const nameOf = (id: string) => byId[id]?.users?.name || 'Unknown Student';
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4 mb-4">
+      <div className="flex items-center justify-between flex-wrap gap-2">
+        <div>
+          <h3 className="flex items-center font-medium text-gray-900">
+            <CopyIcon className="h-4 w-4 mr-2" />
+            Similarity Check
+          </h3>
+          <p className="text-xs text-gray-500">
+            Compares the extracted text of {withText.length} submission(s) with each other in your browser. Text from the assignment itself is ignored.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <label className="text-sm text-gray-600">
+            Threshold
+            <select className="ml-2 px-2 py-1 text-sm border border-gray-300 rounded-md" value={threshold} onChange={e => setThreshold(Number(e.target.value))}>
+              {THRESHOLD_OPTIONS.map(option => <option key={option} value={option}>{percent(option)}</option>)}
+            </select>
+          </label>
+          <button
+            type="button"
+            onClick={runCheck}
+            disabled={isChecking || withText.length < 2}
+            className="flex items-center px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isChecking && <LoaderIcon className="h-4 w-4 mr-1 animate-spin" />}
+            {pairs ? 'Run Again' : 'Run Check'}
+          </button>
+        </div>
+      </div>
+
+      {pairs && (
+        <div className="mt-4">
+          {pairs.length === 0 ? (
+            <p className="text-sm text-gray-500">No pairs of submissions are {percent(threshold)} or more similar.</p>
+          ) : (
+            <div className="divide-y divide-gray-100 border border-gray-200 rounded-md">
+              {pairs.map(pair => {
+                const key = `${pair.a}:${pair.b}`;
+                const isExpanded = expandedKey === key;
+                return (
+                  <div key={key}>
+                    <button
+                      type="button"
+                      onClick={() => setExpandedKey(isExpanded ? null : key)}
+                      className="w-full flex items-center justify-between px-3 py-2 text-sm hover:bg-gray-50"
+                    >
+                      <span className="text-gray-800">{nameOf(pair.a)} ↔ {nameOf(pair.b)}</span>
+                      <span className="flex items-center gap-3">
+                        <span className={`font-semibold ${pair.score >= 0.5 ? 'text-red-700' : 'text-orange-700'}`}>{percent(pair.score)} similar</span>
+                        <span className="text-xs text-gray-500" title="Share of the shorter submission found in the other">{percent(pair.containment)} overlap</span>
+                        {isExpanded ? <ChevronUpIcon className="h-4 w-4" /> : <ChevronDownIcon className="h-4 w-4" />}
+                      </span>
+                    </button>
+                    {isExpanded && (
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-3 p-3 bg-gray-50">
+                        {([[pair.a, pair.passagesA], [pair.b, pair.passagesB]] as const).map(([id, ranges]) => (
+                          <div key={id}>
+                            <div className="flex items-center justify-between mb-1">
+                              <span className="text-xs font-medium text-gray-700">{nameOf(id)}</span>
+                              <Link to={reviewPath(id)} className="text-xs text-blue-600 hover:text-blue-800">Review</Link>
+                            </div>
+                            <HighlightedText text={byId[id]?.ocr_text || ''} ranges={ranges} className="bg-white border border-gray-200 rounded-md p-2 max-h-80 overflow-y-auto" />
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SimilarityPanel;
@@ -1,5 +1,7 @@
 import React from 'react';
 import { CalendarIcon, CheckCircleIcon, ClockIcon, XCircleIcon } from 'lucide-react';
+import { applyLatePenalty } from '../../utils/latePolicy';
+import AdjustedMarks from './AdjustedMarks';
 
 interface StudentGrade {
   id: string;
@@ -12,6 +14,10 @@ interface StudentGrade {
   gradedAt?: string;
   dueDate: string;
   feedback?: string;
+  releaseAt?: string;
+  isLate?: boolean;
+  minutesLate?: number;
+  latePenaltyPct?: number;
 }
 
 interface StudentGradesProps {
@@ -19,10 +25,13 @@ interface StudentGradesProps {
   studentName?: string;
 }
 
+// Late penalties are deducted from the raw mark before it counts towards the totals
+const adjustedMarks = (grade: StudentGrade) => applyLatePenalty(grade.marks || 0, grade.latePenaltyPct || 0);
+
 const StudentGrades: React.FC<StudentGradesProps> = ({ grades, studentName }) => {
   const calculateOverallStats = () => {
     const gradedAssignments = grades.filter(g => g.marks !== null);
-    const totalMarks = gradedAssignments.reduce((sum, g) => sum + (g.marks || 0), 0);
+    const totalMarks = Math.round(gradedAssignments.reduce((sum, g) => sum + adjustedMarks(g), 0) * 100) / 100;
     const totalMaxMarks = gradedAssignments.reduce((sum, g) => sum + g.maxMarks, 0);
     const percentage = totalMaxMarks > 0 ? Math.round((totalMarks / totalMaxMarks) * 100) : 0;
     
@@ -42,6 +51,10 @@ const StudentGrades: React.FC<StudentGradesProps> = ({ grades, studentName }) =>
     if (grade.marks !== null) {
       return { status: 'graded', label: 'Graded', color: 'text-green-600 bg-green-50' };
     }
+    // Unreleased grades come back as null; say when they are due if the teacher scheduled it
+    if (grade.releaseAt) {
+      return { status: 'pending', label: `Grades release ${new Date(grade.releaseAt).toLocaleDateString()}`, color: 'text-blue-600 bg-blue-50' };
+    }
     return { status: 'pending', label: 'Pending Grade', color: 'text-yellow-600 bg-yellow-50' };
   };
 
@@ -117,7 +130,7 @@ const StudentGrades: React.FC<StudentGradesProps> = ({ grades, studentName }) =>
             <tbody className="bg-white divide-y divide-gray-200">
               {grades.map((grade) => {
                 const status = getGradeStatus(grade);
-                const percentage = grade.marks !== null ? Math.round((grade.marks / grade.maxMarks) * 100) : null;
+                const percentage = grade.marks !== null ? Math.round((adjustedMarks(grade) / grade.maxMarks) * 100) : null;
                 
                 return (
                   <tr key={grade.id} className="hover:bg-gray-50">
@@ -147,9 +160,15 @@ const StudentGrades: React.FC<StudentGradesProps> = ({ grades, studentName }) =>
                     </td>
                     <td className="px-6 py-4 text-center">
                       {grade.marks !== null ? (
-                        <span className="font-medium">
-                          {grade.marks} / {grade.maxMarks}
-                        </span>
+                        <AdjustedMarks
+                          marks={grade.marks}
+                          maxMarks={grade.maxMarks}
+                          isLate={grade.isLate}
+                          minutesLate={grade.minutesLate}
+                          latePenaltyPct={grade.latePenaltyPct}
+                        />
+                      ) : grade.isLate ? (
+                        <span className="text-xs text-orange-600">Submitted late</span>
                       ) : (
                         <span className="text-gray-400">—</span>
                       )}
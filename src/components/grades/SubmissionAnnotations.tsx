@@ -0,0 +1,387 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronLeftIcon, ChevronRightIcon, DownloadIcon, HighlighterIcon, LoaderIcon, MessageSquareIcon, PenToolIcon, StampIcon, TrashIcon } from 'lucide-react';
+import { toast } from 'react-toastify';
+import {
+  SubmissionAnnotation,
+  SubmissionFile,
+  RubricCriterion,
+  AnnotationKind,
+  AnnotationContent,
+  AnnotationPoint,
+  getSubmissionAnnotations,
+  createSubmissionAnnotation,
+  deleteSubmissionAnnotation
+} from '../../utils/supabase';
+import {
+  ANNOTATION_COLORS,
+  ANNOTATION_TOOL_LABELS,
+  PEN_WIDTH,
+  drawAnnotations,
+  exportAnnotatedPdf,
+  getStampPresets,
+  rectFromCorners
+} from '../../utils/annotations';
+import { countSubmissionPages, renderSubmissionPage } from '../../utils/submissionPages';
+import { useAuth } from '../../context/AuthContext';
+
+interface SubmissionAnnotationsProps {
+  submissionId: string;
+  versionNumber: number;
+  files: SubmissionFile[];
+  ocrText?: string;
+  rubric?: RubricCriterion[];
+  // Students see the teacher's mark-up without the tools
+  readOnly?: boolean;
+  // Used for the exported file name
+  title?: string;
+}
+
+const TOOL_ICONS: Record<AnnotationKind, React.ElementType> = {
+  pen: PenToolIcon,
+  highlight: HighlighterIcon,
+  comment: MessageSquareIcon,
+  stamp: StampIcon
+};
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+const describeAnnotation = (annotation: SubmissionAnnotation) => {
+  if (annotation.kind === 'comment') return annotation.data.text;
+  if (annotation.kind === 'stamp') return `Stamp: ${annotation.data.label}`;
+  return annotation.kind === 'pen' ? 'Pen stroke' : 'Highlight';
+};
+
+// Pen, highlight, comment and rubric stamp mark-up over each page of a submission
+const SubmissionAnnotations: React.FC<SubmissionAnnotationsProps> = ({ submissionId, versionNumber, files, ocrText = '', rubric = [], readOnly = false, title = 'submission' }) => {
+  const { user } = useAuth();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [annotations, setAnnotations] = useState<SubmissionAnnotation[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [page, setPage] = useState(1);
+  const [pageImage, setPageImage] = useState<HTMLCanvasElement | null>(null);
+  const [pageError, setPageError] = useState<string | null>(null);
+  const [tool, setTool] = useState<AnnotationKind>('pen');
+  const [color, setColor] = useState(ANNOTATION_COLORS[0]);
+  const [stampIndex, setStampIndex] = useState(0);
+  // The stroke or highlight being dragged out, before it is saved
+  const [draft, setDraft] = useState<AnnotationContent | null>(null);
+  const [dragStart, setDragStart] = useState<AnnotationPoint | null>(null);
+  const [pendingComment, setPendingComment] = useState<AnnotationPoint | null>(null);
+  const [commentText, setCommentText] = useState('');
+  const [isExporting, setIsExporting] = useState(false);
+
+  const pageCount = countSubmissionPages(files, ocrText);
+  const stampPresets = getStampPresets(rubric);
+  const pageAnnotations = annotations.filter(annotation => annotation.page === page);
+  const annotatedPages = new Set(annotations.map(annotation => annotation.page));
+
+  useEffect(() => {
+    const fetchAnnotations = async () => {
+      setIsLoading(true);
+      const { data, error } = await getSubmissionAnnotations(submissionId, versionNumber);
+      if (error) {
+        console.error('Error loading annotations:', error);
+      }
+      setAnnotations(data);
+      // Students start on the first page the teacher marked
+      if (readOnly && data.length > 0) {
+        setPage(Math.min(...data.map(annotation => annotation.page)));
+      }
+      setIsLoading(false);
+    };
+
+    fetchAnnotations();
+  }, [submissionId, versionNumber, readOnly]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setPageImage(null);
+    setPageError(null);
+    renderSubmissionPage(files, page)
+      .then(canvas => {
+        if (!cancelled) setPageImage(canvas);
+      })
+      .catch(error => {
+        console.error('Error drawing submission page:', error);
+        if (!cancelled) setPageError(error instanceof Error ? error.message : 'This page could not be displayed');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [files, page]);
+
+  // Redraw the page with its saved annotations, the one being drawn and the marker of an unsaved comment
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !pageImage) return;
+
+    canvas.width = pageImage.width;
+    canvas.height = pageImage.height;
+    const context = canvas.getContext('2d');
+    if (!context) return;
+    context.drawImage(pageImage, 0, 0);
+    drawAnnotations(context, [
+      ...annotations.filter(annotation => annotation.page === page),
+      ...(draft ? [{ ...draft, color }] : []),
+      ...(pendingComment ? [{ kind: 'comment' as const, color, data: { x: pendingComment[0], y: pendingComment[1], text: commentText || '…' } }] : [])
+    ]);
+  }, [pageImage, annotations, page, draft, pendingComment, commentText, color, isLoading]);
+
+  if (isLoading || (readOnly && annotations.length === 0)) {
+    return null;
+  }
+
+  // Rounded to four places: finer than a pixel, and strokes stay small in the database
+  const pointFromEvent = (event: React.PointerEvent<HTMLCanvasElement>): AnnotationPoint => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const round = (value: number) => Math.round(clamp(value) * 10000) / 10000;
+    return [round((event.clientX - rect.left) / rect.width), round((event.clientY - rect.top) / rect.height)];
+  };
+
+  const saveAnnotation = async (content: AnnotationContent) => {
+    if (!user) return;
+
+    const { data, error } = await createSubmissionAnnotation({
+      ...content,
+      submission_id: submissionId,
+      version_number: versionNumber,
+      page,
+      color,
+      created_by: user.id
+    });
+    if (error || !data) {
+      toast.error(error?.message || 'Failed to save annotation');
+      return;
+    }
+    setAnnotations(prev => [...prev, data]);
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (readOnly || !pageImage) return;
+    const point = pointFromEvent(event);
+
+    if (tool === 'pen' || tool === 'highlight') {
+      event.currentTarget.setPointerCapture(event.pointerId);
+      setDragStart(point);
+      setDraft(tool === 'pen'
+        ? { kind: 'pen', data: { points: [point], width: PEN_WIDTH } }
+        : { kind: 'highlight', data: rectFromCorners(point, point) });
+    } else if (tool === 'comment') {
+      setPendingComment(point);
+    } else {
+      const preset = stampPresets[stampIndex] || stampPresets[0];
+      saveAnnotation({ kind: 'stamp', data: { x: point[0], y: point[1], label: preset.label, criterion_id: preset.criterion_id } });
+    }
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!draft || !dragStart) return;
+    const point = pointFromEvent(event);
+
+    if (draft.kind === 'pen') {
+      const last = draft.data.points[draft.data.points.length - 1];
+      // Skip points closer than a pixel or so
+      if (Math.hypot(point[0] - last[0], point[1] - last[1]) < 0.001) return;
+      setDraft({ kind: 'pen', data: { ...draft.data, points: [...draft.data.points, point] } });
+    } else if (draft.kind === 'highlight') {
+      setDraft({ kind: 'highlight', data: rectFromCorners(dragStart, point) });
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (!draft) return;
+    const finished = draft;
+    setDraft(null);
+    setDragStart(null);
+
+    // A click with the highlighter leaves nothing worth keeping
+    if (finished.kind === 'highlight' && (finished.data.width < 0.005 || finished.data.height < 0.005)) return;
+    saveAnnotation(finished);
+  };
+
+  const handleSaveComment = async () => {
+    if (!pendingComment || !commentText.trim()) return;
+    await saveAnnotation({ kind: 'comment', data: { x: pendingComment[0], y: pendingComment[1], text: commentText.trim() } });
+    setPendingComment(null);
+    setCommentText('');
+  };
+
+  const handleDelete = async (annotation: SubmissionAnnotation) => {
+    const { error } = await deleteSubmissionAnnotation(annotation.id);
+    if (error) {
+      toast.error(error.message || 'Failed to delete annotation');
+      return;
+    }
+    setAnnotations(prev => prev.filter(item => item.id !== annotation.id));
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const fileName = `${title.replace(/[^a-z0-9]+/gi, '_').replace(/^_|_$/g, '') || 'submission'}_annotated.pdf`;
+      await exportAnnotatedPdf(files, annotations, fileName, ocrText);
+    } catch (error) {
+      console.error('Error exporting annotated PDF:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to export annotated PDF');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const changePage = (number: number) => {
+    setPage(number);
+    setDraft(null);
+    setPendingComment(null);
+    setCommentText('');
+  };
+
+  const toolButtonClass = (active: boolean) =>
+    `flex items-center px-2 py-1 text-sm rounded-md border ${active ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'}`;
+  let commentNumber = 0;
+
+  return (
+    <div className="mt-8 bg-white rounded-lg shadow-md p-6">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <h2 className="text-xl font-semibold">{readOnly ? 'Marked Pages' : 'Annotations'}</h2>
+        {!readOnly && (
+          <button type="button" onClick={handleExport} disabled={isExporting || !pageImage} className="flex items-center px-3 py-1.5 text-sm border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50">
+            {isExporting ? <LoaderIcon className="h-4 w-4 mr-1 animate-spin" /> : <DownloadIcon className="h-4 w-4 mr-1" />}
+            Export annotated PDF
+          </button>
+        )}
+      </div>
+
+      {!readOnly && (
+        <div className="flex flex-wrap items-center gap-2 mb-4">
+          {(Object.keys(ANNOTATION_TOOL_LABELS) as AnnotationKind[]).map(kind => {
+            const Icon = TOOL_ICONS[kind];
+            return (
+              <button key={kind} type="button" onClick={() => setTool(kind)} className={toolButtonClass(tool === kind)}>
+                <Icon className="h-4 w-4 mr-1" />
+                {ANNOTATION_TOOL_LABELS[kind]}
+              </button>
+            );
+          })}
+          <div className="flex items-center gap-1 ml-2">
+            {ANNOTATION_COLORS.map(option => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setColor(option)}
+                className={`w-6 h-6 rounded-full border-2 ${color === option ? 'border-gray-900' : 'border-white'}`}
+                style={{ backgroundColor: option }}
+                title={option}
+              />
+            ))}
+          </div>
+          {tool === 'stamp' && (
+            <select className="px-2 py-1 text-sm border border-gray-300 rounded-md" value={stampIndex} onChange={e => setStampIndex(Number(e.target.value))}>
+              {stampPresets.map((preset, index) => <option key={preset.label} value={index}>{preset.label}</option>)}
+            </select>
+          )}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between mb-3">
+        <button type="button" onClick={() => changePage(page - 1)} disabled={page <= 1} className="flex items-center px-2 py-1 text-sm border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-40">
+          <ChevronLeftIcon className="h-4 w-4" />
+          Previous
+        </button>
+        <span className="text-sm text-gray-700">Page {page} of {pageCount}</span>
+        <button type="button" onClick={() => changePage(page + 1)} disabled={page >= pageCount} className="flex items-center px-2 py-1 text-sm border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-40">
+          Next
+          <ChevronRightIcon className="h-4 w-4" />
+        </button>
+      </div>
+
+      {pageCount > 1 && (
+        <div className="flex flex-wrap gap-1 mb-3">
+          {Array.from({ length: pageCount }, (_, i) => i + 1).map(number => (
+            <button
+              key={number}
+              type="button"
+              onClick={() => changePage(number)}
+              title={annotatedPages.has(number) ? 'Has annotations' : undefined}
+              className={`relative w-8 h-8 text-xs rounded-md border ${number === page ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'}`}
+            >
+              {number}
+              {annotatedPages.has(number) && <span className="absolute -top-1 -right-1 w-2 h-2 rounded-full bg-red-500" />}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        <div className="lg:col-span-2 bg-gray-50 border border-gray-200 rounded-md overflow-hidden">
+          {pageError ? (
+            <p className="p-6 text-sm text-red-600">{pageError}</p>
+          ) : !pageImage ? (
+            <div className="flex items-center justify-center h-64 text-sm text-gray-500">
+              <LoaderIcon className="h-4 w-4 mr-2 animate-spin" />
+              Loading page…
+            </div>
+          ) : (
+            <canvas
+              ref={canvasRef}
+              className={`w-full h-auto touch-none ${readOnly ? '' : 'cursor-crosshair'}`}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+            />
+          )}
+        </div>
+
+        <div className="space-y-3">
+          {pendingComment && (
+            <div className="border border-yellow-300 bg-yellow-50 rounded-md p-3">
+              <label className="block text-xs font-medium text-gray-700 mb-1">Comment at the marker</label>
+              <textarea
+                className="w-full h-24 px-2 py-1 text-sm border border-gray-300 rounded-md"
+                value={commentText}
+                onChange={e => setCommentText(e.target.value)}
+                autoFocus
+              />
+              <div className="flex justify-end gap-2 mt-2">
+                <button type="button" onClick={() => { setPendingComment(null); setCommentText(''); }} className="px-2 py-1 text-xs border border-gray-300 rounded-md hover:bg-gray-50">
+                  Cancel
+                </button>
+                <button type="button" onClick={handleSaveComment} disabled={!commentText.trim()} className="px-2 py-1 text-xs bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50">
+                  Add comment
+                </button>
+              </div>
+            </div>
+          )}
+
+          <h3 className="text-sm font-medium text-gray-500">On this page</h3>
+          {pageAnnotations.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              {readOnly ? 'Nothing marked on this page.' : 'Choose a tool and draw on the page.'}
+            </p>
+          ) : (
+            <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+              {pageAnnotations.map(annotation => (
+                <li key={annotation.id} className="flex items-start justify-between gap-2 px-3 py-2 text-sm">
+                  <span className="flex items-start">
+                    <span className="mt-1 mr-2 w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: annotation.color }} />
+                    <span className="text-gray-800 whitespace-pre-wrap">
+                      {annotation.kind === 'comment' && <span className="font-medium">{++commentNumber}. </span>}
+                      {describeAnnotation(annotation)}
+                    </span>
+                  </span>
+                  {!readOnly && (
+                    <button type="button" onClick={() => handleDelete(annotation)} className="text-red-600 hover:text-red-900" title="Delete annotation">
+                      <TrashIcon className="h-4 w-4" />
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SubmissionAnnotations;
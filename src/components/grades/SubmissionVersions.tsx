@@ -0,0 +1,113 @@
+import React, { useEffect, useState } from 'react';
+import { HistoryIcon } from 'lucide-react';
+import { SubmissionVersion, getSubmissionVersions } from '../../utils/supabase';
+import { diffTexts } from '../../utils/submissionVersions';
+
+interface SubmissionVersionsProps {
+  submissionId: string;
+  maxMarks: number;
+  countedVersion?: number | null;
+  // Changes when the submission is reloaded, so new grades show up
+  reloadKey?: number;
+}
+
+const SubmissionVersions: React.FC<SubmissionVersionsProps> = ({ submissionId, maxMarks, countedVersion, reloadKey }) => {
+  const [versions, setVersions] = useState<SubmissionVersion[]>([]);
+  const [fromVersion, setFromVersion] = useState<number | null>(null);
+  const [toVersion, setToVersion] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchVersions = async () => {
+      setIsLoading(true);
+      const { data, error } = await getSubmissionVersions(submissionId);
+      if (error) {
+        console.error('Error loading submission versions:', error);
+      }
+      setVersions(data);
+      // Compare the latest version with the one before it by default
+      setToVersion(data.length > 0 ? data[data.length - 1].version_number : null);
+      setFromVersion(data.length > 1 ? data[data.length - 2].version_number : null);
+      setIsLoading(false);
+    };
+
+    fetchVersions();
+  }, [submissionId, reloadKey]);
+
+  if (isLoading || versions.length <= 1) {
+    return null;
+  }
+
+  const from = versions.find(version => version.version_number === fromVersion);
+  const to = versions.find(version => version.version_number === toVersion);
+  const segments = from && to ? diffTexts(from.ocr_text || '', to.ocr_text || '') : [];
+  const selectClass = 'ml-2 px-2 py-1 text-sm border border-gray-300 rounded-md';
+
+  return (
+    <div className="mt-8 bg-white rounded-lg shadow-md p-6">
+      <h2 className="flex items-center text-xl font-semibold mb-4">
+        <HistoryIcon className="h-5 w-5 mr-2" />
+        Versions
+      </h2>
+
+      <table className="min-w-full text-sm mb-6">
+        <thead>
+          <tr className="text-left text-xs text-gray-500 uppercase">
+            <th className="py-2">Version</th>
+            <th className="py-2">Submitted</th>
+            <th className="py-2">Files</th>
+            <th className="py-2">Grade</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {versions.map(version => (
+            <tr key={version.id}>
+              <td className="py-2 font-medium">
+                {version.version_number}
+                {version.version_number === countedVersion && (
+                  <span className="ml-2 px-2 text-xs leading-5 font-semibold rounded-full bg-blue-100 text-blue-800">Counted</span>
+                )}
+              </td>
+              <td className="py-2 text-gray-600">{new Date(version.submitted_at).toLocaleString()}</td>
+              <td className="py-2 text-gray-600">
+                {version.files?.length
+                  ? version.files.map(file => <a key={file.url} href={file.url} target="_blank" rel="noopener noreferrer" className="block text-blue-600 hover:text-blue-800">{file.file_name}</a>)
+                  : version.file_url
+                    ? <a href={version.file_url} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:text-blue-800">{version.file_name}</a>
+                    : 'Online answers'}
+              </td>
+              <td className="py-2">{version.grade !== null ? `${version.grade}/${maxMarks}` : <span className="text-gray-500">Not graded</span>}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="flex items-center gap-4 mb-3 text-sm text-gray-700">
+        <label>
+          Compare version
+          <select className={selectClass} value={fromVersion ?? ''} onChange={e => setFromVersion(Number(e.target.value))}>
+            {versions.map(version => <option key={version.id} value={version.version_number}>{version.version_number}</option>)}
+          </select>
+        </label>
+        <label>
+          with
+          <select className={selectClass} value={toVersion ?? ''} onChange={e => setToVersion(Number(e.target.value))}>
+            {versions.map(version => <option key={version.id} value={version.version_number}>{version.version_number}</option>)}
+          </select>
+        </label>
+        <span className="flex items-center gap-3 text-xs">
+          <span className="bg-red-100 text-red-800 line-through px-1 rounded">removed</span>
+          <span className="bg-green-100 text-green-800 px-1 rounded">added</span>
+        </span>
+      </div>
+
+      <div className="bg-gray-50 border border-gray-200 rounded-md p-4 max-h-96 overflow-y-auto whitespace-pre-wrap text-sm leading-relaxed text-gray-800">
+        {segments.length === 0 ? 'No text to compare.' : segments.map((segment, index) => segment.type === 'same'
+          ? <React.Fragment key={index}>{segment.text}</React.Fragment>
+          : <span key={index} className={segment.type === 'added' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800 line-through'}>{segment.text}</span>)}
+      </div>
+    </div>
+  );
+};
+
+export default SubmissionVersions;
@@ -1,6 +1,6 @@
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import { useParams, Link, useNavigate } from 'react-router-dom';
-import { CalendarIcon, CheckCircleIcon, DownloadIcon, ChevronDownIcon, ChevronUpIcon, KeyIcon } from 'lucide-react';
+import { CalendarIcon, CheckCircleIcon, DownloadIcon, ChevronDownIcon, ChevronUpIcon, KeyIcon, AlertTriangleIcon, ClockIcon } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
 import { useAuth } from '../context/AuthContext';
 import jsPDF from 'jspdf';
@@ -8,11 +8,25 @@ import html2canvas from 'html2canvas';
 import BackButton from '../components/BackButton';
 import LoadingSpinner from '../components/LoadingSpinner';
 import ErrorAlert from '../components/ErrorAlert';
-import { getAssignmentDetails, getAssignmentSubmissions, getSubmission, getTicketsBySubmission, updateAssignmentAnswerKey } from '../utils/supabase';
+import { getAssignmentDetails, getAssignmentSubmissions, getSubmission, getTicketsBySubmission, updateAssignmentAnswerKey, updateAssignmentQuestions, Assignment, GradeDraft, Submission, SubmissionFile, TicketStatus } from '../utils/supabase';
+import { attachAnswerKeys, splitContentIntoQuestions } from '../../shared/questions';
 import { generateAnswers } from '../utils/api';
+import { getResubmissionStatus, RESUBMISSION_POLICY_LABELS } from '../utils/submissionVersions';
+import { TICKET_STATUS_LABELS } from '../../shared/regrade';
 import { toast } from 'sonner';
 import CreateTicket from '../components/CreateTicket';
 import ScrollToTopButton from '../components/ScrollToTopButton';
+import GradingJobStatus from '../components/grades/GradingJobStatus';
+import BulkGradingPanel from '../components/grades/BulkGradingPanel';
+import DraftReviewQueue from '../components/grades/DraftReviewQueue';
+import GradeReleaseControls from '../components/grades/GradeReleaseControls';
+import SimilarityPanel from '../components/grades/SimilarityPanel';
+import SubmissionAnnotations from '../components/grades/SubmissionAnnotations';
+import CommentUsageStats from '../components/grades/CommentUsageStats';
+
+// A submission with its student, as loaded by getAssignmentSubmissions
+type AssignmentSubmission = Submission & { users?: { id: string; name: string; email: string } };
+
 const AssignmentDetail = () => {
   const {
     classId,
@@ -23,7 +37,9 @@ const AssignmentDetail = () => {
     isTeacherForClass
   } = useAuth();
   const [assignment, setAssignment] = useState<any>(null);
-  const [submissions, setSubmissions] = useState([]);
+  const [submissions, setSubmissions] = useState<AssignmentSubmission[]>([]);
+  const [selectedSubmissionIds, setSelectedSubmissionIds] = useState<string[]>([]);
+  const [showNeedsReviewOnly, setShowNeedsReviewOnly] = useState(false);
   const [userSubmission, setUserSubmission] = useState<any>(null);
   const [userTickets, setUserTickets] = useState<any[]>([]);
   const [showCreateTicket, setShowCreateTicket] = useState(false);
@@ -99,7 +115,7 @@ const AssignmentDetail = () => {
     setAnswerKeyError(null);
     
     try {
-      const result = await generateAnswers(assignment.content, assignment.max_marks);
+      const result = await generateAnswers(assignmentId);
       
       if (result.success && result.generated_answers) {
         // Save the answer key to the database
@@ -109,10 +125,24 @@ const AssignmentDetail = () => {
           throw new Error('Failed to save answer key to database');
         }
         
+        // Give each numbered question its own key answer for per-question grading,
+        // splitting the content into questions first if the teacher has not done so
+        let questions = assignment.questions?.length > 0
+          ? assignment.questions
+          : splitContentIntoQuestions(assignment.content, assignment.max_marks);
+        if (questions.length > 0) {
+          questions = attachAnswerKeys(questions, result.generated_answers);
+          const { error: questionsError } = await updateAssignmentQuestions(assignmentId, questions);
+          if (questionsError) {
+            throw new Error('Failed to save question key answers');
+          }
+        }
+
         // Update the local assignment state
         setAssignment(prev => ({
           ...prev,
-          answer_key: result.generated_answers
+          answer_key: result.generated_answers,
+          questions: questions.length > 0 ? questions : prev.questions
         }));
         
         toast.success('Answer key generated and saved successfully!');
@@ -205,6 +235,51 @@ const AssignmentDetail = () => {
     
     fetchAssignment();
   }, [assignmentId, classId, user, isTeacherForClass]);
+
+  const toggleSubmissionSelected = (submissionId: string) => {
+    setSelectedSubmissionIds(prev => prev.includes(submissionId)
+      ? prev.filter(id => id !== submissionId)
+      : [...prev, submissionId]);
+  };
+
+  const handleDraftSaved = (submissionId: string, draft: GradeDraft) => {
+    setSubmissions(prev => prev.map(sub => sub.id === submissionId ? { ...sub, ai_draft: draft } : sub));
+  };
+
+  const handleDraftResolved = (submissionId: string, updates: { grade?: number; feedback?: string; release_status?: 'released'; needs_review?: boolean; ai_draft: null }) => {
+    setSubmissions(prev => prev.map(sub => sub.id === submissionId ? { ...sub, ...updates } : sub));
+  };
+
+  const handleGradesReleased = (submissionIds: string[]) => {
+    setSubmissions(prev => prev.map(sub => submissionIds.includes(sub.id) ? { ...sub, release_status: 'released' } : sub));
+  };
+
+  const ungradedSubmissionIds = submissions.filter(sub => sub.grade === null && !sub.ai_draft).map(sub => sub.id);
+  const draftSubmissions = submissions.filter((sub): sub is AssignmentSubmission & { ai_draft: GradeDraft } => !!sub.ai_draft);
+  // Sampled AI grades that disagreed beyond the assignment's spread threshold
+  const needsReview = (sub: AssignmentSubmission) => !!(sub.ai_draft ? sub.ai_draft.needs_review : sub.needs_review);
+  const needsReviewCount = submissions.filter(needsReview).length;
+  const visibleSubmissions = showNeedsReviewOnly ? submissions.filter(needsReview) : submissions;
+  const studentNames: Record<string, string> = Object.fromEntries(
+    submissions.map(sub => [sub.id, sub.users?.name || 'Unknown Student'])
+  );
+
+  // Pick up the grade once the background grading job finishes
+  const handleGradingJobComplete = useCallback(async () => {
+    if (!assignmentId || !user) return;
+
+    const { data: submissionData } = await getSubmission(assignmentId, user.id);
+    if (submissionData) {
+      setUserSubmission(submissionData);
+    }
+  }, [assignmentId, user]);
+
+  // Submissions from before multi-file uploads only have file_url
+  const userSubmissionFiles: SubmissionFile[] = useMemo(() => userSubmission?.files?.length
+    ? userSubmission.files
+    : userSubmission?.file_url
+      ? [{ url: userSubmission.file_url, path: '', file_name: userSubmission.file_name || 'Submission', file_type: '', file_size: 0, first_page: 1, page_count: 1 }]
+      : [], [userSubmission]);
   if (isLoading) {
     return <div className="h-64">
         <LoadingSpinner size="medium" />
@@ -234,6 +309,21 @@ const AssignmentDetail = () => {
             <span>Due {new Date(assignment.due_date).toLocaleDateString()}</span>
             <span className="mx-2">•</span>
             <span>{assignment.max_marks} points</span>
+            {assignment.kind !== 'quiz' && assignment.resubmission_policy && assignment.resubmission_policy !== 'none' && <>
+                <span className="mx-2">•</span>
+                <span>
+                  {RESUBMISSION_POLICY_LABELS[assignment.resubmission_policy as keyof typeof RESUBMISSION_POLICY_LABELS]}
+                  {assignment.resubmission_policy === 'attempts' && ` (${assignment.max_submissions || 1})`}
+                </span>
+              </>}
+            {assignment.kind === 'quiz' && <>
+                <span className="mx-2">•</span>
+                <ClockIcon className="h-4 w-4 mr-1" />
+                <span>
+                  Timed quiz: {assignment.duration_minutes ? `${assignment.duration_minutes} min` : 'no time limit'}, {assignment.max_attempts || 1} attempt(s)
+                  {assignment.opens_at && `, opens ${new Date(assignment.opens_at).toLocaleString()}`}
+                </span>
+              </>}
           </div>
           <p className="text-gray-700">{assignment.description}</p>
         </div>
@@ -321,23 +411,44 @@ const AssignmentDetail = () => {
         {!isTeacher && (
           <div className="p-6">
             {userSubmission ? (
+              <>
               <div className="bg-green-50 border border-green-200 rounded-lg p-4">
                 <div className="flex items-center justify-between">
                   <div>
                     <h3 className="font-medium text-green-800 mb-2">Assignment Submitted</h3>
                     <p className="text-sm text-green-700 mb-1">
-                      File: {userSubmission.file_name}
+                      {userSubmission.files?.length > 1 ? `Files: ${userSubmission.files.map((file: SubmissionFile) => file.file_name).join(', ')}` : userSubmission.file_url ? `File: ${userSubmission.file_name}` : 'Answered online'}
                     </p>
                     <p className="text-sm text-green-700 mb-1">
                       Submitted: {new Date(userSubmission.submitted_at).toLocaleString()}
+                      {userSubmission.current_version > 1 && ` (version ${userSubmission.current_version})`}
                     </p>
                     {userSubmission.grade !== null && (
                       <p className="text-sm text-green-700">
                         Grade: {userSubmission.grade}/{assignment.max_marks}
                       </p>
                     )}
+                    <div className="mt-2">
+                      <GradingJobStatus submissionId={userSubmission.id} onComplete={handleGradingJobComplete} />
+                    </div>
                   </div>
                   <div className="flex space-x-2">
+                    {assignment.kind === 'quiz' && (
+                      <Link
+                        to={`/dashboard/classes/${classId}/assignments/${assignmentId}/submit`}
+                        className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 text-sm"
+                      >
+                        View Attempts
+                      </Link>
+                    )}
+                    {assignment.kind !== 'quiz' && getResubmissionStatus(assignment, userSubmission.current_version, userSubmission.effective_due_date || assignment.due_date).allowed && (
+                      <Link
+                        to={`/dashboard/classes/${classId}/assignments/${assignmentId}/submit`}
+                        className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 text-sm"
+                      >
+                        Resubmit
+                      </Link>
+                    )}
                     {userSubmission.grade !== null && (
                       <button
                         onClick={() => setShowCreateTicket(true)}
@@ -367,18 +478,21 @@ const AssignmentDetail = () => {
                                   ticket.status === 'resolved' ? 'text-green-600' :
                                   ticket.status === 'open' ? 'text-red-600' : 'text-yellow-600'
                                 }`}>
-                                  {ticket.status.toUpperCase()}
+                                  {TICKET_STATUS_LABELS[ticket.status as TicketStatus]?.toUpperCase() || ticket.status}
                                 </span>
+                                {ticket.resolution && (
+                                  <span className="ml-2">· {ticket.resolution === 'grade_changed' ? 'Grade changed' : 'Grade upheld'}</span>
+                                )}
                               </p>
                             </div>
                             <span className="text-xs text-gray-500">
                               {new Date(ticket.created_at).toLocaleDateString()}
                             </span>
                           </div>
-                          {ticket.response && (
+                          {ticket.teacher_response && (
                             <div className="mt-2 p-2 bg-blue-50 rounded text-sm">
                               <p className="font-medium text-blue-800">Teacher Response:</p>
-                              <p className="text-blue-700">{ticket.response}</p>
+                              <p className="text-blue-700">{ticket.teacher_response}</p>
                             </div>
                           )}
                         </div>
@@ -387,13 +501,25 @@ const AssignmentDetail = () => {
                   </div>
                 )}
               </div>
+
+              {/* The teacher's mark-up arrives with the grade */}
+              {userSubmission.grade !== null && userSubmissionFiles.length > 0 && (
+                <SubmissionAnnotations
+                  submissionId={userSubmission.id}
+                  versionNumber={userSubmission.current_version || 1}
+                  files={userSubmissionFiles}
+                  ocrText={userSubmission.ocr_text || ''}
+                  readOnly
+                />
+              )}
+              </>
             ) : (
               <div className="flex justify-center">
                 <Link
                   to={`/dashboard/classes/${classId}/assignments/${assignmentId}/submit`}
                   className="bg-blue-600 text-white px-6 py-2 rounded-md hover:bg-blue-700"
                 >
-                  Submit Assignment
+                  {assignment.kind === 'quiz' ? 'Take Quiz' : 'Submit Assignment'}
                 </Link>
               </div>
             )}
@@ -401,11 +527,61 @@ const AssignmentDetail = () => {
         )}
         {isTeacher && submissions.length > 0 && <div className="p-6">
             <h2 className="text-lg font-semibold mb-4">Student Submissions</h2>
+            <BulkGradingPanel
+              ungradedIds={ungradedSubmissionIds}
+              selectedIds={selectedSubmissionIds}
+              studentNames={studentNames}
+              onDraftSaved={handleDraftSaved}
+            />
+            <GradeReleaseControls
+              assignment={assignment}
+              submissions={submissions}
+              onReleaseAtChange={(gradesReleaseAt) => setAssignment((prev: Assignment) => ({ ...prev, grades_release_at: gradesReleaseAt }))}
+              onReleased={handleGradesReleased}
+            />
+            <DraftReviewQueue
+              submissions={draftSubmissions}
+              assignment={assignment}
+              onResolved={handleDraftResolved}
+            />
+            <SimilarityPanel
+              submissions={submissions}
+              assignmentContent={assignment.content}
+              reviewPath={(submissionId) => `/dashboard/classes/${classId}/assignments/${assignmentId}/submissions/${submissionId}`}
+            />
+            {classId && assignmentId && (
+              <CommentUsageStats assignmentId={assignmentId} classId={classId} submissionCount={submissions.length} />
+            )}
+            {needsReviewCount > 0 && (
+              <div className="flex items-center justify-between bg-orange-50 border border-orange-200 rounded-lg px-4 py-3 mb-4">
+                <span className="flex items-center text-sm text-orange-800">
+                  <AlertTriangleIcon className="h-4 w-4 mr-2" />
+                  {needsReviewCount} submission(s) need human review because their AI grading samples disagreed.
+                </span>
+                <label className="flex items-center text-sm text-orange-800">
+                  <input
+                    type="checkbox"
+                    className="mr-2"
+                    checked={showNeedsReviewOnly}
+                    onChange={(e) => setShowNeedsReviewOnly(e.target.checked)}
+                  />
+                  Show only these
+                </label>
+              </div>
+            )}
             <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
               <div className="overflow-x-auto">
                 <table className="min-w-full divide-y divide-gray-200">
                 <thead className="bg-gray-50">
                   <tr>
+                    <th scope="col" className="pl-6 py-3 text-left">
+                      <input
+                        type="checkbox"
+                        aria-label="Select all submissions"
+                        checked={selectedSubmissionIds.length === submissions.length}
+                        onChange={(e) => setSelectedSubmissionIds(e.target.checked ? submissions.map(sub => sub.id) : [])}
+                      />
+                    </th>
                     <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Student
                     </th>
@@ -424,7 +600,15 @@ const AssignmentDetail = () => {
                   </tr>
                 </thead>
                 <tbody className="bg-white divide-y divide-gray-200">
-                  {submissions.map((sub: any) => <tr key={sub.id} className="hover:bg-gray-50">
+                  {visibleSubmissions.map(sub => <tr key={sub.id} className="hover:bg-gray-50">
+                      <td className="pl-6 py-4">
+                        <input
+                          type="checkbox"
+                          aria-label={`Select ${sub.users?.name || 'submission'}`}
+                          checked={selectedSubmissionIds.includes(sub.id)}
+                          onChange={() => toggleSubmissionSelected(sub.id)}
+                        />
+                      </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         <div className="font-medium text-gray-900">
                           {sub.users?.name || 'Unknown Student'}
@@ -438,10 +622,17 @@ const AssignmentDetail = () => {
                           <CheckCircleIcon className="h-4 w-4 mr-1" />
                           Submitted
                         </span>
+                        {needsReview(sub) && <span className="ml-2 px-2 inline-flex items-center text-xs leading-5 font-semibold rounded-full bg-orange-100 text-orange-800" title={`AI samples differed by ${sub.ai_draft?.spread ?? sub.grade_spread ?? 0} marks`}>
+                            <AlertTriangleIcon className="h-4 w-4 mr-1" />
+                            Needs review
+                          </span>}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         {sub.grade !== null ? <span className="text-gray-900">
                             {sub.grade}/{assignment.max_marks}
+                            {sub.release_status !== 'released' && <span className="ml-2 text-xs text-yellow-700">(hidden)</span>}
+                          </span> : sub.ai_draft ? <span className="text-yellow-700">
+                            Draft {sub.ai_draft.grade}/{assignment.max_marks}
                           </span> : <span className="text-gray-500">Pending</span>}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
@@ -481,6 +672,10 @@ const AssignmentDetail = () => {
           }}
           onCancel={() => setShowCreateTicket(false)}
           className={assignment.classes.name}
+          rubric={assignment.rubric || []}
+          questions={assignment.questions || []}
+          criterionScores={userSubmission.criterion_scores}
+          questionScores={userSubmission.question_scores}
         />
       )}
       
@@ -1,6 +1,6 @@
 import React, { useEffect, useState, Suspense } from 'react';
 import { useParams, Link, useNavigate } from 'react-router-dom';
-import { PlusIcon, FileTextIcon, CalendarIcon, UsersIcon, UserPlusIcon, Copy, Video } from 'lucide-react';
+import { PlusIcon, FileTextIcon, CalendarIcon, UsersIcon, UserPlusIcon, Copy, Video, LibraryIcon } from 'lucide-react';
 import { useAuth } from '../context/AuthContext';
 import { getClassAssignments, getClassDetails, getClassGradesComprehensive, getStudentGrades, getClassMembersWithSubmissions, supabase, fixRLSForTeachers, createNotification, getActiveClassMeeting } from '../utils/supabase';
 import { toast } from 'react-toastify';
@@ -270,11 +270,15 @@ const ClassDetail = React.memo(() => {
         </div>
         <div className="p-6">
           {activeTab === 'assignments' && <div>
-              {isTeacher && <div className="mb-6">
+              {isTeacher && <div className="mb-6 flex gap-2">
                   <Link to={`/dashboard/classes/${classId}/create-assignment`} className="bg-blue-600 text-white px-4 py-2 rounded-md flex items-center hover:bg-blue-700 w-fit">
                     <PlusIcon className="h-5 w-5 mr-2" />
                     Create Assignment
                   </Link>
+                  <Link to={`/dashboard/classes/${classId}/question-bank`} className="bg-gray-100 text-gray-700 px-4 py-2 rounded-md flex items-center hover:bg-gray-200 w-fit">
+                    <LibraryIcon className="h-5 w-5 mr-2" />
+                    Question Bank
+                  </Link>
                 </div>}
               {assignments.length > 0 ? <div className="space-y-4">
                   {assignments.map((assignment: any) => <Link key={assignment.id} to={`/dashboard/classes/${classId}/assignments/${assignment.id}`} className="block bg-white border border-gray-200 rounded-lg p-4 hover:border-blue-500 transition">
@@ -1,13 +1,17 @@
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import { useParams } from 'react-router-dom';
-import { UserMinusIcon, SearchIcon } from 'lucide-react';
+import { UserMinusIcon, SearchIcon, CalendarClockIcon } from 'lucide-react';
 import BackButton from '../components/BackButton';
 import ScrollToTopButton from '../components/ScrollToTopButton';
+import StudentExtensions from '../components/StudentExtensions';
+import { getClassAssignments, getClassExtensions, Assignment, AssignmentExtension } from '../utils/supabase';
 interface Student {
   id: string;
+  userId: string;
   name: string;
   email: string;
   status?: 'active' | 'invited';
+  role?: string;
 }
 const ClassStudents = () => {
   const {
@@ -15,6 +19,9 @@ const ClassStudents = () => {
   } = useParams();
   const [students, setStudents] = useState<Student[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
+  const [assignments, setAssignments] = useState<Assignment[]>([]);
+  const [extensions, setExtensions] = useState<AssignmentExtension[]>([]);
+  const [extensionsFor, setExtensionsFor] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
   const [error, setError] = useState('');
@@ -37,6 +44,7 @@ const ClassStudents = () => {
         // Transform the data to match the expected format
         const transformedStudents = data?.map((member: any) => ({
           id: member.id,
+          userId: member.user_id,
           name: member.users.name,
           email: member.users.email,
           status: 'active' as const,
@@ -55,6 +63,25 @@ const ClassStudents = () => {
     fetchStudents();
   }, [classId]);
 
+  // Quizzes run on their own attempt window, so only regular assignments can be extended
+  const fetchExtensions = useCallback(async () => {
+    if (!classId) return;
+
+    const [{ data: assignmentData }, { data: extensionData, error: extensionError }] = await Promise.all([
+      getClassAssignments(classId),
+      getClassExtensions(classId)
+    ]);
+    if (extensionError) {
+      console.error('Error fetching extensions:', extensionError);
+    }
+    setAssignments(((assignmentData || []) as Assignment[]).filter(assignment => assignment.kind !== 'quiz'));
+    setExtensions((extensionData || []) as AssignmentExtension[]);
+  }, [classId]);
+
+  useEffect(() => {
+    fetchExtensions();
+  }, [fetchExtensions]);
+
   const handleRemoveStudent = (id: string) => {
     // In a real app, you'd call an API to remove the student
     setStudents(students.filter(student => student.id !== id));
@@ -99,7 +126,10 @@ const ClassStudents = () => {
                   </tr>
                 </thead>
                 <tbody className="bg-white divide-y divide-gray-200">
-                  {filteredStudents.length > 0 ? filteredStudents.map(student => <tr key={student.id}>
+                  {filteredStudents.length > 0 ? filteredStudents.map(student => {
+                    const studentExtensions = extensions.filter(extension => extension.student_id === student.userId);
+                    return <React.Fragment key={student.id}>
+                      <tr>
                         <td className="px-6 py-4 whitespace-nowrap">
                           <div className="flex items-center">
                             <div className="h-8 w-8 rounded-full bg-gray-100 flex items-center justify-center mr-3">
@@ -121,13 +151,33 @@ const ClassStudents = () => {
                             </span> : <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800">
                               Active
                             </span>}
+                          {studentExtensions.length > 0 && <span className="ml-1 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-blue-100 text-blue-800">
+                              {studentExtensions.length} extension{studentExtensions.length !== 1 ? 's' : ''}
+                            </span>}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-right">
+                          {student.role !== 'teacher' && <button onClick={() => setExtensionsFor(extensionsFor === student.id ? null : student.id)} className="text-blue-600 hover:text-blue-900 mr-3" title="Due date extensions">
+                              <CalendarClockIcon className="h-5 w-5" />
+                            </button>}
                           <button onClick={() => handleRemoveStudent(student.id)} className="text-red-600 hover:text-red-900">
                             <UserMinusIcon className="h-5 w-5" />
                           </button>
                         </td>
-                      </tr>) : <tr>
+                      </tr>
+                      {extensionsFor === student.id && <tr>
+                          <td colSpan={4} className="px-6 py-4 bg-gray-50">
+                            <h3 className="text-sm font-semibold mb-3">Due date extensions for {student.name}</h3>
+                            <StudentExtensions
+                              studentId={student.userId}
+                              studentName={student.name}
+                              assignments={assignments}
+                              extensions={studentExtensions}
+                              onChange={fetchExtensions}
+                            />
+                          </td>
+                        </tr>}
+                    </React.Fragment>;
+                  }) : <tr>
                       <td colSpan={4} className="px-6 py-12 text-center text-gray-500">
                         No students found
                       </td>
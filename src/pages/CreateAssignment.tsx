@@ -1,14 +1,26 @@
 import React, { useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { FileTextIcon, LoaderIcon, CalendarIcon, CheckCircleIcon } from 'lucide-react';
+import { FileTextIcon, LoaderIcon, CalendarIcon, CheckCircleIcon, LibraryIcon } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
-import { generateDocument } from '../utils/api';
-import { createAssignment } from '../utils/supabase';
+import { generateDocument, extractMaterialText } from '../utils/api';
+import { createAssignment, RubricCriterion, GradingSampleMode, AssignmentQuestion, BankQuestion, ClassMaterial, ResubmissionPolicy, KeepGradePolicy, LatePolicy } from '../utils/supabase';
 import { useAuth } from '../context/AuthContext';
 import { toast } from 'react-toastify';
 import BackButton from '../components/BackButton';
 import ErrorAlert from '../components/ErrorAlert';
 import ScrollToTopButton from '../components/ScrollToTopButton';
+import RubricEditor from '../components/grades/RubricEditor';
+import QuestionEditor from '../components/grades/QuestionEditor';
+import QuestionBankPicker from '../components/grades/QuestionBankPicker';
+import QuestionBankImport from '../components/grades/QuestionBankImport';
+import GeneratedDocumentEditor from '../components/GeneratedDocumentEditor';
+import MaterialSourcePicker from '../components/MaterialSourcePicker';
+import { validateQuestion, questionsFromPrompts, totalQuestionMarks } from '../../shared/questions';
+import { criteriaFromNames } from '../../shared/rubric';
+import { GeneratedDocument, renderGeneratedDocument } from '../../shared/generatedDocument';
+import { bankQuestionsToAssignment } from '../utils/questionBank';
+import { RESUBMISSION_POLICY_LABELS, KEEP_GRADE_LABELS } from '../utils/submissionVersions';
+import { LATE_POLICY_LABELS, describeLatePolicy } from '../utils/latePolicy';
 const CreateAssignment = () => {
   const {
     classId
@@ -25,31 +37,79 @@ const CreateAssignment = () => {
   });
   const [content, setContent] = useState('');
   const [aiPrompt, setAiPrompt] = useState('');
+  const [rubric, setRubric] = useState<RubricCriterion[]>([]);
+  const [questions, setQuestions] = useState<AssignmentQuestion[]>([]);
+  const [gradingSamples, setGradingSamples] = useState(1);
+  const [gradingSampleMode, setGradingSampleMode] = useState<GradingSampleMode>('repeat');
+  const [spreadThresholdPct, setSpreadThresholdPct] = useState(10);
+  const [showBankPicker, setShowBankPicker] = useState(false);
+  const [bankImportQuestions, setBankImportQuestions] = useState<AssignmentQuestion[] | null>(null);
+  const [isQuiz, setIsQuiz] = useState(false);
+  const [opensAt, setOpensAt] = useState('');
+  const [durationMinutes, setDurationMinutes] = useState(30);
+  const [maxAttempts, setMaxAttempts] = useState(1);
+  const [shuffleQuestions, setShuffleQuestions] = useState(true);
+  const [shuffleOptions, setShuffleOptions] = useState(true);
+  const [resubmissionPolicy, setResubmissionPolicy] = useState<ResubmissionPolicy>('none');
+  const [maxSubmissions, setMaxSubmissions] = useState(2);
+  const [keepGrade, setKeepGrade] = useState<KeepGradePolicy>('latest');
+  const [latePolicy, setLatePolicy] = useState<LatePolicy>('accept');
+  const [gracePeriodMinutes, setGracePeriodMinutes] = useState(60);
+  const [latePenaltyPerDay, setLatePenaltyPerDay] = useState(10);
+  const [latePenaltyCap, setLatePenaltyCap] = useState(50);
   const [isUsingAI, setIsUsingAI] = useState(false);
   const [isGenerating, setIsGenerating] = useState(false);
   const [isCreating, setIsCreating] = useState(false);
   const [generationSuccess, setGenerationSuccess] = useState(false);
+  const [generatedDoc, setGeneratedDoc] = useState<GeneratedDocument | null>(null);
+  const [sourceMaterials, setSourceMaterials] = useState<ClassMaterial[]>([]);
+  // Extracted text per material id, so regenerating doesn't OCR the same files again
+  const [materialTexts, setMaterialTexts] = useState<Record<string, string>>({});
+  const [generationStatus, setGenerationStatus] = useState('');
   const [error, setError] = useState<string | null>(null);
   
 
+  // Keep the stored content and the question list in step with the structured document
+  const applyGeneratedDocument = (document: GeneratedDocument) => {
+    setGeneratedDoc(document);
+    setContent(renderGeneratedDocument(document));
+    setQuestions(current => questionsFromPrompts(document.questions).map(question => {
+      const existing = current.find(item => item.number === question.number);
+      return existing ? { ...existing, prompt: question.prompt, marks: question.marks, answer_key: question.answer_key, citation: question.citation } : question;
+    }));
+  };
+
   const handleAIGenerate = async () => {
-    if (!aiPrompt) return;
+    if (!aiPrompt || !classId) return;
     setIsGenerating(true);
     setError(null);
     setGenerationSuccess(false);
     
     try {
-      const result = await generateDocument(aiPrompt, maxMarks, 7); // Default to 7 days for AI generation
-      if (result && result.success) {
-        if (result.generated_content) {
-          setContent(result.generated_content);
-          setGenerationSuccess(true);
-        } else {
-          throw new Error('Generated content not found in response');
-        }
-      } else {
-        const errorMessage = result?.error || 'Failed to generate document';
-        throw new Error(errorMessage);
+      const extracted = { ...materialTexts };
+      for (const [index, material] of sourceMaterials.entries()) {
+        if (extracted[material.id] !== undefined) continue;
+        setGenerationStatus(`Reading ${material.title} (${index + 1} of ${sourceMaterials.length})...`);
+        extracted[material.id] = await extractMaterialText(material);
+        setMaterialTexts(current => ({ ...current, [material.id]: extracted[material.id] }));
+      }
+
+      setGenerationStatus('');
+      const materials = sourceMaterials.map(material => ({ material_id: material.id, text: extracted[material.id] }));
+      const result = await generateDocument(classId, aiPrompt, maxMarks, 7, materials); // Default to 7 days for AI generation
+      if (!result.document) {
+        throw new Error('Generated document not found in response');
+      }
+
+      setQuestions([]);
+      applyGeneratedDocument(result.document);
+      if (!title.trim()) {
+        setTitle(result.document.title);
+      }
+      setGenerationSuccess(true);
+
+      if (result.marks_rescaled) {
+        toast.info(`Question marks were rescaled to add up to ${maxMarks}`);
       }
     } catch (err: any) {
       const errorMessage = err.response?.data?.error || err.message || 'Error generating document. Please try again.';
@@ -57,9 +117,22 @@ const CreateAssignment = () => {
       setGenerationSuccess(false);
     } finally {
       setIsGenerating(false);
+      setGenerationStatus('');
     }
   };
 
+  const handleAddFromBank = (items: BankQuestion[]) => {
+    setQuestions(current => [...current, ...bankQuestionsToAssignment(items, current.length + 1)]);
+    setShowBankPicker(false);
+    toast.success(`Added ${items.length} question(s) from the question bank`);
+  };
+
+  // Offer each generated question for tagging and saving to the bank
+  const handleImportGeneratedToBank = () => {
+    if (!generatedDoc) return;
+    setBankImportQuestions(questionsFromPrompts(generatedDoc.questions));
+  };
+
 
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -79,6 +152,37 @@ const CreateAssignment = () => {
       return;
     }
 
+    if (rubric.some(criterion => !criterion.name.trim() || criterion.max_points <= 0)) {
+      setError('Every rubric criterion needs a name and max points above zero');
+      setIsCreating(false);
+      return;
+    }
+
+    if (isUsingAI && generatedDoc && totalQuestionMarks(questions) !== maxMarks) {
+      setError(`Question marks add up to ${totalQuestionMarks(questions)} but the assignment is out of ${maxMarks}`);
+      setIsCreating(false);
+      return;
+    }
+
+    const questionError = questions.map(validateQuestion).find(Boolean);
+    if (questionError) {
+      setError(questionError);
+      setIsCreating(false);
+      return;
+    }
+
+    if (isQuiz && questions.length === 0) {
+      setError('A quiz needs at least one question');
+      setIsCreating(false);
+      return;
+    }
+
+    if (isQuiz && opensAt && new Date(opensAt) >= new Date(dueDate)) {
+      setError('The quiz must open before its due date');
+      setIsCreating(false);
+      return;
+    }
+
     try {
       // Create assignment data object
       const assignmentData = {
@@ -90,7 +194,28 @@ const CreateAssignment = () => {
         due_date: new Date(dueDate).toISOString(),
         is_ai_generated: isUsingAI,
         ai_prompt: isUsingAI ? aiPrompt : undefined,
-
+        rubric: rubric.length > 0 ? rubric : undefined,
+        questions: questions.length > 0 ? questions : undefined,
+        grading_samples: gradingSampleMode === 'dual_provider' ? 2 : gradingSamples,
+        grading_sample_mode: gradingSampleMode,
+        spread_threshold_pct: spreadThresholdPct,
+        kind: isQuiz ? 'quiz' as const : 'assignment' as const,
+        ...(isQuiz && {
+          opens_at: opensAt ? new Date(opensAt).toISOString() : null,
+          duration_minutes: durationMinutes,
+          max_attempts: maxAttempts,
+          shuffle_questions: shuffleQuestions,
+          shuffle_options: shuffleOptions
+        }),
+        ...(!isQuiz && {
+          resubmission_policy: resubmissionPolicy,
+          max_submissions: resubmissionPolicy === 'attempts' ? maxSubmissions : null,
+          keep_grade: keepGrade,
+          late_policy: latePolicy,
+          grace_period_minutes: latePolicy === 'grace_period' ? gracePeriodMinutes : null,
+          late_penalty_per_day: latePolicy === 'penalty' ? latePenaltyPerDay : null,
+          late_penalty_cap: latePolicy === 'penalty' ? latePenaltyCap : null
+        })
       };
 
       // Call the API to create the assignment
@@ -204,10 +329,19 @@ const CreateAssignment = () => {
                     </label>
                     <textarea id="aiPrompt" rows={3} className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500" value={aiPrompt} onChange={e => setAiPrompt(e.target.value)} placeholder="E.g., Create a quiz about quadratic equations with 3 questions of varying difficulty" />
                   </div>
+                  {classId && <div className="mb-4">
+                      <p className="block text-sm font-medium text-gray-700 mb-1">
+                        Base questions on class materials (optional)
+                      </p>
+                      <p className="text-xs text-gray-500 mb-2">
+                        Selected materials are read in your browser and each generated question cites the material and page it came from.
+                      </p>
+                      <MaterialSourcePicker classId={classId} selected={sourceMaterials} onChange={setSourceMaterials} disabled={isGenerating} />
+                    </div>}
                   <button type="button" className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center" onClick={handleAIGenerate} disabled={!aiPrompt || isGenerating}>
                     {isGenerating ? <>
                         <LoaderIcon className="h-5 w-5 mr-2 animate-spin" />
-                        Generating...
+                        {generationStatus || 'Generating...'}
                       </> : generationSuccess ? <>
                         <CheckCircleIcon className="h-5 w-5 mr-2" />
                         Generated
@@ -215,17 +349,209 @@ const CreateAssignment = () => {
                   </button>
 
                  </div>
-                 {generationSuccess && <div className="bg-white border border-gray-200 rounded-lg p-4">
-                    <h3 className="font-medium mb-2">Generated Content:</h3>
-                    <div className="prose prose-sm max-w-none">
-                      <ReactMarkdown>{content}</ReactMarkdown>
+                 {generationSuccess && generatedDoc && <div className="bg-white border border-gray-200 rounded-lg p-4">
+                    <div className="flex items-center justify-between mb-4">
+                      <h3 className="font-medium">Generated Assignment</h3>
+                      <button type="button" onClick={handleImportGeneratedToBank} className="flex items-center px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200">
+                        <LibraryIcon className="h-4 w-4 mr-1" />
+                        Import into Question Bank
+                      </button>
                     </div>
+                    <GeneratedDocumentEditor
+                      document={generatedDoc}
+                      maxMarks={maxMarks}
+                      onChange={applyGeneratedDocument}
+                      onUseCriteriaAsRubric={() => {
+                        setRubric(criteriaFromNames(generatedDoc.grading_criteria));
+                        toast.success('Grading criteria copied to the rubric below');
+                      }}
+                      disabled={isCreating}
+                    />
+                    <details className="mt-6">
+                      <summary className="cursor-pointer text-sm font-medium text-gray-700">Preview as students will see it</summary>
+                      <div className="prose prose-sm max-w-none mt-2">
+                        <ReactMarkdown>{content}</ReactMarkdown>
+                      </div>
+                    </details>
                   </div>}
 
               </div> : <div>
                 <textarea id="content" rows={10} className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500" value={content} onChange={e => setContent(e.target.value)} placeholder="Enter your assignment content here..." required={!isUsingAI} />
               </div>}
           </div>
+          <div className="p-6 border-b border-gray-200">
+            <h2 className="text-lg font-semibold mb-1">Questions (Optional)</h2>
+            <p className="text-sm text-gray-500 mb-4">
+              Split the assignment into numbered questions with their own marks and key answers, or build a quiz from objective question types. Submissions are then graded question by question.
+            </p>
+            <QuestionEditor questions={questions} onChange={setQuestions} content={content} maxMarks={maxMarks} disabled={isCreating} />
+            <div className="flex items-center gap-2 mt-4">
+              <button type="button" onClick={() => setShowBankPicker(!showBankPicker)} className="flex items-center px-3 py-2 text-sm bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200" disabled={isCreating}>
+                <LibraryIcon className="h-4 w-4 mr-1" />
+                {showBankPicker ? 'Hide Question Bank' : 'Add from Question Bank'}
+              </button>
+              {questions.length > 0 && (
+                <button type="button" onClick={() => setBankImportQuestions(questions)} className="flex items-center px-3 py-2 text-sm bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200" disabled={isCreating}>
+                  Save Questions to Bank
+                </button>
+              )}
+            </div>
+            {showBankPicker && user && classId && <div className="mt-4 border border-gray-200 rounded-lg p-4">
+                <QuestionBankPicker classId={classId} teacherId={user.id} onAdd={handleAddFromBank} disabled={isCreating} />
+              </div>}
+            {bankImportQuestions && user && classId && <div className="mt-4 border border-gray-200 rounded-lg p-4">
+                <h3 className="font-medium mb-3">Save to Question Bank</h3>
+                <QuestionBankImport questions={bankImportQuestions} classId={classId} teacherId={user.id} onSaved={() => setBankImportQuestions(null)} onCancel={() => setBankImportQuestions(null)} />
+              </div>}
+          </div>
+          <div className="p-6 border-b border-gray-200">
+            <div className="flex items-center justify-between mb-1">
+              <h2 className="text-lg font-semibold">Timed Quiz (Optional)</h2>
+              <label className="flex items-center text-sm text-gray-700">
+                <input type="checkbox" className="mr-2" checked={isQuiz} onChange={e => setIsQuiz(e.target.checked)} disabled={isCreating} />
+                Run as a timed quiz
+              </label>
+            </div>
+            <p className="text-sm text-gray-500 mb-4">
+              Students start a timed attempt between the open time and the due date. Answers are saved as they go, the attempt is submitted automatically when time runs out, and objective questions are scored immediately.
+            </p>
+            {isQuiz && <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label htmlFor="opensAt" className="block text-sm font-medium text-gray-700 mb-1">
+                    Opens
+                  </label>
+                  <input type="datetime-local" id="opensAt" className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500" value={opensAt} onChange={e => setOpensAt(e.target.value)} disabled={isCreating} />
+                  <p className="text-xs text-gray-500 mt-1">Leave blank to open immediately</p>
+                </div>
+                <div>
+                  <label htmlFor="durationMinutes" className="block text-sm font-medium text-gray-700 mb-1">
+                    Time per attempt (minutes)
+                  </label>
+                  <input type="number" id="durationMinutes" min={1} className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500" value={durationMinutes} onChange={e => setDurationMinutes(Math.max(1, parseInt(e.target.value) || 1))} disabled={isCreating} />
+                </div>
+                <div>
+                  <label htmlFor="maxAttempts" className="block text-sm font-medium text-gray-700 mb-1">
+                    Attempts allowed
+                  </label>
+                  <input type="number" id="maxAttempts" min={1} max={10} className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500" value={maxAttempts} onChange={e => setMaxAttempts(Math.min(10, Math.max(1, parseInt(e.target.value) || 1)))} disabled={isCreating} />
+                </div>
+                <label className="flex items-center text-sm text-gray-700">
+                  <input type="checkbox" className="mr-2" checked={shuffleQuestions} onChange={e => setShuffleQuestions(e.target.checked)} disabled={isCreating} />
+                  Shuffle question order for each student
+                </label>
+                <label className="flex items-center text-sm text-gray-700">
+                  <input type="checkbox" className="mr-2" checked={shuffleOptions} onChange={e => setShuffleOptions(e.target.checked)} disabled={isCreating} />
+                  Shuffle answer options for each student
+                </label>
+              </div>}
+          </div>
+          {!isQuiz && <div className="p-6 border-b border-gray-200">
+              <h2 className="text-lg font-semibold mb-1">Resubmissions</h2>
+              <p className="text-sm text-gray-500 mb-4">
+                Every submission is kept as a version with its own text and grade, so you can compare what changed between attempts.
+              </p>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label htmlFor="resubmissionPolicy" className="block text-sm font-medium text-gray-700 mb-1">
+                    Policy
+                  </label>
+                  <select id="resubmissionPolicy" className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500" value={resubmissionPolicy} onChange={e => setResubmissionPolicy(e.target.value as ResubmissionPolicy)} disabled={isCreating}>
+                    {(Object.keys(RESUBMISSION_POLICY_LABELS) as ResubmissionPolicy[]).map(policy => <option key={policy} value={policy}>{RESUBMISSION_POLICY_LABELS[policy]}</option>)}
+                  </select>
+                </div>
+                {resubmissionPolicy === 'attempts' && <div>
+                    <label htmlFor="maxSubmissions" className="block text-sm font-medium text-gray-700 mb-1">
+                      Submissions allowed
+                    </label>
+                    <input type="number" id="maxSubmissions" min={2} max={10} className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500" value={maxSubmissions} onChange={e => setMaxSubmissions(Math.min(10, Math.max(2, parseInt(e.target.value) || 2)))} disabled={isCreating} />
+                  </div>}
+                {resubmissionPolicy !== 'none' && <div>
+                    <label htmlFor="keepGrade" className="block text-sm font-medium text-gray-700 mb-1">
+                      Grade that counts
+                    </label>
+                    <select id="keepGrade" className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500" value={keepGrade} onChange={e => setKeepGrade(e.target.value as KeepGradePolicy)} disabled={isCreating}>
+                      {(Object.keys(KEEP_GRADE_LABELS) as KeepGradePolicy[]).map(policy => <option key={policy} value={policy}>{KEEP_GRADE_LABELS[policy]}</option>)}
+                    </select>
+                  </div>}
+              </div>
+            </div>}
+          {!isQuiz && <div className="p-6 border-b border-gray-200">
+              <h2 className="text-lg font-semibold mb-1">Late Submissions</h2>
+              <p className="text-sm text-gray-500 mb-4">
+                Work is checked against the due date, or a student's extension, when it is submitted. {describeLatePolicy({
+                  late_policy: latePolicy,
+                  grace_period_minutes: gracePeriodMinutes,
+                  late_penalty_per_day: latePenaltyPerDay,
+                  late_penalty_cap: latePenaltyCap
+                })}
+              </p>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label htmlFor="latePolicy" className="block text-sm font-medium text-gray-700 mb-1">
+                    Policy
+                  </label>
+                  <select id="latePolicy" className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500" value={latePolicy} onChange={e => setLatePolicy(e.target.value as LatePolicy)} disabled={isCreating}>
+                    {(Object.keys(LATE_POLICY_LABELS) as LatePolicy[]).map(policy => <option key={policy} value={policy}>{LATE_POLICY_LABELS[policy]}</option>)}
+                  </select>
+                </div>
+                {latePolicy === 'grace_period' && <div>
+                    <label htmlFor="gracePeriodMinutes" className="block text-sm font-medium text-gray-700 mb-1">
+                      Grace period (minutes)
+                    </label>
+                    <input type="number" id="gracePeriodMinutes" min={1} className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500" value={gracePeriodMinutes} onChange={e => setGracePeriodMinutes(Math.max(1, parseInt(e.target.value) || 1))} disabled={isCreating} />
+                  </div>}
+                {latePolicy === 'penalty' && <>
+                    <div>
+                      <label htmlFor="latePenaltyPerDay" className="block text-sm font-medium text-gray-700 mb-1">
+                        Penalty per day (%)
+                      </label>
+                      <input type="number" id="latePenaltyPerDay" min={1} max={100} className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500" value={latePenaltyPerDay} onChange={e => setLatePenaltyPerDay(Math.min(100, Math.max(1, Number(e.target.value) || 1)))} disabled={isCreating} />
+                    </div>
+                    <div>
+                      <label htmlFor="latePenaltyCap" className="block text-sm font-medium text-gray-700 mb-1">
+                        Maximum penalty (%)
+                      </label>
+                      <input type="number" id="latePenaltyCap" min={1} max={100} className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500" value={latePenaltyCap} onChange={e => setLatePenaltyCap(Math.min(100, Math.max(1, Number(e.target.value) || 1)))} disabled={isCreating} />
+                    </div>
+                  </>}
+              </div>
+            </div>}
+          <div className="p-6 border-b border-gray-200">
+            <h2 className="text-lg font-semibold mb-1">Rubric (Optional)</h2>
+            <p className="text-sm text-gray-500 mb-4">
+              Define weighted criteria with level descriptors. AI grading will score each criterion separately.
+            </p>
+            <RubricEditor rubric={rubric} onChange={setRubric} disabled={isCreating} />
+          </div>
+          <div className="p-6 border-b border-gray-200">
+            <h2 className="text-lg font-semibold mb-1">Grading Consistency (Optional)</h2>
+            <p className="text-sm text-gray-500 mb-4">
+              Grade each submission more than once and flag it for human review when the AI grades disagree.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label htmlFor="gradingSampleMode" className="block text-sm font-medium text-gray-700 mb-1">
+                  Sampling
+                </label>
+                <select id="gradingSampleMode" className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500" value={gradingSampleMode} onChange={e => setGradingSampleMode(e.target.value as GradingSampleMode)} disabled={isCreating}>
+                  <option value="repeat">Repeat with the same provider</option>
+                  <option value="dual_provider">Compare two providers</option>
+                </select>
+              </div>
+              <div>
+                <label htmlFor="gradingSamples" className="block text-sm font-medium text-gray-700 mb-1">
+                  Samples per submission
+                </label>
+                <input type="number" id="gradingSamples" min={1} max={5} className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100" value={gradingSampleMode === 'dual_provider' ? 2 : gradingSamples} onChange={e => setGradingSamples(Math.min(5, Math.max(1, parseInt(e.target.value) || 1)))} disabled={isCreating || gradingSampleMode === 'dual_provider'} />
+              </div>
+              <div>
+                <label htmlFor="spreadThresholdPct" className="block text-sm font-medium text-gray-700 mb-1">
+                  Review threshold (% of max marks)
+                </label>
+                <input type="number" id="spreadThresholdPct" min={0} max={100} className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500" value={spreadThresholdPct} onChange={e => setSpreadThresholdPct(Math.min(100, Math.max(0, Number(e.target.value) || 0)))} disabled={isCreating || (gradingSampleMode === 'repeat' && gradingSamples === 1)} />
+              </div>
+            </div>
+          </div>
         </div>
         <div className="flex justify-end">
           <button type="button" className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 mr-2 hover:bg-gray-50" onClick={() => navigate(`/dashboard/classes/${classId}`)}>
@@ -0,0 +1,207 @@
+import { useEffect, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { LoaderIcon, TrashIcon, SparklesIcon, ListOrderedIcon } from 'lucide-react';
+import { toast } from 'react-toastify';
+import { generateDocument } from '../utils/api';
+import { BankQuestion, QuestionDifficulty, AssignmentQuestion, getQuestionBank, updateBankQuestion, deleteBankQuestion } from '../utils/supabase';
+import { DIFFICULTY_LABELS, QuestionBankFilter, filterBankQuestions, distinctValues } from '../utils/questionBank';
+import { formatCitation } from '../../shared/materialChunks';
+import { splitContentIntoQuestions, questionsFromPrompts, describeAnswerKey, QUESTION_TYPE_LABELS } from '../../shared/questions';
+import { useAuth } from '../context/AuthContext';
+import BackButton from '../components/BackButton';
+import LoadingSpinner from '../components/LoadingSpinner';
+import ErrorAlert from '../components/ErrorAlert';
+import ScrollToTopButton from '../components/ScrollToTopButton';
+import QuestionBankImport from '../components/grades/QuestionBankImport';
+
+const QuestionBank = () => {
+  const { classId } = useParams();
+  const { user } = useAuth();
+  const [bank, setBank] = useState<BankQuestion[]>([]);
+  const [filter, setFilter] = useState<QuestionBankFilter>({ scope: 'all', difficulty: '' });
+  const [importText, setImportText] = useState('');
+  const [aiPrompt, setAiPrompt] = useState('');
+  const [importMarks, setImportMarks] = useState(20);
+  const [importQuestions, setImportQuestions] = useState<AssignmentQuestion[] | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchBank = async () => {
+      if (!classId || !user) return;
+      setIsLoading(true);
+      const { data, error } = await getQuestionBank(classId, user.id);
+      if (error) {
+        setError(error.message || 'Failed to load the question bank');
+      }
+      setBank(data);
+      setIsLoading(false);
+    };
+
+    fetchBank();
+  }, [classId, user]);
+
+  const handleUpdate = async (item: BankQuestion, updates: { topic?: string; difficulty?: QuestionDifficulty; learning_outcome?: string }) => {
+    setBank(current => current.map(entry => entry.id === item.id ? { ...entry, ...updates } : entry));
+    const { error } = await updateBankQuestion(item.id, updates);
+    if (error) {
+      toast.error('Failed to update question');
+      setBank(current => current.map(entry => entry.id === item.id ? item : entry));
+    }
+  };
+
+  const handleDelete = async (item: BankQuestion) => {
+    if (!window.confirm('Remove this question from the bank? Assignments that already use it keep their copy.')) return;
+
+    const { error } = await deleteBankQuestion(item.id);
+    if (error) {
+      toast.error('Failed to delete question');
+      return;
+    }
+    setBank(current => current.filter(entry => entry.id !== item.id));
+  };
+
+  const handleSplitText = () => {
+    const detected = splitContentIntoQuestions(importText, importMarks);
+    if (detected.length === 0) {
+      toast.error('No numbered questions were found in the text');
+      return;
+    }
+    setImportQuestions(detected);
+  };
+
+  const handleGenerate = async () => {
+    if (!classId || !aiPrompt.trim()) return;
+    setIsGenerating(true);
+    try {
+      const result = await generateDocument(classId, aiPrompt, importMarks, 7);
+      if (!result.document) {
+        throw new Error('Generated document not found in response');
+      }
+      // Generated documents arrive already split into questions with marks and key answers
+      setImportText(result.generated_content);
+      setImportQuestions(questionsFromPrompts(result.document.questions));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to generate questions');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleSaved = (saved: BankQuestion[]) => {
+    setBank(current => [...saved, ...current]);
+    setImportQuestions(null);
+    setImportText('');
+  };
+
+  if (isLoading) {
+    return <div className="h-64">
+        <LoadingSpinner />
+      </div>;
+  }
+
+  if (error) {
+    return <div className="max-w-4xl mx-auto">
+        <div className="mb-6">
+          <BackButton to={`/dashboard/classes/${classId}`} />
+        </div>
+        <ErrorAlert message={error} onDismiss={() => setError(null)} />
+      </div>;
+  }
+
+  const matching = filterBankQuestions(bank, filter);
+  const inputClass = 'w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+  return <div className="max-w-4xl mx-auto">
+      <div className="mb-6">
+        <BackButton to={`/dashboard/classes/${classId}`} />
+      </div>
+      <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+        <div className="p-6 border-b border-gray-200">
+          <h1 className="text-2xl font-bold mb-1">Question Bank</h1>
+          <p className="text-sm text-gray-500">
+            Questions shared with this class and your personal questions. Add them to assignments and quizzes from the Create Assignment page.
+          </p>
+        </div>
+
+        <div className="p-6 border-b border-gray-200">
+          <h2 className="text-lg font-semibold mb-3">Import Questions</h2>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-2 mb-2">
+            <input type="text" className={`${inputClass} md:col-span-3`} placeholder="Describe questions to generate, e.g. 10 medium questions on photosynthesis" value={aiPrompt} onChange={e => setAiPrompt(e.target.value)} />
+            <button type="button" onClick={handleGenerate} disabled={isGenerating || !aiPrompt.trim()} className="flex items-center justify-center px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50">
+              {isGenerating ? <LoaderIcon className="h-4 w-4 mr-1 animate-spin" /> : <SparklesIcon className="h-4 w-4 mr-1" />}
+              Generate
+            </button>
+          </div>
+          <textarea rows={6} className={`${inputClass} mb-2`} placeholder="Or paste numbered questions here..." value={importText} onChange={e => setImportText(e.target.value)} />
+          <div className="flex items-center gap-2 mb-4">
+            <label className="text-sm text-gray-600">Total marks to share</label>
+            <input type="number" min={1} className="w-20 px-2 py-1 text-sm border border-gray-300 rounded-md" value={importMarks} onChange={e => setImportMarks(Math.max(1, parseInt(e.target.value) || 1))} />
+            <button type="button" onClick={handleSplitText} disabled={!importText.trim()} className="flex items-center px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 disabled:opacity-50">
+              <ListOrderedIcon className="h-4 w-4 mr-1" />
+              Split into Questions
+            </button>
+          </div>
+          {importQuestions && classId && user && (
+            <QuestionBankImport questions={importQuestions} classId={classId} teacherId={user.id} onSaved={handleSaved} onCancel={() => setImportQuestions(null)} />
+          )}
+        </div>
+
+        <div className="p-6">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-2 mb-4">
+            <input type="text" list="bank-page-topics" className={inputClass} placeholder="Topic" value={filter.topic || ''} onChange={e => setFilter({ ...filter, topic: e.target.value })} />
+            <datalist id="bank-page-topics">
+              {distinctValues(bank, 'topic').map(topic => <option key={topic} value={topic} />)}
+            </datalist>
+            <select className={inputClass} value={filter.difficulty || ''} onChange={e => setFilter({ ...filter, difficulty: e.target.value as QuestionDifficulty | '' })}>
+              <option value="">Any difficulty</option>
+              {(Object.keys(DIFFICULTY_LABELS) as QuestionDifficulty[]).map(difficulty => (
+                <option key={difficulty} value={difficulty}>{DIFFICULTY_LABELS[difficulty]}</option>
+              ))}
+            </select>
+            <input type="text" className={inputClass} placeholder="Search" value={filter.search || ''} onChange={e => setFilter({ ...filter, search: e.target.value })} />
+            <select className={inputClass} value={filter.scope || 'all'} onChange={e => setFilter({ ...filter, scope: e.target.value as QuestionBankFilter['scope'] })}>
+              <option value="all">Class and personal</option>
+              <option value="class">This class only</option>
+              <option value="personal">Personal only</option>
+            </select>
+          </div>
+
+          <p className="text-sm text-gray-500 mb-3">{matching.length} of {bank.length} question(s)</p>
+
+          <div className="space-y-3">
+            {matching.map(item => (
+              <div key={item.id} className="border border-gray-200 rounded-md p-4">
+                <div className="flex items-start justify-between gap-4 mb-2">
+                  <div className="min-w-0">
+                    <p className="text-sm text-gray-800 whitespace-pre-wrap">{item.question.prompt}</p>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {QUESTION_TYPE_LABELS[item.question.type || 'essay']} · {item.question.marks} marks · {item.class_id ? 'Class' : 'Personal'}
+                      {item.question.citation && ` · Source: ${formatCitation(item.question.citation)}`}
+                      {describeAnswerKey(item.question) && ` · Key: ${describeAnswerKey(item.question).slice(0, 80)}`}
+                    </p>
+                  </div>
+                  <button type="button" onClick={() => handleDelete(item)} className="text-red-600 hover:text-red-800 shrink-0">
+                    <TrashIcon className="h-4 w-4" />
+                  </button>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                  <input type="text" className={inputClass} defaultValue={item.topic} placeholder="Topic" onBlur={e => e.target.value !== item.topic && handleUpdate(item, { topic: e.target.value.trim() })} />
+                  <select className={inputClass} value={item.difficulty} onChange={e => handleUpdate(item, { difficulty: e.target.value as QuestionDifficulty })}>
+                    {(Object.keys(DIFFICULTY_LABELS) as QuestionDifficulty[]).map(difficulty => (
+                      <option key={difficulty} value={difficulty}>{DIFFICULTY_LABELS[difficulty]}</option>
+                    ))}
+                  </select>
+                  <input type="text" className={inputClass} defaultValue={item.learning_outcome} placeholder="Learning outcome" onBlur={e => e.target.value !== item.learning_outcome && handleUpdate(item, { learning_outcome: e.target.value.trim() })} />
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+      <ScrollToTopButton />
+    </div>;
+};
+
+export default QuestionBank;
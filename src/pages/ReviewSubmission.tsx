@@ -1,13 +1,30 @@
-import React, { useState, useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
-import { gradeSubmission } from '../utils/api';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
+import { gradeSubmission, GradingError } from '../utils/api';
 import ReactMarkdown from 'react-markdown';
-import { CheckCircleIcon, FileIcon, DownloadIcon, XIcon } from 'lucide-react';
-import { getSubmissionById, updateSubmission, createNotification } from '../utils/supabase';
+import { CheckCircleIcon, FileIcon, DownloadIcon, XIcon, AlertTriangleIcon, CopyIcon, BookmarkPlusIcon } from 'lucide-react';
+import { getSubmissionById, getAssignmentSubmissions, updateSubmission, createNotification, releaseGrades, isGradeVisible, getFeedbackComments, createFeedbackComment, recordFeedbackCommentUses, FeedbackComment, CriterionScore, RubricCriterion, GradingSample, Assignment, AssignmentQuestion, QuestionScore, Submission, SubmissionFile } from '../utils/supabase';
+import { calculateRubricPercentage } from '../../shared/rubric';
+import { totalQuestionMarks } from '../../shared/questions';
+import { findSimilarPairs, mergeRanges, TextRange } from '../utils/similarity';
+import { checkAiText } from '../utils/aiTextHeuristics';
+import { useAuth } from '../context/AuthContext';
 import BackButton from '../components/BackButton';
 import LoadingSpinner from '../components/LoadingSpinner';
 import ErrorAlert from '../components/ErrorAlert';
 import ScrollToTopButton from '../components/ScrollToTopButton';
+import RubricScores from '../components/grades/RubricScores';
+import QuestionScores from '../components/grades/QuestionScores';
+import GradingJobStatus from '../components/grades/GradingJobStatus';
+import HighlightedText from '../components/grades/HighlightedText';
+import AiTextCheckPanel from '../components/grades/AiTextCheckPanel';
+import SubmissionPageViewer from '../components/SubmissionPageViewer';
+import SubmissionVersions from '../components/grades/SubmissionVersions';
+import SubmissionAnnotations from '../components/grades/SubmissionAnnotations';
+import OcrTextReview from '../components/OcrTextReview';
+import { applyLatePenalty, formatLateness } from '../utils/latePolicy';
+import { appendComment, expandShortcut } from '../utils/commentBank';
+import CommentBank from '../components/grades/CommentBank';
 import { toast } from 'react-toastify';
 
 interface GradingResult {
@@ -16,6 +33,9 @@ interface GradingResult {
   percentage: number;
   grade_letter: string;
   review: string;
+  // Returned by AI grading; either can be saved to the comment bank
+  strengths?: string;
+  improvements?: string;
   improvement?: number;
   breakdown?: Record<string, string>;
   graded_at: string;
@@ -25,6 +45,7 @@ interface GradingResult {
 const ReviewSubmission: React.FC = () => {
   const { assignmentId, submissionId } = useParams<{ assignmentId: string; submissionId: string }>();
   const navigate = useNavigate();
+  const { user } = useAuth();
 
   // States
   const [submission, setSubmission] = useState<any>(null);
@@ -38,9 +59,25 @@ const ReviewSubmission: React.FC = () => {
   const [isEditingGrade, setIsEditingGrade] = useState<boolean>(false);
   const [manualGrade, setManualGrade] = useState<number>(0);
   const [manualFeedback, setManualFeedback] = useState<string>('');
+  const [criterionScores, setCriterionScores] = useState<CriterionScore[]>([]);
+  const [isSavingRubric, setIsSavingRubric] = useState<boolean>(false);
+  const [questionScores, setQuestionScores] = useState<QuestionScore[]>([]);
+  const [isSavingQuestions, setIsSavingQuestions] = useState<boolean>(false);
   const [showContentModal, setShowContentModal] = useState<boolean>(false);
   const [showOcrModal, setShowOcrModal] = useState<boolean>(false);
   const [showSideBySideModal, setShowSideBySideModal] = useState<boolean>(false);
+  const [reloadKey, setReloadKey] = useState<number>(0);
+  const [isReleasing, setIsReleasing] = useState<boolean>(false);
+  const [similarMatches, setSimilarMatches] = useState<{ submissionId: string; name: string; score: number; containment: number }[]>([]);
+  const [similarRanges, setSimilarRanges] = useState<TextRange[]>([]);
+  const [isCheckingAiText, setIsCheckingAiText] = useState<boolean>(false);
+  const [correctedText, setCorrectedText] = useState<string | null>(null);
+  const [isSavingText, setIsSavingText] = useState<boolean>(false);
+  const [bankComments, setBankComments] = useState<FeedbackComment[]>([]);
+  // Bank comments put into the manual feedback; counted as used if they are still there when the grade is saved
+  const [appliedCommentIds, setAppliedCommentIds] = useState<string[]>([]);
+  const [promotedTexts, setPromotedTexts] = useState<string[]>([]);
+  const feedbackRef = useRef<HTMLTextAreaElement>(null);
 
   // Debug modal states
   console.log('Modal states:', { showContentModal, showOcrModal, showSideBySideModal });
@@ -68,6 +105,8 @@ const ReviewSubmission: React.FC = () => {
 
 
         setSubmission(submissionData);
+        setCriterionScores(submissionData.criterion_scores || []);
+        setQuestionScores(submissionData.question_scores || []);
 
         // Set existing grade as grading result if available
         if (submissionData.grade !== null) {
@@ -96,7 +135,98 @@ const ReviewSubmission: React.FC = () => {
     };
     
     fetchData();
-  }, [assignmentId, submissionId]);
+  }, [assignmentId, submissionId, reloadKey]);
+
+  // Compare this submission's text with the rest of the assignment locally to flag likely copying
+  useEffect(() => {
+    const checkSimilarity = async () => {
+      if (!assignmentId || !submission?.id || !submission.ocr_text?.trim()) return;
+
+      const { data, error } = await getAssignmentSubmissions(assignmentId);
+      if (error || !data) {
+        console.error('Error loading submissions for the similarity check:', error);
+        return;
+      }
+
+      const pairs = findSimilarPairs(
+        data.filter(sub => sub.ocr_text?.trim()).map(sub => ({ id: sub.id, text: sub.ocr_text })),
+        { ignoreText: submission.assignments?.content }
+      ).filter(pair => pair.a === submission.id || pair.b === submission.id);
+
+      setSimilarMatches(pairs.map(pair => {
+        const otherId = pair.a === submission.id ? pair.b : pair.a;
+        const other = data.find(sub => sub.id === otherId);
+        return { submissionId: otherId, name: other?.users?.name || 'Unknown Student', score: pair.score, containment: pair.containment };
+      }));
+      setSimilarRanges(mergeRanges(pairs.flatMap(pair => pair.a === submission.id ? pair.passagesA : pair.passagesB)));
+    };
+
+    checkSimilarity();
+  }, [assignmentId, submission?.id, submission?.ocr_text, submission?.assignments?.content]);
+
+  // Save the teacher's corrections to the OCR text; the scanner's output stays in ocr_raw_text
+  const saveCorrectedText = async () => {
+    if (!submission || correctedText === null) return;
+
+    setIsSavingText(true);
+    const { error } = await updateSubmission(submission.id, {
+      ocr_text: correctedText,
+      ocr_raw_text: submission.ocr_raw_text ?? submission.ocr_text,
+      ocr_corrected_at: new Date().toISOString(),
+      ocr_corrected_by: user?.id || null
+    });
+    setIsSavingText(false);
+
+    if (error) {
+      toast.error(error.message || 'Failed to save the corrected text');
+      return;
+    }
+    toast.success('Text saved. Grade again to use the corrected text.');
+    setCorrectedText(null);
+    setReloadKey(key => key + 1);
+  };
+
+  // Run the advisory AI-text heuristics and store the result; nothing here touches the grade
+  const runAiTextCheck = useCallback(async (target: Submission & { assignments?: Pick<Assignment, 'questions' | 'answer_key'> | null }) => {
+    if (!target?.ocr_text?.trim()) return;
+
+    setIsCheckingAiText(true);
+    const questionKeys = (target.assignments?.questions || []).map((question: AssignmentQuestion) => question.answer_key || '').join('\n');
+    const check = checkAiText(target.ocr_text, target.assignments?.answer_key || questionKeys);
+    setSubmission((prev: Submission | null) => prev?.id === target.id ? { ...prev, ai_text_check: check } : prev);
+
+    const { error } = await updateSubmission(target.id, { ai_text_check: check });
+    if (error) {
+      console.error('Error saving AI text check:', error);
+    }
+    setIsCheckingAiText(false);
+  }, []);
+
+  // Check submissions that haven't been checked yet, or whose text changed since the last check
+  useEffect(() => {
+    if (submission?.ocr_text && submission.ai_text_check?.text_length !== submission.ocr_text.length) {
+      runAiTextCheck(submission);
+    }
+  }, [submission, runAiTextCheck]);
+
+  const classId: string | undefined = submission?.assignments?.classes?.id;
+  useEffect(() => {
+    const fetchComments = async () => {
+      if (!classId || !user) return;
+      const { data, error } = await getFeedbackComments(classId, user.id);
+      if (error) {
+        console.error('Error loading comment bank:', error);
+      }
+      setBankComments(data);
+    };
+
+    fetchComments();
+  }, [classId, user]);
+
+  // Reload the submission when the background grading job finishes
+  const handleGradingJobComplete = useCallback(() => {
+    setReloadKey(key => key + 1);
+  }, []);
 
   const getGradeLetter = (percentage: number): string => {
     if (percentage >= 90) return 'A';
@@ -106,6 +236,201 @@ const ReviewSubmission: React.FC = () => {
     return 'F';
   };
 
+  const rubric: RubricCriterion[] = submission?.assignments?.rubric || [];
+  // Submissions from before multi-file uploads only have file_url
+  const submissionFiles: SubmissionFile[] = useMemo(() => submission?.files?.length
+    ? submission.files
+    : submission?.file_url
+      ? [{ url: submission.file_url, path: '', file_name: submission.file_name || 'Submission', file_type: '', file_size: 0, first_page: 1, page_count: 1 }]
+      : [], [submission]);
+  const questions: AssignmentQuestion[] = submission?.assignments?.questions || [];
+
+  const handleSaveQuestionScores = async () => {
+    if (!submission || !submission.assignments) {
+      setError('Submission data not loaded. Please refresh the page and try again.');
+      return;
+    }
+
+    setIsSavingQuestions(true);
+    setError(null);
+
+    try {
+      const maxMarks = submission.assignments.max_marks;
+      const totalMarks = totalQuestionMarks(questions);
+      const awarded = questionScores.reduce((sum, score) => sum + score.score, 0);
+      const marks = totalMarks > 0 ? Math.round((awarded / totalMarks) * maxMarks) : 0;
+      const percentage = maxMarks > 0 ? (marks / maxMarks) * 100 : 0;
+
+      const { error: updateError } = await updateSubmission(submission.id, {
+        grade: marks,
+        question_scores: questionScores,
+        needs_review: false,
+        graded_at: new Date().toISOString(),
+        graded_by: 'manual'
+      });
+
+      if (updateError) {
+        throw updateError;
+      }
+      setSubmission((prev: Submission) => ({ ...prev, needs_review: false }));
+
+      setGradingResult(prev => ({
+        final_marks: marks,
+        max_marks: maxMarks,
+        percentage: Math.round(percentage),
+        grade_letter: getGradeLetter(percentage),
+        review: prev?.review || submission.feedback || '',
+        graded_at: new Date().toISOString(),
+        grading_mode: 'Per-question scoring by teacher'
+      }));
+      setManualGrade(marks);
+
+      // Students only hear about changes to grades they can already see
+      if (isGradeVisible(submission, submission.assignments.grades_release_at)) {
+        await createNotification({
+          user_id: submission.users.id,
+          title: 'Grade Updated',
+          message: `Your grade for "${submission.assignments.title}" has been updated to ${marks}/${maxMarks}`,
+          type: 'grade',
+          related_id: submission.id
+        });
+      }
+
+      toast.success('Question scores saved successfully!');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save question scores');
+      console.error('Error saving question scores:', err);
+    } finally {
+      setIsSavingQuestions(false);
+    }
+  };
+
+  const handleSaveRubricScores = async () => {
+    if (!submission || !submission.assignments) {
+      setError('Submission data not loaded. Please refresh the page and try again.');
+      return;
+    }
+
+    setIsSavingRubric(true);
+    setError(null);
+
+    try {
+      const maxMarks = submission.assignments.max_marks;
+      const percentage = calculateRubricPercentage(rubric, criterionScores);
+      const marks = Math.round((percentage / 100) * maxMarks);
+
+      const { error: updateError } = await updateSubmission(submission.id, {
+        grade: marks,
+        criterion_scores: criterionScores,
+        needs_review: false,
+        graded_at: new Date().toISOString(),
+        graded_by: 'manual'
+      });
+
+      if (updateError) {
+        throw updateError;
+      }
+      setSubmission((prev: Submission) => ({ ...prev, needs_review: false }));
+
+      setGradingResult(prev => ({
+        final_marks: marks,
+        max_marks: maxMarks,
+        percentage: Math.round(percentage),
+        grade_letter: getGradeLetter(percentage),
+        review: prev?.review || submission.feedback || '',
+        graded_at: new Date().toISOString(),
+        grading_mode: 'Rubric scoring by teacher'
+      }));
+      setManualGrade(marks);
+
+      // Students only hear about changes to grades they can already see
+      if (isGradeVisible(submission, submission.assignments.grades_release_at)) {
+        await createNotification({
+          user_id: submission.users.id,
+          title: 'Grade Updated',
+          message: `Your grade for "${submission.assignments.title}" has been updated to ${marks}/${maxMarks}`,
+          type: 'grade',
+          related_id: submission.id
+        });
+      }
+
+      toast.success('Rubric scores saved successfully!');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save rubric scores');
+      console.error('Error saving rubric scores:', err);
+    } finally {
+      setIsSavingRubric(false);
+    }
+  };
+
+  // Make the saved grade visible to the student (at the assignment's release time, if one is set)
+  const handleReleaseGrade = async () => {
+    if (!submission || !submission.assignments || !gradingResult) return;
+
+    setIsReleasing(true);
+    try {
+      const { error: releaseError } = await releaseGrades(submission.assignments, [{
+        id: submission.id,
+        student_id: submission.student_id,
+        grade: gradingResult.final_marks
+      }]);
+
+      if (releaseError) {
+        throw releaseError;
+      }
+
+      setSubmission((prev: Submission) => ({ ...prev, release_status: 'released', released_at: new Date().toISOString() }));
+      toast.success('Grade released');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to release grade');
+      console.error('Error releasing grade:', err);
+    } finally {
+      setIsReleasing(false);
+    }
+  };
+
+  const markCommentApplied = (comment: FeedbackComment) => {
+    setAppliedCommentIds(prev => prev.includes(comment.id) ? prev : [...prev, comment.id]);
+  };
+
+  const handleInsertComment = (comment: FeedbackComment) => {
+    setManualFeedback(prev => appendComment(prev, comment.text));
+    markCommentApplied(comment);
+  };
+
+  // Typing "/shortcut " swaps in the bank comment and keeps the cursor after it
+  const handleFeedbackChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    const expanded = expandShortcut(e.target.value, e.target.selectionStart, bankComments);
+    if (!expanded) {
+      setManualFeedback(e.target.value);
+      return;
+    }
+
+    setManualFeedback(expanded.text);
+    markCommentApplied(expanded.comment);
+    requestAnimationFrame(() => feedbackRef.current?.setSelectionRange(expanded.cursor, expanded.cursor));
+  };
+
+  const handlePromoteToBank = async (text: string, source: 'ai_strength' | 'ai_improvement') => {
+    if (!user || !classId) return;
+
+    const { data, error } = await createFeedbackComment({
+      teacher_id: user.id,
+      class_id: classId,
+      text: text.trim(),
+      tags: [source === 'ai_strength' ? 'strength' : 'improvement'],
+      shortcut: null,
+      source
+    });
+    if (error || !data) {
+      toast.error(error?.message || 'Failed to add comment to the bank');
+      return;
+    }
+    setBankComments(prev => [data, ...prev]);
+    setPromotedTexts(prev => [...prev, text]);
+    toast.success('Added to the comment bank');
+  };
+
   const handleManualGrade = async () => {
     // Add null checks to prevent the error
     if (!submission || !submission.assignments) {
@@ -124,14 +449,38 @@ const ReviewSubmission: React.FC = () => {
     try {
       const percentage = Math.round((manualGrade / submission.assignments.max_marks) * 100);
 
-      // Update submission with manual grade
-      await updateSubmission(submission.id, {
+      // Update submission with manual grade; comment usage is only counted for a grade that was saved
+      const { error: updateError } = await updateSubmission(submission.id, {
         grade: manualGrade,
         feedback: manualFeedback,
+        needs_review: false,
         graded_at: new Date().toISOString(),
         graded_by: 'manual'
       });
 
+      if (updateError) {
+        throw updateError;
+      }
+      setSubmission((prev: Submission) => ({ ...prev, needs_review: false }));
+
+      // Count the bank comments that made it into the saved feedback
+      const usedComments = bankComments.filter(comment => appliedCommentIds.includes(comment.id) && manualFeedback.includes(comment.text));
+      if (usedComments.length > 0 && user) {
+        const { error: usageError } = await recordFeedbackCommentUses(usedComments.map(comment => ({
+          comment_id: comment.id,
+          submission_id: submission.id,
+          assignment_id: submission.assignment_id,
+          used_by: user.id
+        })));
+        if (usageError) {
+          console.error('Error recording comment usage:', usageError);
+        } else if (classId) {
+          const { data } = await getFeedbackComments(classId, user.id);
+          setBankComments(data);
+        }
+      }
+      setAppliedCommentIds([]);
+
       // Update grading result display
       setGradingResult({
         final_marks: manualGrade,
@@ -143,14 +492,16 @@ const ReviewSubmission: React.FC = () => {
         grading_mode: 'Manual grading by teacher'
       });
 
-      // Create notification for student about grade update
-      await createNotification({
-        user_id: submission.users.id,
-        title: 'Grade Updated',
-        message: `Your grade for "${submission.assignments.title}" has been updated to ${manualGrade}/${submission.assignments.max_marks}`,
-        type: 'grade',
-        related_id: submission.id
-      });
+      // Create notification for student about grade update, if the grade is already released
+      if (isGradeVisible(submission, submission.assignments.grades_release_at)) {
+        await createNotification({
+          user_id: submission.users.id,
+          title: 'Grade Updated',
+          message: `Your grade for "${submission.assignments.title}" has been updated to ${manualGrade}/${submission.assignments.max_marks}`,
+          type: 'grade',
+          related_id: submission.id
+        });
+      }
 
       setIsEditingGrade(false);
       toast.success('Grade updated successfully!');
@@ -174,40 +525,58 @@ const ReviewSubmission: React.FC = () => {
     setError(null);
 
     try {
-      const generatedContent = {
-        content: submission.assignments.content,
-        max_marks: submission.assignments.max_marks,
-        marks: Math.floor(submission.assignments.max_marks * 0.8),
-        due_date: submission.assignments.due_date,
-        generated_at: submission.assignments.created_at,
-        prompt_used: submission.assignments.ai_prompt || 'Standard assignment'
+      const response = await gradeSubmission(submission.id, {
+        gradingMode,
+        gradingCriteria: gradingCriteria || undefined,
+        customInstructions: customInstructions || undefined
+      });
+
+      setGradingResult({
+        ...response,
+        grade_letter: getGradeLetter(response.percentage)
+      });
+      if (response.criterion_scores.length > 0) {
+        setCriterionScores(response.criterion_scores);
+      }
+      if (response.question_scores?.length > 0) {
+        setQuestionScores(response.question_scores);
+      }
+      if (response.was_clamped) {
+        toast.warning(`The AI score was outside 0-${response.max_marks} and has been clamped to ${response.final_marks}`);
+      }
+
+      const isSampled = response.samples?.length > 1;
+      const sampling = {
+        grading_samples: isSampled ? response.samples : null,
+        grade_spread: isSampled ? response.spread : null,
+        needs_review: !!response.needs_review
       };
 
-      const response = await gradeSubmission(
-        gradingMode,
-        submission.ocr_text,
-        generatedContent,
-        gradingCriteria || undefined,
-        customInstructions || undefined
-      );
-
-      if (response.success) {
-        setGradingResult(response);
-
-        // Update submission with new grade
-        await updateSubmission(submission.id, {
-          grade: response.final_marks,
-          feedback: response.review,
-          graded_at: new Date().toISOString(),
-          graded_by: 'manual' // Manual grading by teacher
-        });
+      // Update submission with new grade
+      await updateSubmission(submission.id, {
+        grade: response.final_marks,
+        feedback: response.review,
+        criterion_scores: response.criterion_scores.length > 0 ? response.criterion_scores : undefined,
+        question_scores: response.question_scores?.length > 0 ? response.question_scores : undefined,
+        raw_score: response.raw_score,
+        raw_score_max: response.raw_score_max,
+        ...sampling,
+        graded_at: new Date().toISOString(),
+        graded_by: 'manual' // Manual grading by teacher
+      });
+      setSubmission((prev: Submission) => ({ ...prev, ...sampling }));
 
+      if (response.needs_review) {
+        toast.warning(`The AI grading samples differed by ${response.spread} marks. Please check this grade before releasing it.`);
+      } else {
         toast.success('Submission graded successfully!');
+      }
+    } catch (err) {
+      if (err instanceof GradingError) {
+        setError(`The AI grader returned an unusable result (${err.code}): ${err.message}. The grade was not saved.`);
       } else {
-        setError(response.error || 'Grading failed');
+        setError(err instanceof Error ? err.message : 'An error occurred during grading');
       }
-    } catch (err: any) {
-      setError(err.message || 'An error occurred during grading');
       console.error('Grading error:', err);
     } finally {
       setIsGrading(false);
@@ -268,6 +637,24 @@ const ReviewSubmission: React.FC = () => {
           <div className="text-gray-600 mb-4">
             Assignment: {submission.assignments.title} • Student: {submission.users?.name || 'Loading student info...'}
           </div>
+          {similarMatches.length > 0 && (
+            <div className="flex items-start bg-orange-50 border border-orange-200 rounded-md px-3 py-2 text-sm text-orange-800">
+              <CopyIcon className="h-4 w-4 mr-2 mt-0.5 shrink-0" />
+              <div>
+                <span className="font-medium">Similar to {similarMatches.length} other submission(s): </span>
+                {similarMatches.map((match, index) => (
+                  <span key={match.submissionId}>
+                    {index > 0 && ', '}
+                    <Link to={`/dashboard/classes/${submission.assignments.classes.id}/assignments/${assignmentId}/submissions/${match.submissionId}`} className="underline hover:text-orange-900">
+                      {match.name}
+                    </Link>
+                    {` (${Math.round(match.score * 100)}% similar, ${Math.round(match.containment * 100)}% overlap)`}
+                  </span>
+                ))}
+                <div className="text-xs mt-1">Shared passages are highlighted in the extracted text below.</div>
+              </div>
+            </div>
+          )}
         </div>
       </div>
       
@@ -336,22 +723,42 @@ const ReviewSubmission: React.FC = () => {
           <div className="mb-4">
             <span className="text-sm font-medium text-gray-500">Submitted:</span>
             <span className="ml-2">{new Date(submission.submitted_at).toLocaleString()}</span>
+            {submission.is_late && (
+              <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-orange-100 text-orange-800">
+                Late {formatLateness(submission.minutes_late || 0)}
+                {submission.late_penalty_pct > 0 && ` · -${submission.late_penalty_pct}%`}
+              </span>
+            )}
           </div>
-          <div className="mb-4">
-            <span className="text-sm font-medium text-gray-500">File:</span>
-            <div className="ml-2 flex items-center">
-              <FileIcon className="h-4 w-4 mr-1" />
-              <span className="mr-2">{submission.file_name}</span>
-              <a
-                href={submission.file_url}
-                target="_blank"
-                rel="noopener noreferrer"
-                className="text-blue-600 hover:text-blue-800 flex items-center"
-              >
-                <DownloadIcon className="h-4 w-4 mr-1" />
-                View File
-              </a>
+          {submission.late_penalty_pct > 0 && submission.grade !== null && submission.grade !== undefined && (
+            <div className="mb-4">
+              <span className="text-sm font-medium text-gray-500">After late penalty:</span>
+              <span className="ml-2">
+                {applyLatePenalty(submission.grade, submission.late_penalty_pct)}/{submission.assignments.max_marks} (raw {submission.grade})
+              </span>
             </div>
+          )}
+          <div className="mb-4">
+            <span className="text-sm font-medium text-gray-500">{submissionFiles.length > 1 ? `Files (${submissionFiles.length}):` : 'File:'}</span>
+            {submissionFiles.length > 0 ? (
+              submissionFiles.map(file => (
+                <div key={file.url} className="ml-2 flex items-center">
+                  <FileIcon className="h-4 w-4 mr-1" />
+                  <span className="mr-2">{file.file_name}</span>
+                  <a
+                    href={file.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-blue-600 hover:text-blue-800 flex items-center"
+                  >
+                    <DownloadIcon className="h-4 w-4 mr-1" />
+                    View File
+                  </a>
+                </div>
+              ))
+            ) : (
+              <span className="ml-2">None (answered in the online form)</span>
+            )}
           </div>
           <div className="mb-4">
             <span className="text-sm font-medium text-gray-500">Status:</span>
@@ -360,6 +767,20 @@ const ReviewSubmission: React.FC = () => {
               Submitted
             </span>
           </div>
+          {submission.ocr_text && (
+            <div className="mb-4">
+              <AiTextCheckPanel check={submission.ai_text_check || null} isChecking={isCheckingAiText} onRecheck={() => runAiTextCheck(submission)} />
+            </div>
+          )}
+          <div className="mb-4">
+            <span className="text-sm font-medium text-gray-500 block mb-2">Automatic Grading:</span>
+            <GradingJobStatus
+              submissionId={submission.id}
+              showAttempts
+              canRequeue
+              onComplete={handleGradingJobComplete}
+            />
+          </div>
           <div className="bg-gray-50 rounded-md">
             <div className="flex items-center justify-between p-4 pb-2">
               <h4 className="text-sm font-medium text-gray-500">Extracted Text (OCR):</h4>
@@ -379,25 +800,90 @@ const ReviewSubmission: React.FC = () => {
                 >
                   Compare Side-by-Side
                 </button>
+                {correctedText === null && submission.ocr_text && !submission.responses && (
+                  <button
+                    onClick={() => setCorrectedText(submission.ocr_text)}
+                    className="text-xs text-orange-600 hover:text-orange-800 underline"
+                  >
+                    Correct Text
+                  </button>
+                )}
               </div>
             </div>
+            {correctedText !== null ? (
+              <div className="px-4 pb-4">
+                <OcrTextReview
+                  text={correctedText}
+                  rawText={submission.ocr_raw_text ?? submission.ocr_text}
+                  pages={submission.ocr_pages || []}
+                  onChange={setCorrectedText}
+                  disabled={isSavingText}
+                />
+                <div className="flex justify-end gap-2 mt-3">
+                  <button
+                    onClick={() => setCorrectedText(null)}
+                    disabled={isSavingText}
+                    className="px-3 py-1.5 text-sm border border-gray-300 rounded-md hover:bg-gray-50"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={saveCorrectedText}
+                    disabled={isSavingText || !correctedText.trim() || correctedText === submission.ocr_text}
+                    className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    {isSavingText ? 'Saving...' : 'Save Text'}
+                  </button>
+                </div>
+              </div>
+            ) : (
             <div className="px-4 pb-4">
               <div
                 className="bg-white border border-gray-200 rounded-md p-4 max-h-96 overflow-y-auto cursor-pointer hover:bg-gray-50 scrollbar-thin scrollbar-thumb-gray-300 scrollbar-track-gray-100"
                 onClick={() => setShowOcrModal(true)}
               >
-                <div className="whitespace-pre-wrap text-sm leading-relaxed text-gray-800">
-                  {submission.ocr_text || 'No OCR text available'}
-                </div>
+                {similarRanges.length > 0 ? (
+                  <HighlightedText text={submission.ocr_text} ranges={similarRanges} />
+                ) : (
+                  <div className="whitespace-pre-wrap text-sm leading-relaxed text-gray-800">
+                    {submission.ocr_text || 'No OCR text available'}
+                  </div>
+                )}
               </div>
               <div className="text-xs text-gray-500 text-center mt-2">
                 Click to view full OCR text • Scroll to see more
               </div>
             </div>
+            )}
           </div>
         </div>
       </div>
       
+      {submissionFiles.length > 0 && (
+        <div className="mt-8 bg-white rounded-lg shadow-md p-6">
+          <h2 className="text-xl font-semibold mb-4">Pages</h2>
+          <SubmissionPageViewer files={submissionFiles} ocrText={submission.ocr_text || ''} />
+        </div>
+      )}
+
+      {submissionFiles.length > 0 && (
+        <SubmissionAnnotations
+          submissionId={submission.id}
+          versionNumber={submission.current_version || 1}
+          files={submissionFiles}
+          ocrText={submission.ocr_text || ''}
+          rubric={rubric}
+          title={`${submission.assignments.title} ${submission.users?.name || ''}`}
+        />
+      )}
+
+      <SubmissionVersions
+        submissionId={submission.id}
+        maxMarks={submission.assignments.max_marks}
+        countedVersion={submission.counted_version}
+        reloadKey={reloadKey}
+      />
+
       <div className="mt-8 bg-white rounded-lg shadow-md p-6">
         <h2 className="text-xl font-semibold mb-4">Grading Options</h2>
         
@@ -460,6 +946,60 @@ const ReviewSubmission: React.FC = () => {
         </div>
       </div>
 
+      {/* Per-Question Scoring Section */}
+      {questions.length > 0 && (
+        <div className="mt-6 bg-white rounded-lg shadow-md p-6">
+          <h2 className="text-xl font-semibold mb-1">Per-Question Marks</h2>
+          <p className="text-sm text-gray-500 mb-4">
+            Each answer is graded against its key answer. Adjust any question; the overall grade is recalculated from the question totals.
+          </p>
+
+          <QuestionScores
+            questions={questions}
+            scores={questionScores}
+            onChange={setQuestionScores}
+            disabled={isSavingQuestions || isGrading}
+          />
+
+          <div className="mt-4 flex justify-end">
+            <button
+              onClick={handleSaveQuestionScores}
+              disabled={isSavingQuestions || isGrading}
+              className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:bg-green-300 disabled:cursor-not-allowed"
+            >
+              {isSavingQuestions ? 'Saving...' : 'Save Question Scores'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Rubric Scoring Section */}
+      {rubric.length > 0 && (
+        <div className="mt-6 bg-white rounded-lg shadow-md p-6">
+          <h2 className="text-xl font-semibold mb-1">Rubric Scores</h2>
+          <p className="text-sm text-gray-500 mb-4">
+            Adjust the score for any criterion; the overall grade is recalculated from the weighted rubric.
+          </p>
+
+          <RubricScores
+            rubric={rubric}
+            scores={criterionScores}
+            onChange={setCriterionScores}
+            disabled={isSavingRubric || isGrading}
+          />
+
+          <div className="mt-4 flex justify-end">
+            <button
+              onClick={handleSaveRubricScores}
+              disabled={isSavingRubric || isGrading}
+              className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:bg-green-300 disabled:cursor-not-allowed"
+            >
+              {isSavingRubric ? 'Saving...' : 'Save Rubric Scores'}
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Manual Grading Section */}
       {isEditingGrade && (
         <div className="mt-6 bg-white rounded-lg shadow-md p-6">
@@ -498,14 +1038,26 @@ const ReviewSubmission: React.FC = () => {
             <label className="block text-sm font-medium text-gray-700 mb-2">
               Feedback
             </label>
-            <textarea
-              value={manualFeedback}
-              onChange={(e) => setManualFeedback(e.target.value)}
-              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500"
-              rows={4}
-              placeholder="Provide feedback for the student..."
-              disabled={isGrading}
-            />
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+              <textarea
+                ref={feedbackRef}
+                value={manualFeedback}
+                onChange={handleFeedbackChange}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500"
+                rows={8}
+                placeholder="Provide feedback for the student... (type /shortcut to insert a saved comment)"
+                disabled={isGrading}
+              />
+              {classId && (
+                <CommentBank
+                  classId={classId}
+                  comments={bankComments}
+                  onCommentsChange={setBankComments}
+                  onInsert={handleInsertComment}
+                  disabled={isGrading}
+                />
+              )}
+            </div>
           </div>
 
           <button
@@ -520,7 +1072,49 @@ const ReviewSubmission: React.FC = () => {
       
       {gradingResult && (
         <div className="mt-8 bg-white rounded-lg shadow-md p-6">
-          <h2 className="text-xl font-semibold mb-4">Grading Results</h2>
+          <div className="flex items-center justify-between flex-wrap gap-2 mb-4">
+            <h2 className="text-xl font-semibold">Grading Results</h2>
+            {submission.release_status === 'released' ? (
+              <span className="px-2 py-1 text-xs font-semibold rounded-full bg-green-100 text-green-800">
+                {isGradeVisible(submission, submission.assignments.grades_release_at)
+                  ? 'Released to student'
+                  : `Releases ${new Date(submission.assignments.grades_release_at).toLocaleString()}`}
+              </span>
+            ) : (
+              <div className="flex items-center gap-2">
+                <span className="px-2 py-1 text-xs font-semibold rounded-full bg-yellow-100 text-yellow-800">
+                  Draft - hidden from student
+                </span>
+                <button
+                  onClick={handleReleaseGrade}
+                  disabled={isReleasing}
+                  className="px-3 py-1.5 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 disabled:bg-blue-300"
+                >
+                  {isReleasing ? 'Releasing...' : 'Release Grade'}
+                </button>
+              </div>
+            )}
+          </div>
+
+          {submission.grading_samples?.length > 1 && (
+            <div className={`mb-4 p-3 rounded-md border text-sm ${submission.needs_review ? 'bg-orange-50 border-orange-200 text-orange-800' : 'bg-gray-50 border-gray-200 text-gray-700'}`}>
+              {submission.needs_review && (
+                <p className="flex items-center font-semibold mb-1">
+                  <AlertTriangleIcon className="h-4 w-4 mr-1" />
+                  Needs human review
+                </p>
+              )}
+              <p>
+                AI samples: {submission.grading_samples.map((sample: GradingSample) => sample.error
+                  ? 'failed'
+                  : `${sample.final_marks}${sample.provider ? ` (${sample.provider})` : ''}`).join(', ')}
+                {' '}· spread {submission.grade_spread ?? 0} of {submission.assignments.max_marks} marks
+              </p>
+              {submission.needs_review && (
+                <p className="text-xs mt-1">Saving a manual or rubric grade marks this submission as reviewed.</p>
+              )}
+            </div>
+          )}
           
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
             <div className="bg-gray-50 p-4 rounded-md">
@@ -611,6 +1205,30 @@ const ReviewSubmission: React.FC = () => {
             </div>
           </div>
           
+          {(gradingResult.strengths?.trim() || gradingResult.improvements?.trim()) && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+              {([['Strengths', gradingResult.strengths, 'ai_strength'], ['Improvements', gradingResult.improvements, 'ai_improvement']] as const)
+                .flatMap(([label, text, source]) => text?.trim() ? [{ label, text, source }] : [])
+                .map(({ label, text, source }) => (
+                  <div key={label} className="bg-gray-50 rounded-md p-4">
+                    <div className="flex items-center justify-between mb-2">
+                      <h3 className="text-sm font-medium text-gray-500">{label}</h3>
+                      <button
+                        type="button"
+                        onClick={() => handlePromoteToBank(text, source)}
+                        disabled={promotedTexts.includes(text)}
+                        className="flex items-center text-xs text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+                      >
+                        <BookmarkPlusIcon className="h-3.5 w-3.5 mr-1" />
+                        {promotedTexts.includes(text) ? 'In comment bank' : 'Add to comment bank'}
+                      </button>
+                    </div>
+                    <p className="text-sm text-gray-800 whitespace-pre-wrap">{text}</p>
+                  </div>
+                ))}
+            </div>
+          )}
+
           {gradingResult.breakdown && (
             <div>
               <h3 className="text-lg font-medium mb-2">Breakdown</h3>
@@ -2,19 +2,26 @@ import React, { useEffect, useState, Suspense } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { LoaderIcon, CheckCircleIcon } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
-import { extractText, gradeSubmission } from '../utils/api';
-import { getAssignmentDetails, createSubmission, getSubmission, updateSubmission, createNotification } from '../utils/supabase';
+import { getAssignmentDetails, createSubmission, getSubmission, resubmitSubmission, getAssignmentExtension, AssignmentQuestion, QuestionResponses, SubmissionFile, AssignmentExtension } from '../utils/supabase';
+import { hasObjectiveQuestions, formatResponsesAsText, describeResponse } from '../../shared/questions';
+import { combinePagedTexts } from '../../shared/materialChunks';
+import { OcrPage, offsetOcrPages, averageConfidence, countLowConfidenceWords } from '../../shared/ocrConfidence';
+import { getResubmissionStatus, KEEP_GRADE_LABELS } from '../utils/submissionVersions';
+import { getLateStatus, describeLatePolicy, formatLateness } from '../utils/latePolicy';
 import { useAuth } from '../context/AuthContext';
-import { UploadResult } from '../utils/storage';
+import type { ProcessedSubmissionFile } from '../components/SubmissionFilesUpload';
 import BackButton from '../components/BackButton';
 import LoadingSpinner from '../components/LoadingSpinner';
 import ErrorAlert from '../components/ErrorAlert';
 import ErrorBoundary from '../components/ErrorBoundary';
 import { toast } from 'react-toastify';
 import ScrollToTopButton from '../components/ScrollToTopButton';
+import QuestionResponseForm from '../components/QuestionResponseForm';
+import QuizAttemptPanel from '../components/QuizAttemptPanel';
+import OcrTextReview from '../components/OcrTextReview';
 
-// Lazy load FileUpload component
-const FileUpload = React.lazy(() => import('../components/FileUpload'));
+// Lazy load the upload component
+const SubmissionFilesUpload = React.lazy(() => import('../components/SubmissionFilesUpload'));
 const SubmitAssignment = () => {
   const {
     classId,
@@ -24,10 +31,15 @@ const SubmitAssignment = () => {
   const { user } = useAuth();
   const [assignment, setAssignment] = useState<any>(null);
   const [existingSubmission, setExistingSubmission] = useState<any>(null);
-  const [uploadedFile, setUploadedFile] = useState<UploadResult | null>(null);
-  const [isProcessingOcr, setIsProcessingOcr] = useState(false);
+  const [extension, setExtension] = useState<AssignmentExtension | null>(null);
+  const [uploadedFiles, setUploadedFiles] = useState<SubmissionFile[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [extractedText, setExtractedText] = useState('');
+  const [rawText, setRawText] = useState('');
+  const [ocrPages, setOcrPages] = useState<OcrPage[]>([]);
+  // Set when the scan has uncertain words, so the student checks the text instead of it being submitted straight away
+  const [awaitingReview, setAwaitingReview] = useState(false);
+  const [responses, setResponses] = useState<QuestionResponses>({});
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   useEffect(() => {
@@ -62,9 +74,13 @@ const SubmitAssignment = () => {
         if (submissionData) {
           setExistingSubmission(submissionData);
           setExtractedText(submissionData.ocr_text || '');
+          setResponses(submissionData.responses || {});
         }
         // If no submission exists, that's fine - user can create one
 
+        const { data: extensionData } = await getAssignmentExtension(assignmentId, user.id);
+        setExtension(extensionData);
+
       } catch (err: any) {
         setError(err.message || 'Failed to load assignment details');
         console.error('Error fetching data:', err);
@@ -75,102 +91,56 @@ const SubmitAssignment = () => {
 
     fetchData();
   }, [assignmentId, classId, user]);
-  const handleFileUpload = async (result: UploadResult) => {
-    setUploadedFile(result);
+  // Files arrive uploaded and read, in the student's order; their text is joined with continuous page markers
+  const handleFilesProcessed = async (processed: ProcessedSubmissionFile[]) => {
+    const combined = combinePagedTexts(processed.map(item => item.text));
+    const pages = processed.flatMap((item, index) => offsetOcrPages(item.pages, combined.ranges[index].first_page));
+    const files: SubmissionFile[] = processed.map((item, index) => ({
+      url: item.upload.url,
+      path: item.upload.path,
+      file_name: item.upload.fileName,
+      file_type: item.upload.fileType,
+      file_size: item.upload.fileSize,
+      ...combined.ranges[index]
+    }));
+
+    setUploadedFiles(files);
+    setExtractedText(combined.text);
+    setRawText(combined.text);
+    setOcrPages(pages);
     setError(null);
-    toast.success('File uploaded successfully! Processing text...');
-
-    // Automatically trigger OCR processing
-    await handleProcessOcr(result);
-  };
 
-  const handleUploadError = (error: string) => {
-    let userFriendlyError = error;
-
-    // Make error messages more user-friendly
-    if (error.includes('File size exceeds')) {
-      userFriendlyError = 'File is too large. Please upload a file smaller than 10MB.';
-    } else if (error.includes('File type not supported')) {
-      userFriendlyError = 'File type not supported. Please upload a PDF, PNG, JPG, JPEG, AVIF, or GIF file.';
-    } else if (error.includes('Upload failed')) {
-      userFriendlyError = 'Upload failed. Please check your internet connection and try again.';
-    } else if (error.includes('No file selected')) {
-      userFriendlyError = 'Please select a file to upload.';
+    const uncertain = countLowConfidenceWords(pages);
+    if (uncertain > 0) {
+      setAwaitingReview(true);
+      toast.info(`Text extracted. Check the ${uncertain} highlighted word(s), then submit.`);
+      return;
     }
 
-    setError(userFriendlyError);
-    toast.error(userFriendlyError);
+    toast.success(`Text extracted from ${files.length} file(s)!`);
+    await handleAutoSubmit(files, combined.text, pages);
   };
 
-  const handleProcessOcr = async (fileResult?: UploadResult) => {
-  const fileToProcess = fileResult || uploadedFile;
-
-  if (!fileToProcess) {
-    setError('Please upload a file first');
-    return;
-  }
-
-  setIsProcessingOcr(true);
-  setError(null);
-
-  try {
-    // Fetch file from Supabase Storage URL
-    const fetchUrl = fileToProcess.url;
-    console.log('Fetching file from Supabase Storage URL:', fetchUrl);
-
-    const response = await fetch(fetchUrl);
-    if (!response.ok) {
-      throw new Error(`Failed to fetch file: ${response.status} ${response.statusText}`);
-    }
-
-    const blob = await response.blob();
-    console.log('Blob details:', { type: blob.type, size: blob.size });
-
-    // Create file object for OCR
-    const file = new File([blob], fileToProcess.fileName, { type: fileToProcess.fileType });
-    console.log('Created file object:', {
-      name: file.name,
-      type: file.type,
-      size: file.size
-    });
-
-    const result = await extractText(file);
-    console.log('OCR result:', result);
-
-    if (result.extracted_text) {
-      setExtractedText(result.extracted_text);
-      console.log('Extracted text:', result.extracted_text.substring(0, 100) + '...');
-      toast.success('Text extracted successfully!');
-
-      // Automatically submit the assignment after OCR completion
-      if (fileResult) {
-        await handleAutoSubmit(fileToProcess, result.extracted_text);
-      }
-    } else {
-      const errorMessage = result.error || 'Failed to extract text from the file';
-      console.error('OCR failed:', errorMessage);
-      throw new Error(errorMessage);
-    }
-  } catch (err: any) {
-    let errorMessage = 'Error processing OCR. Please try again.';
-
-    if (err.message?.includes('Failed to fetch')) {
-      errorMessage = 'Unable to access the uploaded file. Please try uploading again.';
-    } else if (err.message?.includes('timeout')) {
-      errorMessage = 'OCR processing timed out. Please try again with a smaller file.';
-    } else if (err.message) {
-      errorMessage = err.message;
-    }
-
-    setError(errorMessage);
-    console.error('Error processing OCR:', err);
-    toast.error(errorMessage);
-  } finally {
-    setIsProcessingOcr(false);
-  }
-};
-
-  const handleAutoSubmit = async (fileResult: UploadResult, ocrText: string) => {
+  // The raw scan and its confidences are stored alongside the text grading reads, which may have been corrected
+  const ocrFields = (text: string, raw: string, pages: OcrPage[]) => ({
+    ocr_text: text,
+    ocr_raw_text: raw,
+    ocr_pages: pages,
+    ocr_confidence: averageConfidence(pages),
+    ...(text !== raw && user && {
+      ocr_corrected_at: new Date().toISOString(),
+      ocr_corrected_by: user.id
+    })
+  });
+
+  // The first file is mirrored into file_url/file_name for views that only know about one file
+  const fileFields = (files: SubmissionFile[]) => ({
+    file_url: files[0].url,
+    file_name: files.length > 1 ? `${files[0].file_name} (+${files.length - 1} more)` : files[0].file_name,
+    files
+  });
+
+  const handleAutoSubmit = async (files: SubmissionFile[], ocrText: string, pages: OcrPage[]) => {
     if (!user || !assignment) {
       console.error('Missing user or assignment data for auto-submit');
       return;
@@ -179,68 +149,31 @@ const SubmitAssignment = () => {
     setIsSubmitting(true);
 
     try {
-      toast.info('Submitting assignment and processing grade...');
-
-      // Create or update submission in database
-      const submissionData = {
-        assignment_id: assignmentId!,
-        student_id: user.id,
-        file_url: fileResult.url,
-        file_name: fileResult.fileName,
-        ocr_text: ocrText
-      };
+      toast.info('Submitting assignment...');
 
       let submissionResult;
       if (existingSubmission) {
         // Update existing submission
-        submissionResult = await updateSubmission(existingSubmission.id, {
-          file_url: fileResult.url,
-          file_name: fileResult.fileName,
-          ocr_text: ocrText
+        submissionResult = await resubmitSubmission(existingSubmission.id, {
+          ...fileFields(files),
+          ...ocrFields(ocrText, ocrText, pages)
         });
       } else {
         // Create new submission
-        submissionResult = await createSubmission(submissionData);
+        submissionResult = await createSubmission({
+          assignment_id: assignment.id,
+          student_id: user.id,
+          ...fileFields(files),
+          ...ocrFields(ocrText, ocrText, pages)
+        });
       }
 
       if (submissionResult.error) {
         throw new Error(submissionResult.error.message || 'Failed to save submission');
       }
 
-      // Grade the submission automatically
-      const gradingResult = await gradeSubmission(
-        'Compare OCR\'d content with Generated document',
-        ocrText,
-        assignment,
-        undefined,
-        undefined
-      );
-
-      if (gradingResult.success && submissionResult.data) {
-        const finalMarks = gradingResult.final_marks || gradingResult.grade || 0;
-        const review = gradingResult.review || gradingResult.feedback || 'No feedback provided';
-        
-        // Update submission with grade
-        await updateSubmission(submissionResult.data.id, {
-          grade: finalMarks,
-          feedback: review,
-          graded_at: new Date().toISOString(),
-          graded_by: 'system' // Automatic grading
-        });
-
-        // Create notification for student about grade
-        await createNotification({
-          user_id: user.id,
-          title: 'Assignment Graded',
-          message: `Your assignment "${assignment.title}" has been automatically graded. Score: ${finalMarks}/${assignment.max_marks}`,
-          type: 'grade',
-          related_id: submissionResult.data.id
-        });
-
-        toast.success(`Assignment submitted and graded! Score: ${finalMarks}/${assignment.max_marks}`);
-      } else {
-        toast.success('Assignment submitted successfully! Grading in progress...');
-      }
+      // Saving the submission queues it for grading on the server
+      toast.success('Assignment submitted successfully! Grading has been queued.');
 
       // Navigate back to assignment details
       setTimeout(() => {
@@ -256,19 +189,81 @@ const SubmitAssignment = () => {
     }
   };
 
+  // Quizzes are taken in timed attempts; other assignments with objective questions use the online form
+  const isQuiz = assignment?.kind === 'quiz';
+  const isOnlineForm = hasObjectiveQuestions(assignment?.questions);
+  // Lateness and resubmission are checked against the student's extension when they have one
+  const dueDate = extension?.due_date || assignment?.due_date;
+  // A new version can replace an existing submission only when the assignment's resubmission policy allows it
+  const resubmission = existingSubmission && !isQuiz ? getResubmissionStatus(assignment, existingSubmission.current_version, dueDate) : null;
+  const lateStatus = assignment && !isQuiz ? getLateStatus(assignment, dueDate) : null;
+  const canSubmit = (!existingSubmission || !!resubmission?.allowed) && !lateStatus?.closed;
+
+  const handleSubmitResponses = async () => {
+    if (!user || !assignment) {
+      setError('User not authenticated');
+      return;
+    }
+
+    const unanswered = assignment.questions.filter((question: AssignmentQuestion) => !describeResponse(question, responses[question.id]).trim());
+    if (unanswered.length > 0 && !window.confirm(`You have not answered question(s) ${unanswered.map((question: AssignmentQuestion) => question.number).join(', ')}. Submit anyway?`)) {
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      // Keep a text copy so OCR-based views still show the answers
+      const ocrText = formatResponsesAsText(assignment.questions, responses);
+      const submissionResult = existingSubmission
+        ? await resubmitSubmission(existingSubmission.id, { responses, ocr_text: ocrText })
+        : await createSubmission({
+          assignment_id: assignment.id,
+          student_id: user.id,
+          file_url: null,
+          file_name: null,
+          ocr_text: ocrText,
+          responses
+        });
+
+      if (submissionResult.error) {
+        throw new Error(submissionResult.error.message || 'Failed to save submission');
+      }
+
+      // Saving the submission queues it for grading on the server
+      toast.success('Answers submitted successfully! Grading has been queued.');
+      navigate(`/dashboard/classes/${classId}/assignments/${assignmentId}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to submit answers. Please try again.');
+      console.error('Error submitting answers:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to submit answers');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    // Quiz attempts are submitted from the quiz panel
+    if (isQuiz) return;
+
+    if (isOnlineForm) {
+      await handleSubmitResponses();
+      return;
+    }
+
     setIsSubmitting(true);
     setError(null);
 
-    if (!uploadedFile) {
-      setError('Please upload a file before submitting');
+    if (uploadedFiles.length === 0) {
+      setError('Please upload your files before submitting');
       setIsSubmitting(false);
       return;
     }
 
     if (!extractedText) {
-      setError('Please process OCR before submitting');
+      setError('No text could be extracted from your files');
       setIsSubmitting(false);
       return;
     }
@@ -280,64 +275,29 @@ const SubmitAssignment = () => {
     }
 
     try {
-      // Create or update submission in database
-      const submissionData = {
-        assignment_id: assignmentId!,
-        student_id: user.id,
-        file_url: uploadedFile.url,
-        file_name: uploadedFile.fileName,
-        ocr_text: extractedText
-      };
-
       let submissionResult;
       if (existingSubmission) {
         // Update existing submission
-        submissionResult = await updateSubmission(existingSubmission.id, {
-          file_url: uploadedFile.url,
-          file_name: uploadedFile.fileName,
-          ocr_text: extractedText
+        submissionResult = await resubmitSubmission(existingSubmission.id, {
+          ...fileFields(uploadedFiles),
+          ...ocrFields(extractedText, rawText, ocrPages)
         });
       } else {
         // Create new submission
-        submissionResult = await createSubmission(submissionData);
+        submissionResult = await createSubmission({
+          assignment_id: assignmentId!,
+          student_id: user.id,
+          ...fileFields(uploadedFiles),
+          ...ocrFields(extractedText, rawText, ocrPages)
+        });
       }
 
       if (submissionResult.error) {
         throw new Error(submissionResult.error.message || 'Failed to save submission');
       }
 
-      // Grade the submission automatically
-      const gradingResult = await gradeSubmission(
-        'Compare OCR\'d content with Generated document',
-        extractedText,
-        assignment,
-        undefined,
-        undefined
-      );
-
-      if (gradingResult.success && submissionResult.data) {
-        const finalMarks = gradingResult.final_marks || gradingResult.grade || 0;
-        const review = gradingResult.review || gradingResult.feedback || 'No feedback provided';
-        
-        // Update submission with grade
-        await updateSubmission(submissionResult.data.id, {
-          grade: finalMarks,
-          feedback: review,
-          graded_at: new Date().toISOString(),
-          graded_by: 'system' // Automatic grading
-        });
-
-        // Create notification for student about grade
-        await createNotification({
-          user_id: user.id,
-          title: 'Assignment Graded',
-          message: `Your assignment "${assignment.title}" has been automatically graded. Score: ${finalMarks}/${assignment.max_marks}`,
-          type: 'grade',
-          related_id: submissionResult.data.id
-        });
-      }
-
-      toast.success('Assignment submitted successfully!');
+      // Saving the submission queues it for grading on the server
+      toast.success('Assignment submitted successfully! Grading has been queued.');
       navigate(`/dashboard/classes/${classId}/assignments/${assignmentId}`);
     } catch (err: any) {
       setError(err.message || 'Failed to submit assignment. Please try again.');
@@ -392,91 +352,160 @@ const SubmitAssignment = () => {
                 </ReactMarkdown>
             </div>
 
-            {existingSubmission && (
+            {extension && !isQuiz && (
+              <div className="bg-blue-50 border border-blue-200 rounded-md p-4 mb-4 text-sm text-blue-700">
+                You have an extension until {new Date(extension.due_date).toLocaleString()}.
+                {extension.reason && ` ${extension.reason}`}
+              </div>
+            )}
+
+            {lateStatus?.isLate && (
+              <div className={`${lateStatus.closed ? 'bg-red-50 border-red-200 text-red-700' : 'bg-orange-50 border-orange-200 text-orange-700'} border rounded-md p-4 mb-4 text-sm`}>
+                <h3 className="font-medium mb-1">
+                  {lateStatus.closed ? 'Submissions Closed' : `Late by ${formatLateness(lateStatus.minutesLate)}`}
+                </h3>
+                <p>
+                  {lateStatus.closed
+                    ? `This assignment was due ${new Date(dueDate).toLocaleString()} and no longer accepts submissions.`
+                    : lateStatus.penaltyPct > 0
+                      ? `Submitting now deducts ${lateStatus.penaltyPct}% from your mark.`
+                      : 'Your submission will be marked late.'}
+                  {' '}{describeLatePolicy(assignment)}
+                </p>
+              </div>
+            )}
+
+            {existingSubmission && resubmission && (
               <div className="bg-yellow-50 border border-yellow-200 rounded-md p-4 mb-4">
                 <h3 className="font-medium text-yellow-800 mb-2">
-                  Submission Already Graded
+                  {resubmission.allowed ? 'Resubmit Assignment' : 'Submission Already Received'}
                 </h3>
                 <p className="text-sm text-yellow-700 mb-2">
-                  You have already submitted this assignment and it has been graded. You cannot update your submission.
+                  {resubmission.allowed
+                    ? `Submitting again saves a new version that is graded separately. ${resubmission.reason} ${KEEP_GRADE_LABELS[assignment.keep_grade as keyof typeof KEEP_GRADE_LABELS] || KEEP_GRADE_LABELS.latest}.`
+                    : resubmission.reason}
                 </p>
                 <div className="text-sm text-yellow-600">
-                  <p>Previous submission: {existingSubmission.file_name}</p>
+                  <p>Current version: {existingSubmission.current_version || 1}</p>
+                  <p>Previous submission: {existingSubmission.file_name || 'Online answers'}</p>
                   <p>Submitted: {new Date(existingSubmission.submitted_at).toLocaleString()}</p>
-                  {existingSubmission.grade && (
+                  {existingSubmission.grade !== null && existingSubmission.grade !== undefined && (
                     <p>Grade: {existingSubmission.grade}/{assignment.max_marks}</p>
                   )}
                 </div>
               </div>
             )}
 
-            <div className="bg-blue-50 border border-blue-200 rounded-md p-4">
-              <h3 className="font-medium text-blue-800 mb-2">
-                Automatic Assignment Submission
-              </h3>
-              <p className="text-sm text-blue-700 mb-4">
-                Upload a document (PDF) or image (PNG, JPG, JPEG, AVIF) of your work.
-                The system will automatically extract text, submit your assignment, and grade it for you!
-              </p>
-
-              <ErrorBoundary>
-                <Suspense fallback={<div className="flex items-center justify-center p-4"><LoadingSpinner size="small" /></div>}>
-                  <FileUpload
-                    onUploadComplete={handleFileUpload}
-                    onUploadError={handleUploadError}
-                    assignmentId={assignmentId}
-                    disabled={isSubmitting || isProcessingOcr || !!existingSubmission}
-                    className="mb-4"
-                  />
-                </Suspense>
-              </ErrorBoundary>
-
-              {isProcessingOcr && (
-                <div className="mb-4 flex items-center text-blue-600">
-                  <LoaderIcon className="h-5 w-5 mr-2 animate-spin" />
-                  <span>Processing text extraction and submission...</span>
-                </div>
-              )}
-
-              {error && uploadedFile && !isProcessingOcr && !extractedText && (
-                <div className="mb-4">
-                  <div className="bg-red-50 border border-red-200 rounded-md p-4 mb-3">
-                    <p className="text-red-700">{error}</p>
+            {isQuiz ? (
+              <div className="bg-blue-50 border border-blue-200 rounded-md p-4">
+                <h3 className="font-medium text-blue-800 mb-2">
+                  Timed Quiz
+                </h3>
+                {user && <QuizAttemptPanel assignment={assignment} studentId={user.id} />}
+              </div>
+            ) : isOnlineForm ? (
+              <div className="bg-blue-50 border border-blue-200 rounded-md p-4">
+                <h3 className="font-medium text-blue-800 mb-2">
+                  Answer Online
+                </h3>
+                <p className="text-sm text-blue-700 mb-4">
+                  Answer each question below and submit. Objective questions are marked automatically as soon as your answers are saved.
+                </p>
+                <QuestionResponseForm
+                  questions={assignment.questions}
+                  responses={responses}
+                  onChange={setResponses}
+                  disabled={isSubmitting || !canSubmit}
+                />
+                {canSubmit && (
+                  <div className="mt-4 flex justify-end">
+                    <button
+                      type="submit"
+                      disabled={isSubmitting}
+                      className="bg-blue-600 text-white px-6 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50 flex items-center"
+                    >
+                      {isSubmitting && <LoaderIcon className="h-5 w-5 mr-2 animate-spin" />}
+                      {isSubmitting ? 'Submitting...' : existingSubmission ? 'Resubmit Answers' : 'Submit Answers'}
+                    </button>
                   </div>
-                  <button
-                    type="button"
-                    onClick={() => handleProcessOcr()}
-                    className="bg-orange-600 text-white px-4 py-2 rounded-md hover:bg-orange-700 transition-colors"
-                  >
-                    Retry Text Extraction
-                  </button>
-                </div>
-              )}
+                )}
+              </div>
+            ) : (
+              <div className="bg-blue-50 border border-blue-200 rounded-md p-4">
+                <h3 className="font-medium text-blue-800 mb-2">
+                  Automatic Assignment Submission
+                </h3>
+                <p className="text-sm text-blue-700 mb-4">
+                  Upload documents (PDF) or photos (PNG, JPG, JPEG, AVIF) of your work. Add every page, put them in order, then submit.
+                  The system will automatically extract text, submit your assignment, and grade it for you!
+                </p>
 
-              {extractedText && (
-                <div className="bg-white border border-gray-200 rounded-lg shadow-sm">
-                  <div className="flex items-center p-4 pb-2 text-green-600">
-                    <CheckCircleIcon className="h-5 w-5 mr-2" />
-                    <h3 className="font-medium">OCR Extraction Complete</h3>
+                <ErrorBoundary>
+                  <Suspense fallback={<div className="flex items-center justify-center p-4"><LoadingSpinner size="small" /></div>}>
+                    <SubmissionFilesUpload
+                      onComplete={handleFilesProcessed}
+                      assignmentId={assignment.id}
+                      disabled={isSubmitting || !canSubmit}
+                      className="mb-4"
+                    />
+                  </Suspense>
+                </ErrorBoundary>
+
+                {awaitingReview ? (
+                  <div className="bg-white border border-gray-200 rounded-lg shadow-sm p-4">
+                    <h3 className="font-medium mb-1">Check the Extracted Text</h3>
+                    <p className="text-sm text-gray-600 mb-3">
+                      Your work is graded from this text. Fix any highlighted words the scanner misread, then submit.
+                    </p>
+                    <OcrTextReview
+                      text={extractedText}
+                      rawText={rawText}
+                      pages={ocrPages}
+                      onChange={setExtractedText}
+                      disabled={isSubmitting}
+                    />
+                    <div className="mt-4 flex justify-end">
+                      <button
+                        type="submit"
+                        disabled={isSubmitting || !extractedText.trim()}
+                        className="bg-blue-600 text-white px-6 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50 flex items-center"
+                      >
+                        {isSubmitting && <LoaderIcon className="h-5 w-5 mr-2 animate-spin" />}
+                        {isSubmitting ? 'Submitting...' : 'Submit Assignment'}
+                      </button>
+                    </div>
                   </div>
-                  <div className="px-4 pb-4">
-                    <div className="bg-gray-50 border border-gray-200 rounded-md p-4 max-h-64 overflow-y-auto">
-                      <div className="whitespace-pre-wrap text-gray-700 text-sm leading-relaxed">
-                        {extractedText}
-                      </div>
+                ) : extractedText && (
+                  <div className="bg-white border border-gray-200 rounded-lg shadow-sm">
+                    <div className="flex items-center p-4 pb-2 text-green-600">
+                      <CheckCircleIcon className="h-5 w-5 mr-2" />
+                      <h3 className="font-medium">OCR Extraction Complete</h3>
                     </div>
-                    <div className="text-xs text-gray-500 text-center mt-2">
-                      Scroll to view full extracted text
+                    <div className="px-4 pb-4">
+                      <div className="bg-gray-50 border border-gray-200 rounded-md p-4 max-h-64 overflow-y-auto">
+                        <div className="whitespace-pre-wrap text-gray-700 text-sm leading-relaxed">
+                          {extractedText}
+                        </div>
+                      </div>
+                      <div className="text-xs text-gray-500 text-center mt-2">
+                        Scroll to view full extracted text
+                      </div>
                     </div>
                   </div>
-                </div>
-              )}
-            </div>
+                )}
+              </div>
+            )}
           </div>
         </div>
         <div className="flex justify-between items-center">
           <div className="text-sm text-gray-600">
-            {extractedText ? (
+            {isQuiz ? (
+              <span>Your latest submitted attempt is the one that is graded</span>
+            ) : isOnlineForm ? (
+              <span>{!canSubmit ? 'Your answers have been submitted' : existingSubmission ? 'Change your answers, then resubmit them as a new version' : 'Answer every question, then submit your answers'}</span>
+            ) : awaitingReview ? (
+              <span>Check the highlighted words, then submit your assignment</span>
+            ) : extractedText ? (
               <span className="text-green-600 flex items-center">
                 <CheckCircleIcon className="h-4 w-4 mr-1" />
                 Assignment submitted and graded automatically!
@@ -489,9 +518,9 @@ const SubmitAssignment = () => {
             type="button"
             className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
             onClick={() => navigate(`/dashboard/classes/${classId}/assignments/${assignmentId}`)}
-            disabled={isSubmitting || isProcessingOcr}
+            disabled={isSubmitting}
           >
-            {isSubmitting || isProcessingOcr ? 'Processing...' : 'Back to Assignment'}
+            {isSubmitting ? 'Processing...' : 'Back to Assignment'}
           </button>
         </div>
       </form>
@@ -1,11 +1,26 @@
 import React, { useState, useEffect } from 'react';
-import { AlertCircleIcon, CheckCircleIcon, ClockIcon, MessageSquareIcon, UserIcon } from 'lucide-react';
+import { AlertCircleIcon, CheckCircleIcon, ClockIcon, FlagIcon, MessageSquareIcon, UserIcon } from 'lucide-react';
 import { useAuth } from '../context/AuthContext';
-import { getUserTickets, getTeacherTickets, updateTicket, supabase } from '../utils/supabase';
+import { getUserTickets, getTeacherTickets, getClassTeachers, updateTicket, createNotification, supabase, Ticket, TicketStatus, TicketPriority, RegradeFlag, RegradeOpinion, TicketRead, TicketWithClass } from '../utils/supabase';
+import { TICKET_STATUS_LABELS, canTransitionTicket } from '../../shared/regrade';
+import { countUnreadMessages } from '../utils/ticketMessages';
+import { TICKET_PRIORITIES, TICKET_PRIORITY_LABELS, describeTicketDue, isTicketOverdue } from '../../shared/ticketSla';
 import LoadingSpinner from '../components/LoadingSpinner';
 import ErrorAlert from '../components/ErrorAlert';
 import { toast } from 'react-toastify';
 import ScrollToTopButton from '../components/ScrollToTopButton';
+import RegradeReview, { RegradedScores } from '../components/grades/RegradeReview';
+import TicketConversation from '../components/TicketConversation';
+import TicketMetricsPanel from '../components/TicketMetricsPanel';
+
+type TicketFilter = 'all' | 'overdue' | 'unassigned' | 'mine';
+
+const PRIORITY_COLORS: Record<TicketPriority, string> = {
+  urgent: 'bg-red-100 text-red-800',
+  high: 'bg-orange-100 text-orange-800',
+  normal: 'bg-gray-100 text-gray-700',
+  low: 'bg-gray-50 text-gray-500'
+};
 
 const Tickets = () => {
   const { user } = useAuth();
@@ -13,9 +28,11 @@ const Tickets = () => {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [selectedTicket, setSelectedTicket] = useState<any>(null);
-  const [response, setResponse] = useState('');
-  const [isResponding, setIsResponding] = useState(false);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const [openConversationId, setOpenConversationId] = useState<string | null>(null);
   const [userRole, setUserRole] = useState<'teacher' | 'student' | null>(null);
+  const [filter, setFilter] = useState<TicketFilter>('all');
+  const [classTeachers, setClassTeachers] = useState<Record<string, { id: string; name: string }[]>>({});
 
   useEffect(() => {
     const fetchTickets = async () => {
@@ -34,7 +51,17 @@ const Tickets = () => {
           .eq('teacher_id', user.id)
           .limit(1);
 
-        const isTeacher = teacherClasses && teacherClasses.length > 0;
+        // Co-teachers hold tickets assigned to them without owning the class
+        const { data: teachingMemberships } = teacherClasses && teacherClasses.length > 0
+          ? { data: teacherClasses }
+          : await supabase
+              .from('class_members')
+              .select('id')
+              .eq('user_id', user.id)
+              .eq('role', 'teacher')
+              .limit(1);
+
+        const isTeacher = teachingMemberships && teachingMemberships.length > 0;
         setUserRole(isTeacher ? 'teacher' : 'student');
 
         if (isTeacher) {
@@ -42,6 +69,11 @@ const Tickets = () => {
           const { data, error: ticketsError } = await getTeacherTickets(user.id);
           ticketsData = data;
           if (ticketsError) throw ticketsError;
+
+          // Who each class's tickets can be handed to
+          const classIds = [...new Set((data || []).map((ticket: TicketWithClass) => ticket.submissions?.assignments?.classes?.id).filter(Boolean))] as string[];
+          const teacherLists = await Promise.all(classIds.map(classId => getClassTeachers(classId)));
+          setClassTeachers(Object.fromEntries(classIds.map((classId, index) => [classId, teacherLists[index].data])));
         } else {
           // For students, get their own tickets
           const { data, error: ticketsError } = await getUserTickets(user.id);
@@ -62,45 +94,102 @@ const Tickets = () => {
     fetchTickets();
   }, [user]);
 
-  const handleRespond = async (ticketId: string) => {
-    if (!response.trim()) {
-      toast.error('Please enter a response');
+  const handleTransition = async (ticket: TicketWithClass, status: TicketStatus, confirmMessage?: string) => {
+    if (!canTransitionTicket(ticket.status, status)) return;
+    if (confirmMessage && !window.confirm(confirmMessage)) return;
+
+    setUpdatingId(ticket.id);
+    // The tickets trigger has the final say on who may make which change
+    const { data, error: updateError } = await updateTicket(ticket.id, { status });
+    setUpdatingId(null);
+
+    if (updateError || !data) {
+      toast.error(updateError?.message || 'Failed to update ticket');
+      return;
+    }
+
+    setTickets(tickets.map(item => item.id === ticket.id ? { ...item, ...data } : item));
+    toast.success(`Ticket ${TICKET_STATUS_LABELS[status].toLowerCase()}`);
+  };
+
+  const handlePriorityChange = async (ticket: TicketWithClass, priority: TicketPriority) => {
+    setUpdatingId(ticket.id);
+    const { data, error: updateError } = await updateTicket(ticket.id, { priority });
+    setUpdatingId(null);
+
+    if (updateError || !data) {
+      toast.error(updateError?.message || 'Failed to change priority');
+      return;
+    }
+    // The due-by target moves with the priority
+    setTickets(tickets.map(item => item.id === ticket.id ? { ...item, ...data } : item));
+  };
+
+  const handleAssign = async (ticket: TicketWithClass, assigneeId: string) => {
+    const assignee = (classTeachers[ticket.submissions?.assignments?.classes?.id ?? ''] || []).find(teacher => teacher.id === assigneeId);
+
+    setUpdatingId(ticket.id);
+    const { data, error: updateError } = await updateTicket(ticket.id, { assigned_to: assigneeId || null });
+    setUpdatingId(null);
+
+    if (updateError || !data) {
+      toast.error(updateError?.message || 'Failed to assign ticket');
       return;
     }
 
-    setIsResponding(true);
+    setTickets(tickets.map(item => item.id === ticket.id ? { ...item, ...data, assignee: assignee || null } : item));
 
-    try {
-      const { error: updateError } = await updateTicket(ticketId, {
-        status: 'resolved',
-        teacher_response: response.trim(),
-        responded_by: user?.id,
-        responded_at: new Date().toISOString()
+    if (assignee && assignee.id !== user?.id) {
+      await createNotification({
+        user_id: assignee.id,
+        title: 'Ticket Assigned',
+        message: `${user?.name} assigned you "${ticket.title}" on ${ticket.submissions?.assignments?.title}`,
+        type: 'ticket',
+        related_id: ticket.id
       });
+    }
+    toast.success(assignee ? `Assigned to ${assignee.name}` : 'Ticket unassigned');
+  };
 
-      if (updateError) throw updateError;
-
-      // Update local state
-      setTickets(tickets.map(ticket => 
-        ticket.id === ticketId 
-          ? { 
-              ...ticket, 
-              status: 'resolved', 
-              response: response.trim(),
-              responded_at: new Date().toISOString(),
-              users_responded_by: { id: user?.id, name: user?.name }
-            }
-          : ticket
-      ));
-
-      setSelectedTicket(null);
-      setResponse('');
-      toast.success('Response sent successfully!');
-    } catch (err: any) {
-      toast.error(err.message || 'Failed to send response');
-    } finally {
-      setIsResponding(false);
+  const handleResolved = (resolved: Ticket, regraded?: RegradedScores) => {
+    setTickets(tickets.map(ticket =>
+      ticket.id === resolved.id
+        ? {
+            ...ticket,
+            ...resolved,
+            responder: { id: user?.id, name: user?.name },
+            submissions: regraded ? { ...ticket.submissions, ...regraded } : ticket.submissions
+          }
+        : ticket
+    ));
+    setSelectedTicket(null);
+  };
+
+  // Opening a conversation marks it read, so its unread badge is cleared for the rest of the visit
+  const toggleConversation = (ticketId: string) => {
+    if (openConversationId === ticketId) {
+      setOpenConversationId(null);
+      return;
     }
+    setOpenConversationId(ticketId);
+    setTickets(tickets.map(ticket => ticket.id === ticketId
+      ? {
+          ...ticket,
+          ticket_reads: [
+            ...(ticket.ticket_reads || []).filter((read: TicketRead) => read.user_id !== user?.id),
+            { ticket_id: ticketId, user_id: user?.id, last_read_at: new Date().toISOString() }
+          ]
+        }
+      : ticket
+    ));
+  };
+
+  const handleOpinion = (ticketId: string, opinion: RegradeOpinion) => {
+    const update = (ticket: TicketWithClass) => ticket.id === ticketId
+      ? { ...ticket, ai_reevaluation: opinion, ai_reevaluated_at: opinion.generated_at, status: ticket.status === 'open' ? 'in_progress' : ticket.status }
+      : ticket;
+    setTickets(tickets.map(update));
+    setSelectedTicket(update(selectedTicket));
   };
 
   const getStatusIcon = (status: string) => {
@@ -133,6 +222,20 @@ const Tickets = () => {
     }
   };
 
+  const isActive = (ticket: TicketWithClass) => ticket.status === 'open' || ticket.status === 'in_progress';
+  const visibleTickets = tickets.filter(ticket => {
+    switch (filter) {
+      case 'overdue':
+        return isTicketOverdue(ticket);
+      case 'unassigned':
+        return isActive(ticket) && !ticket.assigned_to;
+      case 'mine':
+        return isActive(ticket) && ticket.assigned_to === user?.id;
+      default:
+        return true;
+    }
+  });
+
   if (isLoading) {
     return (
       <div className="max-w-6xl mx-auto">
@@ -165,6 +268,28 @@ const Tickets = () => {
         </p>
       </div>
 
+      {userRole === 'teacher' && tickets.length > 0 && (
+        <>
+          <TicketMetricsPanel tickets={tickets} />
+          <div className="flex flex-wrap gap-2 mb-4">
+            {([
+              ['all', `All (${tickets.length})`],
+              ['overdue', `Overdue (${tickets.filter(ticket => isTicketOverdue(ticket)).length})`],
+              ['unassigned', `Unassigned (${tickets.filter(ticket => isActive(ticket) && !ticket.assigned_to).length})`],
+              ['mine', 'Assigned to me']
+            ] as [TicketFilter, string][]).map(([value, label]) => (
+              <button
+                key={value}
+                onClick={() => setFilter(value)}
+                className={`px-3 py-1 text-sm rounded-full border ${filter === value ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+
       {tickets.length === 0 ? (
         <div className="bg-white border border-gray-200 rounded-lg p-8 text-center">
           <MessageSquareIcon className="h-12 w-12 text-gray-400 mx-auto mb-4" />
@@ -176,9 +301,13 @@ const Tickets = () => {
             }
           </p>
         </div>
+      ) : visibleTickets.length === 0 ? (
+        <div className="bg-white border border-gray-200 rounded-lg p-8 text-center text-gray-500">
+          No tickets match this filter.
+        </div>
       ) : (
         <div className="space-y-4">
-          {tickets.map((ticket) => (
+          {visibleTickets.map((ticket) => (
             <div key={ticket.id} className="bg-white border border-gray-200 rounded-lg p-6">
               <div className="flex items-start justify-between">
                 <div className="flex-1">
@@ -186,8 +315,24 @@ const Tickets = () => {
                     {getStatusIcon(ticket.status)}
                     <h3 className="text-lg font-medium ml-2">{ticket.title}</h3>
                     <span className={`ml-3 px-2 py-1 text-xs font-medium rounded-full ${getStatusColor(ticket.status)}`}>
-                      {ticket.status.replace('_', ' ').toUpperCase()}
+                      {TICKET_STATUS_LABELS[ticket.status as TicketStatus]?.toUpperCase() || ticket.status}
                     </span>
+                    {ticket.resolution && (
+                      <span className={`ml-2 px-2 py-1 text-xs font-medium rounded-full ${ticket.resolution === 'grade_changed' ? 'bg-blue-100 text-blue-800' : 'bg-gray-100 text-gray-700'}`}>
+                        {ticket.resolution === 'grade_changed' ? 'Grade changed' : 'Grade upheld'}
+                      </span>
+                    )}
+                    {userRole === 'teacher' && ticket.priority && ticket.priority !== 'normal' && (
+                      <span className={`ml-2 px-2 py-1 text-xs font-medium rounded-full ${PRIORITY_COLORS[ticket.priority as TicketPriority]}`}>
+                        {TICKET_PRIORITY_LABELS[ticket.priority as TicketPriority]}
+                      </span>
+                    )}
+                    {userRole === 'teacher' && isActive(ticket) && ticket.priority && (
+                      <span className={`ml-2 flex items-center text-xs ${isTicketOverdue(ticket) ? 'text-red-600 font-medium' : 'text-gray-500'}`}>
+                        <ClockIcon className="h-3.5 w-3.5 mr-1" />
+                        {describeTicketDue(ticket)}
+                      </span>
+                    )}
                   </div>
                   
                   <div className="text-sm text-gray-600 mb-3">
@@ -202,87 +347,155 @@ const Tickets = () => {
                     </div>
                     <div>
                       Assignment: {ticket.submissions?.assignments?.title}
+                      {ticket.submissions?.grade !== null && ticket.submissions?.grade !== undefined && (
+                        <span> · Grade {ticket.submissions.grade}/{ticket.submissions.assignments?.max_marks}</span>
+                      )}
                     </div>
                     <div>
                       Created: {new Date(ticket.created_at).toLocaleString()}
                     </div>
+                    {userRole === 'teacher' && isActive(ticket) && (
+                      <div className="flex flex-wrap items-center gap-3 mt-2">
+                        <label className="flex items-center">
+                          Priority
+                          <select
+                            value={ticket.priority || 'normal'}
+                            onChange={(e) => handlePriorityChange(ticket, e.target.value as TicketPriority)}
+                            disabled={updatingId === ticket.id}
+                            className="ml-2 px-2 py-1 text-sm border border-gray-300 rounded-md"
+                          >
+                            {TICKET_PRIORITIES.map(priority => (
+                              <option key={priority} value={priority}>{TICKET_PRIORITY_LABELS[priority]}</option>
+                            ))}
+                          </select>
+                        </label>
+                        <label className="flex items-center">
+                          Assigned to
+                          <select
+                            value={ticket.assigned_to || ''}
+                            onChange={(e) => handleAssign(ticket, e.target.value)}
+                            disabled={updatingId === ticket.id}
+                            className="ml-2 px-2 py-1 text-sm border border-gray-300 rounded-md"
+                          >
+                            <option value="">Unassigned</option>
+                            {(classTeachers[ticket.submissions?.assignments?.classes?.id ?? ''] || []).map(teacher => (
+                              <option key={teacher.id} value={teacher.id}>
+                                {teacher.id === user?.id ? `${teacher.name} (me)` : teacher.name}
+                              </option>
+                            ))}
+                            {ticket.assigned_to && !(classTeachers[ticket.submissions?.assignments?.classes?.id ?? ''] || []).some(teacher => teacher.id === ticket.assigned_to) && (
+                              <option value={ticket.assigned_to}>{ticket.assignee?.name || 'Another teacher'}</option>
+                            )}
+                          </select>
+                        </label>
+                      </div>
+                    )}
                   </div>
                   
                   <p className="text-gray-700 mb-4">{ticket.reason}</p>
 
-                  {ticket.teacher_response && (
-                    <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 mb-4">
-                      <h4 className="font-medium text-blue-800 mb-1">Teacher Response:</h4>
-                      <p className="text-blue-700">{ticket.teacher_response}</p>
-                      <p className="text-xs text-blue-600 mt-2">
-                        Responded by {ticket.responder?.name} on {new Date(ticket.responded_at).toLocaleString()}
-                      </p>
-                    </div>
+                  {ticket.flagged_items?.length > 0 && (
+                    <ul className="mb-4 space-y-1">
+                      {ticket.flagged_items.map((flag: RegradeFlag) => (
+                        <li key={`${flag.kind}-${flag.id}`} className="flex items-start text-sm text-gray-700">
+                          <FlagIcon className="h-4 w-4 mr-2 mt-0.5 text-orange-500 flex-shrink-0" />
+                          <span>
+                            <span className="font-medium">{flag.kind === 'question' ? flag.label : `Criterion: ${flag.label}`}</span>
+                            {flag.score !== null && flag.score !== undefined && <span className="text-gray-500"> ({flag.score}/{flag.max_points})</span>}
+                            {flag.note && <span> – {flag.note}</span>}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
                   )}
-                </div>
-                
-                {userRole === 'teacher' && ticket.status === 'open' && (
+
                   <button
-                    onClick={() => setSelectedTicket(ticket)}
-                    className="ml-4 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+                    type="button"
+                    onClick={() => toggleConversation(ticket.id)}
+                    className="flex items-center text-sm text-blue-600 hover:text-blue-800"
                   >
-                    Respond
+                    <MessageSquareIcon className="h-4 w-4 mr-1" />
+                    {openConversationId === ticket.id ? 'Hide conversation' : `Show conversation (${ticket.ticket_messages?.length || 0})`}
+                    {openConversationId !== ticket.id && user && countUnreadMessages(ticket.ticket_messages || [], ticket.ticket_reads || [], user.id) > 0 && (
+                      <span className="ml-2 px-2 py-0.5 text-xs font-medium rounded-full bg-red-100 text-red-800">
+                        {countUnreadMessages(ticket.ticket_messages || [], ticket.ticket_reads || [], user.id)} new
+                      </span>
+                    )}
                   </button>
-                )}
+                </div>
+                
+                <div className="ml-4 flex flex-col space-y-2">
+                  {userRole === 'teacher' && (ticket.status === 'open' || ticket.status === 'in_progress') && (
+                    <>
+                      <button
+                        onClick={() => setSelectedTicket(ticket)}
+                        className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+                      >
+                        Review
+                      </button>
+                      {ticket.status === 'open' && (
+                        <button
+                          onClick={() => handleTransition(ticket, 'in_progress')}
+                          disabled={updatingId === ticket.id}
+                          className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                        >
+                          Start review
+                        </button>
+                      )}
+                      <button
+                        onClick={() => handleTransition(ticket, 'closed', 'Close this ticket without a decision? The student will not be able to reopen it.')}
+                        disabled={updatingId === ticket.id}
+                        className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        Close
+                      </button>
+                    </>
+                  )}
+                  {userRole === 'student' && ticket.status === 'open' && (
+                    <button
+                      onClick={() => handleTransition(ticket, 'closed', 'Withdraw this regrade request?')}
+                      disabled={updatingId === ticket.id}
+                      className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      Withdraw
+                    </button>
+                  )}
+                  {userRole === 'student' && ticket.status === 'resolved' && (
+                    <>
+                      <button
+                        onClick={() => handleTransition(ticket, 'closed')}
+                        disabled={updatingId === ticket.id}
+                        className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                      >
+                        Accept outcome
+                      </button>
+                      <button
+                        onClick={() => handleTransition(ticket, 'open', 'Reopen this request? Your teacher will be asked to look at it again.')}
+                        disabled={updatingId === ticket.id}
+                        className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        Reopen
+                      </button>
+                    </>
+                  )}
+                </div>
               </div>
+
+              {openConversationId === ticket.id && (
+                <TicketConversation ticket={ticket} teacherId={ticket.assigned_to || ticket.submissions?.assignments?.teacher_id} />
+              )}
             </div>
           ))}
         </div>
       )}
 
-      {/* Response Modal */}
       {selectedTicket && (
-        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
-          <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
-            <div className="p-6">
-              <h2 className="text-xl font-semibold mb-4">Respond to Grade Dispute</h2>
-              
-              <div className="mb-4 p-3 bg-gray-50 rounded-lg">
-                <h3 className="font-medium">{selectedTicket.title}</h3>
-                <p className="text-sm text-gray-600 mt-1">{selectedTicket.reason}</p>
-              </div>
-              
-              <div className="mb-4">
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Your Response
-                </label>
-                <textarea
-                  value={response}
-                  onChange={(e) => setResponse(e.target.value)}
-                  placeholder="Provide your response to the student's concern..."
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500"
-                  rows={6}
-                  disabled={isResponding}
-                />
-              </div>
-              
-              <div className="flex space-x-3">
-                <button
-                  onClick={() => {
-                    setSelectedTicket(null);
-                    setResponse('');
-                  }}
-                  className="flex-1 px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
-                  disabled={isResponding}
-                >
-                  Cancel
-                </button>
-                <button
-                  onClick={() => handleRespond(selectedTicket.id)}
-                  className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
-                  disabled={isResponding || !response.trim()}
-                >
-                  {isResponding ? 'Sending...' : 'Send Response'}
-                </button>
-              </div>
-            </div>
-          </div>
-        </div>
+        <RegradeReview
+          ticket={selectedTicket}
+          onResolved={handleResolved}
+          onOpinion={(opinion) => handleOpinion(selectedTicket.id, opinion)}
+          onClose={() => setSelectedTicket(null)}
+        />
       )}
       <ScrollToTopButton />
     </div>
@@ -0,0 +1,176 @@
+// Local heuristics for how likely a submission's text is to be typed out from chatbot output.
+// Advisory only: nothing here changes a grade, it just gives the teacher something to look at.
+
+export type AiTextSignalName = 'burstiness' | 'predictability' | 'repetition' | 'stock_phrases' | 'model_answer';
+
+export interface AiTextSignal {
+  name: AiTextSignalName;
+  label: string;
+  // 0-1, higher means more typical of generated text
+  strength: number;
+  // Raw measurement behind the strength, shown to the teacher
+  value: number;
+  detail: string;
+}
+
+export interface AiTextCheck {
+  // 0-100, or null when the text is too short to say anything
+  score: number | null;
+  level: 'low' | 'medium' | 'high' | 'insufficient';
+  signals: AiTextSignal[];
+  explanation: string;
+  word_count: number;
+  // Length of the text that was checked, so a changed submission can be re-checked
+  text_length: number;
+  checked_at: string;
+}
+
+const MIN_WORDS = 80;
+const MIN_SENTENCES = 4;
+
+const SIGNAL_WEIGHTS: Record<AiTextSignalName, number> = {
+  burstiness: 0.35,
+  predictability: 0.15,
+  repetition: 0.15,
+  stock_phrases: 0.15,
+  model_answer: 0.2
+};
+
+// Connectives and hedges that chat assistants lean on far more than students writing by hand
+const STOCK_PHRASES = [
+  'it is important to note', 'it is worth noting', 'in conclusion', 'in summary', 'overall,', 'furthermore',
+  'moreover', 'additionally', 'plays a crucial role', 'plays a vital role', 'a testament to', 'delve into',
+  'in today\'s', 'when it comes to', 'on the other hand', 'it can be concluded', 'various factors',
+  'a wide range of', 'key aspects', 'ensuring that', 'in essence', 'ultimately,', 'navigate the'
+];
+
+const STOP_WORDS = new Set([
+  'the', 'a', 'an', 'and', 'or', 'but', 'of', 'to', 'in', 'on', 'for', 'with', 'as', 'at', 'by', 'from', 'is', 'are',
+  'was', 'were', 'be', 'been', 'it', 'its', 'this', 'that', 'these', 'those', 'which', 'who', 'what', 'not', 'can',
+  'will', 'would', 'should', 'has', 'have', 'had', 'do', 'does', 'did', 'so', 'if', 'than', 'then', 'there', 'their',
+  'they', 'we', 'you', 'i', 'he', 'she', 'also', 'into', 'such', 'more', 'most'
+]);
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+const words = (text: string) => text.toLowerCase().match(/[\p{L}\p{N}]+(?:'[\p{L}]+)?/gu) || [];
+
+const sentences = (text: string) =>
+  text.split(/(?<=[.!?])\s+|\n{2,}/).map(sentence => sentence.trim()).filter(sentence => words(sentence).length >= 3);
+
+const coefficientOfVariation = (values: number[]) => {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  if (mean === 0) return 0;
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+  return Math.sqrt(variance) / mean;
+};
+
+// Cosine similarity of content-word frequencies
+const termCosine = (a: string, b: string) => {
+  const counts = (text: string) => {
+    const map = new Map<string, number>();
+    words(text).filter(word => !STOP_WORDS.has(word)).forEach(word => map.set(word, (map.get(word) || 0) + 1));
+    return map;
+  };
+  const x = counts(a);
+  const y = counts(b);
+  let dot = 0;
+  x.forEach((count, word) => { dot += count * (y.get(word) || 0); });
+  const norm = (map: Map<string, number>) => Math.sqrt([...map.values()].reduce((sum, count) => sum + count * count, 0));
+  return dot === 0 ? 0 : dot / (norm(x) * norm(y));
+};
+
+// Run every heuristic over the text; modelAnswer is the assignment's generated answer key when there is one
+export const checkAiText = (text: string, modelAnswer?: string): AiTextCheck => {
+  const allWords = words(text);
+  const sentenceList = sentences(text);
+  const base = { word_count: allWords.length, text_length: text.length, checked_at: new Date().toISOString() };
+
+  if (allWords.length < MIN_WORDS || sentenceList.length < MIN_SENTENCES) {
+    return {
+      ...base,
+      score: null,
+      level: 'insufficient',
+      signals: [],
+      explanation: `Too little text to assess (at least ${MIN_WORDS} words in ${MIN_SENTENCES} sentences are needed).`
+    };
+  }
+
+  const signals: AiTextSignal[] = [];
+
+  // Burstiness: people mix short and long sentences, generated text keeps them even
+  const lengthVariation = coefficientOfVariation(sentenceList.map(sentence => words(sentence).length));
+  signals.push({
+    name: 'burstiness',
+    label: 'Even sentence lengths',
+    strength: clamp01((0.6 - lengthVariation) / 0.35),
+    value: Number(lengthVariation.toFixed(2)),
+    detail: `Sentence length varies by ${Math.round(lengthVariation * 100)}% of the average (handwritten work is usually above 50%)`
+  });
+
+  // Perplexity-style: average surprisal of each sentence under the text's own word frequencies.
+  // Generated text is uniformly predictable, so the per-sentence values barely move.
+  const frequencies = new Map<string, number>();
+  allWords.forEach(word => frequencies.set(word, (frequencies.get(word) || 0) + 1));
+  const surprisal = (word: string) => -Math.log2(((frequencies.get(word) || 0) + 1) / (allWords.length + frequencies.size));
+  const sentenceSurprisal = sentenceList.map(sentence => {
+    const sentenceWords = words(sentence);
+    return sentenceWords.reduce((sum, word) => sum + surprisal(word), 0) / sentenceWords.length;
+  });
+  const surprisalVariation = coefficientOfVariation(sentenceSurprisal);
+  signals.push({
+    name: 'predictability',
+    label: 'Uniform word predictability',
+    strength: clamp01((0.04 - surprisalVariation) / 0.03),
+    value: Number(surprisalVariation.toFixed(3)),
+    detail: `Word predictability varies by ${(surprisalVariation * 100).toFixed(1)}% between sentences`
+  });
+
+  // Repetition: share of three-word sequences that have already appeared
+  const trigrams = allWords.slice(2).map((word, i) => `${allWords[i]} ${allWords[i + 1]} ${word}`);
+  const repeatedShare = trigrams.length === 0 ? 0 : (trigrams.length - new Set(trigrams).size) / trigrams.length;
+  signals.push({
+    name: 'repetition',
+    label: 'Repeated phrasing',
+    strength: clamp01(repeatedShare / 0.15),
+    value: Number(repeatedShare.toFixed(3)),
+    detail: `${Math.round(repeatedShare * 100)}% of three-word phrases are repeats`
+  });
+
+  const lower = text.toLowerCase();
+  const found = STOCK_PHRASES.filter(phrase => lower.includes(phrase));
+  const perHundredWords = found.length / allWords.length * 100;
+  signals.push({
+    name: 'stock_phrases',
+    label: 'Assistant-style phrases',
+    strength: clamp01(perHundredWords / 1.5),
+    value: found.length,
+    detail: found.length > 0 ? `Uses ${found.map(phrase => `"${phrase.replace(/,$/, '')}"`).join(', ')}` : 'No typical assistant phrases found'
+  });
+
+  if (modelAnswer?.trim()) {
+    const similarity = termCosine(text, modelAnswer);
+    signals.push({
+      name: 'model_answer',
+      label: 'Close to the AI model answer',
+      strength: clamp01((similarity - 0.3) / 0.4),
+      value: Number(similarity.toFixed(2)),
+      detail: `Vocabulary overlap with the generated model answer is ${Math.round(similarity * 100)}%`
+    });
+  }
+
+  const totalWeight = signals.reduce((sum, signal) => sum + SIGNAL_WEIGHTS[signal.name], 0);
+  const score = Math.round(signals.reduce((sum, signal) => sum + signal.strength * SIGNAL_WEIGHTS[signal.name], 0) / totalWeight * 100);
+  const level = score >= 60 ? 'high' : score >= 35 ? 'medium' : 'low';
+  const notable = signals.filter(signal => signal.strength >= 0.5).map(signal => signal.label.toLowerCase());
+
+  return {
+    ...base,
+    score,
+    level,
+    signals,
+    explanation: notable.length > 0
+      ? `Signals typical of generated text: ${notable.join(', ')}. These are heuristics and can be wrong; talk to the student before drawing conclusions.`
+      : 'No strong signals of generated text were found.'
+  };
+};
@@ -0,0 +1,189 @@
+// Teacher mark-up drawn over submission pages. Positions are fractions of the page's width and height (0-1),
+// so the same annotation lands in the same place however large the page is drawn.
+import type { RubricCriterion, SubmissionAnnotation, SubmissionFile } from './supabase';
+import { countSubmissionPages, renderSubmissionPage } from './submissionPages';
+
+export type AnnotationKind = 'pen' | 'highlight' | 'comment' | 'stamp';
+
+export type AnnotationPoint = [number, number];
+
+export interface AnnotationRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// What an annotation draws; kind and data always travel together
+export type AnnotationContent =
+  | { kind: 'pen'; data: { points: AnnotationPoint[]; width: number } }
+  | { kind: 'highlight'; data: AnnotationRect }
+  | { kind: 'comment'; data: { x: number; y: number; text: string } }
+  | { kind: 'stamp'; data: { x: number; y: number; label: string; criterion_id?: string } };
+
+export const ANNOTATION_TOOL_LABELS: Record<AnnotationKind, string> = {
+  pen: 'Pen',
+  highlight: 'Highlight',
+  comment: 'Comment',
+  stamp: 'Stamp'
+};
+
+export const ANNOTATION_COLORS = ['#dc2626', '#2563eb', '#16a34a', '#eab308'];
+
+// Pen width as a fraction of the page width
+export const PEN_WIDTH = 0.003;
+
+export interface StampPreset {
+  label: string;
+  criterion_id?: string;
+}
+
+// Quick marks plus one stamp per rubric level, e.g. "Evidence: Good (3)"
+export const getStampPresets = (rubric: RubricCriterion[]): StampPreset[] => [
+  { label: '✓' },
+  { label: '✗' },
+  { label: '?' },
+  ...rubric.flatMap(criterion => criterion.levels.map(level => ({
+    label: `${criterion.name || 'Criterion'}: ${level.label} (${level.points})`,
+    criterion_id: criterion.id
+  })))
+];
+
+// The rectangle between two corners, whichever way the drag went
+export const rectFromCorners = ([x1, y1]: AnnotationPoint, [x2, y2]: AnnotationPoint): AnnotationRect => ({
+  x: Math.min(x1, x2),
+  y: Math.min(y1, y2),
+  width: Math.abs(x2 - x1),
+  height: Math.abs(y2 - y1)
+});
+
+// Break text into lines that fit maxWidth in the context's current font
+const wrapText = (context: CanvasRenderingContext2D, text: string, maxWidth: number) => {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && context.measureText(candidate).width > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+};
+
+// Draw annotations onto a canvas the size of the page; comments are numbered in the order given
+export const drawAnnotations = (context: CanvasRenderingContext2D, annotations: (AnnotationContent & { color: string })[]) => {
+  const { width, height } = context.canvas;
+  const fontSize = Math.max(12, Math.round(width * 0.016));
+  let commentNumber = 0;
+
+  context.save();
+  context.lineCap = 'round';
+  context.lineJoin = 'round';
+  context.textBaseline = 'top';
+  context.font = `${fontSize}px sans-serif`;
+
+  for (const annotation of annotations) {
+    context.strokeStyle = annotation.color;
+    context.fillStyle = annotation.color;
+
+    if (annotation.kind === 'pen') {
+      const [first, ...rest] = annotation.data.points;
+      if (!first) continue;
+      context.lineWidth = annotation.data.width * width;
+      context.beginPath();
+      context.moveTo(first[0] * width, first[1] * height);
+      rest.forEach(([x, y]) => context.lineTo(x * width, y * height));
+      // A single tap still leaves a dot
+      if (rest.length === 0) context.lineTo(first[0] * width + 0.1, first[1] * height);
+      context.stroke();
+    } else if (annotation.kind === 'highlight') {
+      const { x, y, width: w, height: h } = annotation.data;
+      context.globalAlpha = 0.3;
+      context.fillRect(x * width, y * height, w * width, h * height);
+      context.globalAlpha = 1;
+    } else if (annotation.kind === 'comment') {
+      commentNumber++;
+      const x = annotation.data.x * width;
+      const y = annotation.data.y * height;
+      const radius = fontSize * 0.8;
+
+      // Numbered pin with the comment in a box beside it, kept on the page
+      context.beginPath();
+      context.arc(x, y, radius, 0, Math.PI * 2);
+      context.fill();
+      context.fillStyle = '#ffffff';
+      context.textAlign = 'center';
+      context.fillText(String(commentNumber), x, y - fontSize / 2);
+      context.textAlign = 'left';
+
+      const padding = fontSize * 0.4;
+      const lines = wrapText(context, annotation.data.text, width * 0.3);
+      const boxWidth = Math.max(...lines.map(line => context.measureText(line).width)) + padding * 2;
+      const boxHeight = lines.length * fontSize * 1.2 + padding * 2;
+      const boxX = Math.min(x + radius + padding, width - boxWidth);
+      const boxY = Math.min(Math.max(0, y - radius), height - boxHeight);
+      context.globalAlpha = 0.9;
+      context.fillStyle = '#fef9c3';
+      context.fillRect(boxX, boxY, boxWidth, boxHeight);
+      context.globalAlpha = 1;
+      context.lineWidth = 1;
+      context.strokeRect(boxX, boxY, boxWidth, boxHeight);
+      context.fillStyle = '#111827';
+      lines.forEach((line, index) => context.fillText(line, boxX + padding, boxY + padding + index * fontSize * 1.2));
+    } else {
+      const padding = fontSize * 0.4;
+      const boxWidth = context.measureText(annotation.data.label).width + padding * 2;
+      const boxHeight = fontSize + padding * 2;
+      // The stamp is centred on where it was placed
+      const boxX = annotation.data.x * width - boxWidth / 2;
+      const boxY = annotation.data.y * height - boxHeight / 2;
+      context.lineWidth = Math.max(2, fontSize * 0.15);
+      context.strokeRect(boxX, boxY, boxWidth, boxHeight);
+      context.fillText(annotation.data.label, boxX + padding, boxY + padding);
+    }
+  }
+
+  context.restore();
+};
+
+// Every page of the submission with its annotations burnt in, one PDF page per submission page
+export const exportAnnotatedPdf = async (files: SubmissionFile[], annotations: SubmissionAnnotation[], fileName: string, ocrText = '') => {
+  const { default: jsPDF } = await import('jspdf');
+  const pageCount = countSubmissionPages(files, ocrText);
+  let pdf: InstanceType<typeof jsPDF> | null = null;
+
+  for (let page = 1; page <= pageCount; page++) {
+    let canvas: HTMLCanvasElement;
+    try {
+      canvas = await renderSubmissionPage(files, page);
+    } catch (error) {
+      // Page counts guessed from the text can run past the end of a file
+      console.warn(`Skipping page ${page} in the annotated export:`, error);
+      continue;
+    }
+    const context = canvas.getContext('2d');
+    if (context) {
+      drawAnnotations(context, annotations.filter(annotation => annotation.page === page));
+    }
+
+    const orientation = canvas.width > canvas.height ? 'landscape' : 'portrait';
+    const format = [canvas.width, canvas.height];
+    if (pdf) {
+      pdf.addPage(format, orientation);
+    } else {
+      pdf = new jsPDF({ orientation, unit: 'px', format, hotfixes: ['px_scaling'] });
+    }
+    pdf.addImage(canvas.toDataURL('image/jpeg', 0.85), 'JPEG', 0, 0, canvas.width, canvas.height);
+  }
+
+  if (!pdf) {
+    throw new Error('None of the submission pages could be drawn');
+  }
+  pdf.save(fileName);
+};
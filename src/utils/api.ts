@@ -1,91 +1,98 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { supabase } from './supabase';
+import { supabase, CriterionScore, QuestionScore, GradingSample, QuizAttempt, QuestionResponses, AssignmentQuestion } from './supabase';
+import type { GeneratedDocument } from '../../shared/generatedDocument';
+import type { RegradeOpinion } from '../../shared/regrade';
+import { ocrPageFromResult, averageConfidence, OcrPage } from '../../shared/ocrConfidence';
+import { preprocessForOcr } from './ocrPreprocess';
 
-// Initialize Gemini AI (Primary)
-const genAI = new GoogleGenerativeAI(import.meta.env.VITE_GEMINI_API_KEY || '');
-const geminiModel = genAI.getGenerativeModel({ model: 'gemini-2.5-flash' });
+// AI generation, grading and OCR run on the backend so provider keys never reach the browser
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3001';
 
-// Groq API configuration (Fallback)
-const GROQ_API_KEY = import.meta.env.VITE_GROQ_API_KEY || '';
-const GROQ_MODEL = 'moonshotai/kimi-k2-instruct-0905';
-const GROQ_API_URL = 'https://api.groq.com/openai/v1/chat/completions';
+// Error raised when the AI grader returns output that cannot be turned into a valid grade
+export class GradingError extends Error {
+  code: 'INVALID_RESPONSE' | 'INVALID_SCORE';
+  rawResponse?: string;
 
-// Helper function to call Groq API
-const callGroqAPI = async (prompt: string): Promise<string> => {
-  console.log('Falling back to Groq API...');
-  
-  const response = await fetch(GROQ_API_URL, {
+  constructor(message: string, code: 'INVALID_RESPONSE' | 'INVALID_SCORE', rawResponse?: string) {
+    super(message);
+    this.name = 'GradingError';
+    this.code = code;
+    this.rawResponse = rawResponse;
+  }
+}
+
+export interface GradeSubmissionResult {
+  success: boolean;
+  grade: number;
+  feedback: string;
+  strengths: string;
+  improvements: string;
+  criterion_scores: CriterionScore[];
+  question_scores: QuestionScore[];
+  raw_score: number;
+  raw_score_max: number;
+  final_marks: number;
+  max_marks: number;
+  percentage: number;
+  was_clamped: boolean;
+  review: string;
+  graded_at: string;
+  grading_mode: string;
+  provider: string;
+  model: string;
+  message: string;
+  // One entry per grading run; needs_review is set when the runs disagree beyond the assignment threshold
+  samples: GradingSample[];
+  spread: number;
+  needs_review: boolean;
+}
+
+// Non-grading failure from the AI server; status 429 carries the server's Retry-After
+export class AiServerError extends Error {
+  status: number;
+  retryAfterMs?: number;
+
+  constructor(message: string, status: number, retryAfterMs?: number) {
+    super(message);
+    this.name = 'AiServerError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// Authenticated POST to the backend using the current Supabase session
+const callServer = async <T>(path: string, body: Record<string, unknown>): Promise<T> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    throw new Error('You must be signed in to use this feature');
+  }
+
+  const response = await fetch(`${API_BASE_URL}${path}`, {
     method: 'POST',
     headers: {
-      'Authorization': `Bearer ${GROQ_API_KEY}`,
       'Content-Type': 'application/json',
+      Authorization: `Bearer ${session.access_token}`
     },
-    body: JSON.stringify({
-      model: GROQ_MODEL,
-      messages: [
-        {
-          role: 'user',
-          content: prompt
-        }
-      ],
-      temperature: 0.7,
-      max_tokens: 4096,
-    }),
+    body: JSON.stringify(body)
   });
 
+  const result = await response.json().catch(() => ({}));
+
   if (!response.ok) {
-    const errorData = await response.json().catch(() => ({}));
-    throw new Error(`Groq API error: ${response.status} - ${errorData.error?.message || response.statusText}`);
+    if (response.status === 422 && result.code) {
+      throw new GradingError(result.error, result.code, result.raw_response);
+    }
+    const retryAfter = Number(response.headers.get('Retry-After'));
+    throw new AiServerError(
+      result.error || `Request failed with status ${response.status}`,
+      response.status,
+      Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : undefined
+    );
   }
 
-  const data = await response.json();
-  return data.choices[0]?.message?.content || '';
+  return result as T;
 };
 
-// Unified AI call with fallback
-const generateWithFallback = async (prompt: string): Promise<string> => {
-  try {
-    // Try Gemini first
-    console.log('Attempting Gemini API...');
-    const result = await geminiModel.generateContent(prompt);
-    const response = result.response;
-    const text = response.text();
-    console.log('Gemini API succeeded');
-    return text;
-  } catch (geminiError: any) {
-    console.warn('Gemini API failed:', geminiError.message);
-    
-    // Check if it's a quota/rate limit error or model not found
-    const isQuotaError = geminiError.message?.includes('quota') || 
-                         geminiError.message?.includes('429') ||
-                         geminiError.message?.includes('rate') ||
-                         geminiError.message?.includes('Resource has been exhausted') ||
-                         geminiError.message?.includes('not found') ||
-                         geminiError.message?.includes('not supported');
-    
-    if (isQuotaError) {
-      console.log('Quota/rate limit exceeded or model unavailable, falling back to Groq...');
-      try {
-        const groqResponse = await callGroqAPI(prompt);
-        console.log('Groq API succeeded');
-        return groqResponse;
-      } catch (groqError: any) {
-        console.error('Groq API also failed:', groqError.message);
-        throw new Error(`Both AI providers failed. Gemini: ${geminiError.message}, Groq: ${groqError.message}`);
-      }
-    }
-    
-    // For other errors, still try Groq as fallback
-    try {
-      const groqResponse = await callGroqAPI(prompt);
-      console.log('Groq API succeeded (fallback)');
-      return groqResponse;
-    } catch (groqError: any) {
-      // If Groq also fails, throw the original Gemini error
-      throw geminiError;
-    }
-  }
-};
+const callAiServer = <T>(path: string, body: Record<string, unknown>) => callServer<T>(`/api/ai${path}`, body);
 
 // Helper function to convert file to base64
 const fileToBase64 = (file: File): Promise<string> => {
@@ -102,44 +109,48 @@ const fileToBase64 = (file: File): Promise<string> => {
 // Health check
 export const checkHealth = async () => {
   try {
-    // Simple test to check if AI APIs are accessible
-    const result = await generateWithFallback('Hello');
-    return { status: 'healthy', message: 'AI API is accessible' };
+    // The server asks every registered provider whether it is reachable
+    const response = await fetch(`${API_BASE_URL}/api/ai/health`);
+    const result = await response.json();
+    const isHealthy = result.status === 'healthy';
+    return {
+      status: isHealthy ? 'healthy' : 'unhealthy',
+      message: isHealthy ? 'AI API is accessible' : 'AI API is not accessible',
+      providers: result.providers || []
+    };
   } catch (error) {
     console.error('Health check failed:', error);
-    return { status: 'unhealthy', message: 'AI API is not accessible' };
+    return { status: 'unhealthy', message: 'AI API is not accessible', providers: [] };
   }
 };
 
-// Test Gemini API connection and response structure
+// Test the AI server connection and provider chain
 export const testGeminiConnection = async () => {
   console.log('=== AI CONNECTION TEST START ===');
   console.log('Environment check:');
-  console.log('- VITE_GEMINI_API_KEY exists:', !!import.meta.env.VITE_GEMINI_API_KEY);
-  console.log('- VITE_GROQ_API_KEY exists:', !!import.meta.env.VITE_GROQ_API_KEY);
-  
+  console.log('- API base URL:', API_BASE_URL);
+
   try {
-    console.log('Testing AI content generation with fallback...');
-    const testPrompt = 'Generate a simple test response with the word "SUCCESS" in it.';
-    
-    const text = await generateWithFallback(testPrompt);
-    console.log('Test text content:', text);
-    
+    console.log('Testing AI server health...');
+    const response = await fetch(`${API_BASE_URL}/api/ai/health`);
+    const health = await response.json();
+    console.log('- Provider fallback chain:', health.fallback_chain?.join(' -> ') || 'empty');
+
     const testResult = {
-      success: true,
-      test_content: text,
-      message: 'AI API test successful'
+      success: health.status === 'healthy',
+      providers: health.providers,
+      message: health.status === 'healthy' ? 'AI API test successful' : 'No AI provider is reachable'
     };
-    
+
     console.log('Test return object:', testResult);
     console.log('=== AI CONNECTION TEST SUCCESS ===');
-    
+
     return testResult;
   } catch (error: any) {
     console.error('=== AI CONNECTION TEST ERROR ===');
     console.error('Error message:', error.message);
     console.error('=== AI CONNECTION TEST ERROR END ===');
-    
+
     return {
       success: false,
       error: error.message,
@@ -148,29 +159,68 @@ export const testGeminiConnection = async () => {
   }
 };
 
-// OCR text extraction using backend API for PDFs and Gemini Vision for images
-export const extractText = async (file: File) => {
+// Result of reading one file; pages carry word confidences when the text came from OCR rather than a PDF text layer
+export interface ExtractTextResult {
+  success: boolean;
+  extracted_text: string;
+  message: string;
+  file_info: { name: string; type: string; size: number };
+  confidence?: number;
+  pages?: OcrPage[];
+}
+
+// OCR text extraction: server-side first, falling back to in-browser OCR (e.g. scanned PDFs).
+// Photos are cleaned up in the browser first so both paths read the same preprocessed image
+export const extractText = async (file: File, assignmentId?: string): Promise<ExtractTextResult> => {
   console.log('Calling extractText for file:', file.name, file.type, file.size);
-  
+
   // Validate file type - now supporting both images and PDFs
   const supportedImageTypes = ['image/jpeg', 'image/jpg', 'image/png', 'image/gif', 'image/webp'];
   const supportedDocumentTypes = ['application/pdf'];
   const allSupportedTypes = [...supportedImageTypes, ...supportedDocumentTypes];
-  
+
   if (!allSupportedTypes.includes(file.type)) {
     throw new Error(`Unsupported file type: ${file.type}. Please use JPEG, PNG, GIF, WebP images or PDF documents.`);
   }
-  
+
+  const ocrFile = supportedImageTypes.includes(file.type) ? await preprocessImageFile(file) : file;
+
+  if (assignmentId) {
+    try {
+      const result = await callAiServer<ExtractTextResult>('/extract-text', {
+        assignment_id: assignmentId,
+        file_name: file.name,
+        file_type: ocrFile.type,
+        file_data: await fileToBase64(ocrFile)
+      });
+      return { ...result, file_info: { name: file.name, type: file.type, size: file.size } };
+    } catch (error) {
+      console.warn('Server OCR unavailable, falling back to client-side OCR:', error instanceof Error ? error.message : error);
+    }
+  }
+
   // Route to appropriate OCR method based on file type
   if (supportedDocumentTypes.includes(file.type)) {
     return await extractTextFromPDF(file);
   } else {
-    return await extractTextFromImage(file);
+    return await extractTextFromImage(ocrFile, file);
+  }
+};
+
+// Grayscale, deskew and binarize a photo before OCR; the original file is what gets stored
+const preprocessImageFile = async (file: File) => {
+  try {
+    const blob = await preprocessForOcr(file);
+    return new File([blob], file.name.replace(/\.[^.]+$/, '') + '.png', { type: 'image/png' });
+  } catch (error) {
+    // Formats the browser can't decode are sent as they are
+    console.warn('OCR preprocessing failed, using the original image:', error);
+    return file;
   }
 };
 
 // Extract text from PDF using client-side PDF.js and Tesseract.js
-const extractTextFromPDF = async (file: File) => {
+const extractTextFromPDF = async (file: File): Promise<ExtractTextResult> => {
   console.log('Processing PDF with client-side OCR:', file.name);
   
   try {
@@ -189,39 +239,41 @@ const extractTextFromPDF = async (file: File) => {
     const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
     
     let allExtractedText = '';
+    const pages: OcrPage[] = [];
+    // One worker for every page, so the language data loads once
+    const worker = await Tesseract.default.createWorker('eng');
     
-    // Process each page of the PDF
-    for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
-      console.log(`Processing PDF page ${pageNum}/${pdf.numPages}`);
-      
-      const page = await pdf.getPage(pageNum);
-      const viewport = page.getViewport({ scale: 2.0 }); // Higher scale for better OCR
-      
-      // Create canvas to render PDF page
-      const canvas = document.createElement('canvas');
-      const context = canvas.getContext('2d')!;
-      canvas.height = viewport.height;
-      canvas.width = viewport.width;
-      
-      // Render PDF page to canvas
-      await page.render({
-        canvasContext: context,
-        viewport: viewport
-      }).promise;
-      
-      // Convert canvas to blob for Tesseract
-      const blob = await new Promise<Blob>((resolve) => {
-        canvas.toBlob((blob) => resolve(blob!), 'image/png');
-      });
-      
-      // Extract text from the rendered page using Tesseract
-      const { data: { text } } = await Tesseract.default.recognize(blob, 'eng', {
-        logger: (m) => console.log(`Page ${pageNum} OCR:`, m)
-      });
-      
-      if (text.trim()) {
-        allExtractedText += `\n--- Page ${pageNum} ---\n${text.trim()}\n`;
+    try {
+      // Process each page of the PDF
+      for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
+        console.log(`Processing PDF page ${pageNum}/${pdf.numPages}`);
+        
+        const page = await pdf.getPage(pageNum);
+        const viewport = page.getViewport({ scale: 2.0 }); // Higher scale for better OCR
+        
+        // Create canvas to render PDF page
+        const canvas = document.createElement('canvas');
+        const context = canvas.getContext('2d')!;
+        canvas.height = viewport.height;
+        canvas.width = viewport.width;
+        
+        // Render PDF page to canvas
+        await page.render({
+          canvasContext: context,
+          viewport: viewport
+        }).promise;
+        
+        // Clean up the rendered page, then extract its text and word confidences with Tesseract
+        const blob = await preprocessForOcr(canvas);
+        const { data } = await worker.recognize(blob, {}, { text: true, blocks: true });
+        
+        if (data.text.trim()) {
+          allExtractedText += `\n--- Page ${pageNum} ---\n${data.text.trim()}\n`;
+          pages.push(ocrPageFromResult(data, pageNum));
+        }
       }
+    } finally {
+      await worker.terminate();
     }
     
     if (!allExtractedText.trim()) {
@@ -236,7 +288,9 @@ const extractTextFromPDF = async (file: File) => {
         name: file.name,
         type: file.type,
         size: file.size
-      }
+      },
+      confidence: averageConfidence(pages) ?? undefined,
+      pages
     };
   } catch (error: any) {
     console.error('PDF OCR error:', error);
@@ -249,13 +303,13 @@ const extractTextFromPDF = async (file: File) => {
   }
 };
 
-// Extract text from images using Tesseract.js
-const extractTextFromImage = async (file: File) => {
-  console.log('Processing image with Tesseract.js:', file.name);
+// Extract text from images using Tesseract.js; original is the file as the student chose it, for size checks and file info
+const extractTextFromImage = async (file: File, original: File = file): Promise<ExtractTextResult> => {
+  console.log('Processing image with Tesseract.js:', original.name);
   
   // Validate file size (max 10MB)
   const maxSize = 10 * 1024 * 1024; // 10MB
-  if (file.size > maxSize) {
+  if (original.size > maxSize) {
     throw new Error('File size too large. Please use files smaller than 10MB.');
   }
   
@@ -265,10 +319,14 @@ const extractTextFromImage = async (file: File) => {
     // Dynamically import Tesseract.js
     const Tesseract = await import('tesseract.js');
     
-    // Use Tesseract.js to extract text from the image
-    const { data: { text, confidence } } = await Tesseract.default.recognize(file, 'eng', {
+    // Use Tesseract.js to extract the text and its word confidences from the image
+    const worker = await Tesseract.default.createWorker('eng', undefined, {
       logger: (m) => console.log('Tesseract OCR:', m)
     });
+    const { data } = await worker.recognize(file, {}, { text: true, blocks: true }).finally(() => worker.terminate());
+    const text = data.text;
+    const page = ocrPageFromResult(data, 1);
+    const confidence = averageConfidence([page]) ?? data.confidence;
     
     console.log('Tesseract OCR completed. Confidence:', confidence);
     console.log('Extracted text:', text);
@@ -288,11 +346,12 @@ const extractTextFromImage = async (file: File) => {
       extracted_text: text.trim(),
       message: `Text extracted successfully using Tesseract.js (confidence: ${confidence.toFixed(1)}%)`,
       file_info: {
-        name: file.name,
-        type: file.type,
-        size: file.size
+        name: original.name,
+        type: original.type,
+        size: original.size
       },
-      confidence: confidence
+      confidence: confidence,
+      pages: [page]
     };
   } catch (error: any) {
     console.error('Tesseract OCR error:', error);
@@ -321,185 +380,198 @@ const extractTextFromImage = async (file: File) => {
     throw new Error(`Failed to extract text from the image: ${error.message || 'Unknown error occurred'}. Please try with a different image.`);
   }
 };
-// AI document generation using Gemini with Groq fallback
-export const generateDocument = async (prompt: string, maxMarks: number = 100, daysUntilDue: number = 7) => {
-  console.log('=== generateDocument DEBUG START ===');
-  console.log('Input parameters:', { prompt, maxMarks, daysUntilDue });
-  
-  try {
-    const enhancedPrompt = `Generate an educational assignment based on the following requirements:
 
-Topic/Subject: ${prompt}
-Maximum Marks: ${maxMarks}
-Days Until Due: ${daysUntilDue}
+// Extract a class material's text for grounded generation; PDFs keep their "--- Page N ---" markers so questions can cite pages
+export const extractMaterialText = async (material: { file_url: string; file_name: string; file_type: string }) => {
+  const response = await fetch(material.file_url);
+  if (!response.ok) {
+    throw new Error(`Could not download ${material.file_name} (status ${response.status})`);
+  }
 
-Please create a comprehensive assignment that includes:
-1. Clear instructions for students
-2. Specific questions or tasks
-3. Grading criteria
-4. Expected learning outcomes
+  const blob = await response.blob();
+  const file = new File([blob], material.file_name, { type: material.file_type || blob.type });
 
-Format the response as a well-structured assignment document.`;
-    
-    console.log('Calling AI API with fallback...');
-    
-    const generatedContent = await generateWithFallback(enhancedPrompt);
-    console.log('Generated content length:', generatedContent?.length || 0);
-    
-    const returnObject = {
-      success: true,
-      generated_content: generatedContent,
+  if (file.type === 'application/pdf') {
+    return (await extractTextFromPDF(file)).extracted_text;
+  }
+  if (file.type.startsWith('image/')) {
+    return (await extractTextFromImage(await preprocessImageFile(file), file)).extracted_text;
+  }
+  if (file.type.startsWith('text/')) {
+    return await file.text();
+  }
+  throw new Error(`${material.file_name} can't be used as a source. Only PDFs, images and text files are supported.`);
+};
+// AI document generation for a class the teacher owns
+// Materials are extracted client-side (see extractMaterialText) and sent as text; the server checks they belong to the class
+export const generateDocument = async (
+  classId: string,
+  prompt: string,
+  maxMarks: number = 100,
+  daysUntilDue: number = 7,
+  materials: { material_id: string; text: string }[] = []
+) => {
+  console.log('Calling generateDocument:', { classId, prompt, maxMarks, daysUntilDue, materials: materials.length });
+
+  try {
+    const result = await callAiServer<{
+      success: boolean;
+      document: GeneratedDocument;
+      generated_content: string;
+      // Set when the question marks were rescaled to add up to max_marks
+      marks_rescaled: boolean;
+      generation_attempts: number;
+      // Number of material excerpts that fitted into the prompt
+      material_excerpts_used: number;
+      max_marks: number;
+      days_until_due: number;
+      provider: string;
+      message: string;
+    }>('/generate-document', {
+      class_id: classId,
+      prompt,
       max_marks: maxMarks,
       days_until_due: daysUntilDue,
-      message: 'Assignment generated successfully'
-    };
-    
-    console.log('=== generateDocument DEBUG END ===');
-    
-    return returnObject;
+      materials
+    });
+
+    console.log('Generated content length:', result.generated_content?.length || 0, 'via', result.provider);
+    return result;
   } catch (error: any) {
-    console.error('=== generateDocument ERROR ===');
-    console.error('Error message:', error.message);
-    console.error('=== generateDocument ERROR END ===');
+    console.error('generateDocument error:', error.message);
     throw new Error(`Failed to generate document: ${error.message}`);
   }
 };
-// Submission grading using AI with fallback
-export const gradeSubmission = async (gradingMode: string, ocrText: string | null, generatedContent: any | null, gradingCriteria?: string, customInstructions?: string) => {
-  console.log('Calling gradeSubmission with AI fallback:', { gradingMode, ocrTextLength: ocrText?.length, generatedContent, gradingCriteria, customInstructions });
-  
+
+export interface GradeSubmissionOptions {
+  gradingMode?: string;
+  gradingCriteria?: string;
+  customInstructions?: string;
+}
+
+// Grade a stored submission; the server loads the assignment, rubric and max marks itself
+export const gradeSubmission = async (submissionId: string, options: GradeSubmissionOptions = {}): Promise<GradeSubmissionResult> => {
+  console.log('Calling gradeSubmission:', { submissionId, ...options });
+
   try {
-    let prompt = `Please grade the following student submission based on the provided criteria:
+    const result = await callAiServer<GradeSubmissionResult>('/grade-submission', {
+      submission_id: submissionId,
+      grading_mode: options.gradingMode,
+      grading_criteria: options.gradingCriteria,
+      custom_instructions: options.customInstructions
+    });
 
-`;
-    
-    if (generatedContent) {
-      prompt += `Assignment Content:\n${typeof generatedContent === 'string' ? generatedContent : JSON.stringify(generatedContent)}\n\n`;
-    }
-    
-    if (ocrText) {
-      prompt += `Student Submission (OCR Text):\n${ocrText}\n\n`;
-    }
-    
-    if (gradingCriteria) {
-      prompt += `Grading Criteria:\n${gradingCriteria}\n\n`;
-    }
-    
-    if (customInstructions) {
-      prompt += `Additional Instructions:\n${customInstructions}\n\n`;
-    }
-    
-    prompt += `Please provide:
-1. A numerical grade (0-100)
-2. Detailed feedback explaining the grade
-3. Areas for improvement
-4. Strengths in the submission
-
-Format your response as JSON with the following structure:
-{
-  "grade": <numerical_grade>,
-  "feedback": "<detailed_feedback>",
-  "strengths": "<identified_strengths>",
-  "improvements": "<areas_for_improvement>"
-}`;
-    
-    const gradingResult = await generateWithFallback(prompt);
-    
-    console.log('gradeSubmission AI response:', gradingResult);
-    
-    // Try to parse JSON response, fallback to text if parsing fails
-    try {
-      // Clean up the response - remove markdown code blocks if present
-      let cleanedResult = gradingResult.trim();
-      if (cleanedResult.startsWith('```json')) {
-        cleanedResult = cleanedResult.slice(7);
-      } else if (cleanedResult.startsWith('```')) {
-        cleanedResult = cleanedResult.slice(3);
-      }
-      if (cleanedResult.endsWith('```')) {
-        cleanedResult = cleanedResult.slice(0, -3);
-      }
-      cleanedResult = cleanedResult.trim();
-      
-      const parsedResult = JSON.parse(cleanedResult);
-      console.log('Parsed grading result:', parsedResult);
-      
-      // Extract grade from different possible field names
-      const grade = parsedResult.grade || parsedResult.marks || parsedResult.final_marks || parsedResult.score || 0;
-      const feedback = parsedResult.feedback || parsedResult.review || parsedResult.comments || 'No feedback provided';
-      
-      console.log('Extracted grade:', grade, 'feedback length:', feedback.length);
-      
-      return {
-        success: true,
-        grade: Number(grade),
-        feedback: feedback,
-        strengths: parsedResult.strengths || '',
-        improvements: parsedResult.improvements || parsedResult.areas_for_improvement || '',
-        final_marks: Number(grade),
-        review: feedback,
-        message: 'Submission graded successfully'
-      };
-    } catch (parseError) {
-      console.log('JSON parse failed, using text format. Parse error:', parseError);
-      return {
-        success: true,
-        grade: 0,
-        feedback: gradingResult,
-        final_marks: 0,
-        review: gradingResult,
-        message: 'Submission graded successfully (text format)'
-      };
-    }
+    console.log('gradeSubmission result:', { final_marks: result.final_marks, max_marks: result.max_marks, provider: result.provider });
+    return result;
   } catch (error: any) {
-    console.error('gradeSubmission AI error:', error);
+    console.error('gradeSubmission error:', error);
+    if (error instanceof GradingError || error instanceof AiServerError) {
+      throw error;
+    }
     throw new Error(`Failed to grade submission: ${error.message}`);
   }
 };
 
-// Generate answers for assignments using AI with fallback
-export const generateAnswers = async (assignmentContent: string, maxMarks: number = 100) => {
-  console.log('=== generateAnswers DEBUG START ===');
-  console.log('Input parameters:', { assignmentContent: assignmentContent?.substring(0, 200), maxMarks });
-  
+// Ask the AI for a second opinion on a regrade ticket; the server stores it on the ticket and returns it
+export const requestRegradeOpinion = async (ticketId: string, gradingMode?: string): Promise<RegradeOpinion> => {
   try {
-    const prompt = `Based on the following assignment, generate comprehensive model answers:
+    const result = await callAiServer<{ success: boolean; opinion: RegradeOpinion }>('/regrade-ticket', {
+      ticket_id: ticketId,
+      grading_mode: gradingMode
+    });
+    return result.opinion;
+  } catch (error) {
+    console.error('requestRegradeOpinion error:', error);
+    if (error instanceof GradingError || error instanceof AiServerError) {
+      throw error;
+    }
+    throw new Error(`Failed to re-evaluate submission: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+};
 
-Assignment Content:
-${assignmentContent}
+export interface BatchGradeOutcome {
+  submissionId: string;
+  result?: GradeSubmissionResult;
+  error?: string;
+}
 
-Maximum Marks: ${maxMarks}
+// Grade many submissions with at most `concurrency` requests in flight, waiting out rate limits
+export const gradeSubmissionsBatch = async (
+  submissionIds: string[],
+  options: GradeSubmissionOptions,
+  { concurrency = 3, maxRateLimitRetries = 3, onOutcome }: {
+    concurrency?: number;
+    maxRateLimitRetries?: number;
+    onOutcome?: (outcome: BatchGradeOutcome) => void;
+  } = {}
+): Promise<BatchGradeOutcome[]> => {
+  const outcomes: BatchGradeOutcome[] = [];
+  const queue = [...submissionIds];
 
-Please provide:
-1. Complete model answers for all questions/tasks
-2. Key points that should be covered
-3. Marking scheme breakdown
-4. Alternative acceptable answers where applicable
+  const gradeOne = async (submissionId: string): Promise<BatchGradeOutcome> => {
+    for (let retry = 0; ; retry++) {
+      try {
+        return { submissionId, result: await gradeSubmission(submissionId, options) };
+      } catch (error) {
+        if (error instanceof AiServerError && error.status === 429 && retry < maxRateLimitRetries) {
+          await new Promise(resolve => setTimeout(resolve, error.retryAfterMs || 30000));
+          continue;
+        }
+        return { submissionId, error: error instanceof Error ? error.message : 'Grading failed' };
+      }
+    }
+  };
 
-Format the response clearly with proper headings and structure.`;
-    
-    console.log('Calling AI API with fallback for answers...');
-    
-    const generatedAnswers = await generateWithFallback(prompt);
-    console.log('Generated answers length:', generatedAnswers?.length || 0);
-    
-    const returnObject = {
-      success: true,
-      generated_answers: generatedAnswers,
-      max_marks: maxMarks,
-      message: 'Model answers generated successfully'
-    };
-    
-    console.log('=== generateAnswers DEBUG END ===');
-    
-    return returnObject;
+  const worker = async () => {
+    let submissionId = queue.shift();
+    while (submissionId) {
+      const outcome = await gradeOne(submissionId);
+      outcomes.push(outcome);
+      onOutcome?.(outcome);
+      submissionId = queue.shift();
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, submissionIds.length) }, worker));
+  return outcomes;
+};
+
+// Generate model answers for an assignment
+export const generateAnswers = async (assignmentId: string) => {
+  console.log('Calling generateAnswers for assignment:', assignmentId);
+
+  try {
+    const result = await callAiServer<{
+      success: boolean;
+      generated_answers: string;
+      max_marks: number;
+      provider: string;
+      message: string;
+    }>('/generate-answers', { assignment_id: assignmentId });
+
+    console.log('Generated answers length:', result.generated_answers?.length || 0, 'via', result.provider);
+    return result;
   } catch (error: any) {
-    console.error('=== generateAnswers ERROR ===');
-    console.error('Error message:', error.message);
-    console.error('=== generateAnswers ERROR END ===');
+    console.error('generateAnswers error:', error.message);
     throw new Error(`Failed to generate answers: ${error.message}`);
   }
 };
+
+// Start a timed quiz attempt, or resume the one already in progress; the questions come back without their answers
+export const startQuizAttempt = async (assignmentId: string) => {
+  return callServer<{ success: boolean; attempt: QuizAttempt; attempts_used: number; questions: AssignmentQuestion[] }>(
+    `/api/quizzes/${assignmentId}/attempts`,
+    {}
+  );
+};
+
+// Submit a quiz attempt; the server scores objective questions immediately
+export const submitQuizAttempt = async (attemptId: string, responses: QuestionResponses, autoSubmitted = false) => {
+  return callServer<{ success: boolean; attempt: QuizAttempt }>(
+    `/api/quizzes/attempts/${attemptId}/submit`,
+    { responses, auto_submitted: autoSubmitted }
+  );
+};
 // Mock API for classes, assignments, and grades
 // In a real app, these would be actual API calls to your backend
 export const getClasses = async () => {
@@ -0,0 +1,95 @@
+// Feedback comment bank types plus filtering, shortcut expansion and usage summaries
+
+export type FeedbackCommentSource = 'manual' | 'ai_strength' | 'ai_improvement';
+
+export interface FeedbackComment {
+  id: string;
+  teacher_id: string;
+  // Null for comments in the teacher's personal bank
+  class_id: string | null;
+  text: string;
+  tags: string[];
+  // Typed as /shortcut in a feedback box to insert the comment
+  shortcut: string | null;
+  source: FeedbackCommentSource;
+  usage_count: number;
+  last_used_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface FeedbackCommentUse {
+  id: string;
+  comment_id: string;
+  submission_id: string;
+  assignment_id: string;
+  used_by: string | null;
+  used_at: string;
+}
+
+export interface CommentBankFilter {
+  search?: string;
+  tag?: string;
+  scope?: 'all' | 'class' | 'personal';
+}
+
+export const COMMENT_SOURCE_LABELS: Record<FeedbackCommentSource, string> = {
+  manual: 'Written by hand',
+  ai_strength: 'From AI strengths',
+  ai_improvement: 'From AI improvements'
+};
+
+// "Structure, evidence ,structure" -> ['structure', 'evidence']
+export const parseTags = (input: string) =>
+  [...new Set(input.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean))];
+
+// Shortcuts are stored without the slash, in lower case, using letters, digits, - and _
+export const normalizeShortcut = (input: string) =>
+  input.trim().replace(/^\//, '').toLowerCase().replace(/[^a-z0-9_-]/g, '');
+
+// Most used first, then newest; search matches the text, tags and shortcut
+export const filterFeedbackComments = (items: FeedbackComment[], filter: CommentBankFilter) => {
+  const query = filter.search?.trim().toLowerCase();
+  return items
+    .filter(item =>
+      (!filter.tag || item.tags.includes(filter.tag)) &&
+      (!filter.scope || filter.scope === 'all' || (filter.scope === 'class' ? !!item.class_id : !item.class_id)) &&
+      (!query || item.text.toLowerCase().includes(query) || item.tags.some(tag => tag.includes(query)) || !!item.shortcut?.includes(query)))
+    .sort((a, b) => b.usage_count - a.usage_count || b.created_at.localeCompare(a.created_at));
+};
+
+export const distinctTags = (items: FeedbackComment[]) =>
+  [...new Set(items.flatMap(item => item.tags))].sort();
+
+// When the text just typed ends in "/shortcut" plus a space or newline, swap the shortcut for its comment.
+// Returns null when there is nothing to expand at the cursor
+export const expandShortcut = (text: string, cursor: number, items: FeedbackComment[]) => {
+  const match = text.slice(0, cursor).match(/(^|\s)\/([a-z0-9_-]+)(\s)$/i);
+  if (!match) return null;
+
+  const comment = items.find(item => item.shortcut === match[2].toLowerCase());
+  if (!comment) return null;
+
+  const start = cursor - match[2].length - 2;
+  const inserted = `${comment.text}${match[3]}`;
+  return {
+    text: text.slice(0, start) + inserted + text.slice(cursor),
+    cursor: start + inserted.length,
+    comment
+  };
+};
+
+// Add a comment on its own line after any existing feedback
+export const appendComment = (feedback: string, comment: string) => {
+  const trimmed = feedback.replace(/\s+$/, '');
+  return trimmed ? `${trimmed}\n${comment}` : comment;
+};
+
+// How often each comment was applied, most applied first
+export const summarizeCommentUsage = (uses: FeedbackCommentUse[], items: FeedbackComment[]) => {
+  const counts = new Map<string, number>();
+  uses.forEach(use => counts.set(use.comment_id, (counts.get(use.comment_id) || 0) + 1));
+  return [...counts.entries()]
+    .map(([commentId, count]) => ({ comment: items.find(item => item.id === commentId), commentId, count }))
+    .sort((a, b) => b.count - a.count);
+};
@@ -0,0 +1,60 @@
+// Late submission rules and penalty arithmetic
+import type { Assignment, LatePolicy } from './supabase';
+
+export const LATE_POLICY_LABELS: Record<LatePolicy, string> = {
+  accept: 'Accept late work (marked late)',
+  hard_close: 'Close at the due date',
+  grace_period: 'Close after a grace period',
+  penalty: 'Deduct a percentage per day late'
+};
+
+type LatePolicyFields = Pick<Assignment, 'late_policy' | 'grace_period_minutes' | 'late_penalty_per_day' | 'late_penalty_cap'>;
+
+const MINUTES_PER_DAY = 1440;
+
+// Human-readable version of minutes late, e.g. "2d 3h" or "45m"
+export const formatLateness = (minutes: number) => {
+  const days = Math.floor(minutes / MINUTES_PER_DAY);
+  const hours = Math.floor((minutes % MINUTES_PER_DAY) / 60);
+  const mins = minutes % 60;
+  if (days > 0) return hours > 0 ? `${days}d ${hours}h` : `${days}d`;
+  if (hours > 0) return mins > 0 ? `${hours}h ${mins}m` : `${hours}h`;
+  return `${mins}m`;
+};
+
+export const describeLatePolicy = (assignment: LatePolicyFields) => {
+  switch (assignment.late_policy || 'accept') {
+    case 'hard_close':
+      return 'Late work is not accepted after the due date.';
+    case 'grace_period':
+      return `Late work is accepted without penalty for ${formatLateness(assignment.grace_period_minutes || 0)} after the due date.`;
+    case 'penalty':
+      return `${assignment.late_penalty_per_day || 0}% is deducted for each started day late, up to ${assignment.late_penalty_cap || 100}%.`;
+    default:
+      return 'Late work is accepted and marked late.';
+  }
+};
+
+// Mirrors compute_submission_lateness so the submit page can warn before the save is rejected
+export const getLateStatus = (assignment: LatePolicyFields, dueDate: string, submittedAt = new Date()) => {
+  const minutesLate = Math.max(0, Math.ceil((submittedAt.getTime() - new Date(dueDate).getTime()) / 60000));
+  const policy = assignment.late_policy || 'accept';
+  let penaltyPct = 0;
+  let closed = false;
+
+  if (minutesLate > 0) {
+    if (policy === 'hard_close') {
+      closed = true;
+    } else if (policy === 'grace_period') {
+      closed = minutesLate > (assignment.grace_period_minutes || 0);
+    } else if (policy === 'penalty') {
+      penaltyPct = Math.min(assignment.late_penalty_cap || 100, Math.ceil(minutesLate / MINUTES_PER_DAY) * (assignment.late_penalty_per_day || 0));
+    }
+  }
+
+  return { isLate: minutesLate > 0, minutesLate, penaltyPct, closed };
+};
+
+// The mark after the late penalty, rounded to two decimals like question scores
+export const applyLatePenalty = (marks: number, penaltyPct: number) =>
+  Math.round(marks * (1 - Math.min(100, Math.max(0, penaltyPct)) / 100) * 100) / 100;
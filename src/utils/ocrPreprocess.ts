@@ -0,0 +1,177 @@
+// Image clean-up before OCR: grayscale, contrast stretch, deskew and binarization.
+// The pixel steps work on plain arrays; preprocessForOcr does the canvas plumbing in the browser.
+
+// Photos larger than this on their longest side are scaled down; Tesseract gains nothing past ~300 dpi
+const MAX_DIMENSION = 3000;
+// Skew is searched within ±MAX_SKEW degrees on a copy about SKEW_WIDTH pixels wide
+const MAX_SKEW = 5;
+const SKEW_WIDTH = 800;
+
+export const toGrayscale = (rgba: Uint8ClampedArray, width: number, height: number) => {
+  const gray = new Uint8ClampedArray(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    // Rec. 601 luma
+    gray[i] = rgba[i * 4] * 0.299 + rgba[i * 4 + 1] * 0.587 + rgba[i * 4 + 2] * 0.114;
+  }
+  return gray;
+};
+
+// Stretch the 1st-99th percentile to the full range so faint pencil and grey paper separate
+export const stretchContrast = (gray: Uint8ClampedArray) => {
+  const histogram = new Uint32Array(256);
+  gray.forEach(value => histogram[value]++);
+
+  const cut = gray.length * 0.01;
+  let low = 0;
+  let high = 255;
+  for (let sum = 0; low < 255 && sum + histogram[low] <= cut; low++) sum += histogram[low];
+  for (let sum = 0; high > 0 && sum + histogram[high] <= cut; high--) sum += histogram[high];
+  if (high <= low) return gray;
+
+  const scale = 255 / (high - low);
+  return gray.map(value => (value - low) * scale);
+};
+
+// Otsu's method: the threshold that best separates ink from paper
+export const otsuThreshold = (gray: Uint8ClampedArray) => {
+  const histogram = new Uint32Array(256);
+  gray.forEach(value => histogram[value]++);
+
+  let total = 0;
+  for (let i = 0; i < 256; i++) total += i * histogram[i];
+
+  let background = 0;
+  let backgroundSum = 0;
+  let best = 0;
+  let threshold = 127;
+  for (let i = 0; i < 256; i++) {
+    background += histogram[i];
+    if (background === 0) continue;
+    const foreground = gray.length - background;
+    if (foreground === 0) break;
+
+    backgroundSum += i * histogram[i];
+    const meanBackground = backgroundSum / background;
+    const meanForeground = (total - backgroundSum) / foreground;
+    const variance = background * foreground * (meanBackground - meanForeground) ** 2;
+    if (variance > best) {
+      best = variance;
+      threshold = i;
+    }
+  }
+  return threshold;
+};
+
+export const binarize = (gray: Uint8ClampedArray, threshold: number) =>
+  gray.map(value => (value > threshold ? 255 : 0));
+
+// Projection profile: text lines give the sharpest row histogram when the page is level
+const profileScore = (points: Int32Array, height: number, angle: number) => {
+  const radians = (angle * Math.PI) / 180;
+  const sin = Math.sin(radians);
+  const cos = Math.cos(radians);
+  const padding = Math.ceil(height * 0.2);
+  const rows = new Uint32Array(height + padding * 2);
+  for (let i = 0; i < points.length; i += 2) {
+    const row = Math.round(points[i + 1] * cos - points[i] * sin) + padding;
+    if (row >= 0 && row < rows.length) rows[row]++;
+  }
+  let score = 0;
+  for (let i = 1; i < rows.length; i++) score += (rows[i] - rows[i - 1]) ** 2;
+  return score;
+};
+
+// Slope of the text lines in degrees (positive when lines run downhill to the right)
+export const estimateSkew = (gray: Uint8ClampedArray, width: number, height: number, threshold: number) => {
+  const step = Math.max(1, Math.floor(width / SKEW_WIDTH));
+  const coords: number[] = [];
+  for (let y = 0; y < height; y += step) {
+    for (let x = 0; x < width; x += step) {
+      if (gray[y * width + x] <= threshold) coords.push(x / step, y / step);
+    }
+  }
+  if (coords.length < 100) return 0;
+
+  const points = Int32Array.from(coords);
+  const sampledHeight = Math.ceil(height / step);
+  const search = (from: number, to: number, increment: number) => {
+    let bestAngle = 0;
+    let bestScore = -1;
+    for (let angle = from; angle <= to + 1e-9; angle += increment) {
+      const score = profileScore(points, sampledHeight, angle);
+      if (score > bestScore) {
+        bestScore = score;
+        bestAngle = angle;
+      }
+    }
+    return bestAngle;
+  };
+
+  const coarse = search(-MAX_SKEW, MAX_SKEW, 0.5);
+  // + 0 turns -0 into 0
+  return Math.round(search(coarse - 0.5, coarse + 0.5, 0.1) * 10) / 10 + 0;
+};
+
+// Rotate about the centre so lines sloping by angle degrees come out level, filling the uncovered corners with white paper
+export const rotateGray = (gray: Uint8ClampedArray, width: number, height: number, angle: number) => {
+  if (angle === 0) return gray;
+
+  const radians = (angle * Math.PI) / 180;
+  const sin = Math.sin(radians);
+  const cos = Math.cos(radians);
+  const cx = width / 2;
+  const cy = height / 2;
+  const rotated = new Uint8ClampedArray(width * height).fill(255);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      // Inverse mapping: find where each output pixel came from
+      const sx = Math.round(cos * (x - cx) - sin * (y - cy) + cx);
+      const sy = Math.round(sin * (x - cx) + cos * (y - cy) + cy);
+      if (sx >= 0 && sx < width && sy >= 0 && sy < height) {
+        rotated[y * width + x] = gray[sy * width + sx];
+      }
+    }
+  }
+  return rotated;
+};
+
+// Run every step over an RGBA image; the skew is returned so callers can log it
+export const preprocessPixels = (rgba: Uint8ClampedArray, width: number, height: number) => {
+  const gray = stretchContrast(toGrayscale(rgba, width, height));
+  const threshold = otsuThreshold(gray);
+  const skew = estimateSkew(gray, width, height, threshold);
+  const level = rotateGray(gray, width, height, skew);
+  return { pixels: binarize(level, threshold), skew };
+};
+
+// Clean up a rendered page or photo and return it as a PNG for Tesseract
+export const preprocessForOcr = async (source: Blob | HTMLCanvasElement): Promise<Blob> => {
+  const image = source instanceof Blob ? await createImageBitmap(source) : source;
+  const scale = Math.min(1, MAX_DIMENSION / Math.max(image.width, image.height));
+  const width = Math.round(image.width * scale);
+  const height = Math.round(image.height * scale);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas is not supported in this browser');
+  }
+  context.drawImage(image, 0, 0, width, height);
+
+  const imageData = context.getImageData(0, 0, width, height);
+  const { pixels, skew } = preprocessPixels(imageData.data, width, height);
+  for (let i = 0; i < pixels.length; i++) {
+    imageData.data[i * 4] = imageData.data[i * 4 + 1] = imageData.data[i * 4 + 2] = pixels[i];
+    imageData.data[i * 4 + 3] = 255;
+  }
+  context.putImageData(imageData, 0, 0);
+  if (skew !== 0) {
+    console.log(`OCR preprocessing: corrected ${skew}° of skew`);
+  }
+
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not prepare the image for OCR'))), 'image/png');
+  });
+};
@@ -0,0 +1,68 @@
+// Question bank types plus the filtering and random selection used to build assignments from it
+import { AssignmentQuestion, createQuestion } from '../../shared/questions';
+
+export type QuestionDifficulty = 'easy' | 'medium' | 'hard';
+
+export interface BankQuestion {
+  id: string;
+  teacher_id: string;
+  // Null for questions in the teacher's personal bank
+  class_id: string | null;
+  question: AssignmentQuestion;
+  topic: string;
+  difficulty: QuestionDifficulty;
+  learning_outcome: string;
+  source_assignment_id?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface QuestionBankFilter {
+  topic?: string;
+  difficulty?: QuestionDifficulty | '';
+  learningOutcome?: string;
+  search?: string;
+  scope?: 'all' | 'class' | 'personal';
+}
+
+export const DIFFICULTY_LABELS: Record<QuestionDifficulty, string> = {
+  easy: 'Easy',
+  medium: 'Medium',
+  hard: 'Hard'
+};
+
+const matchesText = (value: string, query?: string) =>
+  !query?.trim() || value.toLowerCase().includes(query.trim().toLowerCase());
+
+// Topic and outcome match as case-insensitive substrings; search also looks inside the question text
+export const filterBankQuestions = (items: BankQuestion[], filter: QuestionBankFilter) => {
+  return items.filter(item =>
+    matchesText(item.topic, filter.topic) &&
+    matchesText(item.learning_outcome, filter.learningOutcome) &&
+    (!filter.difficulty || item.difficulty === filter.difficulty) &&
+    (!filter.scope || filter.scope === 'all' || (filter.scope === 'class' ? !!item.class_id : !item.class_id)) &&
+    (matchesText(item.question.prompt, filter.search) || matchesText(item.topic, filter.search)));
+};
+
+// Pick up to count matching questions at random, e.g. "10 medium questions on fractions"
+export const pickRandomBankQuestions = (items: BankQuestion[], count: number, filter: QuestionBankFilter) => {
+  const pool = [...filterBankQuestions(items, filter)];
+  for (let i = pool.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [pool[i], pool[j]] = [pool[j], pool[i]];
+  }
+  return pool.slice(0, Math.max(count, 0));
+};
+
+// Copy bank questions into an assignment with fresh ids, numbered after the existing questions
+export const bankQuestionsToAssignment = (items: BankQuestion[], startNumber: number): AssignmentQuestion[] => {
+  return items.map((item, i) => {
+    const { id } = createQuestion(startNumber + i);
+    return { ...item.question, id, number: startNumber + i };
+  });
+};
+
+// Distinct topics (or outcomes) for filter suggestions
+export const distinctValues = (items: BankQuestion[], field: 'topic' | 'learning_outcome') => {
+  return [...new Set(items.map(item => item[field].trim()).filter(Boolean))].sort((a, b) => a.localeCompare(b));
+};
@@ -0,0 +1,196 @@
+// Local similarity checking between submissions: word shingles, MinHash estimates to skip unrelated pairs,
+// then exact Jaccard scores and overlapping passages for the pairs that are close enough to report
+
+export interface SimilarityDocument {
+  id: string;
+  text: string;
+}
+
+// Character range [start, end) in a document's original text
+export type TextRange = [number, number];
+
+export interface SimilarityPair {
+  a: string;
+  b: string;
+  // Jaccard similarity of the two shingle sets, 0-1
+  score: number;
+  // Share of the shorter document's shingles found in the other one, 0-1; catches partial copying
+  containment: number;
+  passagesA: TextRange[];
+  passagesB: TextRange[];
+}
+
+export interface SimilarityOptions {
+  threshold?: number;
+  shingleSize?: number;
+  // Text every submission is expected to share (e.g. the question prompts), left out of the comparison
+  ignoreText?: string;
+}
+
+export const DEFAULT_SIMILARITY_THRESHOLD = 0.25;
+const MINHASH_SIZE = 128;
+
+interface Token {
+  word: string;
+  start: number;
+  end: number;
+}
+
+interface PreparedDocument {
+  id: string;
+  tokens: Token[];
+  // Shingle hash -> positions (token index of the first word) where it occurs
+  shingles: Map<number, number[]>;
+  signature: Uint32Array;
+}
+
+const tokenize = (text: string): Token[] =>
+  [...text.toLowerCase().matchAll(/[\p{L}\p{N}]+(?:'[\p{L}]+)?/gu)].map(match => ({
+    word: match[0],
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length
+  }));
+
+// 32-bit FNV-1a
+const hashString = (value: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Murmur3 finalizer; mixing the shingle hash with a per-row seed stands in for independent hash functions
+const mix = (value: number, seed: number) => {
+  let h = (value ^ seed) >>> 0;
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
+};
+
+const SEEDS = Array.from({ length: MINHASH_SIZE }, (_, i) => hashString(`minhash-${i}`));
+
+const shingleHashes = (tokens: Token[], size: number) => {
+  const shingles = new Map<number, number[]>();
+  for (let i = 0; i + size <= tokens.length; i++) {
+    const hash = hashString(tokens.slice(i, i + size).map(token => token.word).join(' '));
+    shingles.set(hash, [...(shingles.get(hash) || []), i]);
+  }
+  return shingles;
+};
+
+const prepare = (document: SimilarityDocument, size: number, ignored: Set<number>): PreparedDocument => {
+  const tokens = tokenize(document.text);
+  const shingles = shingleHashes(tokens, size);
+  ignored.forEach(hash => shingles.delete(hash));
+
+  const signature = new Uint32Array(MINHASH_SIZE).fill(0xffffffff);
+  shingles.forEach((_, hash) => {
+    for (let i = 0; i < MINHASH_SIZE; i++) {
+      const value = mix(hash, SEEDS[i]);
+      if (value < signature[i]) signature[i] = value;
+    }
+  });
+
+  return { id: document.id, tokens, shingles, signature };
+};
+
+const estimateJaccard = (a: Uint32Array, b: Uint32Array) => {
+  let equal = 0;
+  for (let i = 0; i < MINHASH_SIZE; i++) {
+    if (a[i] === b[i]) equal++;
+  }
+  return equal / MINHASH_SIZE;
+};
+
+// Merge the token spans of shared shingles into character ranges of the original text
+const sharedPassages = (document: PreparedDocument, shared: Set<number>, size: number): TextRange[] => {
+  const covered = new Array<boolean>(document.tokens.length).fill(false);
+  shared.forEach(hash => {
+    for (const position of document.shingles.get(hash) || []) {
+      for (let i = position; i < position + size; i++) covered[i] = true;
+    }
+  });
+
+  const ranges: TextRange[] = [];
+  covered.forEach((isCovered, i) => {
+    if (!isCovered) return;
+    const last = ranges[ranges.length - 1];
+    if (last && covered[i - 1]) {
+      last[1] = document.tokens[i].end;
+    } else {
+      ranges.push([document.tokens[i].start, document.tokens[i].end]);
+    }
+  });
+  return ranges;
+};
+
+// Compare every pair of documents and return the pairs scoring at or above the threshold, most similar first
+export const findSimilarPairs = (documents: SimilarityDocument[], options: SimilarityOptions = {}): SimilarityPair[] => {
+  const threshold = options.threshold ?? DEFAULT_SIMILARITY_THRESHOLD;
+  const size = options.shingleSize ?? 5;
+  const ignored = new Set(shingleHashes(tokenize(options.ignoreText || ''), size).keys());
+  const prepared = documents.map(document => prepare(document, size, ignored)).filter(document => document.shingles.size > 0);
+  const pairs: SimilarityPair[] = [];
+
+  for (let i = 0; i < prepared.length; i++) {
+    for (let j = i + 1; j < prepared.length; j++) {
+      const a = prepared[i];
+      const b = prepared[j];
+      const smaller = Math.min(a.shingles.size, b.shingles.size);
+      // Skip pairs whose estimated Jaccard and containment are both clearly below the cut-offs; the margin absorbs MinHash error
+      const estimate = estimateJaccard(a.signature, b.signature);
+      const estimatedContainment = estimate * (a.shingles.size + b.shingles.size) / (smaller * (1 + estimate));
+      if (estimate < threshold - 0.1 && estimatedContainment < threshold * 2 - 0.1) continue;
+
+      const shared = new Set<number>();
+      a.shingles.forEach((_, hash) => {
+        if (b.shingles.has(hash)) shared.add(hash);
+      });
+      if (shared.size === 0) continue;
+
+      const score = shared.size / (a.shingles.size + b.shingles.size - shared.size);
+      const containment = shared.size / smaller;
+      if (score < threshold && containment < threshold * 2) continue;
+
+      pairs.push({
+        a: a.id,
+        b: b.id,
+        score,
+        containment,
+        passagesA: sharedPassages(a, shared, size),
+        passagesB: sharedPassages(b, shared, size)
+      });
+    }
+  }
+
+  return pairs.sort((x, y) => y.score - x.score || y.containment - x.containment);
+};
+
+// Split text into plain and highlighted segments for rendering
+export const splitByRanges = (text: string, ranges: TextRange[]) => {
+  const segments: { text: string; highlighted: boolean }[] = [];
+  let cursor = 0;
+  for (const [start, end] of ranges) {
+    if (start > cursor) segments.push({ text: text.slice(cursor, start), highlighted: false });
+    segments.push({ text: text.slice(start, end), highlighted: true });
+    cursor = end;
+  }
+  if (cursor < text.length) segments.push({ text: text.slice(cursor), highlighted: false });
+  return segments;
+};
+
+// Sort and merge overlapping ranges, e.g. passages one submission shares with several others
+export const mergeRanges = (ranges: TextRange[]): TextRange[] => {
+  const merged: TextRange[] = [];
+  for (const [start, end] of [...ranges].sort((x, y) => x[0] - y[0])) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  }
+  return merged;
+};
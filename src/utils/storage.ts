@@ -81,6 +81,16 @@ export const uploadMaterial = async (
   return uploadFile(file, 'materials', classId);
 };
 
+/**
+ * Upload a file attached to a ticket message
+ */
+export const uploadTicketAttachment = async (
+  file: File,
+  ticketId: string
+): Promise<UploadResult> => {
+  return uploadFile(file, 'submissions', `tickets/${ticketId}`);
+};
+
 /**
  * Upload avatar
  */
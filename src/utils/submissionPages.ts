@@ -0,0 +1,85 @@
+// Mapping a submission's continuous page numbers onto its files, and drawing single pages for the annotation layer
+import type { SubmissionFile } from './supabase';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { splitTextIntoPages } from '../../shared/materialChunks';
+
+// Pages are drawn this wide (in canvas pixels) for marking up and for the flattened export
+const RENDER_WIDTH = 1400;
+
+export const isPdfFile = (file: SubmissionFile) => file.file_type === 'application/pdf' || file.file_name.toLowerCase().endsWith('.pdf');
+
+// Pages in the submission, counting text pages too for older PDFs whose page count was never recorded
+export const countSubmissionPages = (files: SubmissionFile[], ocrText = '') => {
+  const lastFile = files[files.length - 1];
+  return Math.max(lastFile.first_page + lastFile.page_count - 1, ...splitTextIntoPages(ocrText).map(page => page.page));
+};
+
+// The file a submission page comes from and its page number within that file. Older submissions may not know how
+// many pages a PDF has, so later pages fall back to the last file that starts before them
+export const locateSubmissionPage = (files: SubmissionFile[], page: number) => {
+  const file = files.find(item => page >= item.first_page && page < item.first_page + item.page_count)
+    || [...files].reverse().find(item => item.first_page <= page)
+    || files[0];
+  return { file, pageInFile: page - file.first_page + 1 };
+};
+
+// Documents stay loaded while the reviewer pages back and forth
+const pdfDocuments = new Map<string, Promise<PDFDocumentProxy>>();
+
+const loadPdf = (url: string) => {
+  let loading = pdfDocuments.get(url);
+  if (!loading) {
+    loading = (async () => {
+      const [pdfjsLib, pdfjsWorker] = await Promise.all([
+        import('pdfjs-dist'),
+        import('pdfjs-dist/build/pdf.worker.min.mjs?url')
+      ]);
+      pdfjsLib.GlobalWorkerOptions.workerSrc = pdfjsWorker.default;
+      return pdfjsLib.getDocument({ url }).promise;
+    })().catch(error => {
+      pdfDocuments.delete(url);
+      throw error;
+    });
+    pdfDocuments.set(url, loading);
+  }
+  return loading;
+};
+
+const loadImage = (url: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const image = new Image();
+  // Without CORS the canvas would be tainted and could not be exported
+  image.crossOrigin = 'anonymous';
+  image.onload = () => resolve(image);
+  image.onerror = () => reject(new Error('Could not load the page image'));
+  image.src = url;
+});
+
+// Draw one submission page onto a fresh canvas
+export const renderSubmissionPage = async (files: SubmissionFile[], page: number) => {
+  const { file, pageInFile } = locateSubmissionPage(files, page);
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas is not supported in this browser');
+  }
+
+  if (isPdfFile(file)) {
+    const pdf = await loadPdf(file.url);
+    if (pageInFile > pdf.numPages) {
+      throw new Error(`${file.file_name} has only ${pdf.numPages} page(s)`);
+    }
+    const pdfPage = await pdf.getPage(pageInFile);
+    const viewport = pdfPage.getViewport({ scale: RENDER_WIDTH / pdfPage.getViewport({ scale: 1 }).width });
+    canvas.width = Math.round(viewport.width);
+    canvas.height = Math.round(viewport.height);
+    await pdfPage.render({ canvas, canvasContext: context, viewport }).promise;
+    return canvas;
+  }
+
+  const image = await loadImage(file.url);
+  const scale = Math.min(1, RENDER_WIDTH / image.naturalWidth);
+  canvas.width = Math.round(image.naturalWidth * scale);
+  canvas.height = Math.round(image.naturalHeight * scale);
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
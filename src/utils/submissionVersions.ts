@@ -0,0 +1,95 @@
+// Resubmission rules and version comparison for submissions
+import type { Assignment, ResubmissionPolicy, KeepGradePolicy } from './supabase';
+
+export const RESUBMISSION_POLICY_LABELS: Record<ResubmissionPolicy, string> = {
+  none: 'No resubmissions',
+  until_due: 'Resubmit any time until the due date',
+  attempts: 'Limited number of attempts'
+};
+
+export const KEEP_GRADE_LABELS: Record<KeepGradePolicy, string> = {
+  latest: 'Keep the latest grade',
+  best: 'Keep the best grade'
+};
+
+type PolicyFields = Pick<Assignment, 'due_date' | 'resubmission_policy' | 'max_submissions'>;
+
+// Mirrors the checks in the apply_submission_version trigger so the page can explain them before the save fails;
+// dueDate is the student's own due date when they have an extension
+export const getResubmissionStatus = (assignment: PolicyFields, currentVersion = 1, dueDate = assignment.due_date, now = new Date()) => {
+  const policy = assignment.resubmission_policy || 'none';
+
+  if (policy === 'none') {
+    return { allowed: false, reason: 'Resubmissions are not allowed for this assignment.' };
+  }
+  if (policy === 'until_due') {
+    return now <= new Date(dueDate)
+      ? { allowed: true, reason: `You can resubmit until ${new Date(dueDate).toLocaleString()}.` }
+      : { allowed: false, reason: 'Resubmissions closed at the due date.' };
+  }
+
+  const maxSubmissions = assignment.max_submissions || 1;
+  const remaining = maxSubmissions - currentVersion;
+  return remaining > 0
+    ? { allowed: true, reason: `You have ${remaining} of ${maxSubmissions} submission attempt(s) left.` }
+    : { allowed: false, reason: `All ${maxSubmissions} submission attempts have been used.` };
+};
+
+export interface DiffSegment {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// Above this many token pairs the word-level table gets too large, so the diff falls back to whole lines
+const MAX_DIFF_CELLS = 4_000_000;
+
+const diffTokens = (before: string[], after: string[]): DiffSegment[] => {
+  const rows = before.length + 1;
+  const cols = after.length + 1;
+  // Longest common subsequence lengths of the suffixes, filled from the end
+  const table = new Uint32Array(rows * cols);
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      table[i * cols + j] = before[i] === after[j]
+        ? table[(i + 1) * cols + j + 1] + 1
+        : Math.max(table[(i + 1) * cols + j], table[i * cols + j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  const push = (type: DiffSegment['type'], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last?.type === type) {
+      last.text += text;
+    } else {
+      segments.push({ type, text });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      push('same', before[i]);
+      i++;
+      j++;
+    } else if (table[(i + 1) * cols + j] >= table[i * cols + j + 1]) {
+      push('removed', before[i++]);
+    } else {
+      push('added', after[j++]);
+    }
+  }
+  while (i < before.length) push('removed', before[i++]);
+  while (j < after.length) push('added', after[j++]);
+  return segments;
+};
+
+// Word-level diff of two versions' text (whitespace kept as its own tokens so the output reads naturally)
+export const diffTexts = (before: string, after: string): DiffSegment[] => {
+  const beforeWords = before.split(/(\s+)/).filter(Boolean);
+  const afterWords = after.split(/(\s+)/).filter(Boolean);
+  if ((beforeWords.length + 1) * (afterWords.length + 1) <= MAX_DIFF_CELLS) {
+    return diffTokens(beforeWords, afterWords);
+  }
+  return diffTokens(before.split(/(?<=\n)/), after.split(/(?<=\n)/));
+};
@@ -1,4 +1,14 @@
 import { createClient } from '@supabase/supabase-js';
+import type { RubricCriterion, CriterionScore } from '../../shared/rubric';
+import type { AssignmentQuestion, QuestionScore, QuestionResponses } from '../../shared/questions';
+import type { BankQuestion, QuestionDifficulty } from './questionBank';
+import type { FeedbackComment, FeedbackCommentSource, FeedbackCommentUse } from './commentBank';
+import type { AiTextCheck } from './aiTextHeuristics';
+import type { OcrPage } from '../../shared/ocrConfidence';
+import type { AnnotationContent } from './annotations';
+import type { TicketStatus, RegradeFlag, RegradeOpinion, RegradeResolution } from '../../shared/regrade';
+import type { TicketAttachment, TicketMessage, TicketRead } from './ticketMessages';
+import type { TicketPriority } from '../../shared/ticketSla';
 
 // Supabase configuration from environment variables
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL || 'https://zwagbggjuwyldhjhnzyr.supabase.co';
@@ -44,6 +54,17 @@ export interface ClassMember {
   joined_at: string;
 }
 
+export type { RubricLevel, RubricCriterion, CriterionScore } from '../../shared/rubric';
+export type { QuestionType, AssignmentQuestion, QuestionScore, QuestionResponse, QuestionResponses } from '../../shared/questions';
+export type { QuestionDifficulty, BankQuestion } from './questionBank';
+export type { FeedbackComment, FeedbackCommentSource, FeedbackCommentUse } from './commentBank';
+export type { AiTextCheck, AiTextSignal } from './aiTextHeuristics';
+export type { OcrWord, OcrPage } from '../../shared/ocrConfidence';
+export type { AnnotationKind, AnnotationPoint, AnnotationContent } from './annotations';
+export type { TicketStatus, RegradeFlag, RegradeOpinion, RegradeResolution } from '../../shared/regrade';
+export type { TicketAttachment, TicketMessage, TicketRead } from './ticketMessages';
+export type { TicketPriority } from '../../shared/ticketSla';
+
 export interface Assignment {
   id: string;
   class_id: string;
@@ -55,31 +76,230 @@ export interface Assignment {
   due_date: string;
   is_ai_generated: boolean;
   ai_prompt?: string;
+  rubric?: RubricCriterion[];
+  questions?: AssignmentQuestion[] | null;
+  answer_key?: string;
+  grades_release_at?: string | null;
+  grading_samples?: number;
+  grading_sample_mode?: GradingSampleMode;
+  spread_threshold_pct?: number;
+  kind?: AssignmentKind;
+  opens_at?: string | null;
+  duration_minutes?: number | null;
+  max_attempts?: number;
+  shuffle_questions?: boolean;
+  shuffle_options?: boolean;
+  resubmission_policy?: ResubmissionPolicy;
+  max_submissions?: number | null;
+  keep_grade?: KeepGradePolicy;
+  late_policy?: LatePolicy;
+  grace_period_minutes?: number | null;
+  late_penalty_per_day?: number | null;
+  late_penalty_cap?: number | null;
   created_at: string;
   updated_at: string;
 }
 
-export interface Submission {
+export type AssignmentKind = 'assignment' | 'quiz';
+
+export type LatePolicy = 'accept' | 'hard_close' | 'grace_period' | 'penalty';
+
+// A per-student due date that replaces the assignment's due date
+export interface AssignmentExtension {
   id: string;
   assignment_id: string;
   student_id: string;
-  file_url: string;
+  due_date: string;
+  reason: string;
+  granted_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type ResubmissionPolicy = 'none' | 'until_due' | 'attempts';
+
+export type KeepGradePolicy = 'latest' | 'best';
+
+// One submitted version of a submission; the submission row mirrors the latest version
+export interface SubmissionVersion {
+  id: string;
+  submission_id: string;
+  version_number: number;
+  file_url: string | null;
+  file_name: string | null;
+  files: SubmissionFile[] | null;
+  ocr_text: string | null;
+  responses: QuestionResponses | null;
+  grade: number | null;
+  feedback: string | null;
+  graded_at: string | null;
+  submitted_at: string;
+}
+
+// Teacher mark-up on one page of one submission version; coordinates are fractions of the page size
+export type SubmissionAnnotation = AnnotationContent & {
+  id: string;
+  submission_id: string;
+  version_number: number;
+  page: number;
+  color: string;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+// One timed attempt at a quiz; started and scored by the server, autosaved by the student
+export interface QuizAttempt {
+  id: string;
+  assignment_id: string;
+  student_id: string;
+  attempt_number: number;
+  started_at: string;
+  expires_at: string;
+  submitted_at: string | null;
+  responses: QuestionResponses;
+  score: number | null;
+  max_score: number | null;
+  auto_submitted: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// One uploaded file of a multi-file submission, in the order the student arranged them
+export interface SubmissionFile {
+  url: string;
+  path: string;
   file_name: string;
+  file_type: string;
+  file_size: number;
+  // Pages this file occupies in the submission's page-numbered ocr_text
+  first_page: number;
+  page_count: number;
+}
+
+export interface Submission {
+  id: string;
+  assignment_id: string;
+  student_id: string;
+  // The first file; kept alongside files for older readers
+  file_url: string | null;
+  file_name: string | null;
+  files?: SubmissionFile[] | null;
+  // The text grading reads: the OCR output with any corrections made by the student or teacher
   ocr_text: string;
+  // The OCR output as it came out of the scanner, kept when ocr_text is corrected
+  ocr_raw_text?: string | null;
+  ocr_pages?: OcrPage[] | null;
+  ocr_confidence?: number | null;
+  ocr_corrected_at?: string | null;
+  ocr_corrected_by?: string | null;
+  responses?: QuestionResponses | null;
   grade?: number;
   feedback?: string;
+  criterion_scores?: CriterionScore[];
+  question_scores?: QuestionScore[] | null;
+  raw_score?: number;
+  raw_score_max?: number;
+  grading_status?: 'pending' | 'processing' | 'completed' | 'failed';
+  ai_draft?: GradeDraft | null;
+  grading_samples?: GradingSample[] | null;
+  grade_spread?: number | null;
+  needs_review?: boolean;
+  ai_text_check?: AiTextCheck | null;
+  current_version?: number;
+  // Version whose grade is in grade; older than current_version when the assignment keeps the best grade
+  counted_version?: number | null;
+  // Worked out when the work is submitted; grade is the raw mark and late_penalty_pct is deducted from it
+  is_late?: boolean;
+  minutes_late?: number;
+  late_penalty_pct?: number;
+  effective_due_date?: string | null;
+  release_status?: 'draft' | 'released';
+  released_at?: string;
+  release_notified_at?: string;
   graded_at?: string;
   graded_by?: string;
   submitted_at: string;
 }
 
+export type GradingSampleMode = 'repeat' | 'dual_provider';
+
+// One independent AI grading run when an assignment grades each submission several times
+export interface GradingSample {
+  final_marks: number;
+  provider?: string;
+  model?: string;
+  error?: string;
+}
+
+// AI grade produced by bulk grading that a teacher has not yet approved
+export interface GradeDraft {
+  grade: number;
+  feedback: string;
+  criterion_scores: CriterionScore[];
+  question_scores?: QuestionScore[];
+  raw_score: number;
+  raw_score_max: number;
+  grading_mode: string;
+  provider?: string;
+  samples?: GradingSample[];
+  spread?: number;
+  needs_review?: boolean;
+  generated_at: string;
+}
+
+export interface GradingJobAttempt {
+  attempt: number;
+  started_at: string;
+  latency_ms: number;
+  provider?: string;
+  model?: string;
+  error?: string;
+  provider_attempts: {
+    provider: string;
+    model: string;
+    attempt: number;
+    latency_ms: number;
+    error?: string;
+  }[];
+}
+
+export interface GradingJob {
+  id: string;
+  submission_id: string;
+  status: 'queued' | 'running' | 'done' | 'failed';
+  attempts: number;
+  max_attempts: number;
+  next_run_at: string;
+  last_error?: string;
+  attempt_log: GradingJobAttempt[];
+  queued_at: string;
+  completed_at?: string;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface Ticket {
   id: string;
   submission_id: string;
   student_id: string;
   title: string;
   reason: string;
-  status: 'open' | 'in_progress' | 'resolved' | 'closed';
+  status: TicketStatus;
+  // Questions and rubric criteria the student wants regraded
+  flagged_items: RegradeFlag[];
+  ai_reevaluation?: RegradeOpinion | null;
+  ai_reevaluated_at?: string | null;
+  resolution?: RegradeResolution | null;
+  priority: TicketPriority;
+  // Due-by target from the priority and when the ticket was opened
+  due_at: string | null;
+  // Teacher of the class handling the ticket; null leaves it with the assignment's teacher
+  assigned_to: string | null;
+  first_response_at: string | null;
+  resolved_at: string | null;
+  last_reminded_at: string | null;
+  reminder_count: number;
   teacher_response?: string;
   responded_by?: string;
   responded_at?: string;
@@ -87,6 +307,34 @@ export interface Ticket {
   updated_at: string;
 }
 
+// A ticket with the assignment and class it was raised on, as loaded by getUserTickets and getTeacherTickets
+export interface TicketWithClass extends Ticket {
+  submissions?: {
+    id: string;
+    assignments?: {
+      id: string;
+      title: string;
+      classes?: { id: string; name: string } | null;
+    } | null;
+  } | null;
+}
+
+// A grade changed through a regrade ticket, with the scores before and after
+export interface GradeChange {
+  id: string;
+  submission_id: string;
+  ticket_id: string | null;
+  previous_grade: number | null;
+  new_grade: number;
+  previous_criterion_scores: CriterionScore[] | null;
+  new_criterion_scores: CriterionScore[] | null;
+  previous_question_scores: QuestionScore[] | null;
+  new_question_scores: QuestionScore[] | null;
+  reason: string;
+  changed_by: string | null;
+  created_at: string;
+}
+
 export interface Notification {
   id: string;
   user_id: string;
@@ -559,6 +807,24 @@ export const createAssignment = async (assignmentData: {
   due_date: string;
   is_ai_generated: boolean;
   ai_prompt?: string;
+  rubric?: RubricCriterion[];
+  questions?: AssignmentQuestion[];
+  grading_samples?: number;
+  grading_sample_mode?: GradingSampleMode;
+  spread_threshold_pct?: number;
+  kind?: AssignmentKind;
+  opens_at?: string | null;
+  duration_minutes?: number | null;
+  max_attempts?: number;
+  shuffle_questions?: boolean;
+  shuffle_options?: boolean;
+  resubmission_policy?: ResubmissionPolicy;
+  max_submissions?: number | null;
+  keep_grade?: KeepGradePolicy;
+  late_policy?: LatePolicy;
+  grace_period_minutes?: number | null;
+  late_penalty_per_day?: number | null;
+  late_penalty_cap?: number | null;
 }) => {
   const { data, error } = await supabase
     .from('assignments')
@@ -586,6 +852,13 @@ export const getClassAssignments = async (classId: string) => {
   return { data, error };
 };
 
+// Answers are in assignment_answer_keys, which only the class's teachers can read; embed it as
+// assignment_answer_keys (answer_key, questions) and this puts the answers back when the caller could read them
+const withAnswerKeys = <T extends { answer_key?: string | null; questions?: AssignmentQuestion[] | null; assignment_answer_keys?: unknown }>({ assignment_answer_keys: keys, ...assignment }: T) => {
+  const key = (Array.isArray(keys) ? keys[0] : keys) as { answer_key?: string | null; questions?: AssignmentQuestion[] | null } | null | undefined;
+  return { ...assignment, answer_key: key?.answer_key ?? assignment.answer_key, questions: key?.questions ?? assignment.questions };
+};
+
 export const getAssignmentDetails = async (assignmentId: string) => {
   const { data, error } = await supabase
     .from('assignments')
@@ -600,12 +873,27 @@ export const getAssignmentDetails = async (assignmentId: string) => {
         id,
         name,
         subject
+      ),
+      assignment_answer_keys (
+        answer_key,
+        questions
       )
     `)
     .eq('id', assignmentId)
     .single();
 
-  return { data, error };
+  if (error || !data) {
+    return { data, error };
+  }
+
+  // Students get a quiz's questions only once it opens; teachers already have them from the answer keys
+  const assignment = withAnswerKeys(data);
+  if (assignment.kind === 'quiz' && !assignment.questions) {
+    const { data: questions } = await supabase.rpc('get_quiz_questions', { p_assignment_id: assignmentId });
+    assignment.questions = questions;
+  }
+
+  return { data: assignment, error };
 };
 
 export const updateAssignment = async (assignmentId: string, updates: Partial<Assignment>) => {
@@ -630,6 +918,18 @@ export const updateAssignmentAnswerKey = async (assignmentId: string, answerKey:
   return { data, error };
 };
 
+// Save the numbered questions used for per-question grading
+export const updateAssignmentQuestions = async (assignmentId: string, questions: AssignmentQuestion[] | null) => {
+  const { data, error } = await supabase
+    .from('assignments')
+    .update({ questions })
+    .eq('id', assignmentId)
+    .select()
+    .single();
+
+  return { data, error };
+};
+
 export const deleteAssignment = async (assignmentId: string) => {
   const { error } = await supabase
     .from('assignments')
@@ -688,9 +988,16 @@ export const getUserAssignments = async (userId: string) => {
 export const createSubmission = async (submissionData: {
   assignment_id: string;
   student_id: string;
-  file_url: string;
-  file_name: string;
+  file_url: string | null;
+  file_name: string | null;
+  files?: SubmissionFile[] | null;
   ocr_text?: string;
+  ocr_raw_text?: string | null;
+  ocr_pages?: OcrPage[] | null;
+  ocr_confidence?: number | null;
+  ocr_corrected_at?: string | null;
+  ocr_corrected_by?: string | null;
+  responses?: QuestionResponses;
 }) => {
   // First, get the class_id from the assignment
   const { data: assignment } = await supabase
@@ -715,9 +1022,27 @@ export const createSubmission = async (submissionData: {
 };
 
 export const updateSubmission = async (submissionId: string, updates: {
+  file_url?: string | null;
+  file_name?: string | null;
+  files?: SubmissionFile[] | null;
   ocr_text?: string;
+  ocr_raw_text?: string | null;
+  ocr_pages?: OcrPage[] | null;
+  ocr_confidence?: number | null;
+  ocr_corrected_at?: string | null;
+  ocr_corrected_by?: string | null;
+  responses?: QuestionResponses;
   grade?: number;
   feedback?: string;
+  criterion_scores?: CriterionScore[];
+  question_scores?: QuestionScore[] | null;
+  raw_score?: number;
+  raw_score_max?: number;
+  ai_draft?: GradeDraft | null;
+  grading_samples?: GradingSample[] | null;
+  grade_spread?: number | null;
+  needs_review?: boolean;
+  ai_text_check?: AiTextCheck | null;
   graded_at?: string;
   graded_by?: string;
 }) => {
@@ -731,9 +1056,130 @@ export const updateSubmission = async (submissionId: string, updates: {
   return { data, error };
 };
 
+// A student replacing their files, OCR text or answers; students cannot update the submissions table directly
+export const resubmitSubmission = async (submissionId: string, updates: {
+  file_url?: string | null;
+  file_name?: string | null;
+  files?: SubmissionFile[] | null;
+  ocr_text?: string;
+  ocr_raw_text?: string | null;
+  ocr_pages?: OcrPage[] | null;
+  ocr_confidence?: number | null;
+  ocr_corrected_at?: string | null;
+  ocr_corrected_by?: string | null;
+  responses?: QuestionResponses;
+}) => {
+  const { data, error } = await supabase.rpc('resubmit_submission', {
+    p_submission_id: submissionId,
+    p_updates: updates
+  });
+
+  return { data, error };
+};
+
+// Get every version of a submission, oldest first
+export const getSubmissionVersions = async (submissionId: string) => {
+  const { data, error } = await supabase
+    .from('submission_versions')
+    .select('*')
+    .eq('submission_id', submissionId)
+    .order('version_number', { ascending: true });
+
+  return { data: (data || []) as SubmissionVersion[], error };
+};
+
+// Get the annotations on one version of a submission, in the order they were drawn
+export const getSubmissionAnnotations = async (submissionId: string, versionNumber: number) => {
+  const { data, error } = await supabase
+    .from('submission_annotations')
+    .select('*')
+    .eq('submission_id', submissionId)
+    .eq('version_number', versionNumber)
+    .order('created_at', { ascending: true });
+
+  return { data: (data || []) as SubmissionAnnotation[], error };
+};
+
+export const createSubmissionAnnotation = async (annotation: AnnotationContent & {
+  submission_id: string;
+  version_number: number;
+  page: number;
+  color: string;
+  created_by: string;
+}) => {
+  const { data, error } = await supabase
+    .from('submission_annotations')
+    .insert(annotation)
+    .select()
+    .single();
+
+  return { data: data as SubmissionAnnotation | null, error };
+};
+
+export const deleteSubmissionAnnotation = async (annotationId: string) => {
+  const { error } = await supabase
+    .from('submission_annotations')
+    .delete()
+    .eq('id', annotationId);
+
+  return { error };
+};
+
+// Get the extensions granted on a class's assignments
+export const getClassExtensions = async (classId: string) => {
+  const { data, error } = await supabase
+    .from('assignment_extensions')
+    .select('*, assignments!inner (id, title, due_date, class_id)')
+    .eq('assignments.class_id', classId)
+    .order('due_date', { ascending: true });
+
+  return { data, error };
+};
+
+// Get a student's extension for an assignment, if any
+export const getAssignmentExtension = async (assignmentId: string, studentId: string) => {
+  const { data, error } = await supabase
+    .from('assignment_extensions')
+    .select('*')
+    .eq('assignment_id', assignmentId)
+    .eq('student_id', studentId)
+    .maybeSingle();
+
+  return { data: data as AssignmentExtension | null, error };
+};
+
+// Grant or move a student's extension; work already submitted is re-evaluated against the new due date
+export const saveAssignmentExtension = async (extension: {
+  assignment_id: string;
+  student_id: string;
+  due_date: string;
+  reason: string;
+  granted_by: string;
+}) => {
+  const { data, error } = await supabase
+    .from('assignment_extensions')
+    .upsert(extension, { onConflict: 'assignment_id,student_id' })
+    .select()
+    .single();
+
+  return { data, error };
+};
+
+export const deleteAssignmentExtension = async (extensionId: string) => {
+  const { error } = await supabase
+    .from('assignment_extensions')
+    .delete()
+    .eq('id', extensionId);
+
+  return { error };
+};
+
+// The student's own submission, read through get_own_submissions() so unreleased grades never leave the database
 export const getSubmission = async (assignmentId: string, studentId: string) => {
   const { data, error } = await supabase
-    .from('submissions')
+    .rpc('get_own_submissions')
+    .eq('assignment_id', assignmentId)
+    .eq('student_id', studentId)
     .select(`
       *,
       assignments (
@@ -741,7 +1187,9 @@ export const getSubmission = async (assignmentId: string, studentId: string) =>
         title,
         content,
         max_marks,
-        due_date
+        rubric,
+        due_date,
+        grades_release_at
       ),
       users!submissions_student_id_fkey (
         id,
@@ -749,11 +1197,10 @@ export const getSubmission = async (assignmentId: string, studentId: string) =>
         email
       )
     `)
-    .eq('assignment_id', assignmentId)
-    .eq('student_id', studentId)
     .single();
 
-  return { data, error };
+  // The database already masks unreleased grades; masking again covers a release time that passes while the page is open
+  return { data: data && maskUnreleasedGrade(data, data.assignments?.grades_release_at), error };
 };
 
 export const getAssignmentSubmissions = async (assignmentId: string) => {
@@ -819,7 +1266,8 @@ export const getAssignmentSubmissions = async (assignmentId: string) => {
 
 export const getUserSubmissions = async (userId: string) => {
   const { data, error } = await supabase
-    .from('submissions')
+    .rpc('get_own_submissions')
+    .eq('student_id', userId)
     .select(`
       *,
       assignments (
@@ -834,7 +1282,6 @@ export const getUserSubmissions = async (userId: string) => {
         )
       )
     `)
-    .eq('student_id', userId)
     .order('submitted_at', { ascending: false });
 
   return { data, error };
@@ -853,11 +1300,19 @@ export const getSubmissionById = async (submissionId: string) => {
         title,
         content,
         max_marks,
+        rubric,
+        questions,
+        answer_key,
         due_date,
+        grades_release_at,
         classes (
           id,
           name,
           subject
+        ),
+        assignment_answer_keys (
+          answer_key,
+          questions
         )
       )
     `)
@@ -870,6 +1325,8 @@ export const getSubmissionById = async (submissionId: string) => {
     return { data, error };
   }
 
+  data.assignments = withAnswerKeys(data.assignments);
+
   // Try to fetch user data, but use fallback if it fails
   try {
     const { data: userData, error: userError } = await supabase
@@ -907,6 +1364,264 @@ export const getSubmissionById = async (submissionId: string) => {
   return { data, error };
 };
 
+// Question bank functions
+// The class's shared questions plus the teacher's personal bank
+export const getQuestionBank = async (classId: string, teacherId: string) => {
+  const { data, error } = await supabase
+    .from('question_bank')
+    .select('*')
+    .or(`class_id.eq.${classId},and(class_id.is.null,teacher_id.eq.${teacherId})`)
+    .order('created_at', { ascending: false });
+
+  return { data: (data || []) as BankQuestion[], error };
+};
+
+export const addQuestionsToBank = async (entries: {
+  teacher_id: string;
+  class_id: string | null;
+  question: AssignmentQuestion;
+  topic: string;
+  difficulty: QuestionDifficulty;
+  learning_outcome: string;
+  source_assignment_id?: string | null;
+}[]) => {
+  const { data, error } = await supabase
+    .from('question_bank')
+    .insert(entries)
+    .select();
+
+  return { data: (data || []) as BankQuestion[], error };
+};
+
+export const updateBankQuestion = async (questionId: string, updates: {
+  question?: AssignmentQuestion;
+  topic?: string;
+  difficulty?: QuestionDifficulty;
+  learning_outcome?: string;
+  class_id?: string | null;
+}) => {
+  const { data, error } = await supabase
+    .from('question_bank')
+    .update(updates)
+    .eq('id', questionId)
+    .select()
+    .single();
+
+  return { data: data as BankQuestion | null, error };
+};
+
+export const deleteBankQuestion = async (questionId: string) => {
+  const { error } = await supabase
+    .from('question_bank')
+    .delete()
+    .eq('id', questionId);
+
+  return { error };
+};
+
+// Feedback comment bank functions
+// The class's shared comments plus the teacher's personal ones
+export const getFeedbackComments = async (classId: string, teacherId: string) => {
+  const { data, error } = await supabase
+    .from('feedback_comments')
+    .select('*')
+    .or(`class_id.eq.${classId},and(class_id.is.null,teacher_id.eq.${teacherId})`)
+    .order('usage_count', { ascending: false });
+
+  return { data: (data || []) as FeedbackComment[], error };
+};
+
+export const createFeedbackComment = async (comment: {
+  teacher_id: string;
+  class_id: string | null;
+  text: string;
+  tags: string[];
+  shortcut: string | null;
+  source?: FeedbackCommentSource;
+}) => {
+  const { data, error } = await supabase
+    .from('feedback_comments')
+    .insert(comment)
+    .select()
+    .single();
+
+  return { data: data as FeedbackComment | null, error };
+};
+
+export const updateFeedbackComment = async (commentId: string, updates: {
+  text?: string;
+  tags?: string[];
+  shortcut?: string | null;
+  class_id?: string | null;
+}) => {
+  const { data, error } = await supabase
+    .from('feedback_comments')
+    .update(updates)
+    .eq('id', commentId)
+    .select()
+    .single();
+
+  return { data: data as FeedbackComment | null, error };
+};
+
+export const deleteFeedbackComment = async (commentId: string) => {
+  const { error } = await supabase
+    .from('feedback_comments')
+    .delete()
+    .eq('id', commentId);
+
+  return { error };
+};
+
+// Record that comments went into a saved grade; a comment counts once per submission however often it is re-saved
+export const recordFeedbackCommentUses = async (uses: {
+  comment_id: string;
+  submission_id: string;
+  assignment_id: string;
+  used_by: string;
+}[]) => {
+  const { error } = await supabase
+    .from('feedback_comment_uses')
+    .upsert(uses, { onConflict: 'comment_id,submission_id', ignoreDuplicates: true });
+
+  return { error };
+};
+
+export const getAssignmentCommentUses = async (assignmentId: string) => {
+  const { data, error } = await supabase
+    .from('feedback_comment_uses')
+    .select('*')
+    .eq('assignment_id', assignmentId);
+
+  return { data: (data || []) as FeedbackCommentUse[], error };
+};
+
+// Quiz attempt functions
+export const getQuizAttempts = async (assignmentId: string, studentId?: string) => {
+  let query = supabase
+    .from('quiz_attempts')
+    .select('*')
+    .eq('assignment_id', assignmentId)
+    .order('attempt_number', { ascending: true });
+
+  if (studentId) {
+    query = query.eq('student_id', studentId);
+  }
+
+  const { data, error } = await query;
+  return { data: (data || []) as QuizAttempt[], error };
+};
+
+// Autosave answers while an attempt is open; RLS rejects writes once it is submitted or expired
+export const saveQuizAttemptResponses = async (attemptId: string, responses: QuestionResponses) => {
+  const { error } = await supabase
+    .from('quiz_attempts')
+    .update({ responses })
+    .eq('id', attemptId);
+
+  return { error };
+};
+
+// Grading job functions
+export const getGradingJob = async (submissionId: string) => {
+  const { data, error } = await supabase
+    .from('grading_jobs')
+    .select('*')
+    .eq('submission_id', submissionId)
+    .maybeSingle();
+
+  return { data: data as GradingJob | null, error };
+};
+
+// Put a submission back on the grading queue with a fresh set of attempts
+export const requeueGradingJob = async (submissionId: string) => {
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .from('grading_jobs')
+    .update({
+      status: 'queued',
+      attempts: 0,
+      next_run_at: now,
+      queued_at: now,
+      last_error: null,
+      completed_at: null
+    })
+    .eq('submission_id', submissionId)
+    .select()
+    .single();
+
+  return { data: data as GradingJob | null, error };
+};
+
+// Grade release functions
+// Whether a student may see a submission's grade yet; public.is_grade_released() applies the same rule in the database
+export const isGradeVisible = (submission: { release_status?: string }, gradesReleaseAt?: string | null) => {
+  return submission.release_status === 'released' && (!gradesReleaseAt || new Date(gradesReleaseAt) <= new Date());
+};
+
+const maskUnreleasedGrade = <T extends { release_status?: string }>(submission: T, gradesReleaseAt?: string | null): T => {
+  if (isGradeVisible(submission, gradesReleaseAt)) {
+    return submission;
+  }
+
+  return {
+    ...submission,
+    grade: null,
+    feedback: null,
+    criterion_scores: null,
+    question_scores: null,
+    raw_score: null,
+    raw_score_max: null,
+    ai_draft: null,
+    grading_samples: null,
+    grade_spread: null
+  };
+};
+
+export const updateAssignmentGradeRelease = async (assignmentId: string, gradesReleaseAt: string | null) => {
+  const { data, error } = await supabase
+    .from('assignments')
+    .update({ grades_release_at: gradesReleaseAt })
+    .eq('id', assignmentId)
+    .select()
+    .single();
+
+  return { data, error };
+};
+
+// Release graded submissions; students are notified now, or by the server once grades_release_at passes
+export const releaseGrades = async (
+  assignment: { title: string; max_marks: number; grades_release_at?: string | null },
+  submissions: { id: string; student_id: string; grade?: number | null }[]
+) => {
+  const now = new Date().toISOString();
+  const notifyNow = !assignment.grades_release_at || new Date(assignment.grades_release_at) <= new Date();
+
+  const { data, error } = await supabase
+    .from('submissions')
+    .update({
+      release_status: 'released',
+      released_at: now,
+      release_notified_at: notifyNow ? now : null
+    })
+    .in('id', submissions.map(sub => sub.id))
+    .select();
+
+  if (error || !notifyNow) {
+    return { data, error };
+  }
+
+  await Promise.all(submissions.map(sub => createNotification({
+    user_id: sub.student_id,
+    title: 'Grade Released',
+    message: `Your grade for "${assignment.title}" is now available. Score: ${sub.grade}/${assignment.max_marks}`,
+    type: 'grade',
+    related_id: sub.id
+  })));
+
+  return { data, error };
+};
+
 // Ticket management functions
 export const createTicket = async (ticketData: {
   submission_id: string;
@@ -914,6 +1629,7 @@ export const createTicket = async (ticketData: {
   title: string;
   reason: string;
   class_name: string;
+  flagged_items?: RegradeFlag[];
 }) => {
   const { data, error } = await supabase
     .from('tickets')
@@ -925,7 +1641,9 @@ export const createTicket = async (ticketData: {
 };
 
 export const updateTicket = async (ticketId: string, updates: {
-  status?: 'open' | 'in_progress' | 'resolved' | 'closed';
+  status?: TicketStatus;
+  priority?: TicketPriority;
+  assigned_to?: string | null;
   teacher_response?: string;
   responded_by?: string;
   responded_at?: string;
@@ -940,6 +1658,95 @@ export const updateTicket = async (ticketId: string, updates: {
   return { data, error };
 };
 
+// Accept a new score (writing it to the submission with an audit record) or uphold the grade, and resolve the ticket
+export const resolveRegradeTicket = async (ticketId: string, resolution: {
+  accept: boolean;
+  response: string;
+  grade?: number;
+  criterion_scores?: CriterionScore[] | null;
+  question_scores?: QuestionScore[] | null;
+}) => {
+  const { data, error } = await supabase.rpc('resolve_regrade_ticket', {
+    p_ticket_id: ticketId,
+    p_accept: resolution.accept,
+    p_response: resolution.response,
+    p_grade: resolution.grade ?? null,
+    p_criterion_scores: resolution.criterion_scores?.length ? resolution.criterion_scores : null,
+    p_question_scores: resolution.question_scores?.length ? resolution.question_scores : null
+  });
+
+  return { data: data as Ticket | null, error };
+};
+
+export const getGradeChanges = async (submissionId: string) => {
+  const { data, error } = await supabase
+    .from('grade_changes')
+    .select('*')
+    .eq('submission_id', submissionId)
+    .order('created_at', { ascending: false });
+
+  return { data: (data || []) as GradeChange[], error };
+};
+
+// A ticket's conversation, oldest first
+export const getTicketMessages = async (ticketId: string) => {
+  const { data, error } = await supabase
+    .from('ticket_messages')
+    .select(`
+      *,
+      sender:users!sender_id (
+        id,
+        name
+      )
+    `)
+    .eq('ticket_id', ticketId)
+    .order('created_at', { ascending: true });
+
+  return { data: (data || []) as TicketMessage[], error };
+};
+
+export const createTicketMessage = async (message: {
+  ticket_id: string;
+  sender_id: string;
+  body: string;
+  parent_id?: string | null;
+  attachments?: TicketAttachment[];
+}) => {
+  const { data, error } = await supabase
+    .from('ticket_messages')
+    .insert(message)
+    .select(`
+      *,
+      sender:users!sender_id (
+        id,
+        name
+      )
+    `)
+    .single();
+
+  return { data: data as TicketMessage | null, error };
+};
+
+export const getTicketReads = async (ticketId: string) => {
+  const { data, error } = await supabase
+    .from('ticket_reads')
+    .select('*')
+    .eq('ticket_id', ticketId);
+
+  return { data: (data || []) as TicketRead[], error };
+};
+
+// Record that the user has read the conversation up to now
+export const markTicketRead = async (ticketId: string, userId: string) => {
+  const { data, error } = await supabase
+    .from('ticket_reads')
+    .upsert({ ticket_id: ticketId, user_id: userId, last_read_at: new Date().toISOString() }, { onConflict: 'ticket_id,user_id' })
+    .select()
+    .single();
+
+  return { data: data as TicketRead | null, error };
+};
+
 export const getTicketsBySubmission = async (submissionId: string) => {
   const { data, error } = await supabase
     .from('tickets')
@@ -984,6 +1791,7 @@ export const getUserTickets = async (userId: string) => {
           id,
           title,
           max_marks,
+          teacher_id,
           classes (
             id,
             name,
@@ -995,6 +1803,15 @@ export const getUserTickets = async (userId: string) => {
         id,
         name,
         email
+      ),
+      ticket_messages (
+        id,
+        sender_id,
+        created_at
+      ),
+      ticket_reads (
+        user_id,
+        last_read_at
       )
     `)
     .eq('student_id', userId)
@@ -1074,6 +1891,16 @@ export const getClassGradesComprehensive = async (classId: string) => {
     return { data: null, error };
   }
 
+  // Lateness is not part of the RPC result, so it is read from the submissions separately
+  const submissionIds = (data || []).map((row: { submission_id: string | null }) => row.submission_id).filter(Boolean);
+  const { data: lateness } = submissionIds.length > 0
+    ? await supabase
+      .from('submissions')
+      .select('id, is_late, minutes_late, late_penalty_pct')
+      .in('id', submissionIds)
+    : { data: [] };
+  const latenessById = new Map((lateness || []).map(item => [item.id, item]));
+
   // Transform data to match GradesSpreadsheet expected format
   const transformedData = data?.map((row: any) => ({
     id: row.submission_id || `${row.student_id}-${row.assignment_id}`,
@@ -1086,7 +1913,10 @@ export const getClassGradesComprehensive = async (classId: string) => {
     submitted: !!row.submission_id,
     submittedAt: row.submitted_at,
     gradedAt: row.graded_at,
-    feedback: row.feedback
+    feedback: row.feedback,
+    isLate: latenessById.get(row.submission_id)?.is_late || false,
+    minutesLate: latenessById.get(row.submission_id)?.minutes_late || 0,
+    latePenaltyPct: Number(latenessById.get(row.submission_id)?.late_penalty_pct || 0)
   })) || [];
 
   return { data: transformedData, error: null };
@@ -1109,10 +1939,10 @@ export const getStudentGrades = async (classId: string, studentId: string) => {
     // Get student's submissions for these assignments
     const assignmentIds = assignments?.map(a => a.id) || [];
     const { data: submissions, error: submissionsError } = await supabase
-      .from('submissions')
-      .select('id, assignment_id, grade, submitted_at, graded_at, feedback')
+      .rpc('get_own_submissions')
       .eq('student_id', studentId)
-      .in('assignment_id', assignmentIds);
+      .in('assignment_id', assignmentIds)
+      .select('id, assignment_id, grade, submitted_at, graded_at, feedback, release_status, is_late, minutes_late, late_penalty_pct');
 
     if (submissionsError) {
       return { data: null, error: submissionsError };
@@ -1120,7 +1950,11 @@ export const getStudentGrades = async (classId: string, studentId: string) => {
 
     // Create student grade data
     const studentGrades = assignments?.map(assignment => {
-      const submission = submissions?.find(s => s.assignment_id === assignment.id);
+      const found = submissions?.find(s => s.assignment_id === assignment.id);
+      const submission = found && maskUnreleasedGrade(found, assignment.grades_release_at);
+      const releaseAt = assignment.grades_release_at && new Date(assignment.grades_release_at) > new Date()
+        ? assignment.grades_release_at
+        : undefined;
 
       return {
         id: submission?.id || `${studentId}-${assignment.id}`,
@@ -1132,7 +1966,11 @@ export const getStudentGrades = async (classId: string, studentId: string) => {
         submittedAt: submission?.submitted_at,
         gradedAt: submission?.graded_at,
         dueDate: assignment.due_date,
-        feedback: submission?.feedback
+        feedback: submission?.feedback,
+        isLate: submission?.is_late || false,
+        minutesLate: submission?.minutes_late || 0,
+        latePenaltyPct: Number(submission?.late_penalty_pct || 0),
+        releaseAt
       };
     }) || [];
 
@@ -1143,10 +1981,7 @@ export const getStudentGrades = async (classId: string, studentId: string) => {
 };
 
 // New function to get all tickets for a teacher across all their classes
-export const getTeacherTickets = async (teacherId: string) => {
-  const { data, error } = await supabase
-    .from('tickets')
-    .select(`
+const TEACHER_TICKET_SELECT = `
       *,
       student:users!student_id (
         id,
@@ -1158,13 +1993,21 @@ export const getTeacherTickets = async (teacherId: string) => {
         name,
         email
       ),
+      assignee:users!assigned_to (
+        id,
+        name
+      ),
       submissions (
         id,
         grade,
+        criterion_scores,
+        question_scores,
         assignments!inner (
           id,
           title,
           max_marks,
+          rubric,
+          questions,
           class_id,
           classes!inner (
             id,
@@ -1172,12 +2015,50 @@ export const getTeacherTickets = async (teacherId: string) => {
             teacher_id
           )
         )
+      ),
+      ticket_messages (
+        id,
+        sender_id,
+        created_at
+      ),
+      ticket_reads (
+        user_id,
+        last_read_at
       )
-    `)
-    .eq('submissions.assignments.classes.teacher_id', teacherId)
-    .order('created_at', { ascending: false });
+`;
 
-  return { data, error };
+// Tickets on the teacher's classes plus any another teacher assigned to them, newest first
+export const getTeacherTickets = async (teacherId: string) => {
+  const [owned, assigned] = await Promise.all([
+    supabase
+      .from('tickets')
+      .select(TEACHER_TICKET_SELECT)
+      .eq('submissions.assignments.classes.teacher_id', teacherId)
+      .order('created_at', { ascending: false }),
+    supabase
+      .from('tickets')
+      .select(TEACHER_TICKET_SELECT)
+      .eq('assigned_to', teacherId)
+      .order('created_at', { ascending: false })
+  ]);
+
+  const error = owned.error || assigned.error;
+  if (error) return { data: null, error };
+
+  const data = [...(owned.data || [])];
+  (assigned.data || []).forEach(ticket => {
+    if (!data.some(item => item.id === ticket.id)) data.push(ticket);
+  });
+  data.sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
+
+  return { data, error: null };
+};
+
+// Teachers of a class, for assigning its tickets
+export const getClassTeachers = async (classId: string) => {
+  const { data, error } = await supabase.rpc('get_class_teachers', { p_class_id: classId });
+
+  return { data: (data || []) as { id: string; name: string; email: string }[], error };
 };
 
 // Notification management functions
@@ -0,0 +1,83 @@
+// Ticket conversation types plus threading and read receipts
+
+export interface TicketAttachment {
+  url: string;
+  path: string;
+  fileName: string;
+  fileType: string;
+  fileSize: number;
+}
+
+export interface TicketMessage {
+  id: string;
+  ticket_id: string;
+  // The message this one replies to; null for a message on the ticket itself
+  parent_id: string | null;
+  sender_id: string | null;
+  body: string;
+  attachments: TicketAttachment[];
+  created_at: string;
+  updated_at: string;
+  sender?: { id: string; name: string } | null;
+}
+
+export interface TicketRead {
+  ticket_id: string;
+  user_id: string;
+  last_read_at: string;
+}
+
+export interface TicketThread {
+  message: TicketMessage;
+  replies: TicketMessage[];
+}
+
+const byCreatedAt = (a: TicketMessage, b: TicketMessage) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
+
+// Group messages under the message they answer. Replies to replies join their root's thread, so threads stay one level deep
+export const buildMessageThreads = (messages: TicketMessage[]): TicketThread[] => {
+  const byId = new Map(messages.map(message => [message.id, message]));
+  const rootOf = (message: TicketMessage) => {
+    let current = message;
+    const seen = new Set([message.id]);
+    let parent = current.parent_id ? byId.get(current.parent_id) : undefined;
+    while (parent && !seen.has(parent.id)) {
+      seen.add(parent.id);
+      current = parent;
+      parent = current.parent_id ? byId.get(current.parent_id) : undefined;
+    }
+    return current;
+  };
+
+  const threads = new Map<string, TicketThread>();
+  [...messages].sort(byCreatedAt).forEach(message => {
+    const root = rootOf(message);
+    if (root.id === message.id) {
+      threads.set(message.id, { message, replies: threads.get(message.id)?.replies || [] });
+    } else {
+      const thread = threads.get(root.id) || { message: root, replies: [] };
+      thread.replies.push(message);
+      threads.set(root.id, thread);
+    }
+  });
+
+  return [...threads.values()];
+};
+
+// Add or replace a message, e.g. when the realtime echo of a message we just sent arrives
+export const mergeTicketMessage = (messages: TicketMessage[], message: TicketMessage) =>
+  messages.some(item => item.id === message.id)
+    ? messages.map(item => item.id === message.id ? { ...item, ...message, sender: message.sender ?? item.sender } : item)
+    : [...messages, message];
+
+// Participants other than the sender who have read up to the message
+export const seenBy = (message: TicketMessage, reads: TicketRead[]) =>
+  reads.filter(read => read.user_id !== message.sender_id && new Date(read.last_read_at) >= new Date(message.created_at));
+
+// Messages from others that arrived after the user last read the conversation
+export const countUnreadMessages = (messages: TicketMessage[], reads: TicketRead[], userId: string) => {
+  const own = reads.find(read => read.user_id === userId);
+  return messages.filter(message =>
+    message.sender_id !== userId && (!own || new Date(message.created_at) > new Date(own.last_read_at))
+  ).length;
+};
@@ -0,0 +1,6 @@
+-- Add ai_draft field to submissions table for bulk-graded results awaiting teacher review
+ALTER TABLE public.submissions
+ADD COLUMN ai_draft JSONB;
+
+-- Add comment to describe the field
+COMMENT ON COLUMN public.submissions.ai_draft IS 'Unapproved AI grade {grade, feedback, criterion_scores, raw_score, raw_score_max, grading_mode, provider, generated_at}; students are not notified until a teacher approves it';
@@ -0,0 +1,6 @@
+-- Add the local AI-generated text heuristics result to submissions table
+ALTER TABLE public.submissions
+ADD COLUMN ai_text_check JSONB;
+
+-- Add comment to describe the field
+COMMENT ON COLUMN public.submissions.ai_text_check IS 'Advisory heuristics on whether the text was typed from chatbot output {score, level, signals, explanation, word_count, text_length, checked_at}; never used to change a grade';
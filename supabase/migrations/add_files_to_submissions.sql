@@ -0,0 +1,19 @@
+-- Add ordered multi-file uploads to submissions table
+ALTER TABLE public.submissions
+ADD COLUMN files JSONB;
+
+-- Existing single-file submissions become one-file lists
+UPDATE public.submissions
+SET files = jsonb_build_array(jsonb_build_object(
+  'url', file_url,
+  'path', '',
+  'file_name', file_name,
+  'file_type', CASE WHEN lower(file_name) LIKE '%.pdf' THEN 'application/pdf' ELSE 'image/*' END,
+  'file_size', 0,
+  'first_page', 1,
+  'page_count', 1
+))
+WHERE file_url IS NOT NULL AND files IS NULL;
+
+-- Add comment to describe the field
+COMMENT ON COLUMN public.submissions.files IS 'Uploaded files in student order [{url, path, file_name, file_type, file_size, first_page, page_count}]; ocr_text holds their text with continuous "--- Page N ---" markers. file_url/file_name mirror the first file';
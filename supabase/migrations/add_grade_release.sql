@@ -0,0 +1,25 @@
+-- Add release state to submissions so grades stay hidden from students until a teacher releases them
+ALTER TABLE public.submissions
+ADD COLUMN release_status TEXT NOT NULL DEFAULT 'draft' CHECK (release_status IN ('draft', 'released')),
+ADD COLUMN released_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN release_notified_at TIMESTAMP WITH TIME ZONE;
+
+-- Add a per-assignment time before which released grades are still hidden
+ALTER TABLE public.assignments
+ADD COLUMN grades_release_at TIMESTAMP WITH TIME ZONE;
+
+-- Grades that already exist were visible before this change; keep them visible
+UPDATE public.submissions
+SET release_status = 'released',
+    released_at = COALESCE(graded_at, NOW()),
+    release_notified_at = COALESCE(graded_at, NOW())
+WHERE grade IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_submissions_release_pending ON public.submissions(release_status)
+WHERE release_notified_at IS NULL;
+
+-- Add comments to describe the fields
+COMMENT ON COLUMN public.submissions.release_status IS 'draft: only the teacher sees the grade; released: visible to the student once assignments.grades_release_at has passed';
+COMMENT ON COLUMN public.submissions.released_at IS 'When the teacher released the grade';
+COMMENT ON COLUMN public.submissions.release_notified_at IS 'When the student was notified about the released grade';
+COMMENT ON COLUMN public.assignments.grades_release_at IS 'Released grades for this assignment are hidden from students until this time (NULL = immediately)';
@@ -0,0 +1,19 @@
+-- Add multi-sample grading settings to assignments table
+ALTER TABLE public.assignments
+ADD COLUMN grading_samples INTEGER NOT NULL DEFAULT 1 CHECK (grading_samples BETWEEN 1 AND 5),
+ADD COLUMN grading_sample_mode TEXT NOT NULL DEFAULT 'repeat' CHECK (grading_sample_mode IN ('repeat', 'dual_provider')),
+ADD COLUMN spread_threshold_pct NUMERIC NOT NULL DEFAULT 10 CHECK (spread_threshold_pct >= 0 AND spread_threshold_pct <= 100);
+
+-- Add sampling results to submissions table
+ALTER TABLE public.submissions
+ADD COLUMN grading_samples JSONB,
+ADD COLUMN grade_spread NUMERIC,
+ADD COLUMN needs_review BOOLEAN NOT NULL DEFAULT false;
+
+-- Add comments to describe the fields
+COMMENT ON COLUMN public.assignments.grading_samples IS 'Number of times each submission is AI graded; the median is kept';
+COMMENT ON COLUMN public.assignments.grading_sample_mode IS 'repeat grades N times with the default provider chain; dual_provider grades once with each of the first two providers';
+COMMENT ON COLUMN public.assignments.spread_threshold_pct IS 'Submissions whose sample spread exceeds this percentage of max_marks are flagged for human review';
+COMMENT ON COLUMN public.submissions.grading_samples IS 'Individual AI grading samples [{final_marks, provider, model, error}]';
+COMMENT ON COLUMN public.submissions.grade_spread IS 'Difference between the highest and lowest sampled marks';
+COMMENT ON COLUMN public.submissions.needs_review IS 'True when sampled grades disagreed beyond the assignment threshold; cleared once a teacher confirms the grade';
@@ -0,0 +1,185 @@
+-- Late policy per assignment: accept late work (flagged only), close at the due date, close after a grace period,
+-- or accept it with a percentage penalty per day late up to a cap
+ALTER TABLE public.assignments
+ADD COLUMN late_policy TEXT NOT NULL DEFAULT 'accept' CHECK (late_policy IN ('accept', 'hard_close', 'grace_period', 'penalty')),
+ADD COLUMN grace_period_minutes INTEGER CHECK (grace_period_minutes IS NULL OR grace_period_minutes > 0),
+ADD COLUMN late_penalty_per_day NUMERIC CHECK (late_penalty_per_day IS NULL OR (late_penalty_per_day > 0 AND late_penalty_per_day <= 100)),
+ADD COLUMN late_penalty_cap NUMERIC CHECK (late_penalty_cap IS NULL OR (late_penalty_cap > 0 AND late_penalty_cap <= 100));
+
+-- Lateness is worked out when the work is submitted; grade stays the raw mark and the penalty is applied on top
+ALTER TABLE public.submissions
+ADD COLUMN is_late BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN minutes_late INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN late_penalty_pct NUMERIC NOT NULL DEFAULT 0,
+ADD COLUMN effective_due_date TIMESTAMP WITH TIME ZONE;
+
+-- Add comments to describe the fields
+COMMENT ON COLUMN public.assignments.late_policy IS 'accept (late work flagged only), hard_close (rejected after the due date), grace_period (accepted without penalty until grace_period_minutes after the due date, then rejected) or penalty';
+COMMENT ON COLUMN public.assignments.grace_period_minutes IS 'Minutes after the due date that late work is still accepted when late_policy is grace_period';
+COMMENT ON COLUMN public.assignments.late_penalty_per_day IS 'Percentage of the mark deducted per started day late when late_policy is penalty';
+COMMENT ON COLUMN public.assignments.late_penalty_cap IS 'Maximum total percentage deducted when late_policy is penalty (NULL = 100)';
+COMMENT ON COLUMN public.submissions.is_late IS 'Submitted after effective_due_date';
+COMMENT ON COLUMN public.submissions.minutes_late IS 'Minutes between effective_due_date and submitted_at';
+COMMENT ON COLUMN public.submissions.late_penalty_pct IS 'Percentage deducted from grade for lateness; the adjusted mark is grade * (1 - late_penalty_pct / 100)';
+COMMENT ON COLUMN public.submissions.effective_due_date IS 'Due date that applied when the work was submitted, including any extension';
+
+-- Per-student due date extensions granted by the teacher
+CREATE TABLE IF NOT EXISTS public.assignment_extensions (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    assignment_id UUID REFERENCES public.assignments(id) ON DELETE CASCADE NOT NULL,
+    student_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+    due_date TIMESTAMP WITH TIME ZONE NOT NULL,
+    reason TEXT NOT NULL DEFAULT '',
+    granted_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (assignment_id, student_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_assignment_extensions_student ON public.assignment_extensions(student_id);
+
+ALTER TABLE public.assignment_extensions ENABLE ROW LEVEL SECURITY;
+
+-- Teachers manage extensions for their assignments
+CREATE POLICY "assignment_extensions_teacher_access" ON public.assignment_extensions
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM public.assignments
+            WHERE id = assignment_id AND teacher_id = auth.uid()
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM public.assignments
+            WHERE id = assignment_id AND teacher_id = auth.uid()
+        )
+    );
+
+-- Students can see their own extensions
+CREATE POLICY "assignment_extensions_student_read" ON public.assignment_extensions
+    FOR SELECT USING (student_id = auth.uid());
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.assignment_extensions TO authenticated;
+
+CREATE TRIGGER update_assignment_extensions_updated_at
+    BEFORE UPDATE ON public.assignment_extensions
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Lateness of work submitted at a given time, with the student's extension applied
+CREATE OR REPLACE FUNCTION public.compute_submission_lateness(p_assignment_id UUID, p_student_id UUID, p_submitted_at TIMESTAMP WITH TIME ZONE)
+RETURNS TABLE (effective_due_date TIMESTAMP WITH TIME ZONE, minutes_late INTEGER, late_penalty_pct NUMERIC, is_closed BOOLEAN) AS $$
+DECLARE
+    assignment RECORD;
+    due TIMESTAMP WITH TIME ZONE;
+    late INTEGER;
+BEGIN
+    SELECT a.due_date, a.late_policy, a.grace_period_minutes, a.late_penalty_per_day, a.late_penalty_cap INTO assignment
+    FROM public.assignments a WHERE a.id = p_assignment_id;
+
+    SELECT COALESCE(
+        (SELECT e.due_date FROM public.assignment_extensions e WHERE e.assignment_id = p_assignment_id AND e.student_id = p_student_id),
+        assignment.due_date
+    ) INTO due;
+
+    late := GREATEST(0, CEIL(EXTRACT(EPOCH FROM (p_submitted_at - due)) / 60))::INTEGER;
+
+    effective_due_date := due;
+    minutes_late := late;
+    late_penalty_pct := 0;
+    is_closed := false;
+
+    IF late > 0 THEN
+        IF assignment.late_policy = 'hard_close' THEN
+            is_closed := true;
+        ELSIF assignment.late_policy = 'grace_period' THEN
+            is_closed := late > COALESCE(assignment.grace_period_minutes, 0);
+        ELSIF assignment.late_policy = 'penalty' THEN
+            late_penalty_pct := LEAST(COALESCE(assignment.late_penalty_cap, 100), CEIL(late / 1440.0) * COALESCE(assignment.late_penalty_per_day, 0));
+        END IF;
+    END IF;
+
+    RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Flag late work when it is submitted (and when a new version is submitted), rejecting it when the policy has closed
+CREATE OR REPLACE FUNCTION public.set_submission_lateness()
+RETURNS TRIGGER AS $$
+DECLARE
+    lateness RECORD;
+BEGIN
+    IF TG_OP = 'UPDATE' AND NEW.submitted_at IS NOT DISTINCT FROM OLD.submitted_at THEN
+        RETURN NEW;
+    END IF;
+
+    -- Quizzes close at the due date through their attempt window
+    IF EXISTS (SELECT 1 FROM public.assignments WHERE id = NEW.assignment_id AND kind = 'quiz') THEN
+        RETURN NEW;
+    END IF;
+
+    -- A student's own submission is stamped now, so it cannot be backdated past the due date
+    IF TG_OP = 'INSERT' AND auth.uid() = NEW.student_id THEN
+        NEW.submitted_at := NOW();
+    END IF;
+
+    SELECT * INTO lateness FROM public.compute_submission_lateness(NEW.assignment_id, NEW.student_id, COALESCE(NEW.submitted_at, NOW()));
+
+    IF lateness.is_closed AND auth.uid() = NEW.student_id THEN
+        RAISE EXCEPTION 'This assignment closed at %', lateness.effective_due_date;
+    END IF;
+
+    NEW.effective_due_date := lateness.effective_due_date;
+    NEW.minutes_late := lateness.minutes_late;
+    NEW.is_late := lateness.minutes_late > 0;
+    NEW.late_penalty_pct := lateness.late_penalty_pct;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Named to run after apply_submission_version, which sets submitted_at for new versions
+CREATE TRIGGER set_submission_lateness
+    BEFORE INSERT OR UPDATE ON public.submissions
+    FOR EACH ROW EXECUTE FUNCTION public.set_submission_lateness();
+
+-- Granting, moving or removing an extension re-evaluates work the student already submitted
+CREATE OR REPLACE FUNCTION public.apply_extension_to_submission()
+RETURNS TRIGGER AS $$
+DECLARE
+    target RECORD;
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        target := OLD;
+    ELSE
+        target := NEW;
+    END IF;
+
+    UPDATE public.submissions s
+    SET effective_due_date = l.effective_due_date,
+        minutes_late = l.minutes_late,
+        is_late = l.minutes_late > 0,
+        late_penalty_pct = l.late_penalty_pct
+    FROM public.compute_submission_lateness(target.assignment_id, target.student_id, (
+        SELECT submitted_at FROM public.submissions WHERE assignment_id = target.assignment_id AND student_id = target.student_id
+    )) l
+    WHERE s.assignment_id = target.assignment_id
+      AND s.student_id = target.student_id
+      AND s.submitted_at IS NOT NULL;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER apply_extension_to_submission
+    AFTER INSERT OR UPDATE OR DELETE ON public.assignment_extensions
+    FOR EACH ROW EXECUTE FUNCTION public.apply_extension_to_submission();
+
+-- Flag work that was already submitted late under the default accept policy
+UPDATE public.submissions s
+SET effective_due_date = a.due_date,
+    minutes_late = GREATEST(0, CEIL(EXTRACT(EPOCH FROM (s.submitted_at - a.due_date)) / 60))::INTEGER,
+    is_late = s.submitted_at > a.due_date
+FROM public.assignments a
+WHERE a.id = s.assignment_id AND a.kind <> 'quiz' AND s.submitted_at IS NOT NULL;
+
+-- Add comments to describe the table
+COMMENT ON TABLE public.assignment_extensions IS 'Per-student due dates that replace assignments.due_date for lateness checks';
@@ -0,0 +1,19 @@
+-- Keep the scanner's raw output and its word confidences next to the (possibly corrected) text used for grading
+ALTER TABLE public.submissions
+ADD COLUMN ocr_raw_text TEXT,
+ADD COLUMN ocr_pages JSONB,
+ADD COLUMN ocr_confidence NUMERIC,
+ADD COLUMN ocr_corrected_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN ocr_corrected_by UUID REFERENCES public.users(id) ON DELETE SET NULL;
+
+-- Text read before this change was never corrected
+UPDATE public.submissions
+SET ocr_raw_text = ocr_text
+WHERE ocr_raw_text IS NULL AND ocr_text IS NOT NULL AND responses IS NULL;
+
+-- Add comments to describe the fields
+COMMENT ON COLUMN public.submissions.ocr_raw_text IS 'OCR output before any manual correction; ocr_text holds the corrected text that grading reads';
+COMMENT ON COLUMN public.submissions.ocr_pages IS 'Per-page OCR results: [{page, confidence, words: [{text, confidence, bbox}]}], pages numbered like the ocr_text markers. Empty for PDFs read from their text layer';
+COMMENT ON COLUMN public.submissions.ocr_confidence IS 'Average word confidence (0-100) across ocr_pages';
+COMMENT ON COLUMN public.submissions.ocr_corrected_at IS 'When ocr_text was last corrected by hand';
+COMMENT ON COLUMN public.submissions.ocr_corrected_by IS 'Student or teacher who last corrected ocr_text';
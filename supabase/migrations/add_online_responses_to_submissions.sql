@@ -0,0 +1,21 @@
+-- Add responses field to submissions table for answers given in the online question form
+ALTER TABLE public.submissions
+ADD COLUMN responses JSONB;
+
+-- Online-form submissions have no uploaded file
+ALTER TABLE public.submissions
+ALTER COLUMN file_url DROP NOT NULL,
+ALTER COLUMN file_name DROP NOT NULL;
+
+ALTER TABLE public.submissions
+ADD CONSTRAINT submissions_file_or_responses CHECK (file_url IS NOT NULL OR responses IS NOT NULL);
+
+-- Regrade when a student changes their online answers
+CREATE TRIGGER enqueue_grading_job_on_responses_update
+    AFTER UPDATE OF responses ON public.submissions
+    FOR EACH ROW
+    WHEN (OLD.responses IS DISTINCT FROM NEW.responses)
+    EXECUTE FUNCTION public.enqueue_grading_job();
+
+-- Add comment to describe the field
+COMMENT ON COLUMN public.submissions.responses IS 'Online-form answers keyed by question id: option indexes for mcq/multi_select, text otherwise. Objective questions are graded deterministically';
@@ -0,0 +1,11 @@
+-- Add questions field to assignments table for per-question grading against the answer key
+ALTER TABLE public.assignments
+ADD COLUMN questions JSONB;
+
+-- Add question_scores field to submissions table
+ALTER TABLE public.submissions
+ADD COLUMN question_scores JSONB;
+
+-- Add comments to describe the fields
+COMMENT ON COLUMN public.assignments.questions IS 'Numbered questions [{id, number, prompt, marks, answer_key}]; when set, submissions are graded per question';
+COMMENT ON COLUMN public.submissions.question_scores IS 'Per-question marks [{question_id, number, score, max_marks, feedback, answer_text}]';
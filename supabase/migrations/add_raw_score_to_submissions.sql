@@ -0,0 +1,8 @@
+-- Keep the unscaled AI score alongside the grade scaled to the assignment's max_marks
+ALTER TABLE public.submissions
+ADD COLUMN raw_score NUMERIC,
+ADD COLUMN raw_score_max NUMERIC;
+
+-- Add comments to describe the fields
+COMMENT ON COLUMN public.submissions.raw_score IS 'Score as returned by the AI grader before scaling and clamping';
+COMMENT ON COLUMN public.submissions.raw_score_max IS 'Scale of raw_score (max_marks, or 100 for rubric percentages)';
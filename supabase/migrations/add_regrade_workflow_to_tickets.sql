@@ -0,0 +1,183 @@
+-- Regrade requests: what the student flagged, the AI's second opinion and how the ticket was settled
+ALTER TABLE public.tickets
+ADD COLUMN flagged_items JSONB NOT NULL DEFAULT '[]'::jsonb,
+ADD COLUMN ai_reevaluation JSONB,
+ADD COLUMN ai_reevaluated_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN resolution TEXT CHECK (resolution IN ('grade_changed', 'grade_upheld'));
+
+-- Add comments to describe the fields
+COMMENT ON COLUMN public.tickets.flagged_items IS 'Questions and rubric criteria the student asked to be regraded: [{kind, id, label, score, max_points, note}]';
+COMMENT ON COLUMN public.tickets.ai_reevaluation IS 'AI re-evaluation with the student''s argument as context: {grade, max_marks, feedback, criterion_scores, question_scores, provider, generated_at}';
+COMMENT ON COLUMN public.tickets.resolution IS 'grade_changed when the teacher accepted a new score, grade_upheld when the original grade stood';
+
+-- Every grade changed through a regrade, with the scores before and after
+CREATE TABLE IF NOT EXISTS public.grade_changes (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    submission_id UUID REFERENCES public.submissions(id) ON DELETE CASCADE NOT NULL,
+    ticket_id UUID REFERENCES public.tickets(id) ON DELETE SET NULL,
+    previous_grade NUMERIC,
+    new_grade NUMERIC NOT NULL,
+    previous_criterion_scores JSONB,
+    new_criterion_scores JSONB,
+    previous_question_scores JSONB,
+    new_question_scores JSONB,
+    reason TEXT NOT NULL DEFAULT '',
+    changed_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_grade_changes_submission ON public.grade_changes(submission_id);
+
+ALTER TABLE public.grade_changes ENABLE ROW LEVEL SECURITY;
+
+-- Students can see changes to their own grades
+CREATE POLICY "grade_changes_student_read" ON public.grade_changes
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.submissions
+            WHERE id = submission_id AND student_id = auth.uid()
+        )
+    );
+
+-- Teachers can see changes on their assignments
+CREATE POLICY "grade_changes_teacher_read" ON public.grade_changes
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.submissions s
+            INNER JOIN public.assignments a ON s.assignment_id = a.id
+            WHERE s.id = submission_id AND a.teacher_id = auth.uid()
+        )
+    );
+
+-- Changes are only written by resolve_regrade_ticket
+GRANT SELECT ON public.grade_changes TO authenticated;
+
+-- New tickets start open; status changes follow open -> in_progress -> resolved -> closed, students may only
+-- withdraw an open ticket or reopen/close a resolved one, and only the teacher's side fills in the response
+CREATE OR REPLACE FUNCTION public.enforce_ticket_status()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        NEW.status := 'open';
+        NEW.resolution := NULL;
+        NEW.ai_reevaluation := NULL;
+        RETURN NEW;
+    END IF;
+
+    IF auth.uid() = OLD.student_id AND (
+        NEW.teacher_response IS DISTINCT FROM OLD.teacher_response
+        OR NEW.responded_by IS DISTINCT FROM OLD.responded_by
+        OR NEW.resolution IS DISTINCT FROM OLD.resolution
+        OR NEW.ai_reevaluation IS DISTINCT FROM OLD.ai_reevaluation
+    ) THEN
+        RAISE EXCEPTION 'Only the teacher can respond to a regrade request';
+    END IF;
+
+    IF NEW.status IS DISTINCT FROM OLD.status THEN
+        IF NOT (
+            (OLD.status = 'open' AND NEW.status IN ('in_progress', 'resolved', 'closed'))
+            OR (OLD.status = 'in_progress' AND NEW.status IN ('resolved', 'closed'))
+            OR (OLD.status = 'resolved' AND NEW.status IN ('open', 'closed'))
+        ) THEN
+            RAISE EXCEPTION 'A % ticket cannot be moved to %', OLD.status, NEW.status;
+        END IF;
+
+        IF auth.uid() = OLD.student_id AND NOT (
+            (OLD.status = 'open' AND NEW.status = 'closed')
+            OR OLD.status = 'resolved'
+        ) THEN
+            RAISE EXCEPTION 'Only the teacher can move a ticket from % to %', OLD.status, NEW.status;
+        END IF;
+
+        IF NEW.status = 'resolved' AND COALESCE(btrim(NEW.teacher_response), '') = '' THEN
+            RAISE EXCEPTION 'A response is required to resolve a ticket';
+        END IF;
+
+        -- A reopened ticket goes back to the teacher unsettled
+        IF NEW.status = 'open' THEN
+            NEW.resolution := NULL;
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER enforce_ticket_status
+    BEFORE INSERT OR UPDATE ON public.tickets
+    FOR EACH ROW EXECUTE FUNCTION public.enforce_ticket_status();
+
+-- Settle a regrade ticket in one transaction: accepting writes the new grade and scores to the submission
+-- and records the change; upholding keeps the grade. Either way the ticket is resolved with the response
+CREATE OR REPLACE FUNCTION public.resolve_regrade_ticket(
+    p_ticket_id UUID,
+    p_accept BOOLEAN,
+    p_response TEXT,
+    p_grade NUMERIC DEFAULT NULL,
+    p_criterion_scores JSONB DEFAULT NULL,
+    p_question_scores JSONB DEFAULT NULL
+)
+RETURNS public.tickets AS $$
+DECLARE
+    target RECORD;
+    resolved public.tickets;
+BEGIN
+    SELECT t.id, t.submission_id, t.reason, s.grade, s.criterion_scores, s.question_scores, a.teacher_id, a.max_marks
+    INTO target
+    FROM public.tickets t
+    INNER JOIN public.submissions s ON s.id = t.submission_id
+    INNER JOIN public.assignments a ON a.id = s.assignment_id
+    WHERE t.id = p_ticket_id
+    FOR UPDATE OF t;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Ticket not found';
+    END IF;
+
+    IF target.teacher_id IS DISTINCT FROM auth.uid() THEN
+        RAISE EXCEPTION 'Only the assignment''s teacher can resolve this ticket';
+    END IF;
+
+    IF p_accept THEN
+        IF p_grade IS NULL OR p_grade < 0 OR p_grade > target.max_marks THEN
+            RAISE EXCEPTION 'The new grade must be between 0 and %', target.max_marks;
+        END IF;
+
+        INSERT INTO public.grade_changes (
+            submission_id, ticket_id, previous_grade, new_grade,
+            previous_criterion_scores, new_criterion_scores, previous_question_scores, new_question_scores,
+            reason, changed_by
+        )
+        VALUES (
+            target.submission_id, target.id, target.grade, p_grade,
+            target.criterion_scores, COALESCE(p_criterion_scores, target.criterion_scores),
+            target.question_scores, COALESCE(p_question_scores, target.question_scores),
+            COALESCE(p_response, ''), auth.uid()
+        );
+
+        UPDATE public.submissions
+        SET grade = p_grade,
+            criterion_scores = COALESCE(p_criterion_scores, criterion_scores),
+            question_scores = COALESCE(p_question_scores, question_scores),
+            graded_at = NOW(),
+            graded_by = 'regrade'
+        WHERE id = target.submission_id;
+    END IF;
+
+    UPDATE public.tickets
+    SET status = 'resolved',
+        resolution = CASE WHEN p_accept THEN 'grade_changed' ELSE 'grade_upheld' END,
+        teacher_response = p_response,
+        responded_by = auth.uid(),
+        responded_at = NOW()
+    WHERE id = p_ticket_id
+    RETURNING * INTO resolved;
+
+    RETURN resolved;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.resolve_regrade_ticket(UUID, BOOLEAN, TEXT, NUMERIC, JSONB, JSONB) TO authenticated;
+
+-- Add comments to describe the table
+COMMENT ON TABLE public.grade_changes IS 'Audit trail of grades changed through regrade tickets';
@@ -0,0 +1,10 @@
+-- Add structured rubric to assignments and per-criterion scores to submissions
+ALTER TABLE public.assignments
+ADD COLUMN rubric JSONB;
+
+ALTER TABLE public.submissions
+ADD COLUMN criterion_scores JSONB;
+
+-- Add comments to describe the fields
+COMMENT ON COLUMN public.assignments.rubric IS 'Rubric criteria with weight, max points and level descriptors';
+COMMENT ON COLUMN public.submissions.criterion_scores IS 'Per-criterion scores and feedback for the rubric';
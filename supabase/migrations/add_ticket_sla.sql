@@ -0,0 +1,235 @@
+-- Ticket service levels: priority, a due-by target from the ticket's age, the teacher it is assigned to,
+-- response timestamps for metrics and reminder bookkeeping
+ALTER TABLE public.tickets
+ADD COLUMN priority TEXT NOT NULL DEFAULT 'normal' CHECK (priority IN ('low', 'normal', 'high', 'urgent')),
+ADD COLUMN due_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN assigned_to UUID REFERENCES public.users(id) ON DELETE SET NULL,
+ADD COLUMN first_response_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN resolved_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN last_reminded_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN reminder_count INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_tickets_assigned_to ON public.tickets(assigned_to);
+CREATE INDEX IF NOT EXISTS idx_tickets_due_at ON public.tickets(due_at) WHERE status IN ('open', 'in_progress');
+
+-- Hours to the due-by target per priority; matches TICKET_SLA_HOURS in shared/ticketSla.ts
+CREATE OR REPLACE FUNCTION public.ticket_sla_interval(p_priority TEXT)
+RETURNS INTERVAL AS $$
+    SELECT CASE p_priority
+        WHEN 'urgent' THEN INTERVAL '24 hours'
+        WHEN 'high' THEN INTERVAL '48 hours'
+        WHEN 'low' THEN INTERVAL '168 hours'
+        ELSE INTERVAL '72 hours'
+    END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Teachers of the ticket's class: the class owner, the assignment's teacher, or a teacher membership. Only the
+-- class owner can create teacher memberships (class_members_join_classes in create_assignment_answer_keys.sql)
+CREATE OR REPLACE FUNCTION public.is_ticket_class_teacher(p_ticket_id UUID, p_user_id UUID)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.tickets t
+        INNER JOIN public.submissions s ON s.id = t.submission_id
+        INNER JOIN public.assignments a ON a.id = s.assignment_id
+        INNER JOIN public.classes c ON c.id = a.class_id
+        LEFT JOIN public.class_members cm ON cm.class_id = a.class_id AND cm.user_id = p_user_id AND cm.role = 'teacher'
+        WHERE t.id = p_ticket_id AND (c.teacher_id = p_user_id OR a.teacher_id = p_user_id OR cm.id IS NOT NULL)
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- The class owner and teacher members, for the ticket assignee picker. Members can only read their own
+-- class_members rows, so this lists the class for its teachers only
+CREATE OR REPLACE FUNCTION public.get_class_teachers(p_class_id UUID)
+RETURNS TABLE (id UUID, name TEXT, email TEXT) AS $$
+    SELECT u.id, u.name, u.email
+    FROM public.users u
+    INNER JOIN public.classes c ON c.id = p_class_id
+    WHERE (u.id = c.teacher_id OR EXISTS (
+            SELECT 1 FROM public.class_members cm
+            WHERE cm.class_id = c.id AND cm.user_id = u.id AND cm.role = 'teacher'
+        ))
+      AND (c.teacher_id = auth.uid() OR EXISTS (
+            SELECT 1 FROM public.class_members cm
+            WHERE cm.class_id = c.id AND cm.user_id = auth.uid() AND cm.role = 'teacher'
+        ))
+    ORDER BY u.name;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.get_class_teachers(UUID) TO authenticated;
+
+-- Keep the SLA fields consistent: only teachers set priority and assignee, the due-by target follows the priority
+-- and restarts when a ticket is reopened, a teacher's first status change or response stamps first_response_at, and
+-- resolving or closing stamps resolved_at
+CREATE OR REPLACE FUNCTION public.track_ticket_sla()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        NEW.priority := COALESCE(NEW.priority, 'normal');
+        NEW.assigned_to := NULL;
+        NEW.due_at := COALESCE(NEW.created_at, NOW()) + public.ticket_sla_interval(NEW.priority);
+        RETURN NEW;
+    END IF;
+
+    IF auth.uid() = OLD.student_id AND (
+        NEW.priority IS DISTINCT FROM OLD.priority
+        OR NEW.assigned_to IS DISTINCT FROM OLD.assigned_to
+        OR NEW.due_at IS DISTINCT FROM OLD.due_at
+    ) THEN
+        RAISE EXCEPTION 'Only a teacher can change a ticket''s priority or assignee';
+    END IF;
+
+    IF NEW.assigned_to IS DISTINCT FROM OLD.assigned_to AND NEW.assigned_to IS NOT NULL
+       AND NOT public.is_ticket_class_teacher(NEW.id, NEW.assigned_to) THEN
+        RAISE EXCEPTION 'Tickets can only be assigned to a teacher of the class';
+    END IF;
+
+    IF NEW.priority IS DISTINCT FROM OLD.priority THEN
+        NEW.due_at := OLD.created_at + public.ticket_sla_interval(NEW.priority);
+    END IF;
+
+    IF auth.uid() IS DISTINCT FROM OLD.student_id AND (
+        NEW.status IS DISTINCT FROM OLD.status
+        OR NEW.teacher_response IS DISTINCT FROM OLD.teacher_response
+    ) THEN
+        NEW.first_response_at := COALESCE(OLD.first_response_at, NOW());
+    END IF;
+
+    IF NEW.status IS DISTINCT FROM OLD.status THEN
+        -- Closing a resolved ticket keeps the time it was resolved
+        IF NEW.status IN ('resolved', 'closed') THEN
+            NEW.resolved_at := COALESCE(OLD.resolved_at, NOW());
+        ELSIF NEW.status = 'open' THEN
+            NEW.resolved_at := NULL;
+            NEW.due_at := NOW() + public.ticket_sla_interval(NEW.priority);
+            NEW.last_reminded_at := NULL;
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER track_ticket_sla
+    BEFORE INSERT OR UPDATE ON public.tickets
+    FOR EACH ROW EXECUTE FUNCTION public.track_ticket_sla();
+
+-- The first message from anyone but the student is the ticket's first response
+CREATE OR REPLACE FUNCTION public.stamp_ticket_first_response()
+RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE public.tickets
+    SET first_response_at = NEW.created_at
+    WHERE id = NEW.ticket_id
+      AND first_response_at IS NULL
+      AND student_id IS DISTINCT FROM NEW.sender_id;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER stamp_ticket_first_response
+    AFTER INSERT ON public.ticket_messages
+    FOR EACH ROW EXECUTE FUNCTION public.stamp_ticket_first_response();
+
+-- Assigned teachers work the ticket like the assignment's teacher
+CREATE POLICY "tickets_assignee_access" ON public.tickets
+    FOR SELECT USING (assigned_to = auth.uid());
+
+CREATE POLICY "tickets_assignee_update" ON public.tickets
+    FOR UPDATE USING (assigned_to = auth.uid())
+    WITH CHECK (public.is_ticket_class_teacher(id, auth.uid()));
+
+CREATE OR REPLACE FUNCTION public.is_ticket_participant(p_ticket_id UUID)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.tickets t
+        INNER JOIN public.submissions s ON s.id = t.submission_id
+        INNER JOIN public.assignments a ON a.id = s.assignment_id
+        WHERE t.id = p_ticket_id
+          AND (t.student_id = auth.uid() OR a.teacher_id = auth.uid() OR t.assigned_to = auth.uid())
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Let the assignee settle a regrade; otherwise unchanged from add_regrade_workflow_to_tickets.sql
+CREATE OR REPLACE FUNCTION public.resolve_regrade_ticket(
+    p_ticket_id UUID,
+    p_accept BOOLEAN,
+    p_response TEXT,
+    p_grade NUMERIC DEFAULT NULL,
+    p_criterion_scores JSONB DEFAULT NULL,
+    p_question_scores JSONB DEFAULT NULL
+)
+RETURNS public.tickets AS $$
+DECLARE
+    target RECORD;
+    resolved public.tickets;
+BEGIN
+    SELECT t.id, t.submission_id, t.reason, t.assigned_to, s.grade, s.criterion_scores, s.question_scores, a.teacher_id, a.max_marks
+    INTO target
+    FROM public.tickets t
+    INNER JOIN public.submissions s ON s.id = t.submission_id
+    INNER JOIN public.assignments a ON a.id = s.assignment_id
+    WHERE t.id = p_ticket_id
+    FOR UPDATE OF t;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Ticket not found';
+    END IF;
+
+    IF target.teacher_id IS DISTINCT FROM auth.uid() AND (
+        target.assigned_to IS DISTINCT FROM auth.uid() OR NOT public.is_ticket_class_teacher(p_ticket_id, auth.uid())
+    ) THEN
+        RAISE EXCEPTION 'Only the assignment''s teacher or the assigned teacher can resolve this ticket';
+    END IF;
+
+    IF p_accept THEN
+        IF p_grade IS NULL OR p_grade < 0 OR p_grade > target.max_marks THEN
+            RAISE EXCEPTION 'The new grade must be between 0 and %', target.max_marks;
+        END IF;
+
+        INSERT INTO public.grade_changes (
+            submission_id, ticket_id, previous_grade, new_grade,
+            previous_criterion_scores, new_criterion_scores, previous_question_scores, new_question_scores,
+            reason, changed_by
+        )
+        VALUES (
+            target.submission_id, target.id, target.grade, p_grade,
+            target.criterion_scores, COALESCE(p_criterion_scores, target.criterion_scores),
+            target.question_scores, COALESCE(p_question_scores, target.question_scores),
+            COALESCE(p_response, ''), auth.uid()
+        );
+
+        UPDATE public.submissions
+        SET grade = p_grade,
+            criterion_scores = COALESCE(p_criterion_scores, criterion_scores),
+            question_scores = COALESCE(p_question_scores, question_scores),
+            graded_at = NOW(),
+            graded_by = 'regrade'
+        WHERE id = target.submission_id;
+    END IF;
+
+    UPDATE public.tickets
+    SET status = 'resolved',
+        resolution = CASE WHEN p_accept THEN 'grade_changed' ELSE 'grade_upheld' END,
+        teacher_response = p_response,
+        responded_by = auth.uid(),
+        responded_at = NOW()
+    WHERE id = p_ticket_id
+    RETURNING * INTO resolved;
+
+    RETURN resolved;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Existing tickets get targets from their age and count any answer they already have as the first response
+UPDATE public.tickets
+SET due_at = created_at + public.ticket_sla_interval(priority),
+    first_response_at = responded_at,
+    resolved_at = CASE WHEN status IN ('resolved', 'closed') THEN responded_at END;
+
+-- Add comments to describe the fields
+COMMENT ON COLUMN public.tickets.priority IS 'low, normal, high or urgent; sets how long the teacher has to respond';
+COMMENT ON COLUMN public.tickets.due_at IS 'Due-by target: opened (or reopened) time plus the priority''s SLA';
+COMMENT ON COLUMN public.tickets.assigned_to IS 'Teacher of the class handling the ticket; null leaves it with the assignment''s teacher';
+COMMENT ON COLUMN public.tickets.first_response_at IS 'When a teacher first wrote in the ticket''s conversation, changed its status or responded to it';
+COMMENT ON COLUMN public.tickets.resolved_at IS 'When the ticket was last resolved or closed; cleared on reopen';
+COMMENT ON COLUMN public.tickets.last_reminded_at IS 'When the reminder scheduler last nudged the teacher about this stale ticket';
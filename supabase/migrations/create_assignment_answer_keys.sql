@@ -0,0 +1,103 @@
+-- Answers kept apart from assignments: students can read their class's assignments, so the answer key and the
+-- questions stored there carry no answers. Teachers keep writing assignments.answer_key and full questions to
+-- assignments.questions; the triggers below move the answers here and leave the stripped values on the assignment
+CREATE TABLE IF NOT EXISTS public.assignment_answer_keys (
+    assignment_id UUID PRIMARY KEY REFERENCES public.assignments(id) ON DELETE CASCADE DEFERRABLE INITIALLY DEFERRED,
+    answer_key TEXT,
+    questions JSONB,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE public.assignment_answer_keys ENABLE ROW LEVEL SECURITY;
+
+-- The policy below trusts teacher memberships, so only the class owner may create them; students still join
+-- classes as themselves, but only as students
+DROP POLICY IF EXISTS "class_members_join_classes" ON public.class_members;
+
+CREATE POLICY "class_members_join_classes" ON public.class_members
+    FOR INSERT WITH CHECK (
+        user_id = auth.uid()
+        AND (
+            role = 'student'
+            OR EXISTS (SELECT 1 FROM public.classes WHERE id = class_id AND teacher_id = auth.uid())
+        )
+    );
+
+-- Teachers of the class can read the keys
+CREATE POLICY "assignment_answer_keys_teacher_read" ON public.assignment_answer_keys
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.assignments a
+            LEFT JOIN public.class_members cm ON cm.class_id = a.class_id AND cm.user_id = auth.uid() AND cm.role = 'teacher'
+            WHERE a.id = assignment_id AND (a.teacher_id = auth.uid() OR cm.id IS NOT NULL)
+        )
+    );
+
+-- Keys are only written by the triggers below
+GRANT SELECT ON public.assignment_answer_keys TO authenticated;
+
+CREATE TRIGGER update_assignment_answer_keys_updated_at
+    BEFORE UPDATE ON public.assignment_answer_keys
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The questions without their answers; matches stripAnswerKeys in shared/questions.ts
+CREATE OR REPLACE FUNCTION public.strip_question_keys(questions JSONB)
+RETURNS JSONB AS $$
+    SELECT COALESCE(jsonb_agg(question - ARRAY['answer_key', 'correct_options', 'correct_answer', 'numeric_answer'] ORDER BY position), '[]'::jsonb)
+    FROM jsonb_array_elements(questions) WITH ORDINALITY AS items(question, position);
+$$ LANGUAGE sql IMMUTABLE STRICT;
+
+-- Move the answers of the column named by the trigger argument ('questions', 'answer_key' or 'all' on insert)
+-- into assignment_answer_keys. Separate update triggers per column mean a clearing update is stored as well
+CREATE OR REPLACE FUNCTION public.store_answer_keys()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_ARGV[0] IN ('questions', 'all') THEN
+        INSERT INTO public.assignment_answer_keys (assignment_id, questions)
+        VALUES (NEW.id, NEW.questions)
+        ON CONFLICT (assignment_id) DO UPDATE SET questions = EXCLUDED.questions;
+
+        NEW.questions := public.strip_question_keys(NEW.questions);
+    END IF;
+
+    IF TG_ARGV[0] IN ('answer_key', 'all') THEN
+        INSERT INTO public.assignment_answer_keys (assignment_id, answer_key)
+        VALUES (NEW.id, NEW.answer_key)
+        ON CONFLICT (assignment_id) DO UPDATE SET answer_key = EXCLUDED.answer_key;
+
+        NEW.answer_key := NULL;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Existing answers move over before the triggers take charge
+INSERT INTO public.assignment_answer_keys (assignment_id, answer_key, questions)
+SELECT id, answer_key, questions FROM public.assignments
+WHERE answer_key IS NOT NULL OR questions IS NOT NULL
+ON CONFLICT (assignment_id) DO NOTHING;
+
+UPDATE public.assignments
+SET answer_key = NULL, questions = public.strip_question_keys(questions)
+WHERE answer_key IS NOT NULL OR questions IS NOT NULL;
+
+CREATE TRIGGER store_answer_keys_on_insert
+    BEFORE INSERT ON public.assignments
+    FOR EACH ROW EXECUTE FUNCTION public.store_answer_keys('all');
+
+CREATE TRIGGER store_question_keys
+    BEFORE UPDATE OF questions ON public.assignments
+    FOR EACH ROW EXECUTE FUNCTION public.store_answer_keys('questions');
+
+CREATE TRIGGER store_answer_key
+    BEFORE UPDATE OF answer_key ON public.assignments
+    FOR EACH ROW EXECUTE FUNCTION public.store_answer_keys('answer_key');
+
+-- Add comments to describe the fields
+COMMENT ON TABLE public.assignment_answer_keys IS 'Assignment answers; readable by the class''s teachers only';
+COMMENT ON COLUMN public.assignment_answer_keys.answer_key IS 'AI-generated answer key for the assignment';
+COMMENT ON COLUMN public.assignment_answer_keys.questions IS 'The assignment''s questions with answer_key, correct_options, correct_answer and numeric_answer';
+COMMENT ON COLUMN public.assignments.answer_key IS 'Always NULL once stored; the answer key is in assignment_answer_keys';
+COMMENT ON COLUMN public.assignments.questions IS 'Numbered questions [{id, number, type, prompt, marks, options}] without answers; the answers are in assignment_answer_keys';
@@ -0,0 +1,109 @@
+-- Reusable feedback comments, shared across a class (class_id set) or kept in a teacher's personal bank (class_id null)
+CREATE TABLE IF NOT EXISTS public.feedback_comments (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    teacher_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+    class_id UUID REFERENCES public.classes(id) ON DELETE CASCADE,
+    text TEXT NOT NULL CHECK (length(trim(text)) > 0),
+    tags TEXT[] NOT NULL DEFAULT '{}',
+    shortcut TEXT CHECK (shortcut IS NULL OR shortcut ~ '^[a-z0-9_-]+$'),
+    source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'ai_strength', 'ai_improvement')),
+    usage_count INTEGER NOT NULL DEFAULT 0,
+    last_used_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_feedback_comments_teacher ON public.feedback_comments(teacher_id);
+CREATE INDEX IF NOT EXISTS idx_feedback_comments_class ON public.feedback_comments(class_id);
+-- A shortcut expands to one comment per teacher
+CREATE UNIQUE INDEX IF NOT EXISTS idx_feedback_comments_shortcut ON public.feedback_comments(teacher_id, shortcut)
+WHERE shortcut IS NOT NULL;
+
+ALTER TABLE public.feedback_comments ENABLE ROW LEVEL SECURITY;
+
+-- Teachers manage their own comments and every comment in the classes they teach
+CREATE POLICY "feedback_comments_teacher_access" ON public.feedback_comments
+    FOR ALL USING (
+        teacher_id = auth.uid()
+        OR EXISTS (
+            SELECT 1 FROM public.classes
+            WHERE id = class_id AND teacher_id = auth.uid()
+        )
+    )
+    WITH CHECK (
+        teacher_id = auth.uid()
+        AND (
+            class_id IS NULL
+            OR EXISTS (
+                SELECT 1 FROM public.classes
+                WHERE id = class_id AND teacher_id = auth.uid()
+            )
+        )
+    );
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.feedback_comments TO authenticated;
+
+CREATE TRIGGER update_feedback_comments_updated_at
+    BEFORE UPDATE ON public.feedback_comments
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Each time a bank comment goes into a saved grade, for per-assignment usage stats
+CREATE TABLE IF NOT EXISTS public.feedback_comment_uses (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    comment_id UUID REFERENCES public.feedback_comments(id) ON DELETE CASCADE NOT NULL,
+    submission_id UUID REFERENCES public.submissions(id) ON DELETE CASCADE NOT NULL,
+    assignment_id UUID REFERENCES public.assignments(id) ON DELETE CASCADE NOT NULL,
+    used_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    used_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (comment_id, submission_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_feedback_comment_uses_assignment ON public.feedback_comment_uses(assignment_id);
+
+ALTER TABLE public.feedback_comment_uses ENABLE ROW LEVEL SECURITY;
+
+-- Teachers record and read uses on their own assignments
+CREATE POLICY "feedback_comment_uses_teacher_access" ON public.feedback_comment_uses
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM public.assignments
+            WHERE id = assignment_id AND teacher_id = auth.uid()
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM public.assignments
+            WHERE id = assignment_id AND teacher_id = auth.uid()
+        )
+    );
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.feedback_comment_uses TO authenticated;
+
+-- Keep the comment's running total in step with its uses
+CREATE OR REPLACE FUNCTION public.count_feedback_comment_use()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        UPDATE public.feedback_comments
+        SET usage_count = usage_count + 1, last_used_at = NEW.used_at
+        WHERE id = NEW.comment_id;
+        RETURN NEW;
+    END IF;
+
+    UPDATE public.feedback_comments
+    SET usage_count = GREATEST(usage_count - 1, 0)
+    WHERE id = OLD.comment_id;
+    RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER count_feedback_comment_use
+    AFTER INSERT OR DELETE ON public.feedback_comment_uses
+    FOR EACH ROW EXECUTE FUNCTION public.count_feedback_comment_use();
+
+-- Add comments to describe the fields
+COMMENT ON COLUMN public.feedback_comments.tags IS 'Lower-case labels for filtering, e.g. {structure, evidence}';
+COMMENT ON COLUMN public.feedback_comments.shortcut IS 'Typing /shortcut in a feedback box inserts the comment';
+COMMENT ON COLUMN public.feedback_comments.source IS 'manual, or the AI grading field the comment was promoted from';
+COMMENT ON COLUMN public.feedback_comments.usage_count IS 'Saved grades that used the comment; maintained from feedback_comment_uses';
+COMMENT ON TABLE public.feedback_comment_uses IS 'One row per comment per submission it was applied to';
@@ -0,0 +1,111 @@
+-- Queue of automatic grading work, processed by the AI server's grading worker
+CREATE TABLE IF NOT EXISTS public.grading_jobs (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    submission_id UUID REFERENCES public.submissions(id) ON DELETE CASCADE NOT NULL UNIQUE,
+    status TEXT NOT NULL CHECK (status IN ('queued', 'running', 'done', 'failed')) DEFAULT 'queued',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 3,
+    next_run_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    locked_at TIMESTAMP WITH TIME ZONE,
+    last_error TEXT,
+    attempt_log JSONB NOT NULL DEFAULT '[]'::jsonb,
+    queued_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    completed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_grading_jobs_status_next_run ON public.grading_jobs(status, next_run_at);
+
+ALTER TABLE public.grading_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Students can see the grading status of their own submissions
+CREATE POLICY "grading_jobs_student_read" ON public.grading_jobs
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.submissions
+            WHERE id = submission_id AND student_id = auth.uid()
+        )
+    );
+
+-- Teachers can see and requeue jobs for their assignments
+CREATE POLICY "grading_jobs_teacher_access" ON public.grading_jobs
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM public.submissions s
+            INNER JOIN public.assignments a ON s.assignment_id = a.id
+            WHERE s.id = submission_id AND a.teacher_id = auth.uid()
+        )
+    );
+
+GRANT SELECT, UPDATE ON public.grading_jobs TO authenticated;
+
+-- Queue (or requeue) a grading job whenever a submission is created or its file is replaced
+CREATE OR REPLACE FUNCTION public.enqueue_grading_job()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO public.grading_jobs (submission_id)
+    VALUES (NEW.id)
+    ON CONFLICT (submission_id) DO UPDATE
+    SET status = 'queued',
+        attempts = 0,
+        next_run_at = NOW(),
+        locked_at = NULL,
+        last_error = NULL,
+        queued_at = NOW(),
+        completed_at = NULL,
+        updated_at = NOW();
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER enqueue_grading_job_on_insert
+    AFTER INSERT ON public.submissions
+    FOR EACH ROW EXECUTE FUNCTION public.enqueue_grading_job();
+
+CREATE TRIGGER enqueue_grading_job_on_resubmit
+    AFTER UPDATE OF file_url ON public.submissions
+    FOR EACH ROW
+    WHEN (OLD.file_url IS DISTINCT FROM NEW.file_url)
+    EXECUTE FUNCTION public.enqueue_grading_job();
+
+CREATE TRIGGER update_grading_jobs_updated_at
+    BEFORE UPDATE ON public.grading_jobs
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Atomically claim the next due job; running jobs whose worker died are reclaimed after stale_after
+CREATE OR REPLACE FUNCTION public.claim_grading_job(stale_after INTERVAL DEFAULT INTERVAL '10 minutes')
+RETURNS SETOF public.grading_jobs AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE public.grading_jobs
+    SET status = 'running',
+        locked_at = NOW(),
+        attempts = attempts + 1
+    WHERE id = (
+        SELECT id FROM public.grading_jobs
+        WHERE (status = 'queued' AND next_run_at <= NOW())
+           OR (status = 'running' AND locked_at < NOW() - stale_after)
+        ORDER BY next_run_at
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only the server (service role) may claim jobs
+REVOKE EXECUTE ON FUNCTION public.claim_grading_job(INTERVAL) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_grading_job(INTERVAL) TO service_role;
+
+-- Queue existing ungraded submissions so they are picked up by the worker
+INSERT INTO public.grading_jobs (submission_id)
+SELECT id FROM public.submissions
+WHERE grade IS NULL
+ON CONFLICT (submission_id) DO NOTHING;
+
+-- Add comments to describe the table
+COMMENT ON TABLE public.grading_jobs IS 'Automatic AI grading queue, one job per submission';
+COMMENT ON COLUMN public.grading_jobs.attempt_log IS 'Array of {attempt, started_at, latency_ms, provider, model, error, provider_attempts} entries';
+COMMENT ON COLUMN public.grading_jobs.queued_at IS 'When the job was last queued; manual grades after this time are not overwritten';
@@ -0,0 +1,50 @@
+-- Reusable questions, shared across a class (class_id set) or kept in a teacher's personal bank (class_id null)
+CREATE TABLE IF NOT EXISTS public.question_bank (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    teacher_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+    class_id UUID REFERENCES public.classes(id) ON DELETE CASCADE,
+    question JSONB NOT NULL,
+    topic TEXT NOT NULL DEFAULT '',
+    difficulty TEXT NOT NULL DEFAULT 'medium' CHECK (difficulty IN ('easy', 'medium', 'hard')),
+    learning_outcome TEXT NOT NULL DEFAULT '',
+    source_assignment_id UUID REFERENCES public.assignments(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_question_bank_teacher ON public.question_bank(teacher_id);
+CREATE INDEX IF NOT EXISTS idx_question_bank_class ON public.question_bank(class_id);
+CREATE INDEX IF NOT EXISTS idx_question_bank_topic ON public.question_bank(lower(topic));
+
+ALTER TABLE public.question_bank ENABLE ROW LEVEL SECURITY;
+
+-- Teachers manage their own questions and every question in the classes they teach
+CREATE POLICY "question_bank_teacher_access" ON public.question_bank
+    FOR ALL USING (
+        teacher_id = auth.uid()
+        OR EXISTS (
+            SELECT 1 FROM public.classes
+            WHERE id = class_id AND teacher_id = auth.uid()
+        )
+    )
+    WITH CHECK (
+        teacher_id = auth.uid()
+        AND (
+            class_id IS NULL
+            OR EXISTS (
+                SELECT 1 FROM public.classes
+                WHERE id = class_id AND teacher_id = auth.uid()
+            )
+        )
+    );
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.question_bank TO authenticated;
+
+CREATE TRIGGER update_question_bank_updated_at
+    BEFORE UPDATE ON public.question_bank
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Add comments to describe the fields
+COMMENT ON COLUMN public.question_bank.question IS 'AssignmentQuestion JSON (type, prompt, marks, options and answer key); id and number are reassigned when the question is added to an assignment';
+COMMENT ON COLUMN public.question_bank.learning_outcome IS 'Free-text learning outcome the question assesses';
+COMMENT ON COLUMN public.question_bank.source_assignment_id IS 'Assignment the question was imported from, if any';
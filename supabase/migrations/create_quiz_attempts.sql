@@ -0,0 +1,116 @@
+-- Timed quizzes: an assignment kind with an open window (opens_at to due_date), a per-attempt duration and an attempt limit
+ALTER TABLE public.assignments
+ADD COLUMN kind TEXT NOT NULL DEFAULT 'assignment' CHECK (kind IN ('assignment', 'quiz')),
+ADD COLUMN opens_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN duration_minutes INTEGER CHECK (duration_minutes IS NULL OR duration_minutes > 0),
+ADD COLUMN max_attempts INTEGER NOT NULL DEFAULT 1 CHECK (max_attempts > 0),
+ADD COLUMN shuffle_questions BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN shuffle_options BOOLEAN NOT NULL DEFAULT false;
+
+-- Add comments to describe the fields
+COMMENT ON COLUMN public.assignments.kind IS 'assignment (file upload or online form) or quiz (timed attempts started through the AI server)';
+COMMENT ON COLUMN public.assignments.opens_at IS 'Quizzes cannot be started before this time; they close at due_date';
+COMMENT ON COLUMN public.assignments.duration_minutes IS 'Time allowed per quiz attempt, cut short by due_date';
+COMMENT ON COLUMN public.assignments.max_attempts IS 'Number of attempts each student may start';
+COMMENT ON COLUMN public.assignments.shuffle_questions IS 'Show quiz questions in a per-attempt random order';
+COMMENT ON COLUMN public.assignments.shuffle_options IS 'Show choice options in a per-attempt random order';
+
+-- One row per quiz attempt; the latest submitted attempt is copied onto the student's submission
+CREATE TABLE IF NOT EXISTS public.quiz_attempts (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    assignment_id UUID REFERENCES public.assignments(id) ON DELETE CASCADE NOT NULL,
+    student_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+    attempt_number INTEGER NOT NULL,
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    submitted_at TIMESTAMP WITH TIME ZONE,
+    responses JSONB NOT NULL DEFAULT '{}'::jsonb,
+    score NUMERIC,
+    max_score NUMERIC,
+    auto_submitted BOOLEAN NOT NULL DEFAULT false,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (assignment_id, student_id, attempt_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_quiz_attempts_open ON public.quiz_attempts(expires_at) WHERE submitted_at IS NULL;
+
+ALTER TABLE public.quiz_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Students can see their own attempts
+CREATE POLICY "quiz_attempts_student_read" ON public.quiz_attempts
+    FOR SELECT USING (student_id = auth.uid());
+
+-- Students can autosave answers while an attempt is still open; answers sent with a late submit still reach the
+-- AI server's grace period
+CREATE POLICY "quiz_attempts_student_autosave" ON public.quiz_attempts
+    FOR UPDATE USING (
+        student_id = auth.uid()
+        AND submitted_at IS NULL
+        AND expires_at > NOW()
+    )
+    WITH CHECK (student_id = auth.uid());
+
+-- Teachers can see attempts for their quizzes
+CREATE POLICY "quiz_attempts_teacher_read" ON public.quiz_attempts
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.assignments
+            WHERE id = assignment_id AND teacher_id = auth.uid()
+        )
+    );
+
+-- Attempts are created and submitted by the AI server with the service role; students may only touch responses
+REVOKE UPDATE ON public.quiz_attempts FROM authenticated;
+GRANT SELECT ON public.quiz_attempts TO authenticated;
+GRANT UPDATE (responses) ON public.quiz_attempts TO authenticated;
+
+-- Backs up the column grant: a student's update may change nothing but the answers of an open attempt, so the
+-- timer, attempt number and score the AI server relies on stay as it wrote them
+CREATE OR REPLACE FUNCTION public.guard_quiz_attempt_autosave()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF auth.uid() IS DISTINCT FROM OLD.student_id THEN
+        RETURN NEW;
+    END IF;
+
+    IF OLD.submitted_at IS NOT NULL OR OLD.expires_at <= NOW() THEN
+        RAISE EXCEPTION 'This quiz attempt is no longer open';
+    END IF;
+
+    IF (NEW.id, NEW.assignment_id, NEW.student_id, NEW.attempt_number, NEW.started_at, NEW.expires_at,
+        NEW.submitted_at, NEW.score, NEW.max_score, NEW.auto_submitted, NEW.created_at)
+       IS DISTINCT FROM
+       (OLD.id, OLD.assignment_id, OLD.student_id, OLD.attempt_number, OLD.started_at, OLD.expires_at,
+        OLD.submitted_at, OLD.score, OLD.max_score, OLD.auto_submitted, OLD.created_at) THEN
+        RAISE EXCEPTION 'Students can only change the answers of a quiz attempt';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER guard_quiz_attempt_autosave
+    BEFORE UPDATE ON public.quiz_attempts
+    FOR EACH ROW EXECUTE FUNCTION public.guard_quiz_attempt_autosave();
+
+CREATE TRIGGER update_quiz_attempts_updated_at
+    BEFORE UPDATE ON public.quiz_attempts
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Quiz submissions only arrive through a submitted attempt, never written directly by the student
+CREATE POLICY "submissions_quiz_via_attempts_insert" ON public.submissions
+    AS RESTRICTIVE FOR INSERT WITH CHECK (
+        NOT EXISTS (
+            SELECT 1 FROM public.assignments
+            WHERE id = assignment_id AND kind = 'quiz' AND teacher_id <> auth.uid()
+        )
+    );
+
+CREATE POLICY "submissions_quiz_via_attempts_update" ON public.submissions
+    AS RESTRICTIVE FOR UPDATE USING (
+        NOT EXISTS (
+            SELECT 1 FROM public.assignments
+            WHERE id = assignment_id AND kind = 'quiz' AND teacher_id <> auth.uid()
+        )
+    );
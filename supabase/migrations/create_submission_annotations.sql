@@ -0,0 +1,60 @@
+-- Teacher mark-up on submission pages: pen strokes, highlights, comments and rubric stamps.
+-- Coordinates in data are fractions (0-1) of the page's width and height.
+CREATE TABLE IF NOT EXISTS public.submission_annotations (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    submission_id UUID REFERENCES public.submissions(id) ON DELETE CASCADE NOT NULL,
+    version_number INTEGER NOT NULL DEFAULT 1,
+    page INTEGER NOT NULL CHECK (page > 0),
+    kind TEXT NOT NULL CHECK (kind IN ('pen', 'highlight', 'comment', 'stamp')),
+    color TEXT NOT NULL DEFAULT '#dc2626',
+    data JSONB NOT NULL,
+    created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_submission_annotations_submission ON public.submission_annotations(submission_id, version_number, page);
+
+ALTER TABLE public.submission_annotations ENABLE ROW LEVEL SECURITY;
+
+-- Teachers annotate submissions for their assignments
+CREATE POLICY "submission_annotations_teacher_access" ON public.submission_annotations
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM public.submissions s
+            INNER JOIN public.assignments a ON s.assignment_id = a.id
+            WHERE s.id = submission_id AND a.teacher_id = auth.uid()
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM public.submissions s
+            INNER JOIN public.assignments a ON s.assignment_id = a.id
+            WHERE s.id = submission_id AND a.teacher_id = auth.uid()
+        )
+    );
+
+-- Students see the mark-up on their own work once the grade is visible to them
+CREATE POLICY "submission_annotations_student_read" ON public.submission_annotations
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.submissions s
+            INNER JOIN public.assignments a ON s.assignment_id = a.id
+            WHERE s.id = submission_id
+              AND s.student_id = auth.uid()
+              AND s.release_status = 'released'
+              AND (a.grades_release_at IS NULL OR a.grades_release_at <= NOW())
+        )
+    );
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.submission_annotations TO authenticated;
+
+CREATE TRIGGER update_submission_annotations_updated_at
+    BEFORE UPDATE ON public.submission_annotations
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Add comments to describe the table
+COMMENT ON TABLE public.submission_annotations IS 'Teacher annotations anchored to pages of a submission version';
+COMMENT ON COLUMN public.submission_annotations.version_number IS 'Submission version the annotation was drawn on; resubmitted files start unmarked';
+COMMENT ON COLUMN public.submission_annotations.page IS 'Page in the submission''s continuous page numbering across its files';
+COMMENT ON COLUMN public.submission_annotations.data IS 'pen: {points, width}; highlight: {x, y, width, height}; comment: {x, y, text}; stamp: {x, y, label, criterion_id}';
@@ -0,0 +1,200 @@
+-- Resubmission policy per assignment: none, any number until the due date, or a limited number of attempts
+ALTER TABLE public.assignments
+ADD COLUMN resubmission_policy TEXT NOT NULL DEFAULT 'none' CHECK (resubmission_policy IN ('none', 'until_due', 'attempts')),
+ADD COLUMN max_submissions INTEGER CHECK (max_submissions IS NULL OR max_submissions > 0),
+ADD COLUMN keep_grade TEXT NOT NULL DEFAULT 'latest' CHECK (keep_grade IN ('latest', 'best'));
+
+-- Which version the submission row currently holds, and which version's grade is counted
+ALTER TABLE public.submissions
+ADD COLUMN current_version INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN counted_version INTEGER;
+
+-- Add comments to describe the fields
+COMMENT ON COLUMN public.assignments.resubmission_policy IS 'none, until_due (resubmit freely until due_date) or attempts (up to max_submissions versions)';
+COMMENT ON COLUMN public.assignments.max_submissions IS 'Versions each student may submit when resubmission_policy is attempts';
+COMMENT ON COLUMN public.assignments.keep_grade IS 'latest counts the newest graded version; best counts the highest graded version';
+COMMENT ON COLUMN public.submissions.current_version IS 'Version number of the files and text currently on the submission';
+COMMENT ON COLUMN public.submissions.counted_version IS 'Version whose grade is stored in grade; differs from current_version when keep_grade is best';
+
+-- Every submitted version with its own text and grade; the submission row mirrors the latest one
+CREATE TABLE IF NOT EXISTS public.submission_versions (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    submission_id UUID REFERENCES public.submissions(id) ON DELETE CASCADE NOT NULL,
+    version_number INTEGER NOT NULL,
+    file_url TEXT,
+    file_name TEXT,
+    files JSONB,
+    ocr_text TEXT,
+    responses JSONB,
+    grade NUMERIC,
+    feedback TEXT,
+    graded_at TIMESTAMP WITH TIME ZONE,
+    submitted_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (submission_id, version_number)
+);
+
+ALTER TABLE public.submission_versions ENABLE ROW LEVEL SECURITY;
+
+-- Students can see the versions of their own submissions once the grade is released, since versions carry grades
+CREATE POLICY "submission_versions_student_read" ON public.submission_versions
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.submissions s
+            INNER JOIN public.assignments a ON s.assignment_id = a.id
+            WHERE s.id = submission_id
+              AND s.student_id = auth.uid()
+              AND s.release_status = 'released'
+              AND (a.grades_release_at IS NULL OR a.grades_release_at <= NOW())
+        )
+    );
+
+-- Teachers can see versions for their assignments
+CREATE POLICY "submission_versions_teacher_read" ON public.submission_versions
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.submissions s
+            INNER JOIN public.assignments a ON s.assignment_id = a.id
+            WHERE s.id = submission_id AND a.teacher_id = auth.uid()
+        )
+    );
+
+-- Versions are only written by the triggers below
+GRANT SELECT ON public.submission_versions TO authenticated;
+
+CREATE TRIGGER update_submission_versions_updated_at
+    BEFORE UPDATE ON public.submission_versions
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Record the first version when a submission is created
+CREATE OR REPLACE FUNCTION public.record_first_submission_version()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO public.submission_versions (submission_id, version_number, file_url, file_name, files, ocr_text, responses, submitted_at)
+    VALUES (NEW.id, NEW.current_version, NEW.file_url, NEW.file_name, NEW.files, NEW.ocr_text, NEW.responses, COALESCE(NEW.submitted_at, NOW()));
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER record_first_submission_version
+    AFTER INSERT ON public.submissions
+    FOR EACH ROW EXECUTE FUNCTION public.record_first_submission_version();
+
+-- The ordered file URLs of a submission's files list
+CREATE OR REPLACE FUNCTION public.submission_file_urls(files JSONB)
+RETURNS JSONB AS $$
+    SELECT COALESCE(jsonb_agg(file->'url' ORDER BY position), '[]'::jsonb)
+    FROM jsonb_array_elements(COALESCE(files, '[]'::jsonb)) WITH ORDINALITY AS items(file, position);
+$$ LANGUAGE sql IMMUTABLE;
+
+-- New files or answers start a new version (checked against the policy when the student makes the change);
+-- grade changes are written to the current version and the counted grade is picked per keep_grade
+CREATE OR REPLACE FUNCTION public.apply_submission_version()
+RETURNS TRIGGER AS $$
+DECLARE
+    assignment RECORD;
+    counted RECORD;
+    due TIMESTAMP WITH TIME ZONE;
+BEGIN
+    SELECT kind, due_date, resubmission_policy, max_submissions, keep_grade INTO assignment
+    FROM public.assignments WHERE id = NEW.assignment_id;
+
+    -- Quizzes keep their history in quiz_attempts
+    IF assignment.kind = 'quiz' THEN
+        RETURN NEW;
+    END IF;
+
+    -- Only the file URLs count: the grading worker fills in page ranges on the same files after OCR
+    IF NEW.file_url IS DISTINCT FROM OLD.file_url
+       OR public.submission_file_urls(NEW.files) IS DISTINCT FROM public.submission_file_urls(OLD.files)
+       OR NEW.responses IS DISTINCT FROM OLD.responses THEN
+
+        IF auth.uid() = OLD.student_id THEN
+            IF assignment.resubmission_policy = 'none' THEN
+                RAISE EXCEPTION 'Resubmissions are not allowed for this assignment';
+            ELSIF assignment.resubmission_policy = 'until_due' THEN
+                -- The student's own due date, extension included (compute_submission_lateness is in add_late_policies.sql)
+                SELECT effective_due_date INTO due FROM public.compute_submission_lateness(NEW.assignment_id, OLD.student_id, NOW());
+                IF NOW() > due THEN
+                    RAISE EXCEPTION 'Resubmissions closed at %', due;
+                END IF;
+            ELSIF assignment.resubmission_policy = 'attempts' AND OLD.current_version >= COALESCE(assignment.max_submissions, 1) THEN
+                RAISE EXCEPTION 'All % submission attempts have been used', COALESCE(assignment.max_submissions, 1);
+            END IF;
+        END IF;
+
+        NEW.current_version := OLD.current_version + 1;
+        NEW.submitted_at := NOW();
+
+        INSERT INTO public.submission_versions (submission_id, version_number, file_url, file_name, files, ocr_text, responses, submitted_at)
+        VALUES (NEW.id, NEW.current_version, NEW.file_url, NEW.file_name, NEW.files, NEW.ocr_text, NEW.responses, NEW.submitted_at);
+
+        -- The new version is graded from scratch; earlier grades stay on their versions
+        NEW.grade := NULL;
+        NEW.feedback := NULL;
+        NEW.criterion_scores := NULL;
+        NEW.question_scores := NULL;
+        NEW.raw_score := NULL;
+        NEW.raw_score_max := NULL;
+        NEW.ai_draft := NULL;
+        NEW.grading_samples := NULL;
+        NEW.grade_spread := NULL;
+        NEW.needs_review := false;
+        NEW.ai_text_check := NULL;
+        NEW.graded_at := NULL;
+        NEW.graded_by := NULL;
+        NEW.release_status := 'draft';
+        NEW.released_at := NULL;
+        NEW.release_notified_at := NULL;
+        NEW.counted_version := NULL;
+        RETURN NEW;
+    END IF;
+
+    -- Text corrections belong to the current version too
+    IF NEW.ocr_text IS DISTINCT FROM OLD.ocr_text THEN
+        UPDATE public.submission_versions SET ocr_text = NEW.ocr_text
+        WHERE submission_id = NEW.id AND version_number = NEW.current_version;
+    END IF;
+
+    IF NEW.grade IS DISTINCT FROM OLD.grade OR NEW.feedback IS DISTINCT FROM OLD.feedback OR NEW.graded_at IS DISTINCT FROM OLD.graded_at THEN
+        -- OLD.grade is the counted grade, which may belong to another version: a new graded_at marks a grading of
+        -- this version even when its mark equals the counted one, while a feedback-only edit keeps the version's grade
+        UPDATE public.submission_versions
+        SET grade = CASE WHEN NEW.grade IS DISTINCT FROM OLD.grade OR NEW.graded_at IS DISTINCT FROM OLD.graded_at THEN NEW.grade ELSE grade END,
+            feedback = NEW.feedback,
+            graded_at = NEW.graded_at
+        WHERE submission_id = NEW.id AND version_number = NEW.current_version;
+
+        SELECT version_number, grade INTO counted
+        FROM public.submission_versions
+        WHERE submission_id = NEW.id AND grade IS NOT NULL
+        ORDER BY CASE WHEN assignment.keep_grade = 'best' THEN grade END DESC NULLS LAST, version_number DESC
+        LIMIT 1;
+
+        IF FOUND THEN
+            NEW.grade := counted.grade;
+            NEW.counted_version := counted.version_number;
+        ELSE
+            NEW.counted_version := NULL;
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER apply_submission_version
+    BEFORE UPDATE ON public.submissions
+    FOR EACH ROW EXECUTE FUNCTION public.apply_submission_version();
+
+-- Existing submissions become version 1 with their current grade
+INSERT INTO public.submission_versions (submission_id, version_number, file_url, file_name, files, ocr_text, responses, grade, feedback, graded_at, submitted_at)
+SELECT id, 1, file_url, file_name, files, ocr_text, responses, grade, feedback, graded_at, COALESCE(submitted_at, NOW())
+FROM public.submissions
+ON CONFLICT (submission_id, version_number) DO NOTHING;
+
+UPDATE public.submissions SET counted_version = 1 WHERE grade IS NOT NULL;
+
+-- Add comments to describe the table
+COMMENT ON TABLE public.submission_versions IS 'Every version a student submitted, with its own OCR text and grade';
@@ -0,0 +1,102 @@
+-- Conversation on a ticket between the student and the teacher. The ticket's reason opens the thread;
+-- replies point at the message they answer through parent_id
+CREATE TABLE IF NOT EXISTS public.ticket_messages (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    ticket_id UUID REFERENCES public.tickets(id) ON DELETE CASCADE NOT NULL,
+    parent_id UUID REFERENCES public.ticket_messages(id) ON DELETE CASCADE,
+    sender_id UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    body TEXT NOT NULL DEFAULT '',
+    attachments JSONB NOT NULL DEFAULT '[]'::jsonb,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (btrim(body) <> '' OR jsonb_array_length(attachments) > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ticket_messages_ticket ON public.ticket_messages(ticket_id, created_at);
+
+-- How far each participant has read a ticket's conversation; messages sent before last_read_at count as seen
+CREATE TABLE IF NOT EXISTS public.ticket_reads (
+    ticket_id UUID REFERENCES public.tickets(id) ON DELETE CASCADE NOT NULL,
+    user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+    last_read_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (ticket_id, user_id)
+);
+
+-- The ticket's student and the teacher of the disputed assignment
+CREATE OR REPLACE FUNCTION public.is_ticket_participant(p_ticket_id UUID)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.tickets t
+        INNER JOIN public.submissions s ON s.id = t.submission_id
+        INNER JOIN public.assignments a ON a.id = s.assignment_id
+        WHERE t.id = p_ticket_id AND (t.student_id = auth.uid() OR a.teacher_id = auth.uid())
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.is_ticket_participant(UUID) TO authenticated;
+
+ALTER TABLE public.ticket_messages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ticket_reads ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "ticket_messages_participant_read" ON public.ticket_messages
+    FOR SELECT USING (public.is_ticket_participant(ticket_id));
+
+-- Participants post as themselves, not on a closed ticket, and only reply to messages on the same ticket
+CREATE POLICY "ticket_messages_participant_insert" ON public.ticket_messages
+    FOR INSERT WITH CHECK (
+        sender_id = auth.uid()
+        AND public.is_ticket_participant(ticket_id)
+        AND EXISTS (SELECT 1 FROM public.tickets WHERE id = ticket_id AND status <> 'closed')
+        AND (parent_id IS NULL OR EXISTS (
+            SELECT 1 FROM public.ticket_messages parent
+            WHERE parent.id = ticket_messages.parent_id AND parent.ticket_id = ticket_messages.ticket_id
+        ))
+    );
+
+-- Read receipts are visible to both sides; each user only moves their own
+CREATE POLICY "ticket_reads_participant_read" ON public.ticket_reads
+    FOR SELECT USING (public.is_ticket_participant(ticket_id));
+
+CREATE POLICY "ticket_reads_own_write" ON public.ticket_reads
+    FOR ALL USING (user_id = auth.uid())
+    WITH CHECK (user_id = auth.uid() AND public.is_ticket_participant(ticket_id));
+
+GRANT SELECT, INSERT ON public.ticket_messages TO authenticated;
+GRANT SELECT, INSERT, UPDATE ON public.ticket_reads TO authenticated;
+
+CREATE TRIGGER update_ticket_messages_updated_at
+    BEFORE UPDATE ON public.ticket_messages
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- A teacher_response (e.g. from resolve_regrade_ticket) also lands in the conversation, so it is not lost when the
+-- ticket is reopened and answered again
+CREATE OR REPLACE FUNCTION public.post_ticket_response_message()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF COALESCE(btrim(NEW.teacher_response), '') <> ''
+       AND NEW.teacher_response IS DISTINCT FROM OLD.teacher_response THEN
+        INSERT INTO public.ticket_messages (ticket_id, sender_id, body)
+        VALUES (NEW.id, NEW.responded_by, NEW.teacher_response);
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER post_ticket_response_message
+    AFTER UPDATE OF teacher_response ON public.tickets
+    FOR EACH ROW EXECUTE FUNCTION public.post_ticket_response_message();
+
+-- Existing responses start their tickets' conversations
+INSERT INTO public.ticket_messages (ticket_id, sender_id, body, created_at)
+SELECT id, responded_by, teacher_response, COALESCE(responded_at, updated_at)
+FROM public.tickets
+WHERE COALESCE(btrim(teacher_response), '') <> '';
+
+-- Stream new messages and read receipts to open conversations
+ALTER PUBLICATION supabase_realtime ADD TABLE public.ticket_messages, public.ticket_reads;
+
+-- Add comments to describe the fields
+COMMENT ON TABLE public.ticket_messages IS 'Messages in a ticket''s conversation between the student and the teacher';
+COMMENT ON COLUMN public.ticket_messages.parent_id IS 'Message this one replies to; null for a message on the ticket itself';
+COMMENT ON COLUMN public.ticket_messages.attachments IS 'Uploaded files: [{url, path, fileName, fileType, fileSize}]';
+COMMENT ON TABLE public.ticket_reads IS 'Read receipts: when each participant last read a ticket''s conversation';
@@ -0,0 +1,106 @@
+-- Enforce grade release in the database rather than only in the client. Students read their submissions through
+-- get_own_submissions(), which blanks every grade-bearing field until the grade is released; the table itself only
+-- shows them rows without a hidden grade, and they change files and answers through resubmit_submission()
+
+-- Whether a student may see a submission's grade yet; matches isGradeVisible in src/utils/supabase.ts
+CREATE OR REPLACE FUNCTION public.is_grade_released(p_release_status TEXT, p_assignment_id UUID)
+RETURNS BOOLEAN AS $$
+    SELECT p_release_status = 'released' AND EXISTS (
+        SELECT 1 FROM public.assignments
+        WHERE id = p_assignment_id
+          AND (grades_release_at IS NULL OR grades_release_at <= NOW())
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Whether a submission holds any grading output: the grade itself, its breakdowns, an AI draft or sampling results
+CREATE OR REPLACE FUNCTION public.submission_has_grade(s public.submissions)
+RETURNS BOOLEAN AS $$
+    SELECT s.grade IS NOT NULL
+        OR s.feedback IS NOT NULL
+        OR s.criterion_scores IS NOT NULL
+        OR s.question_scores IS NOT NULL
+        OR s.raw_score IS NOT NULL
+        OR s.raw_score_max IS NOT NULL
+        OR s.ai_draft IS NOT NULL
+        OR s.grading_samples IS NOT NULL
+        OR s.grade_spread IS NOT NULL;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- The submission as its student may see it: the fields checked above are blanked until the grade is released
+CREATE OR REPLACE FUNCTION public.mask_unreleased_grade(s public.submissions)
+RETURNS public.submissions AS $$
+    SELECT CASE
+        WHEN public.is_grade_released(s.release_status, s.assignment_id) THEN s
+        ELSE jsonb_populate_record(s, jsonb_build_object(
+            'grade', NULL,
+            'feedback', NULL,
+            'criterion_scores', NULL,
+            'question_scores', NULL,
+            'raw_score', NULL,
+            'raw_score_max', NULL,
+            'ai_draft', NULL,
+            'grading_samples', NULL,
+            'grade_spread', NULL
+        ))
+    END;
+$$ LANGUAGE sql STABLE;
+
+-- The caller's own submissions, masked; returns submissions rows so PostgREST can still embed assignments and users
+CREATE OR REPLACE FUNCTION public.get_own_submissions()
+RETURNS SETOF public.submissions AS $$
+    SELECT masked.*
+    FROM public.submissions s
+    CROSS JOIN LATERAL public.mask_unreleased_grade(s) AS masked
+    WHERE s.student_id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Replace the student's files, text or answers; only those columns are taken from p_updates.
+-- The submission triggers still apply the resubmission policy, start a new version and re-queue grading
+CREATE OR REPLACE FUNCTION public.resubmit_submission(p_submission_id UUID, p_updates JSONB)
+RETURNS public.submissions AS $$
+DECLARE
+    updated public.submissions;
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM public.submissions s
+        INNER JOIN public.assignments a ON a.id = s.assignment_id
+        WHERE s.id = p_submission_id AND a.kind = 'quiz'
+    ) THEN
+        RAISE EXCEPTION 'Quiz answers are submitted through quiz attempts';
+    END IF;
+
+    UPDATE public.submissions s
+    SET (file_url, file_name, files, ocr_text, ocr_raw_text, ocr_pages, ocr_confidence, ocr_corrected_at, ocr_corrected_by, responses) = (
+        SELECT u.file_url, u.file_name, u.files, u.ocr_text, u.ocr_raw_text, u.ocr_pages, u.ocr_confidence,
+               u.ocr_corrected_at, u.ocr_corrected_by, u.responses
+        FROM jsonb_populate_record(s, p_updates) AS u
+    )
+    WHERE s.id = p_submission_id AND s.student_id = auth.uid()
+    RETURNING s.* INTO updated;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Submission not found';
+    END IF;
+
+    RETURN public.mask_unreleased_grade(updated);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.get_own_submissions() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.resubmit_submission(UUID, JSONB) TO authenticated;
+
+-- The old policy let students read and write every column of their own rows, grades included
+DROP POLICY IF EXISTS "submissions_student_own" ON public.submissions;
+
+CREATE POLICY "submissions_student_insert" ON public.submissions
+    FOR INSERT WITH CHECK (student_id = auth.uid() AND NOT public.submission_has_grade(submissions));
+
+CREATE POLICY "submissions_student_read" ON public.submissions
+    FOR SELECT USING (
+        student_id = auth.uid()
+        AND (public.is_grade_released(release_status, assignment_id) OR NOT public.submission_has_grade(submissions))
+    );
+
+-- Add comments to describe the functions
+COMMENT ON FUNCTION public.get_own_submissions() IS 'The caller''s submissions with grade, feedback, scores, AI drafts and grading samples blanked until released';
+COMMENT ON FUNCTION public.resubmit_submission(UUID, JSONB) IS 'Student resubmission: updates only the file, OCR text and response columns of the caller''s submission';
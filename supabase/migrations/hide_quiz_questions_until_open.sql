@@ -0,0 +1,53 @@
+-- Quiz questions stay off the assignment row, which every class member can read, so students cannot see a quiz
+-- before it opens. Attempts get them from the AI server; get_quiz_questions() hands them out once the quiz opens
+
+-- Runs after the store_answer_keys triggers (triggers fire in name order), so the questions are already in
+-- assignment_answer_keys. A quiz turned back into an assignment gets its stripped questions back
+CREATE OR REPLACE FUNCTION public.strip_quiz_questions()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.kind = 'quiz' THEN
+        NEW.questions := NULL;
+    ELSIF TG_OP = 'UPDATE' AND OLD.kind = 'quiz' THEN
+        SELECT public.strip_question_keys(questions) INTO NEW.questions
+        FROM public.assignment_answer_keys
+        WHERE assignment_id = NEW.id;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- The questions are already in assignment_answer_keys; clear them without storing the NULL as the key
+ALTER TABLE public.assignments DISABLE TRIGGER store_question_keys;
+
+UPDATE public.assignments
+SET questions = NULL
+WHERE kind = 'quiz' AND questions IS NOT NULL;
+
+ALTER TABLE public.assignments ENABLE TRIGGER store_question_keys;
+
+CREATE TRIGGER strip_quiz_questions
+    BEFORE INSERT OR UPDATE OF questions, kind ON public.assignments
+    FOR EACH ROW EXECUTE FUNCTION public.strip_quiz_questions();
+
+-- A quiz's questions without their answers, for its class once it has opened
+CREATE OR REPLACE FUNCTION public.get_quiz_questions(p_assignment_id UUID)
+RETURNS JSONB AS $$
+    SELECT public.strip_question_keys(k.questions)
+    FROM public.assignments a
+    INNER JOIN public.assignment_answer_keys k ON k.assignment_id = a.id
+    WHERE a.id = p_assignment_id
+      AND a.kind = 'quiz'
+      AND (a.opens_at IS NULL OR a.opens_at <= NOW())
+      AND (
+          a.teacher_id = auth.uid()
+          OR EXISTS (SELECT 1 FROM public.class_members WHERE class_id = a.class_id AND user_id = auth.uid())
+      );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.get_quiz_questions(UUID) TO authenticated;
+
+-- Add comments to describe the fields
+COMMENT ON COLUMN public.assignments.questions IS 'Numbered questions [{id, number, type, prompt, marks, options}] without answers; NULL for quizzes, whose questions come from get_quiz_questions()';
+COMMENT ON FUNCTION public.get_quiz_questions(UUID) IS 'A quiz''s questions without answers; NULL until the quiz opens or for callers outside the class';
@@ -0,0 +1,10 @@
+-- Re-grade when any file changes, not only the first; the grading worker's page ranges leave the URLs alone.
+-- submission_file_urls() comes from create_submission_versions.sql
+DROP TRIGGER IF EXISTS enqueue_grading_job_on_resubmit ON public.submissions;
+
+CREATE TRIGGER enqueue_grading_job_on_resubmit
+    AFTER UPDATE OF file_url, files ON public.submissions
+    FOR EACH ROW
+    WHEN (OLD.file_url IS DISTINCT FROM NEW.file_url
+          OR public.submission_file_urls(OLD.files) IS DISTINCT FROM public.submission_file_urls(NEW.files))
+    EXECUTE FUNCTION public.enqueue_grading_job();